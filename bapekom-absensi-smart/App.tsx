@@ -7,6 +7,7 @@ import AdminDashboard from './components/AdminDashboard';
 import { loginUser } from './services/userService';
 import { supabase, isSupabaseConfigured } from './services/supabaseClient';
 import { checkSupabaseHealth } from './services/diagnosticService';
+import { fetchSettings, subscribeToSettings } from './services/settingsService';
 
 const App: React.FC = () => {
   // State management
@@ -82,6 +83,13 @@ const App: React.FC = () => {
     };
   }, []);
 
+  // Load shared settings once logged in (RLS hides them before) and keep them live
+  useEffect(() => {
+    if (!currentUser) return;
+    fetchSettings();
+    return subscribeToSettings();
+  }, [currentUser?.id]);
+
   // Handler for the login form submission
   const handleLogin = async (e: FormEvent) => {
     e.preventDefault();
@@ -1,15 +1,29 @@
 import React, { useState, useEffect } from 'react';
 import { toast } from 'react-toastify';
-import { User, AttendanceRecord, DashboardStats, WeeklyStats, SystemSettings, LeaveRequest } from '../types';
-import { getTodaysRecords, getRecentRecords, getAllStats, getWeeklyStats, getUserAttendanceHistory, getAllAttendanceRecords } from '../services/attendanceService';
+import { User, AttendanceMethod, AttendanceRecord, DashboardStats, WeeklyStats, StatsWindow, SystemSettings, SettingsAuditInfo, LeaveApprovalRole, LeaveQuotaMode, LeaveRequest, PunchViolation, MissingClockOutMode } from '../types';
+import { getTodaysRecords, getRecentRecords, getAllStats, getWeeklyStats, getUserAttendanceHistory, getAllAttendanceRecords, getAttendanceInRange, getAttendancePhoto, getReviewQueueCount, isFaceMismatch, isLowLocationTrust } from '../services/attendanceService';
 import { generateDailySummary } from '../services/geminiService';
-import { getUsers, addUser, updateUser, deleteUser } from '../services/userService';
-import { getSettings, saveSettings } from '../services/settingsService';
-import { getLeaveRequests, updateLeaveStatus, getPendingLeaveCount } from '../services/leaveService';
+import { getUsers, addUser, updateUser, deleteUser, setLeaveApprovalRole } from '../services/userService';
+import { fetchSettings, getSettings, getSettingsAudit, saveSettings, subscribeToSettings } from '../services/settingsService';
+import { findPunchViolations } from '../services/punchService';
+import { OFFICE_TIME_ZONES, formatOfficeDateTime, formatOfficeTime, getOfficeMonthRange, getOfficeToday } from '../services/dateService';
+import { getLeaveRequests, updateLeaveStatus, getPendingLeaveCount, canDecideLeave, getCurrentLeaveStep, reviewLeaveCancellation } from '../services/leaveService';
+import { getPendingCorrectionCount } from '../services/correctionService';
+import { LEAVE_TYPES, LeaveBalances, getLeaveBalances } from '../services/leaveBalanceService';
 import DailyStatusChart from './DailyStatusChart';
 import DivisionPieChart from './DivisionPieChart';
 import WeeklyBarChart from './WeeklyBarChart';
 import AttendanceOverview from './AttendanceOverview';
+import WorkHoursReport from './WorkHoursReport';
+import LocationSettings, { validateLocations } from './LocationSettings';
+import ScheduleSettings, { validateSchedules } from './ScheduleSettings';
+import HolidayCalendar from './HolidayCalendar';
+import CorrectionRequests from './CorrectionRequests';
+import ReviewQueue, { TRUST_REASON_LABELS } from './ReviewQueue';
+import AuditLog from './AuditLog';
+import QrKiosk from './QrKiosk';
+import LeaveApprovalSteps, { LEAVE_APPROVAL_ROLE_LABELS, describeLeaveCancellation, getLeaveStatusLabel } from './LeaveApprovalSteps';
+import LeaveAttachment from './LeaveAttachment';
 
 interface AdminDashboardProps {
   user: User;
@@ -41,6 +55,59 @@ const getErrorMessage = (error: unknown): string => {
   return String(error);
 };
 
+// Helper to turn a "YYYY-MM" month value into its [start, end) range in office time
+const getMonthRange = (monthValue: string): { start: Date; end: Date } => {
+  const [year, month] = monthValue.split('-').map(Number);
+  return getOfficeMonthRange(year, month);
+};
+
+// Labels for the "last changed" note in the settings tab
+const SETTINGS_FIELD_LABELS: Record<keyof SystemSettings, string> = {
+  locations: 'Lokasi',
+  schedules: 'Jadwal Kerja',
+  timezone: 'Zona Waktu',
+  maxReentriesPerDay: 'Masuk Kembali',
+  maxOfflineHours: 'Batas Absen Offline',
+  missingClockOutMode: 'Absen Pulang Terlewat',
+  missingClockOutGraceHours: 'Tenggat Absen Pulang',
+  faceMatchThreshold: 'Verifikasi Wajah',
+  attendanceMethods: 'Metode Absensi',
+  leavePolicies: 'Aturan Perizinan',
+  leaveQuotaMode: 'Pengajuan Melebihi Kuota',
+  leaveApprovalChain: 'Alur Persetujuan Izin',
+};
+
+// What leaveService does with a request over its quota
+const LEAVE_QUOTA_MODE_OPTIONS: { value: LeaveQuotaMode; label: string }[] = [
+  { value: 'block', label: 'Tolak pengajuan' },
+  { value: 'flag', label: 'Terima, tandai untuk admin' },
+];
+
+// Approval chains offered for settings.leaveApprovalChain
+const LEAVE_APPROVAL_CHAIN_OPTIONS: { chain: LeaveApprovalRole[]; label: string }[] = [
+  { chain: ['mentor', 'hr'], label: 'Mentor divisi, lalu HR' },
+  { chain: ['hr'], label: 'HR saja' },
+  { chain: ['mentor'], label: 'Mentor divisi saja' },
+  { chain: [], label: 'Langsung oleh admin mana pun' },
+];
+
+// Ways interns may punch (settings.attendanceMethods)
+const ATTENDANCE_METHOD_OPTIONS: { value: AttendanceMethod; label: string; description: string }[] = [
+  { value: 'gps', label: 'GPS + Selfie', description: 'Peserta absen dari ponsel di dalam area lokasi kantor.' },
+  { value: 'qr', label: 'Scan QR Kiosk', description: 'Peserta memindai kode QR yang berganti tiap 30 detik pada layar kiosk kantor. Cocok saat GPS di dalam gedung tidak akurat.' },
+];
+
+// Options for what the missing clock-out job (closeMissingClockOuts.ts) does
+const MISSING_CLOCKOUT_MODES: { value: MissingClockOutMode; label: string; hint: string }[] = [
+  { value: 'flag', label: 'Tandai "lupa absen pulang"', hint: 'Hari tersebut ditandai di riwayat dan rekap, tanpa jam pulang.' },
+  { value: 'auto_close', label: 'Tutup otomatis sesuai jadwal', hint: 'Absen pulang ditambahkan oleh sistem pada jam pulang terjadwal.' },
+  { value: 'correction', label: 'Minta koreksi dari peserta', hint: 'Peserta diminta mengajukan koreksi absen pulang dari dashboard.' },
+];
+
+// Date part of a record's timestamp, shown in office time
+const formatOfficeDate = (timestamp: string): string =>
+  formatOfficeDateTime(timestamp, { day: 'numeric', month: 'numeric', year: 'numeric' });
+
 const AdminDashboard: React.FC<AdminDashboardProps> = ({ user, onLogout }) => {
   // Theme State
   const [darkMode, setDarkMode] = useState(() => {
@@ -51,7 +118,7 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ user, onLogout }) => {
   });
 
   // Navigation State
-  const [activeTab, setActiveTab] = useState<'dashboard' | 'overview' | 'users' | 'settings' | 'leaves' | 'history'>('dashboard');
+  const [activeTab, setActiveTab] = useState<'dashboard' | 'overview' | 'users' | 'settings' | 'leaves' | 'corrections' | 'review' | 'history' | 'holidays' | 'audit'>('dashboard');
   const [isSidebarOpen, setIsSidebarOpen] = useState(false);
 
   // Dashboard State
@@ -59,6 +126,7 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ user, onLogout }) => {
   const [recentRecords, setRecentRecords] = useState<AttendanceRecord[]>([]);
   const [stats, setStats] = useState<DashboardStats | null>(null);
   const [weeklyStats, setWeeklyStats] = useState<WeeklyStats[]>([]);
+  const [statsWindow, setStatsWindow] = useState<StatsWindow>(7);
   const [summary, setSummary] = useState<string>('');
   const [generatingAi, setGeneratingAi] = useState(false);
   const [showLateAlert, setShowLateAlert] = useState(true);
@@ -89,30 +157,37 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ user, onLogout }) => {
   const [loadingAllAttendance, setLoadingAllAttendance] = useState(false);
   
   // History Filter State
-  const [selectedMonth, setSelectedMonth] = useState<string>(() => {
-    const today = new Date();
-    return `${today.getFullYear()}-${String(today.getMonth() + 1).padStart(2, '0')}`;
-  });
+  const [selectedMonth, setSelectedMonth] = useState<string>(() => getOfficeToday().slice(0, 7));
   const [searchName, setSearchName] = useState<string>('');
+  const [showViolations, setShowViolations] = useState(false);
 
   // Settings State
   const [settingsForm, setSettingsForm] = useState<SystemSettings>(getSettings());
   const [settingsSaved, setSettingsSaved] = useState(false);
+  const [showKiosk, setShowKiosk] = useState(false);
+  const [settingsAudit, setSettingsAudit] = useState<SettingsAuditInfo | null>(getSettingsAudit());
+  const [savingSettings, setSavingSettings] = useState(false);
 
   // Leave Management State
   const [leaveRequests, setLeaveRequests] = useState<LeaveRequest[]>([]);
   const [pendingLeaveCount, setPendingLeaveCount] = useState(0);
-  type LeaveFilterType = 'all' | 'pending' | 'approved' | 'rejected';
+  const [leaveBalances, setLeaveBalances] = useState<LeaveBalances | null>(null);
+  type LeaveFilterType = 'all' | 'pending' | 'approved' | 'rejected' | 'cancelled';
   const [leaveFilter, setLeaveFilter] = useState<LeaveFilterType>('pending');
+  const [pendingCorrectionCount, setPendingCorrectionCount] = useState(0);
+  const [reviewQueueCount, setReviewQueueCount] = useState(0);
 
   // Photo Modal State
   const [showPhotoModal, setShowPhotoModal] = useState(false);
   const [selectedPhoto, setSelectedPhoto] = useState<string>('');
 
-  // Rejection Modal State
-  const [showRejectionModal, setShowRejectionModal] = useState(false);
-  const [rejectionReason, setRejectionReason] = useState('');
-  const [leaveRequestToReject, setLeaveRequestToReject] = useState<LeaveRequest | null>(null);
+  // Leave Decision Modal State (comment required when rejecting, optional when approving)
+  const [showLeaveDecisionModal, setShowLeaveDecisionModal] = useState(false);
+  const [leaveDecision, setLeaveDecision] = useState<'approved' | 'rejected'>('rejected');
+  const [leaveComment, setLeaveComment] = useState('');
+  const [leaveRequestToDecide, setLeaveRequestToDecide] = useState<LeaveRequest | null>(null);
+  // Same modal for an intern's cancellation of approved leave
+  const [leaveDecisionKind, setLeaveDecisionKind] = useState<'leave' | 'cancellation'>('leave');
 
   useEffect(() => {
     localStorage.setItem('theme', darkMode ? 'dark' : 'light');
@@ -121,15 +196,34 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ user, onLogout }) => {
   useEffect(() => {
     fetchData();
     fetchUsers();
-    setSettingsForm(getSettings());
+    fetchSettings().then(settings => {
+      setSettingsForm(settings);
+      setSettingsAudit(getSettingsAudit());
+    });
     fetchLeaves();
+    fetchCorrectionCount();
+    fetchReviewQueueCount();
+  }, []);
+
+  // Reflect changes saved by other admins without a reload
+  useEffect(() => {
+    return subscribeToSettings((settings, audit) => {
+      setSettingsForm(settings);
+      setSettingsAudit(audit);
+    });
   }, []);
 
   useEffect(() => {
     if (activeTab === 'history' || activeTab === 'overview') {
       fetchAttendanceHistory();
     }
-  }, [activeTab]);
+  }, [activeTab, selectedMonth]);
+
+  useEffect(() => {
+    getWeeklyStats(statsWindow)
+      .then(setWeeklyStats)
+      .catch(error => toast.error(`Gagal memuat statistik: ${getErrorMessage(error)}`));
+  }, [statsWindow]);
 
   // Auto-reload data every 30 seconds for dashboard tab
   useEffect(() => {
@@ -141,12 +235,13 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ user, onLogout }) => {
 
       return () => clearInterval(interval);
     }
-  }, [activeTab]);
+  }, [activeTab, statsWindow]);
 
   const fetchAttendanceHistory = async () => {
     setLoadingAllAttendance(true);
     try {
-      const data = await getAllAttendanceRecords();
+      const { start, end } = getMonthRange(selectedMonth);
+      const data = await getAttendanceInRange(start, end);
       setAllAttendance(data);
     } catch (error) {
       toast.error("Gagal memuat riwayat absensi: " + getErrorMessage(error));
@@ -155,21 +250,10 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ user, onLogout }) => {
     }
   };
 
-  // Function to filter attendance by month and name
+  // Function to filter attendance by name (the month is already applied by the query)
   const getFilteredAttendance = () => {
     let filtered = allAttendance;
 
-    // Filter by month if selected
-    if (selectedMonth) {
-      const [year, month] = selectedMonth.split('-');
-      filtered = filtered.filter(record => {
-        const recordDate = new Date(record.timestamp);
-        const recordYear = recordDate.getFullYear().toString();
-        const recordMonth = String(recordDate.getMonth() + 1).padStart(2, '0');
-        return recordYear === year && recordMonth === month;
-      });
-    }
-
     // Filter by name if searched
     if (searchName.trim()) {
       filtered = filtered.filter(record =>
@@ -180,12 +264,17 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ user, onLogout }) => {
     return filtered;
   };
 
+  // Reconciliation report for the loaded month (respects the name search)
+  const punchViolations: PunchViolation[] = showViolations
+    ? findPunchViolations(getFilteredAttendance(), settingsForm.maxReentriesPerDay)
+    : [];
+
   // Generate month options (last 12 months)
   const getMonthOptions = () => {
     const months = [];
+    const [currentYear, currentMonth] = getOfficeToday().split('-').map(Number);
     for (let i = 0; i < 12; i++) {
-      const date = new Date();
-      date.setMonth(date.getMonth() - i);
+      const date = new Date(currentYear, currentMonth - 1 - i, 1);
       const year = date.getFullYear();
       const month = String(date.getMonth() + 1).padStart(2, '0');
       const monthName = date.toLocaleString('id-ID', { month: 'long', year: 'numeric' });
@@ -199,7 +288,7 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ user, onLogout }) => {
       const recs = await getTodaysRecords();
       const recent = await getRecentRecords();
       const st = await getAllStats();
-      const weekly = await getWeeklyStats();
+      const weekly = await getWeeklyStats(statsWindow);
 
       setRecords(recs);
       setRecentRecords(recent);
@@ -216,6 +305,21 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ user, onLogout }) => {
     }
   };
 
+  // Photos are not part of list queries, so load the selected one on demand
+  const handleViewPhoto = async (record: AttendanceRecord) => {
+    try {
+      const photo = record.photoUrl || await getAttendancePhoto(record.id);
+      if (!photo) {
+        toast.warn("Foto bukti tidak tersedia.");
+        return;
+      }
+      setSelectedPhoto(photo);
+      setShowPhotoModal(true);
+    } catch (error) {
+      toast.error("Gagal memuat foto: " + getErrorMessage(error));
+    }
+  };
+
   const fetchUsers = async () => {
     try {
       const allUsers = await getUsers();
@@ -228,43 +332,87 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ user, onLogout }) => {
   const fetchLeaves = async () => {
     const leaves = await getLeaveRequests();
     setLeaveRequests(leaves);
+    try {
+      const interns = Array.from(new Map(leaves.map(l => [l.userId, { id: l.userId, division: l.division === '-' ? undefined : l.division }])).values());
+      setLeaveBalances(await getLeaveBalances(interns));
+    } catch (error) {
+      console.error("Error loading leave balances:", error);
+    }
     const count = await getPendingLeaveCount();
     setPendingLeaveCount(count);
   };
 
-  const handleLeaveAction = async (id: string, action: 'approved' | 'rejected', reason?: string) => {
-    if (action === 'rejected' && !reason) {
-      const requestToReject = leaveRequests.find(req => req.id === id);
-      if (requestToReject) {
-        setLeaveRequestToReject(requestToReject);
-        setShowRejectionModal(true);
-      }
+  const fetchCorrectionCount = async () => {
+    setPendingCorrectionCount(await getPendingCorrectionCount());
+  };
+
+  const fetchReviewQueueCount = async () => {
+    setReviewQueueCount(await getReviewQueueCount());
+  };
+
+  const handleLeaveAction = async (id: string, action: 'approved' | 'rejected', comment?: string) => {
+    const request = leaveRequests.find(req => req.id === id);
+    if (!request) return;
+
+    if (comment === undefined) {
+      setLeaveRequestToDecide(request);
+      setLeaveDecisionKind('leave');
+      setLeaveDecision(action);
+      setLeaveComment('');
+      setShowLeaveDecisionModal(true);
       return;
     }
 
     if (confirm(`Apakah Anda yakin ingin ${action === 'approved' ? 'menyetujui' : 'menolak'} pengajuan ini?`)) {
-      const success = await updateLeaveStatus(id, action, reason);
-      if (success) {
-        toast.success(`Pengajuan berhasil ${action === 'approved' ? 'disetujui' : 'ditolak'}`);
+      try {
+        await updateLeaveStatus(id, action, comment);
+        const step = getCurrentLeaveStep(request);
+        const nextStep = request.approvalSteps?.find(s => s.status === 'pending' && s !== step);
+        toast.success(action === 'approved' && step && nextStep
+          ? `Persetujuan ${LEAVE_APPROVAL_ROLE_LABELS[step.role]} tercatat, menunggu ${LEAVE_APPROVAL_ROLE_LABELS[nextStep.role]}`
+          : `Pengajuan berhasil ${action === 'approved' ? 'disetujui' : 'ditolak'}`);
         fetchLeaves();
         fetchData(); // Refresh stats to update Alpa/OnLeave counts
-        if (action === 'rejected') {
-          setShowRejectionModal(false);
-          setRejectionReason('');
-        }
-      } else {
-        toast.error("Gagal memperbarui status pengajuan");
+        setShowLeaveDecisionModal(false);
+        setLeaveComment('');
+      } catch (error: any) {
+        toast.error(error?.message || "Gagal memperbarui status pengajuan");
       }
     }
   };
 
+  const handleCancellationAction = async (id: string, action: 'approved' | 'rejected', note?: string) => {
+    const request = leaveRequests.find(req => req.id === id);
+    if (!request?.cancellation) return;
+
+    if (note === undefined) {
+      setLeaveRequestToDecide(request);
+      setLeaveDecisionKind('cancellation');
+      setLeaveDecision(action);
+      setLeaveComment('');
+      setShowLeaveDecisionModal(true);
+      return;
+    }
+
+    try {
+      await reviewLeaveCancellation(request.id, action, note || undefined);
+      toast.success(`Pembatalan izin ${request.userName} ${action === 'approved' ? 'disetujui' : 'ditolak'}`);
+      fetchLeaves();
+      fetchData(); // Approved cancellations change the Alpa/OnLeave counts
+      setShowLeaveDecisionModal(false);
+      setLeaveComment('');
+    } catch (error: any) {
+      toast.error(error?.message || "Gagal memproses pembatalan izin");
+    }
+  };
+
   const handleGenerateSummary = async () => {
     setGeneratingAi(true);
     setSummary('');
     try {
       const allInterns = usersList.filter(u => u.role === 'intern');
       const presentUserIds = new Set(records.map(r => r.userId));
-      const today = new Date().toISOString().split('T')[0];
+      const today = getOfficeToday();
       const onLeaveUserIds = new Set(
         leaveRequests
           .filter(req => req.status === 'approved' && req.startDate <= today && req.endDate >= today)
@@ -289,18 +437,26 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ user, onLogout }) => {
     }
   };
 
-  const handleExportExcel = () => {
+  const handleExportExcel = async () => {
     if (records.length === 0) {
       toast.warning("Tidak ada data untuk diexport");
       return;
     }
 
-    const headers = ["Waktu", "Nama", "Divisi", "Tipe Absen", "Koordinat", "Status Lokasi", "Terlambat", "URL Foto"];
+    let exportRecords: AttendanceRecord[];
+    try {
+      exportRecords = await getTodaysRecords({ includePhoto: true });
+    } catch (e: any) {
+      toast.error("Gagal mengekspor data: " + getErrorMessage(e));
+      return;
+    }
+
+    const headers = ["Waktu", "Nama", "Divisi", "Tipe Absen", "Metode", "Koordinat", "Status Lokasi", "Terlambat", "Pulang Cepat (Menit)", "URL Foto"];
 
     const csvRows = [
       headers.join(","),
-      ...records.map(r => {
-        const time = new Date(r.timestamp).toLocaleTimeString('id-ID');
+      ...exportRecords.map(r => {
+        const time = formatOfficeTime(r.timestamp);
         const late = r.isLate ? "Ya" : "Tidak";
         const coords = `"${r.location.latitude}, ${r.location.longitude}"`
         return [
@@ -308,9 +464,11 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ user, onLogout }) => {
           `"${r.userName}"`,
           `"${r.division}"`,
           r.type.toUpperCase(),
+          r.method === 'qr' ? "QR" : "GPS",
           coords,
           r.status,
           late,
+          r.isEarlyLeave ? r.earlyLeaveMinutes ?? 0 : "",
           `"${r.photoUrl}"`
         ].join(",");
       })
@@ -321,7 +479,7 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ user, onLogout }) => {
     const url = URL.createObjectURL(blob);
     const link = document.createElement("a");
     link.setAttribute("href", url);
-    link.setAttribute("download", `absensi_bapekom_${new Date().toISOString().split('T')[0]}.csv`);
+    link.setAttribute("download", `absensi_bapekom_${getOfficeToday()}.csv`);
     link.style.visibility = 'hidden';
     document.body.appendChild(link);
     link.click();
@@ -338,7 +496,7 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ user, onLogout }) => {
 
       const allRecords = await getAllAttendanceRecords();
 
-      const headers = ["ID", "Nama Lengkap", "Username", "Divisi", "Role", "Total Hadir (Kali)", "Total Terlambat (Kali)", "Terakhir Absen"];
+      const headers = ["ID", "Nama Lengkap", "Username", "Divisi", "Role", "Total Hadir (Kali)", "Total Terlambat (Kali)", "Total Pulang Cepat (Kali)", "Terakhir Absen"];
 
       const csvRows = [
         headers.join(","),
@@ -346,11 +504,12 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ user, onLogout }) => {
           const userRecords = allRecords.filter(r => r.userId === u.id);
           const presentCount = userRecords.filter(r => r.type === 'in').length;
           const lateCount = userRecords.filter(r => r.type === 'in' && r.isLate).length;
+          const earlyLeaveCount = userRecords.filter(r => r.type === 'out' && r.isEarlyLeave).length;
 
           let lastSeen = "-";
           if (userRecords.length > 0) {
             const latest = userRecords.reduce((prev, current) => (new Date(prev.timestamp) > new Date(current.timestamp)) ? prev : current);
-            lastSeen = new Date(latest.timestamp).toLocaleString('id-ID');
+            lastSeen = formatOfficeDateTime(latest.timestamp);
           }
 
           return [
@@ -361,6 +520,7 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ user, onLogout }) => {
             u.role,
             presentCount,
             lateCount,
+            earlyLeaveCount,
             `"${lastSeen}"`
           ].join(",");
         })
@@ -371,7 +531,7 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ user, onLogout }) => {
       const url = URL.createObjectURL(blob);
       const link = document.createElement("a");
       link.setAttribute("href", url);
-      link.setAttribute("download", `data_magang_bapekom_${new Date().toISOString().split('T')[0]}.csv`);
+      link.setAttribute("download", `data_magang_bapekom_${getOfficeToday()}.csv`);
       link.style.visibility = 'hidden';
       document.body.appendChild(link);
       link.click();
@@ -390,18 +550,31 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ user, onLogout }) => {
     }
 
     try {
-      const headers = ["Waktu", "Nama Magang", "Divisi", "Tipe", "Status", "Latitude", "Longitude", "Terlambat"];
+      const headers = ["Waktu", "Nama Magang", "Divisi", "Tipe", "Status", "Latitude", "Longitude", "Lokasi", "Terlambat", "Pulang Cepat (Menit)", "Lupa Absen Pulang", "Sumber", "Metode", "Review", "Catatan Review", "Ditinjau Oleh", "Ditinjau Pada", "Skor Lokasi", "Alasan Skor Lokasi", "Kecocokan Wajah (%)", "Waktu Terkirim"];
       const csvContent = [
         headers.join(","),
         ...allAttendance.map(r => [
-          new Date(r.timestamp).toLocaleString(),
+          formatOfficeDateTime(r.timestamp),
           `"${r.userName}"`,
           `"${r.division}"`,
           r.type.toUpperCase(),
           r.status.toUpperCase(),
           r.location.latitude,
           r.location.longitude,
-          r.isLate ? "YA" : "TIDAK"
+          `"${r.locationName || ''}"`,
+          r.isLate ? "YA" : "TIDAK",
+          r.isEarlyLeave ? r.earlyLeaveMinutes ?? 0 : "",
+          r.missingClockOut ? "YA" : "",
+          r.source === 'system' ? "SISTEM" : r.source === 'correction' ? "KOREKSI" : "PESERTA",
+          r.method === 'qr' ? "QR" : "GPS",
+          r.reviewStatus === 'accepted' ? "DITERIMA" : r.reviewStatus === 'rejected' ? "DITOLAK" : "",
+          `"${(r.reviewNote || '').replace(/"/g, '""')}"`,
+          `"${r.reviewedByName || ''}"`,
+          r.reviewedAt ? formatOfficeDateTime(r.reviewedAt) : "",
+          r.locationTrustScore ?? "",
+          `"${(r.locationTrustReasons || []).map(reason => TRUST_REASON_LABELS[reason] || reason).join('; ')}"`,
+          r.faceScore != null ? Math.round(r.faceScore * 100) : "",
+          r.syncedLate && r.syncedAt ? formatOfficeDateTime(r.syncedAt) : ""
         ].join(","))
       ].join("\n");
 
@@ -409,7 +582,7 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ user, onLogout }) => {
       const url = URL.createObjectURL(blob);
       const link = document.createElement("a");
       link.setAttribute("href", url);
-      link.setAttribute("download", `riwayat_absensi_${new Date().toISOString().split('T')[0]}.csv`);
+      link.setAttribute("download", `riwayat_absensi_${getOfficeToday()}.csv`);
       link.style.visibility = 'hidden';
       document.body.appendChild(link);
       link.click();
@@ -459,15 +632,15 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ user, onLogout }) => {
     }
   };
 
-  const handleDeleteClick = async (e: React.MouseEvent, user: User) => {
+  const handleDeleteClick = async (e: React.MouseEvent, targetUser: User) => {
     e.stopPropagation();
-    if (window.confirm(`Apakah Anda yakin ingin menghapus user ${user.name}?`)) {
+    if (window.confirm(`Apakah Anda yakin ingin menghapus user ${targetUser.name}?`)) {
       try {
-        await deleteUser(user.id);
+        await deleteUser(targetUser.id);
         fetchUsers();
         fetchData(); // Update stats
-        toast.success(`User ${user.name} berhasil dihapus.`);
-        if (selectedUser?.id === user.id) {
+        toast.success(`User ${targetUser.name} berhasil dihapus.`);
+        if (selectedUser?.id === targetUser.id) {
           setSelectedUser(null);
         }
       } catch (error) {
@@ -476,6 +649,16 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ user, onLogout }) => {
     }
   };
 
+  const handleLeaveApprovalRoleChange = async (targetUser: User, role: LeaveApprovalRole | null) => {
+    const success = await setLeaveApprovalRole(targetUser.id, role);
+    if (success) {
+      toast.success(`Peran persetujuan izin ${targetUser.name} diperbarui.`);
+      fetchUsers();
+    } else {
+      toast.error("Gagal memperbarui peran persetujuan izin.");
+    }
+  };
+
   const handleCloseSidebar = () => {
     setIsClosingSidebar(true);
     setTimeout(() => {
@@ -506,43 +689,58 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ user, onLogout }) => {
     }
   };
 
-  const handleSaveSettings = (e: React.FormEvent) => {
+  const handleSaveSettings = async (e: React.FormEvent) => {
     e.preventDefault();
 
-    const lat = Number(settingsForm.officeLat);
-    const lng = Number(settingsForm.officeLng);
+    const locationError = validateLocations(settingsForm.locations);
+    if (locationError) {
+      toast.error(locationError);
+      return;
+    }
 
-    if (isNaN(lat) || lat < -90 || lat > 90) {
-      toast.error("Latitude tidak valid. Nilai harus antara -90 dan 90.");
+    const scheduleError = validateSchedules(settingsForm.schedules);
+    if (scheduleError) {
+      toast.error(scheduleError);
       return;
     }
-    if (isNaN(lng) || lng < -180 || lng > 180) {
-      toast.error("Longitude tidak valid. Nilai harus antara -180 dan 180.");
+    if (!Number.isInteger(settingsForm.maxReentriesPerDay) || settingsForm.maxReentriesPerDay < 0) {
+      toast.error("'Maks. Masuk Kembali' harus berupa bilangan bulat 0 atau lebih.");
       return;
     }
-
-    const dist = Number(settingsForm.maxDistanceMeters);
-    if (isNaN(dist) || dist <= 0) {
-      toast.error("Jarak maksimum harus berupa angka positif lebih dari 0.");
+    if (!Number.isInteger(settingsForm.maxOfflineHours) || settingsForm.maxOfflineHours < 1) {
+      toast.error("'Batas Absen Offline' harus berupa bilangan bulat minimal 1 jam.");
       return;
     }
-
-    const timeRegex = /^([01]?[0-9]|2[0-3]):[0-5][0-9]$/;
-
-    if (!settingsForm.lateThreshold || !timeRegex.test(settingsForm.lateThreshold)) {
-      toast.error("Waktu 'Batas Telat' tidak valid. Format harus HH:mm (contoh: 07:40).");
+    if (!Number.isInteger(settingsForm.missingClockOutGraceHours) || settingsForm.missingClockOutGraceHours < 0) {
+      toast.error("'Tenggat Absen Pulang' harus berupa bilangan bulat 0 atau lebih.");
+      return;
+    }
+    if (!(settingsForm.faceMatchThreshold >= 0 && settingsForm.faceMatchThreshold <= 1)) {
+      toast.error("'Batas Kecocokan Wajah' harus antara 0 dan 100%.");
+      return;
+    }
+    if (settingsForm.attendanceMethods.length === 0) {
+      toast.error("Pilih minimal satu 'Metode Absensi'.");
       return;
     }
-    if (!settingsForm.clockOutTimeMonThu || !timeRegex.test(settingsForm.clockOutTimeMonThu)) {
-      toast.error("Waktu 'Pulang (Sen-Kam)' tidak valid.");
+    if (LEAVE_TYPES.some(type => {
+      const quota = settingsForm.leavePolicies[type].quotaDays;
+      return quota !== null && (!Number.isInteger(quota) || quota < 0);
+    })) {
+      toast.error("'Kuota Perizinan' harus berupa bilangan bulat 0 atau lebih, atau dikosongkan.");
       return;
     }
-    if (!settingsForm.clockOutTimeFri || !timeRegex.test(settingsForm.clockOutTimeFri)) {
-      toast.error("Waktu 'Pulang (Jum)' tidak valid.");
+    if (LEAVE_TYPES.some(type => {
+      const { maxBackdateDays, minNoticeDays } = settingsForm.leavePolicies[type];
+      return [maxBackdateDays, minNoticeDays].some(days => !Number.isInteger(days) || days < 0);
+    })) {
+      toast.error("'Boleh Mundur' dan 'Diajukan Sebelumnya' harus berupa bilangan bulat 0 atau lebih.");
       return;
     }
 
-    const success = saveSettings(settingsForm);
+    setSavingSettings(true);
+    const success = await saveSettings(settingsForm, user);
+    setSavingSettings(false);
     if (success) {
       setSettingsSaved(true);
       toast.success("Pengaturan berhasil disimpan.");
@@ -552,8 +750,43 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ user, onLogout }) => {
     }
   };
 
+  // "Kuota" row of a leave card: working days of the request and how much of the quota it uses
+  const renderLeaveQuota = (req: LeaveRequest) => {
+    const days = leaveBalances?.daysByLeave.get(req.id);
+    const balance = leaveBalances?.byUser.get(req.userId)?.[req.type];
+    if (days === undefined || !balance) return null;
+
+    const ownPendingDays = req.status === 'pending' ? days : 0;
+    const usedIfApproved = balance.approvedDays + ownPendingDays;
+    const otherPendingDays = balance.pendingDays - ownPendingDays;
+    const exceeds = balance.quotaDays !== null && usedIfApproved > balance.quotaDays;
+    return (
+      <div className="flex gap-4">
+        <span className="font-semibold w-24 text-slate-500 text-xs uppercase tracking-wide">Kuota</span>
+        <span className={exceeds ? 'text-red-600 font-bold' : 'text-slate-800 dark:text-slate-200'}>
+          {days} hari kerja •{' '}
+          {balance.quotaDays === null
+            ? `tidak dibatasi (${usedIfApproved} hari disetujui)`
+            : `${usedIfApproved} dari ${balance.quotaDays} hari terpakai${req.status === 'pending' ? ' jika disetujui' : ''}`}
+          {otherPendingDays > 0 && <span className="text-slate-400 font-normal"> ({otherPendingDays} hari lain menunggu)</span>}
+        </span>
+      </div>
+    );
+  };
+
+  // Who a request is waiting for, shown to admins who can't decide its current step
+  const getLeaveDeciderLabel = (req: LeaveRequest): string => {
+    const step = getCurrentLeaveStep(req);
+    if (!step) return '';
+    return step.role === 'mentor'
+      ? `Menunggu keputusan mentor divisi ${req.division}`
+      : 'Menunggu keputusan HR';
+  };
+
   const filteredLeaves = leaveRequests.filter(req => {
     if (leaveFilter === 'all') return true;
+    // Approved leave with a cancellation to review is waiting on an admin too
+    if (leaveFilter === 'pending' && req.cancellation?.status === 'pending') return true;
     return req.status === leaveFilter;
   });
 
@@ -579,17 +812,23 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ user, onLogout }) => {
             </div>
 
             <nav className="space-y-2">
-              {['dashboard', 'overview', 'users', 'leaves', 'history', 'settings'].map((tab) => (
+              {['dashboard', 'overview', 'users', 'leaves', 'corrections', 'review', 'history', 'holidays', 'audit', 'settings'].map((tab) => (
                 <button
                   key={tab}
                   onClick={() => { setActiveTab(tab as any); setIsSidebarOpen(false); }}
                   className={`w-full flex items-center gap-3 py-3 px-4 rounded-xl transition-all shadow-sm text-left ${activeTab === tab ? 'bg-white/10 text-white' : 'hover:bg-white/5 hover:text-white'}`}
                 >
-                  <i className={`fas fa-${tab === 'dashboard' ? 'home' : tab === 'overview' ? 'chart-line' : tab === 'users' ? 'users' : tab === 'leaves' ? 'envelope-open-text' : tab === 'history' ? 'history' : 'cog'} w-5 text-center`}></i>
-                  <span className="text-sm font-medium capitalize">{tab === 'overview' ? 'Analisis' : tab === 'users' ? 'Data Magang' : tab === 'leaves' ? 'Perizinan' : tab === 'history' ? 'Riwayat Absen' : tab}</span>
+                  <i className={`fas fa-${tab === 'dashboard' ? 'home' : tab === 'overview' ? 'chart-line' : tab === 'users' ? 'users' : tab === 'leaves' ? 'envelope-open-text' : tab === 'corrections' ? 'user-edit' : tab === 'review' ? 'map-marked-alt' : tab === 'history' ? 'history' : tab === 'holidays' ? 'calendar-day' : tab === 'audit' ? 'clipboard-list' : 'cog'} w-5 text-center`}></i>
+                  <span className="text-sm font-medium capitalize">{tab === 'overview' ? 'Analisis' : tab === 'users' ? 'Data Magang' : tab === 'leaves' ? 'Perizinan' : tab === 'corrections' ? 'Koreksi Absen' : tab === 'review' ? 'Tinjau Absensi' : tab === 'history' ? 'Riwayat Absen' : tab === 'holidays' ? 'Hari Libur' : tab === 'audit' ? 'Audit Log' : tab}</span>
                   {tab === 'leaves' && pendingLeaveCount > 0 && (
                     <span className="ml-auto bg-red-500 text-white text-[10px] font-bold px-2 py-0.5 rounded-full">{pendingLeaveCount}</span>
                   )}
+                  {tab === 'corrections' && pendingCorrectionCount > 0 && (
+                    <span className="ml-auto bg-red-500 text-white text-[10px] font-bold px-2 py-0.5 rounded-full">{pendingCorrectionCount}</span>
+                  )}
+                  {tab === 'review' && reviewQueueCount > 0 && (
+                    <span className="ml-auto bg-red-500 text-white text-[10px] font-bold px-2 py-0.5 rounded-full">{reviewQueueCount}</span>
+                  )}
                 </button>
               ))}
             </nav>
@@ -705,7 +944,7 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ user, onLogout }) => {
               </div>
 
               <div className="w-full">
-                <WeeklyBarChart stats={weeklyStats} />
+                <WeeklyBarChart stats={weeklyStats} days={statsWindow} onDaysChange={setStatsWindow} />
               </div>
 
               <div className="bg-white dark:bg-slate-900 rounded-2xl p-6 border dark:border-slate-800 shadow-sm">
@@ -745,7 +984,7 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ user, onLogout }) => {
                       <tbody>
                         {recentRecords.map(r => (
                           <tr key={r.id} className="border-b dark:border-slate-800 last:border-0 hover:bg-slate-50 dark:hover:bg-slate-800/50 transition-colors">
-                            <td className="py-3 pl-2 dark:text-slate-300 font-mono">{new Date(r.timestamp).toLocaleTimeString()}</td>
+                            <td className="py-3 pl-2 dark:text-slate-300 font-mono">{formatOfficeTime(r.timestamp)}</td>
                             <td className="py-3">
                               <div className="font-bold dark:text-white">{r.userName}</div>
                               <div className="text-[10px] text-slate-400 uppercase font-semibold">{r.division}</div>
@@ -754,12 +993,17 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ user, onLogout }) => {
                               <div className="flex gap-1">
                                 <span className={`px-2 py-0.5 rounded text-[10px] font-bold uppercase ${r.type === 'in' ? 'bg-blue-50 text-blue-600 border border-blue-100' : 'bg-orange-50 text-orange-600 border border-orange-100'}`}>{r.type}</span>
                                 {r.isLate && r.type === 'in' && <span className="px-2 py-0.5 rounded text-[10px] font-bold uppercase bg-red-50 text-red-600 border border-red-100">Telat</span>}
+                                {r.isEarlyLeave && r.type === 'out' && <span className="px-2 py-0.5 rounded text-[10px] font-bold uppercase bg-orange-50 text-orange-600 border border-orange-100">Pulang Cepat</span>}
+                                {r.missingClockOut && r.type === 'in' && <span className="px-2 py-0.5 rounded text-[10px] font-bold uppercase bg-purple-50 text-purple-600 border border-purple-100">Lupa Pulang</span>}
+                                {r.source === 'system' && <span className="px-2 py-0.5 rounded text-[10px] font-bold uppercase bg-slate-100 text-slate-500 border border-slate-200">Sistem</span>}
+                                {r.source === 'correction' && <span className="px-2 py-0.5 rounded text-[10px] font-bold uppercase bg-emerald-50 text-emerald-600 border border-emerald-100">Koreksi</span>}
+                                {isLowLocationTrust(r) && <span className="px-2 py-0.5 rounded text-[10px] font-bold uppercase bg-red-50 text-red-600 border border-red-100" title="Lokasi diragukan, cek di Tinjau Absensi">GPS?</span>}
                               </div>
                             </td>
                             <td className="py-3 text-right pr-2">
-                              <div className="w-10 h-10 ml-auto bg-slate-100 dark:bg-slate-800 rounded-lg overflow-hidden cursor-pointer border dark:border-slate-700 shadow-sm hover:scale-110 transition-transform" onClick={() => window.open(r.photoUrl, '_blank')}>
-                                <img src={r.photoUrl} alt="Bukti" className="w-full h-full object-cover" />
-                              </div>
+                              <button className="w-10 h-10 ml-auto bg-slate-100 dark:bg-slate-800 text-slate-400 hover:text-blue-500 rounded-lg flex items-center justify-center border dark:border-slate-700 shadow-sm hover:scale-110 transition-transform" onClick={() => handleViewPhoto(r)} title="Lihat Bukti">
+                                <i className="fas fa-image"></i>
+                              </button>
                             </td>
                           </tr>
                         ))}
@@ -819,6 +1063,23 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ user, onLogout }) => {
                             }`}>
                               {u.role === 'super-admin' ? 'Super Admin' : u.role === 'admin' ? 'Admin' : 'Intern'}
                             </span>
+                            {u.role === 'admin' && (isSuperAdmin(user) ? (
+                              <select
+                                className="ml-2 bg-slate-50 dark:bg-slate-800 px-2 py-1 rounded text-[10px] font-bold border-none focus:ring-2 focus:ring-blue-500 dark:text-white"
+                                title="Peran dalam persetujuan izin"
+                                value={u.leaveApprovalRole || ''}
+                                onClick={e => e.stopPropagation()}
+                                onChange={e => handleLeaveApprovalRoleChange(u, (e.target.value || null) as LeaveApprovalRole | null)}
+                              >
+                                <option value="">Tanpa Peran Izin</option>
+                                <option value="mentor">Mentor Izin</option>
+                                <option value="hr">HR Izin</option>
+                              </select>
+                            ) : u.leaveApprovalRole && (
+                              <span className="ml-2 px-2 py-1 rounded text-[10px] font-bold uppercase bg-slate-100 text-slate-600 dark:bg-slate-800 dark:text-slate-300">
+                                {LEAVE_APPROVAL_ROLE_LABELS[u.leaveApprovalRole]}
+                              </span>
+                            ))}
                           </td>
                           <td className="px-6 py-4 text-center">
                             {isSuperAdmin(user) && u.role !== 'super-admin' && (
@@ -841,9 +1102,22 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ user, onLogout }) => {
                   <h1 className="text-2xl md:text-3xl font-bold text-slate-800 dark:text-slate-100 tracking-tight">Analisis Absensi</h1>
                   <p className="text-slate-400 dark:text-slate-500 text-sm mt-1">Data riwayat absensi dan analisis kehadiran peserta magang.</p>
                 </div>
-                <button onClick={fetchAttendanceHistory} className="w-10 h-10 bg-slate-100 dark:bg-slate-800 text-slate-500 rounded-xl flex items-center justify-center hover:bg-slate-200 transition-colors" title="Refresh Data">
-                  <i className={`fas fa-sync-alt ${loadingAllAttendance ? 'fa-spin' : ''}`}></i>
-                </button>
+                <div className="flex gap-3">
+                  <select
+                    value={selectedMonth}
+                    onChange={e => setSelectedMonth(e.target.value)}
+                    className="px-4 py-2 bg-white dark:bg-slate-800 text-slate-900 dark:text-white rounded-xl border border-slate-200 dark:border-slate-700 focus:ring-2 focus:ring-blue-500 outline-none text-sm font-semibold"
+                  >
+                    {getMonthOptions().map(option => (
+                      <option key={option.value} value={option.value}>
+                        {option.label}
+                      </option>
+                    ))}
+                  </select>
+                  <button onClick={fetchAttendanceHistory} className="w-10 h-10 bg-slate-100 dark:bg-slate-800 text-slate-500 rounded-xl flex items-center justify-center hover:bg-slate-200 transition-colors" title="Refresh Data">
+                    <i className={`fas fa-sync-alt ${loadingAllAttendance ? 'fa-spin' : ''}`}></i>
+                  </button>
+                </div>
               </div>
               {loadingAllAttendance ? (
                 <div className="text-center py-20">
@@ -853,6 +1127,7 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ user, onLogout }) => {
               ) : (
                 <AttendanceOverview allAttendance={allAttendance} users={usersList} />
               )}
+              <WorkHoursReport month={selectedMonth} />
             </div>
           )}
 
@@ -866,13 +1141,13 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ user, onLogout }) => {
               </div>
 
               <div className="bg-white dark:bg-slate-900 p-1 rounded-xl shadow-sm border dark:border-slate-800 flex mb-6">
-                {['pending', 'approved', 'rejected', 'all'].map(filter => (
+                {['pending', 'approved', 'rejected', 'cancelled', 'all'].map(filter => (
                   <button
                     key={filter}
                     onClick={() => setLeaveFilter(filter as LeaveFilterType)}
                     className={`flex-1 py-2 text-xs font-bold rounded-lg transition-all capitalize ${leaveFilter === filter ? 'bg-slate-900 text-white shadow-md' : 'text-slate-500 hover:bg-slate-50 dark:hover:bg-slate-800'}`}
                   >
-                    {filter === 'all' ? 'Semua' : filter === 'pending' ? 'Menunggu' : filter === 'approved' ? 'Disetujui' : 'Ditolak'}
+                    {filter === 'all' ? 'Semua' : filter === 'pending' ? 'Menunggu' : filter === 'approved' ? 'Disetujui' : filter === 'cancelled' ? 'Dibatalkan' : 'Ditolak'}
                   </button>
                 ))}
               </div>
@@ -886,13 +1161,10 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ user, onLogout }) => {
                 ) : (
                   <div className="grid grid-cols-1 gap-4">
                     {filteredLeaves.map(req => (
-                      <div key={req.id} className={`bg-white dark:bg-slate-900 p-6 rounded-2xl border shadow-sm flex flex-col md:flex-row gap-6 ${req.status === 'pending' ? 'border-amber-200 dark:border-amber-900/50 shadow-amber-500/5' : req.status === 'approved' ? 'border-emerald-200 dark:border-emerald-900/50 shadow-emerald-500/5' : 'border-red-200 dark:border-red-900/50 shadow-red-500/5'}`}>
-                        <div className="w-full md:w-32 h-32 flex-shrink-0 bg-slate-100 dark:bg-slate-800 rounded-xl overflow-hidden cursor-pointer border dark:border-slate-700 relative group" onClick={() => req.attachmentUrl && window.open(req.attachmentUrl, '_blank')}>
+                      <div key={req.id} className={`bg-white dark:bg-slate-900 p-6 rounded-2xl border shadow-sm flex flex-col md:flex-row gap-6 ${req.status === 'pending' ? 'border-amber-200 dark:border-amber-900/50 shadow-amber-500/5' : req.status === 'approved' ? 'border-emerald-200 dark:border-emerald-900/50 shadow-emerald-500/5' : req.status === 'cancelled' ? 'border-slate-200 dark:border-slate-800' : 'border-red-200 dark:border-red-900/50 shadow-red-500/5'}`}>
+                        <div className="w-full md:w-32 h-32 flex-shrink-0 bg-slate-100 dark:bg-slate-800 rounded-xl overflow-hidden border dark:border-slate-700">
                           {req.attachmentUrl ? (
-                            <>
-                              <img src={req.attachmentUrl} alt="Bukti" className="w-full h-full object-cover group-hover:scale-110 transition-transform duration-500" />
-                              <div className="absolute inset-0 bg-black/30 flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity"><i className="fas fa-search-plus text-white"></i></div>
-                            </>
+                            <LeaveAttachment attachment={req.attachmentUrl} className="w-full h-full" />
                           ) : (
                             <div className="w-full h-full flex flex-col items-center justify-center text-slate-400 text-xs">
                               <i className="fas fa-image mb-1 text-2xl opacity-20"></i> No Image
@@ -904,15 +1176,21 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ user, onLogout }) => {
                           <div className="flex justify-between items-start mb-2">
                             <div>
                               <h3 className="font-bold text-lg text-slate-800 dark:text-white">{req.userName}</h3>
-                              <p className="text-xs text-slate-500 uppercase font-semibold tracking-wide">{req.division} • {new Date(req.requestDate).toLocaleDateString()}</p>
+                              <p className="text-xs text-slate-500 uppercase font-semibold tracking-wide">{req.division} • {formatOfficeDate(req.requestDate)}</p>
                             </div>
                             <span className={`px-3 py-1 rounded-lg text-xs font-bold uppercase ${req.status === 'pending' ? 'bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-400' :
                               req.status === 'approved' ? 'bg-emerald-100 text-emerald-700 dark:bg-emerald-900/30 dark:text-emerald-400' :
-                                'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400'
+                                req.status === 'cancelled' ? 'bg-slate-100 text-slate-500 dark:bg-slate-800 dark:text-slate-400' :
+                                  'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400'
                               }`}>
-                              {req.status === 'pending' ? 'Menunggu' : req.status === 'approved' ? 'Disetujui' : 'Ditolak'}
+                              {getLeaveStatusLabel(req)}
                             </span>
                           </div>
+                          {req.exceedsQuota && (
+                            <span className="inline-block mb-2 px-2 py-0.5 rounded text-[10px] font-bold uppercase bg-red-50 text-red-600 border border-red-100" title="Diajukan melebihi sisa kuota">
+                              <i className="fas fa-exclamation-triangle mr-1"></i>Melebihi Kuota
+                            </span>
+                          )}
 
                           <div className="bg-slate-50 dark:bg-slate-800/50 p-4 rounded-xl mb-4 text-sm space-y-2 border border-slate-100 dark:border-slate-700">
                             <div className="flex gap-4">
@@ -927,19 +1205,59 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ user, onLogout }) => {
                               <span className="font-semibold w-24 text-slate-500 text-xs uppercase tracking-wide">Alasan</span>
                               <span className="text-slate-800 dark:text-slate-200 italic">"{req.reason}"</span>
                             </div>
+                            {renderLeaveQuota(req)}
                           </div>
 
+                          {(req.approvalSteps?.length ?? 0) > 0 && (
+                            <div className="mb-4">
+                              <LeaveApprovalSteps leave={req} />
+                            </div>
+                          )}
+
+                          {req.cancellation && (
+                            <div className={`mb-4 p-3 rounded-xl text-xs border ${req.cancellation.status === 'pending' ? 'bg-amber-50 border-amber-100 text-amber-700 dark:bg-amber-900/20 dark:border-amber-900/50 dark:text-amber-400' : 'bg-slate-50 border-slate-100 text-slate-600 dark:bg-slate-800/50 dark:border-slate-700 dark:text-slate-400'}`}>
+                              <p className="font-bold"><i className="fas fa-ban mr-1"></i>{describeLeaveCancellation(req)}</p>
+                              {req.cancellation.status === 'pending' && req.cancellation.fromDate > req.startDate && (
+                                <p>Izin akan berakhir sehari sebelum {req.cancellation.fromDate}.</p>
+                              )}
+                              {req.cancellation.reason && <p className="italic">Alasan peserta: "{req.cancellation.reason}"</p>}
+                              {req.cancellation.reviewNote && <p className="italic">Catatan: "{req.cancellation.reviewNote}"</p>}
+                            </div>
+                          )}
+
+                          {req.status === 'approved' && req.cancellation?.status === 'pending' && (
+                            <div className="flex gap-3 justify-end items-center">
+                              <button
+                                onClick={() => handleCancellationAction(req.id, 'rejected')}
+                                className="px-4 py-2 bg-white border border-slate-200 dark:bg-slate-800 dark:border-slate-700 hover:bg-red-50 dark:hover:bg-red-900/20 text-slate-600 dark:text-slate-300 hover:text-red-600 dark:hover:text-red-400 rounded-lg text-sm font-bold transition-all"
+                              >
+                                Tolak Pembatalan
+                              </button>
+                              <button
+                                onClick={() => handleCancellationAction(req.id, 'approved')}
+                                className="px-6 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg text-sm font-bold shadow-lg shadow-blue-500/20 transition-all transform active:scale-95"
+                              >
+                                Setujui Pembatalan
+                              </button>
+                            </div>
+                          )}
+
                           {req.status === 'pending' && (
-                            <div className="flex gap-3 justify-end">
+                            <div className="flex gap-3 justify-end items-center">
+                              {!canDecideLeave(user, req) && (
+                                <span className="text-xs text-slate-400 mr-auto">{getLeaveDeciderLabel(req)}</span>
+                              )}
                               <button
                                 onClick={() => handleLeaveAction(req.id, 'rejected')}
-                                className="px-4 py-2 bg-white border border-slate-200 dark:bg-slate-800 dark:border-slate-700 hover:bg-red-50 dark:hover:bg-red-900/20 text-slate-600 dark:text-slate-300 hover:text-red-600 dark:hover:text-red-400 rounded-lg text-sm font-bold transition-all"
+                                disabled={!canDecideLeave(user, req)}
+                                className="px-4 py-2 bg-white border border-slate-200 dark:bg-slate-800 dark:border-slate-700 hover:bg-red-50 dark:hover:bg-red-900/20 text-slate-600 dark:text-slate-300 hover:text-red-600 dark:hover:text-red-400 rounded-lg text-sm font-bold transition-all disabled:opacity-50 disabled:pointer-events-none"
                               >
                                 Tolak
                               </button>
                               <button
                                 onClick={() => handleLeaveAction(req.id, 'approved')}
-                                className="px-6 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg text-sm font-bold shadow-lg shadow-blue-500/20 transition-all transform active:scale-95"
+                                disabled={!canDecideLeave(user, req)}
+                                className="px-6 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg text-sm font-bold shadow-lg shadow-blue-500/20 transition-all transform active:scale-95 disabled:opacity-50 disabled:pointer-events-none"
                               >
                                 Setujui
                               </button>
@@ -954,6 +1272,30 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ user, onLogout }) => {
             </div>
           )}
 
+          {activeTab === 'corrections' && (
+            <div className="animate-fade-in">
+              <div className="flex justify-between items-end mb-8">
+                <div>
+                  <h1 className="text-2xl md:text-3xl font-bold text-slate-800 dark:text-slate-100 tracking-tight">Koreksi Absensi</h1>
+                  <p className="text-slate-400 dark:text-slate-500 text-sm mt-1">Pengajuan peserta magang untuk absen yang terlewat atau jam yang salah tercatat.</p>
+                </div>
+              </div>
+              <CorrectionRequests onReviewed={() => { fetchCorrectionCount(); fetchData(); }} />
+            </div>
+          )}
+
+          {activeTab === 'review' && (
+            <div className="animate-fade-in">
+              <div className="flex justify-between items-end mb-8">
+                <div>
+                  <h1 className="text-2xl md:text-3xl font-bold text-slate-800 dark:text-slate-100 tracking-tight">Tinjau Absensi</h1>
+                  <p className="text-slate-400 dark:text-slate-500 text-sm mt-1">Absen di luar area kantor, dengan wajah yang kurang cocok dengan foto profil, atau dengan lokasi yang diragukan (kemungkinan GPS palsu). Absen yang ditolak tidak dihitung dalam rekap.</p>
+                </div>
+              </div>
+              <ReviewQueue reviewer={user} users={usersList} onReviewed={() => { fetchReviewQueueCount(); fetchData(); }} />
+            </div>
+          )}
+
           {activeTab === 'history' && (
             <div className="animate-fade-in">
               <div className="flex justify-between items-end mb-6">
@@ -985,12 +1327,51 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ user, onLogout }) => {
                   <button onClick={fetchAttendanceHistory} className="w-10 h-10 bg-slate-100 dark:bg-slate-800 text-slate-500 rounded-xl flex items-center justify-center hover:bg-slate-200 transition-colors" title="Refresh Data">
                     <i className={`fas fa-sync-alt ${loadingAllAttendance ? 'fa-spin' : ''}`}></i>
                   </button>
+                  <button onClick={() => setShowViolations(!showViolations)} className={`px-4 py-2 rounded-xl flex items-center justify-center gap-2 transition-colors text-sm font-bold ${showViolations ? 'bg-amber-500 text-white' : 'bg-amber-50 dark:bg-amber-900/20 text-amber-700 dark:text-amber-400 hover:bg-amber-100'}`} title="Cek absensi yang tidak urut">
+                    <i className="fas fa-clipboard-check"></i> Rekonsiliasi
+                  </button>
                   <button onClick={handleExportAttendanceData} className="px-4 py-2 bg-emerald-600 text-white rounded-xl shadow-lg flex items-center justify-center gap-2 hover:bg-emerald-700 transition-colors text-sm font-bold">
                     <i className="fas fa-file-csv"></i> Export CSV
                   </button>
                 </div>
               </div>
 
+              {showViolations && (
+                <div className="bg-white dark:bg-slate-900 rounded-2xl shadow-sm border border-amber-200 dark:border-amber-900/50 overflow-hidden mb-6">
+                  <div className="px-6 py-4 bg-amber-50 dark:bg-amber-900/20 border-b border-amber-100 dark:border-amber-900/50">
+                    <h3 className="font-bold text-amber-800 dark:text-amber-300">Rekonsiliasi Absensi</h3>
+                    <p className="text-xs text-amber-700/80 dark:text-amber-400/80 mt-1">Absensi pada bulan terpilih yang melanggar urutan Masuk → Pulang (duplikat atau tidak berurutan).</p>
+                  </div>
+                  {punchViolations.length === 0 ? (
+                    <div className="px-6 py-6 text-center text-sm text-slate-400 italic">Tidak ada pelanggaran ditemukan.</div>
+                  ) : (
+                    <table className="w-full text-sm text-left">
+                      <thead className="bg-slate-50 dark:bg-slate-800 text-slate-500 uppercase text-[10px] font-bold tracking-wider">
+                        <tr>
+                          <th className="px-6 py-3">Tanggal</th>
+                          <th className="px-6 py-3">Nama Magang</th>
+                          <th className="px-6 py-3">Tipe</th>
+                          <th className="px-6 py-3">Masalah</th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y dark:divide-slate-800">
+                        {punchViolations.map(v => (
+                          <tr key={v.recordId}>
+                            <td className="px-6 py-3 whitespace-nowrap">
+                              <div className="font-bold dark:text-white">{v.date}</div>
+                              <div className="text-[10px] text-slate-400 font-mono">{formatOfficeTime(v.timestamp)}</div>
+                            </td>
+                            <td className="px-6 py-3 font-bold dark:text-white">{v.userName}</td>
+                            <td className="px-6 py-3 text-xs font-bold uppercase">{v.type === 'in' ? 'Masuk' : 'Pulang'}</td>
+                            <td className="px-6 py-3 text-xs text-amber-700 dark:text-amber-400">{v.message}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  )}
+                </div>
+              )}
+
               <div className="bg-white dark:bg-slate-900 rounded-2xl shadow-sm border dark:border-slate-800 overflow-hidden">
                 {searchName && (
                   <div className="px-6 py-3 bg-blue-50 dark:bg-blue-900/20 border-b dark:border-slate-800 text-sm text-blue-700 dark:text-blue-300">
@@ -1021,8 +1402,8 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ user, onLogout }) => {
                         getFilteredAttendance().map(r => (
                           <tr key={r.id} className="hover:bg-slate-50 dark:hover:bg-slate-800/30 transition-colors">
                             <td className="px-6 py-4 whitespace-nowrap">
-                              <div className="font-bold dark:text-white">{new Date(r.timestamp).toLocaleDateString()}</div>
-                              <div className="text-[10px] text-slate-400 font-mono">{new Date(r.timestamp).toLocaleTimeString()}</div>
+                              <div className="font-bold dark:text-white">{formatOfficeDate(r.timestamp)}</div>
+                              <div className="text-[10px] text-slate-400 font-mono">{formatOfficeTime(r.timestamp)}</div>
                             </td>
                             <td className="px-6 py-4">
                               <div className="font-bold dark:text-white">{r.userName}</div>
@@ -1032,17 +1413,45 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ user, onLogout }) => {
                               <div className="flex flex-col gap-1">
                                 <span className={`w-fit px-2 py-0.5 rounded text-[10px] font-bold uppercase ${r.type === 'in' ? 'bg-blue-50 text-blue-600 border border-blue-100' : 'bg-orange-50 text-orange-600 border border-orange-100'}`}>{r.type === 'in' ? 'Masuk' : 'Pulang'}</span>
                                 {r.isLate && r.type === 'in' && <span className="w-fit px-2 py-0.5 rounded text-[10px] font-bold uppercase bg-red-50 text-red-600 border border-red-100 italic">Terlambat</span>}
+                                {r.isEarlyLeave && r.type === 'out' && <span className="w-fit px-2 py-0.5 rounded text-[10px] font-bold uppercase bg-orange-50 text-orange-600 border border-orange-100 italic">Pulang Cepat {r.earlyLeaveMinutes} mnt</span>}
+                                {r.missingClockOut && r.type === 'in' && <span className="w-fit px-2 py-0.5 rounded text-[10px] font-bold uppercase bg-purple-50 text-purple-600 border border-purple-100 italic">Lupa Absen Pulang</span>}
+                                {r.source === 'system' && <span className="w-fit px-2 py-0.5 rounded text-[10px] font-bold uppercase bg-slate-100 text-slate-500 border border-slate-200" title="Ditambahkan otomatis karena peserta lupa absen pulang">Ditutup Sistem</span>}
+                                {r.source === 'correction' && <span className="w-fit px-2 py-0.5 rounded text-[10px] font-bold uppercase bg-emerald-50 text-emerald-600 border border-emerald-100" title="Dari pengajuan koreksi yang disetujui admin">Dikoreksi</span>}
+                                {r.method === 'qr' && <span className="w-fit px-2 py-0.5 rounded text-[10px] font-bold uppercase bg-slate-800 text-white" title="Scan QR di layar kiosk kantor"><i className="fas fa-qrcode mr-1"></i>QR</span>}
+                                {r.syncedLate && r.syncedAt && (
+                                  <span className="w-fit px-2 py-0.5 rounded text-[10px] font-bold uppercase bg-amber-50 text-amber-600 border border-amber-100" title={`Diambil ${formatOfficeDateTime(r.timestamp)}, terkirim ${formatOfficeDateTime(r.syncedAt)}`}>
+                                    <i className="fas fa-cloud-upload-alt mr-1"></i>Terkirim {formatOfficeTime(r.syncedAt)}
+                                  </span>
+                                )}
                               </div>
                             </td>
                             <td className="px-6 py-4">
                               <span className={`px-2 py-1 rounded text-[10px] font-bold uppercase ${r.status === 'valid' ? 'bg-emerald-50 text-emerald-600 border border-emerald-100 font-mono' : 'bg-red-50 text-red-600 border border-red-100 font-mono'}`}>
                                 {r.status}
                               </span>
+                              {r.reviewStatus && (
+                                <span className={`ml-1 px-2 py-1 rounded text-[10px] font-bold uppercase ${r.reviewStatus === 'accepted' ? 'bg-emerald-50 text-emerald-600 border border-emerald-100' : 'bg-slate-100 text-slate-500 border border-slate-200 line-through'}`} title={`${r.reviewNote ? r.reviewNote + ' — ' : ''}${r.reviewedByName || 'Admin'}, ${r.reviewedAt ? formatOfficeDateTime(r.reviewedAt) : ''}`}>
+                                  {r.reviewStatus === 'accepted' ? 'Diterima' : 'Ditolak'}
+                                </span>
+                              )}
+                              {isFaceMismatch(r) && (
+                                <span className="ml-1 px-2 py-1 rounded text-[10px] font-bold uppercase bg-amber-50 text-amber-600 border border-amber-100" title="Selfie kurang cocok dengan foto profil">
+                                  <i className="fas fa-user-times mr-1"></i>Wajah {Math.round((r.faceScore ?? 0) * 100)}%
+                                </span>
+                              )}
+                              {isLowLocationTrust(r) && (
+                                <span className="ml-1 px-2 py-1 rounded text-[10px] font-bold uppercase bg-red-50 text-red-600 border border-red-100" title={(r.locationTrustReasons || []).map(reason => TRUST_REASON_LABELS[reason] || reason).join(', ')}>
+                                  <i className="fas fa-user-secret mr-1"></i>Lokasi Diragukan {r.locationTrustScore}
+                                </span>
+                              )}
+                              {r.locationName && (
+                                <div className="text-[10px] text-slate-400 mt-1"><i className="fas fa-map-marker-alt mr-1"></i>{r.locationName}</div>
+                              )}
                             </td>
                             <td className="px-6 py-4 text-right">
-                              <div className="w-10 h-10 ml-auto bg-slate-100 dark:bg-slate-800 rounded-lg overflow-hidden cursor-pointer border dark:border-slate-700 shadow-sm hover:scale-110 transition-transform" onClick={() => { setSelectedPhoto(r.photoUrl); setShowPhotoModal(true); }}>
-                                <img src={r.photoUrl} alt="Bukti" className="w-full h-full object-cover" />
-                              </div>
+                              <button className="w-10 h-10 ml-auto bg-slate-100 dark:bg-slate-800 text-slate-400 hover:text-blue-500 rounded-lg flex items-center justify-center border dark:border-slate-700 shadow-sm hover:scale-110 transition-transform" onClick={() => handleViewPhoto(r)} title="Lihat Bukti">
+                                <i className="fas fa-image"></i>
+                              </button>
                             </td>
                           </tr>
                         ))
@@ -1054,91 +1463,285 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ user, onLogout }) => {
             </div>
           )}
 
+          {activeTab === 'holidays' && (
+            <div className="animate-fade-in max-w-3xl">
+              <h1 className="text-2xl md:text-3xl font-bold mb-2 dark:text-white">Kalender Hari Libur</h1>
+              <p className="text-xs text-slate-500 dark:text-slate-400 mb-8">Libur nasional, cuti bersama dan libur kantor tidak dihitung sebagai hari kerja maupun alpa.</p>
+              <HolidayCalendar userId={user.id} />
+            </div>
+          )}
+
+          {activeTab === 'audit' && (
+            <div className="animate-fade-in">
+              <h1 className="text-2xl md:text-3xl font-bold mb-2 dark:text-white">Audit Log</h1>
+              <p className="text-xs text-slate-500 dark:text-slate-400 mb-8">Catatan semua perubahan oleh admin: pengguna, perizinan, pengaturan, hari libur dan peninjauan absensi. Catatan tidak dapat diubah atau dihapus.</p>
+              <AuditLog users={usersList} />
+            </div>
+          )}
+
           {activeTab === 'settings' && (
             <div className="animate-fade-in max-w-2xl">
-              <h1 className="text-2xl md:text-3xl font-bold mb-8 dark:text-white">Pengaturan Sistem</h1>
+              <h1 className="text-2xl md:text-3xl font-bold mb-2 dark:text-white">Pengaturan Sistem</h1>
+              <p className="text-xs text-slate-500 dark:text-slate-400 mb-8">
+                {settingsAudit?.updatedAt ? (
+                  <>
+                    <i className="fas fa-history mr-1"></i>
+                    Terakhir diubah oleh <span className="font-bold">{settingsAudit.updatedByName || 'Sistem'}</span> pada {formatOfficeDateTime(settingsAudit.updatedAt)}
+                    {settingsAudit.changedFields.length > 0 && (
+                      <> ({settingsAudit.changedFields.map(field => SETTINGS_FIELD_LABELS[field] || field).join(', ')})</>
+                    )}
+                  </>
+                ) : 'Belum ada riwayat perubahan.'}
+              </p>
               <form onSubmit={handleSaveSettings} className="space-y-6">
                 <div className="bg-white dark:bg-slate-900 p-6 rounded-3xl border dark:border-slate-800 shadow-sm">
-                  <h3 className="font-bold mb-4 dark:text-white border-b dark:border-slate-700 pb-2">Lokasi Kantor</h3>
-                  <div className="grid grid-cols-2 gap-4">
-                    <div>
-                      <label className="text-xs font-bold text-slate-500 uppercase block mb-1">Latitude</label>
-                      <input
-                        type="number"
-                        step="any"
-                        min="-90"
-                        max="90"
-                        className="bg-slate-50 dark:bg-slate-800 p-3 rounded-xl w-full text-sm border-none focus:ring-2 focus:ring-blue-500 dark:text-white"
-                        value={settingsForm.officeLat}
-                        onChange={e => setSettingsForm({ ...settingsForm, officeLat: parseFloat(e.target.value) })
-                        }
-                      />
-                    </div>
-                    <div>
-                      <label className="text-xs font-bold text-slate-500 uppercase block mb-1">Longitude</label>
-                      <input
-                        type="number"
-                        step="any"
-                        min="-180"
-                        max="180"
-                        className="bg-slate-50 dark:bg-slate-800 p-3 rounded-xl w-full text-sm border-none focus:ring-2 focus:ring-blue-500 dark:text-white"
-                        value={settingsForm.officeLng}
-                        onChange={e => setSettingsForm({ ...settingsForm, officeLng: parseFloat(e.target.value) })
-                        }
-                      />
-                    </div>
+                  <h3 className="font-bold mb-4 dark:text-white border-b dark:border-slate-700 pb-2">Lokasi Absensi</h3>
+                  <LocationSettings
+                    locations={settingsForm.locations}
+                    users={usersList}
+                    onChange={locations => setSettingsForm({ ...settingsForm, locations })}
+                  />
+                </div>
+
+                <div className="bg-white dark:bg-slate-900 p-6 rounded-3xl border dark:border-slate-800 shadow-sm">
+                  <h3 className="font-bold mb-4 dark:text-white border-b dark:border-slate-700 pb-2">Jadwal Kerja</h3>
+                  <ScheduleSettings
+                    schedules={settingsForm.schedules}
+                    users={usersList}
+                    onChange={schedules => setSettingsForm({ ...settingsForm, schedules })}
+                  />
+                </div>
+
+                <div className="bg-white dark:bg-slate-900 p-6 rounded-3xl border dark:border-slate-800 shadow-sm">
+                  <h3 className="font-bold mb-4 dark:text-white border-b dark:border-slate-700 pb-2">Waktu Absensi</h3>
+                  <div className="mb-4">
+                    <label className="text-xs font-bold text-slate-500 uppercase block mb-1">Zona Waktu Kantor</label>
+                    <select
+                      className="bg-slate-50 dark:bg-slate-800 p-3 rounded-xl w-full text-sm border-none focus:ring-2 focus:ring-blue-500 dark:text-white"
+                      value={settingsForm.timezone}
+                      onChange={e => setSettingsForm({ ...settingsForm, timezone: e.target.value })}
+                    >
+                      {OFFICE_TIME_ZONES.map(zone => (
+                        <option key={zone.value} value={zone.value}>{zone.label} ({zone.value})</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div className="mt-4">
+                    <label className="text-xs font-bold text-slate-500 uppercase block mb-1">Maks. Masuk Kembali per Hari</label>
+                    <input
+                      type="number"
+                      min="0"
+                      step="1"
+                      className="bg-slate-50 dark:bg-slate-800 p-3 rounded-xl w-full text-sm border-none focus:ring-2 focus:ring-blue-500 dark:text-white"
+                      value={settingsForm.maxReentriesPerDay}
+                      onChange={e => setSettingsForm({ ...settingsForm, maxReentriesPerDay: parseInt(e.target.value) })
+                      }
+                    />
+                    <p className="text-[10px] text-slate-400 mt-1">Berapa kali peserta boleh absen masuk lagi setelah absen pulang. Isi 0 jika tidak diizinkan.</p>
                   </div>
                   <div className="mt-4">
-                    <label className="text-xs font-bold text-slate-500 uppercase block mb-1">Max Jarak (Meter)</label>
+                    <label className="text-xs font-bold text-slate-500 uppercase block mb-1">Batas Absen Offline (Jam)</label>
                     <input
                       type="number"
                       min="1"
+                      step="1"
                       className="bg-slate-50 dark:bg-slate-800 p-3 rounded-xl w-full text-sm border-none focus:ring-2 focus:ring-blue-500 dark:text-white"
-                      value={settingsForm.maxDistanceMeters}
-                      onChange={e => setSettingsForm({ ...settingsForm, maxDistanceMeters: parseInt(e.target.value) })
+                      value={settingsForm.maxOfflineHours}
+                      onChange={e => setSettingsForm({ ...settingsForm, maxOfflineHours: parseInt(e.target.value) })
                       }
                     />
+                    <p className="text-[10px] text-slate-400 mt-1">Absensi yang tersimpan di perangkat saat tidak ada sinyal ditolak jika baru terkirim setelah batas ini. Yang terkirim lebih dari 5 menit setelah diambil masuk antrean Tinjau Absensi.</p>
                   </div>
                 </div>
 
                 <div className="bg-white dark:bg-slate-900 p-6 rounded-3xl border dark:border-slate-800 shadow-sm">
-                  <h3 className="font-bold mb-4 dark:text-white border-b dark:border-slate-700 pb-2">Waktu Absensi</h3>
-                  <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-                    <div>
-                      <label className="text-xs font-bold text-slate-500 uppercase block mb-1">Batas Telat</label>
-                      <input
-                        type="time"
-                        className="bg-slate-50 dark:bg-slate-800 p-3 rounded-xl w-full text-sm border-none focus:ring-2 focus:ring-blue-500 dark:text-white"
-                        value={settingsForm.lateThreshold}
-                        onChange={e => setSettingsForm({ ...settingsForm, lateThreshold: e.target.value })
-                        }
-                      />
-                    </div>
-                    <div>
-                      <label className="text-xs font-bold text-slate-500 uppercase block mb-1">Pulang (Sen-Kam)</label>
-                      <input
-                        type="time"
-                        className="bg-slate-50 dark:bg-slate-800 p-3 rounded-xl w-full text-sm border-none focus:ring-2 focus:ring-blue-500 dark:text-white"
-                        value={settingsForm.clockOutTimeMonThu}
-                        onChange={e => setSettingsForm({ ...settingsForm, clockOutTimeMonThu: e.target.value })
-                        }
-                      />
-                    </div>
-                    <div>
-                      <label className="text-xs font-bold text-slate-500 uppercase block mb-1">Pulang (Jum)</label>
-                      <input
-                        type="time"
-                        className="bg-slate-50 dark:bg-slate-800 p-3 rounded-xl w-full text-sm border-none focus:ring-2 focus:ring-blue-500 dark:text-white"
-                        value={settingsForm.clockOutTimeFri}
-                        onChange={e => setSettingsForm({ ...settingsForm, clockOutTimeFri: e.target.value })
-                        }
-                      />
-                    </div>
+                  <h3 className="font-bold mb-4 dark:text-white border-b dark:border-slate-700 pb-2">Absen Pulang Terlewat</h3>
+                  <div>
+                    <label className="text-xs font-bold text-slate-500 uppercase block mb-1">Tindakan</label>
+                    <select
+                      className="bg-slate-50 dark:bg-slate-800 p-3 rounded-xl w-full text-sm border-none focus:ring-2 focus:ring-blue-500 dark:text-white"
+                      value={settingsForm.missingClockOutMode}
+                      onChange={e => setSettingsForm({ ...settingsForm, missingClockOutMode: e.target.value as MissingClockOutMode })}
+                    >
+                      {MISSING_CLOCKOUT_MODES.map(mode => (
+                        <option key={mode.value} value={mode.value}>{mode.label}</option>
+                      ))}
+                    </select>
+                    <p className="text-[10px] text-slate-400 mt-1">{MISSING_CLOCKOUT_MODES.find(m => m.value === settingsForm.missingClockOutMode)?.hint}</p>
+                  </div>
+                  <div className="mt-4">
+                    <label className="text-xs font-bold text-slate-500 uppercase block mb-1">Tenggat Setelah Jam Pulang (Jam)</label>
+                    <input
+                      type="number"
+                      min="0"
+                      step="1"
+                      className="bg-slate-50 dark:bg-slate-800 p-3 rounded-xl w-full text-sm border-none focus:ring-2 focus:ring-blue-500 dark:text-white"
+                      value={settingsForm.missingClockOutGraceHours}
+                      onChange={e => setSettingsForm({ ...settingsForm, missingClockOutGraceHours: parseInt(e.target.value) })
+                      }
+                    />
+                    <p className="text-[10px] text-slate-400 mt-1">Absen masuk tanpa absen pulang dianggap terlewat setelah jam pulang terjadwal ditambah tenggat ini. Pemeriksaan dijalankan terjadwal (npm run close:clockouts).</p>
+                  </div>
+                </div>
+
+                <div className="bg-white dark:bg-slate-900 p-6 rounded-3xl border dark:border-slate-800 shadow-sm">
+                  <h3 className="font-bold mb-4 dark:text-white border-b dark:border-slate-700 pb-2">Metode Absensi</h3>
+                  <div className="space-y-3">
+                    {ATTENDANCE_METHOD_OPTIONS.map(option => (
+                      <label key={option.value} className="flex items-start gap-3 cursor-pointer">
+                        <input
+                          type="checkbox"
+                          className="mt-1"
+                          checked={settingsForm.attendanceMethods.includes(option.value)}
+                          onChange={e => setSettingsForm({
+                            ...settingsForm,
+                            attendanceMethods: e.target.checked
+                              ? [...settingsForm.attendanceMethods, option.value]
+                              : settingsForm.attendanceMethods.filter(m => m !== option.value)
+                          })}
+                        />
+                        <span>
+                          <span className="text-sm font-semibold dark:text-white block">{option.label}</span>
+                          <span className="text-[10px] text-slate-400">{option.description}</span>
+                        </span>
+                      </label>
+                    ))}
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() => setShowKiosk(true)}
+                    className="mt-4 px-4 py-3 bg-slate-800 hover:bg-slate-900 text-white rounded-xl text-sm font-bold flex items-center gap-2"
+                  >
+                    <i className="fas fa-qrcode"></i> Buka Layar Kiosk
+                  </button>
+                  <p className="text-[10px] text-slate-400 mt-1">Tampilkan di layar atau tablet di kantor. Kode hanya diterima bila "Scan QR Kiosk" aktif.</p>
+                </div>
+
+                <div className="bg-white dark:bg-slate-900 p-6 rounded-3xl border dark:border-slate-800 shadow-sm">
+                  <h3 className="font-bold mb-4 dark:text-white border-b dark:border-slate-700 pb-2">Aturan Perizinan</h3>
+                  <div className="grid grid-cols-2 gap-4">
+                    {LEAVE_TYPES.map(type => (
+                      <div key={type}>
+                        <label className="text-xs font-bold text-slate-500 uppercase block mb-1">Kuota {type} (hari kerja)</label>
+                        <input
+                          type="number"
+                          min="0"
+                          step="1"
+                          placeholder="Tidak dibatasi"
+                          className="bg-slate-50 dark:bg-slate-800 p-3 rounded-xl w-full text-sm border-none focus:ring-2 focus:ring-blue-500 dark:text-white"
+                          value={settingsForm.leavePolicies[type].quotaDays ?? ''}
+                          onChange={e => setSettingsForm({
+                            ...settingsForm,
+                            leavePolicies: {
+                              ...settingsForm.leavePolicies,
+                              [type]: { ...settingsForm.leavePolicies[type], quotaDays: e.target.value === '' ? null : parseInt(e.target.value) }
+                            }
+                          })}
+                        />
+                        <label className="flex items-center gap-2 mt-2 text-xs text-slate-600 dark:text-slate-300 cursor-pointer">
+                          <input
+                            type="checkbox"
+                            checked={settingsForm.leavePolicies[type].requiresAttachment}
+                            onChange={e => setSettingsForm({
+                              ...settingsForm,
+                              leavePolicies: {
+                                ...settingsForm.leavePolicies,
+                                [type]: { ...settingsForm.leavePolicies[type], requiresAttachment: e.target.checked }
+                              }
+                            })}
+                          />
+                          Wajib lampirkan bukti
+                        </label>
+                        <div className="grid grid-cols-2 gap-2 mt-2">
+                          <div>
+                            <label className="text-[10px] font-bold text-slate-500 uppercase block mb-1">Boleh Mundur (hari)</label>
+                            <input
+                              type="number"
+                              min="0"
+                              step="1"
+                              className="bg-slate-50 dark:bg-slate-800 p-3 rounded-xl w-full text-sm border-none focus:ring-2 focus:ring-blue-500 dark:text-white"
+                              value={settingsForm.leavePolicies[type].maxBackdateDays}
+                              onChange={e => setSettingsForm({
+                                ...settingsForm,
+                                leavePolicies: {
+                                  ...settingsForm.leavePolicies,
+                                  [type]: { ...settingsForm.leavePolicies[type], maxBackdateDays: parseInt(e.target.value) }
+                                }
+                              })}
+                            />
+                          </div>
+                          <div>
+                            <label className="text-[10px] font-bold text-slate-500 uppercase block mb-1">Diajukan Sebelumnya (hari)</label>
+                            <input
+                              type="number"
+                              min="0"
+                              step="1"
+                              className="bg-slate-50 dark:bg-slate-800 p-3 rounded-xl w-full text-sm border-none focus:ring-2 focus:ring-blue-500 dark:text-white"
+                              value={settingsForm.leavePolicies[type].minNoticeDays}
+                              onChange={e => setSettingsForm({
+                                ...settingsForm,
+                                leavePolicies: {
+                                  ...settingsForm.leavePolicies,
+                                  [type]: { ...settingsForm.leavePolicies[type], minNoticeDays: parseInt(e.target.value) }
+                                }
+                              })}
+                            />
+                          </div>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                  <div className="mt-4">
+                    <label className="text-xs font-bold text-slate-500 uppercase block mb-1">Pengajuan Melebihi Kuota</label>
+                    <select
+                      className="bg-slate-50 dark:bg-slate-800 p-3 rounded-xl w-full text-sm border-none focus:ring-2 focus:ring-blue-500 dark:text-white"
+                      value={settingsForm.leaveQuotaMode}
+                      onChange={e => setSettingsForm({ ...settingsForm, leaveQuotaMode: e.target.value as LeaveQuotaMode })}
+                    >
+                      {LEAVE_QUOTA_MODE_OPTIONS.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+                    </select>
+                    <p className="text-[10px] text-slate-400 mt-1">Kuota berlaku untuk seluruh masa magang. Hanya hari kerja sesuai jadwal peserta yang dihitung; akhir pekan dan hari libur tidak. Kosongkan kuota agar tidak dibatasi. "Boleh Mundur" = berapa hari ke belakang tanggal mulai boleh dipilih; "Diajukan Sebelumnya" = minimal berapa hari sebelum tanggal mulai pengajuan dikirim (bila diisi, pengajuan mundur tidak diizinkan).</p>
                   </div>
                 </div>
 
-                <button type="submit" className={`w-full py-4 text-white rounded-xl font-bold shadow-lg transition-all ${settingsSaved ? 'bg-emerald-500' : 'bg-blue-600 hover:bg-blue-700'}`}>
-                  {settingsSaved ? <span className="flex items-center justify-center gap-2"><i className="fas fa-check"></i> Pengaturan Disimpan!</span> : "Simpan Pengaturan"}
+                <div className="bg-white dark:bg-slate-900 p-6 rounded-3xl border dark:border-slate-800 shadow-sm">
+                  <h3 className="font-bold mb-4 dark:text-white border-b dark:border-slate-700 pb-2">Alur Persetujuan Izin</h3>
+                  <div>
+                    <label className="text-xs font-bold text-slate-500 uppercase block mb-1">Disetujui Oleh</label>
+                    <select
+                      className="bg-slate-50 dark:bg-slate-800 p-3 rounded-xl w-full text-sm border-none focus:ring-2 focus:ring-blue-500 dark:text-white"
+                      value={settingsForm.leaveApprovalChain.join(',')}
+                      onChange={e => setSettingsForm({
+                        ...settingsForm,
+                        leaveApprovalChain: LEAVE_APPROVAL_CHAIN_OPTIONS.find(option => option.chain.join(',') === e.target.value)?.chain || []
+                      })}
+                    >
+                      {LEAVE_APPROVAL_CHAIN_OPTIONS.map(option => <option key={option.label} value={option.chain.join(',')}>{option.label}</option>)}
+                    </select>
+                    <p className="text-[10px] text-slate-400 mt-1">Berlaku untuk pengajuan baru. Atur peran Mentor atau HR tiap admin di tab Data Magang; mentor hanya memutuskan pengajuan dari divisinya sendiri. Super admin dapat memutuskan setiap tahap.</p>
+                  </div>
+                </div>
+
+                <div className="bg-white dark:bg-slate-900 p-6 rounded-3xl border dark:border-slate-800 shadow-sm">
+                  <h3 className="font-bold mb-4 dark:text-white border-b dark:border-slate-700 pb-2">Verifikasi Wajah</h3>
+                  <div>
+                    <label className="text-xs font-bold text-slate-500 uppercase block mb-1">Batas Kecocokan Wajah (%)</label>
+                    <input
+                      type="number"
+                      min="0"
+                      max="100"
+                      step="1"
+                      className="bg-slate-50 dark:bg-slate-800 p-3 rounded-xl w-full text-sm border-none focus:ring-2 focus:ring-blue-500 dark:text-white"
+                      value={Math.round(settingsForm.faceMatchThreshold * 100)}
+                      onChange={e => setSettingsForm({ ...settingsForm, faceMatchThreshold: parseInt(e.target.value) / 100 })
+                      }
+                    />
+                    <p className="text-[10px] text-slate-400 mt-1">Selfie dibandingkan dengan foto profil peserta langsung di perangkat. Absen dengan kecocokan di bawah batas ini tercatat "pending" dan masuk ke Tinjau Absensi. Isi 0 untuk menonaktifkan.</p>
+                  </div>
+                </div>
+
+                <button type="submit" disabled={savingSettings} className={`w-full py-4 text-white rounded-xl font-bold shadow-lg transition-all disabled:opacity-60 ${settingsSaved ? 'bg-emerald-500' : 'bg-blue-600 hover:bg-blue-700'}`}>
+                  {savingSettings ? <span className="flex items-center justify-center gap-2"><i className="fas fa-spinner fa-spin"></i> Menyimpan...</span> : settingsSaved ? <span className="flex items-center justify-center gap-2"><i className="fas fa-check"></i> Pengaturan Disimpan!</span> : "Simpan Pengaturan"}
                 </button>
               </form>
             </div>
@@ -1316,11 +1919,11 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ user, onLogout }) => {
                       </div>
                       <div className="flex-1">
                         <div className="flex justify-between">
-                          <span className="font-bold text-sm dark:text-white">{new Date(record.timestamp).toLocaleDateString()}</span>
+                          <span className="font-bold text-sm dark:text-white">{formatOfficeDate(record.timestamp)}</span>
                           <span className={`text-[10px] font-bold uppercase px-2 py-0.5 rounded ${record.type === 'in' ? 'bg-blue-100 text-blue-700' : 'bg-orange-100 text-orange-700'}`}>{record.type}</span>
                         </div>
                         <div className="flex justify-between mt-1">
-                          <p className="text-xs text-slate-500 font-mono">{new Date(record.timestamp).toLocaleTimeString()}</p>
+                          <p className="text-xs text-slate-500 font-mono">{formatOfficeTime(record.timestamp)}</p>
                           <p className="text-[10px] text-slate-400 truncate w-24 text-right">{record.location.latitude.toFixed(4)}, {record.location.longitude.toFixed(4)}</p>
                         </div>
                       </div>
@@ -1331,38 +1934,56 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ user, onLogout }) => {
             </div>
           </div>
         )}
-        {showRejectionModal && (
+        {showLeaveDecisionModal && leaveRequestToDecide && (
           <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm animate-fade-in">
             <div className="bg-white dark:bg-slate-900 rounded-2xl p-6 w-full max-w-md shadow-2xl animate-fade-in-up border dark:border-slate-800">
               <div className="flex justify-between items-center mb-6">
-                <h3 className="text-lg font-bold text-slate-800 dark:text-white">Alasan Penolakan</h3>
-                <button onClick={() => setShowRejectionModal(false)} className="text-slate-400 dark:text-slate-500 hover:text-slate-600 dark:hover:text-slate-300">
+                <h3 className="text-lg font-bold text-slate-800 dark:text-white">
+                  {leaveDecisionKind === 'cancellation'
+                    ? (leaveDecision === 'approved' ? 'Setujui Pembatalan' : 'Tolak Pembatalan')
+                    : (leaveDecision === 'approved' ? 'Setujui Pengajuan' : 'Alasan Penolakan')}
+                </h3>
+                <button onClick={() => setShowLeaveDecisionModal(false)} className="text-slate-400 dark:text-slate-500 hover:text-slate-600 dark:hover:text-slate-300">
                   <i className="fas fa-times"></i>
                 </button>
               </div>
 
-              <form onSubmit={(e) => { e.preventDefault(); handleLeaveAction(leaveRequestToReject!.id, 'rejected', rejectionReason); }}>
+              <form onSubmit={(e) => {
+                e.preventDefault();
+                if (leaveDecisionKind === 'cancellation') handleCancellationAction(leaveRequestToDecide.id, leaveDecision, leaveComment.trim());
+                else handleLeaveAction(leaveRequestToDecide.id, leaveDecision, leaveComment.trim());
+              }}>
+                {leaveDecisionKind === 'cancellation' && (
+                  <p className="text-xs text-slate-500 dark:text-slate-400 mb-3">
+                    {describeLeaveCancellation(leaveRequestToDecide)} ({leaveRequestToDecide.userName}, {leaveRequestToDecide.startDate} s.d {leaveRequestToDecide.endDate}).
+                  </p>
+                )}
+                {leaveDecisionKind === 'leave' && getCurrentLeaveStep(leaveRequestToDecide) && (
+                  <p className="text-xs text-slate-500 dark:text-slate-400 mb-3">
+                    Keputusan sebagai <strong>{LEAVE_APPROVAL_ROLE_LABELS[getCurrentLeaveStep(leaveRequestToDecide)!.role]}</strong> untuk pengajuan {leaveRequestToDecide.userName}.
+                  </p>
+                )}
                 <textarea
                   className="w-full px-4 py-3 bg-slate-50 dark:bg-slate-800 rounded-xl border-none focus:ring-2 focus:ring-blue-100 dark:focus:ring-blue-900 text-sm text-slate-700 dark:text-slate-200 font-medium placeholder-slate-400 dark:placeholder-slate-600"
                   rows={4}
-                  placeholder="Masukkan alasan penolakan..."
-                  value={rejectionReason}
-                  onChange={(e) => setRejectionReason(e.target.value)}
-                  required
+                  placeholder={leaveDecision === 'approved' ? 'Catatan (opsional)...' : leaveDecisionKind === 'cancellation' ? 'Masukkan alasan pembatalan ditolak...' : 'Masukkan alasan penolakan...'}
+                  value={leaveComment}
+                  onChange={(e) => setLeaveComment(e.target.value)}
+                  required={leaveDecision === 'rejected'}
                 />
                 <div className="pt-4 flex gap-3">
                   <button
                     type="button"
-                    onClick={() => setShowRejectionModal(false)}
+                    onClick={() => setShowLeaveDecisionModal(false)}
                     className="flex-1 py-3 bg-slate-100 dark:bg-slate-800 hover:bg-slate-200 dark:hover:bg-slate-700 text-slate-600 dark:text-slate-300 rounded-xl text-sm font-bold transition-colors"
                   >
                     Batal
                   </button>
                   <button
                     type="submit"
-                    className="flex-1 py-3 bg-red-600 hover:bg-red-700 text-white rounded-xl text-sm font-bold shadow-lg shadow-red-500/20 transition-colors"
+                    className={`flex-1 py-3 text-white rounded-xl text-sm font-bold shadow-lg transition-colors ${leaveDecision === 'approved' ? 'bg-blue-600 hover:bg-blue-700 shadow-blue-500/20' : 'bg-red-600 hover:bg-red-700 shadow-red-500/20'}`}
                   >
-                    Kirim Penolakan
+                    {leaveDecision === 'approved' ? 'Setujui' : 'Kirim Penolakan'}
                   </button>
                 </div>
               </form>
@@ -1370,6 +1991,8 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ user, onLogout }) => {
           </div>
         )}
 
+        {showKiosk && <QrKiosk locations={getSettings().locations} onClose={() => setShowKiosk(false)} />}
+
         {showPhotoModal && (
           <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/70 backdrop-blur-sm animate-fade-in" onClick={() => setShowPhotoModal(false)}>
             <div className="bg-white dark:bg-slate-900 rounded-2xl p-6 max-w-2xl w-full shadow-2xl animate-fade-in-up border dark:border-slate-800" onClick={(e) => e.stopPropagation()}>
@@ -0,0 +1,75 @@
+import React from 'react';
+import { User } from '../types';
+
+interface AssignmentPickerProps {
+    users: User[];
+    divisions: string[];
+    userIds: string[];
+    onChange: (assignment: { divisions: string[]; userIds: string[] }) => void;
+    emptyHint: string; // Shown when nothing is selected
+    selectedHint: string;
+}
+
+const labelClass = "text-xs font-bold text-slate-500 uppercase block mb-1";
+
+// Division chips + intern multi-select, used by settings that can be limited to some people
+const AssignmentPicker: React.FC<AssignmentPickerProps> = ({ users, divisions, userIds, onChange, emptyHint, selectedHint }) => {
+    const allDivisions = Array.from(new Set<string>(users.map(u => u.division).filter(Boolean))).sort();
+    const interns = users.filter(u => u.role === 'intern');
+
+    const toggleDivision = (division: string) => {
+        onChange({
+            divisions: divisions.includes(division) ? divisions.filter(d => d !== division) : [...divisions, division],
+            userIds,
+        });
+    };
+
+    return (
+        <>
+            <div>
+                <label className={labelClass}>Khusus Divisi</label>
+                {allDivisions.length === 0 ? (
+                    <p className="text-xs text-slate-400 italic">Belum ada divisi.</p>
+                ) : (
+                    <div className="flex flex-wrap gap-2">
+                        {allDivisions.map(division => {
+                            const selected = divisions.includes(division);
+                            return (
+                                <button
+                                    type="button"
+                                    key={division}
+                                    onClick={() => toggleDivision(division)}
+                                    className={`px-3 py-1 rounded-full text-xs font-bold border transition-colors ${selected
+                                        ? 'bg-blue-600 text-white border-blue-600'
+                                        : 'bg-white dark:bg-slate-800 text-slate-500 border-slate-200 dark:border-slate-700 hover:border-blue-400'
+                                        }`}
+                                >
+                                    {division}
+                                </button>
+                            );
+                        })}
+                    </div>
+                )}
+            </div>
+
+            <div>
+                <label className={labelClass}>Khusus Peserta</label>
+                <select
+                    multiple
+                    className="bg-slate-50 dark:bg-slate-800 p-3 rounded-xl w-full text-sm border-none focus:ring-2 focus:ring-blue-500 dark:text-white h-28"
+                    value={userIds}
+                    onChange={e => onChange({ divisions, userIds: Array.from(e.target.selectedOptions, (o: HTMLOptionElement) => o.value) })}
+                >
+                    {interns.map(u => (
+                        <option key={u.id} value={u.id}>{u.name}{u.division ? ` (${u.division})` : ''}</option>
+                    ))}
+                </select>
+                <p className="text-[10px] text-slate-400 mt-1">
+                    {divisions.length === 0 && userIds.length === 0 ? emptyHint : selectedHint}
+                </p>
+            </div>
+        </>
+    );
+};
+
+export default AssignmentPicker;
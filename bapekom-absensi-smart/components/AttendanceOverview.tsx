@@ -41,6 +41,13 @@ const AttendanceOverview: React.FC<AttendanceOverviewProps> = ({ allAttendance,
     const checkIns = allAttendance.filter(r => r.type === 'in').length;
     const checkOuts = allAttendance.filter(r => r.type === 'out').length;
     
+    // Early leave ("pulang cepat"): clock-outs before the scheduled end time
+    const earlyLeaves = allAttendance.filter(r => r.type === 'out' && r.isEarlyLeave);
+    const earlyLeaveAttendance = earlyLeaves.length;
+    const avgEarlyLeaveMinutes = earlyLeaveAttendance > 0
+      ? Math.round(earlyLeaves.reduce((sum, r) => sum + (r.earlyLeaveMinutes || 0), 0) / earlyLeaveAttendance)
+      : 0;
+    
     // Attendance rate
     const attendanceRate = interns.length > 0 
       ? Math.round((usersWithAttendance.size / interns.length) * 100) 
@@ -64,6 +71,8 @@ const AttendanceOverview: React.FC<AttendanceOverviewProps> = ({ allAttendance,
       lateAttendance,
       checkIns,
       checkOuts,
+      earlyLeaveAttendance,
+      avgEarlyLeaveMinutes,
       totalInterns: interns.length,
       attendanceRate,
       lateRate,
@@ -127,7 +136,7 @@ const AttendanceOverview: React.FC<AttendanceOverviewProps> = ({ allAttendance,
             <i className="fas fa-chart-bar text-2xl opacity-30"></i>
           </div>
           <p className="text-4xl font-bold mb-2">{stats.totalRecords}</p>
-          <p className="text-sm opacity-80">Keseluruhan periode</p>
+          <p className="text-sm opacity-80">Periode bulan terpilih</p>
         </div>
 
         {/* Attendance Rate */}
@@ -199,6 +208,24 @@ const AttendanceOverview: React.FC<AttendanceOverviewProps> = ({ allAttendance,
               </div>
               <p className="text-xs text-slate-400 mt-1">{stats.totalRecords > 0 ? Math.round((stats.checkOuts / stats.totalRecords) * 100) : 0}% dari total</p>
             </div>
+
+            {/* Early leave */}
+            <div>
+              <div className="flex justify-between items-center mb-2">
+                <span className="text-sm font-semibold text-slate-600 dark:text-slate-400">Pulang Cepat</span>
+                <span className="text-lg font-bold text-amber-600 dark:text-amber-400">{stats.earlyLeaveAttendance}</span>
+              </div>
+              <div className="w-full bg-slate-200 dark:bg-slate-700 rounded-full h-3 overflow-hidden">
+                <div 
+                  className="bg-gradient-to-r from-amber-400 to-amber-600 h-3 rounded-full transition-all duration-500" 
+                  style={{ width: `${stats.checkOuts > 0 ? (stats.earlyLeaveAttendance / stats.checkOuts) * 100 : 0}%` }}
+                />
+              </div>
+              <p className="text-xs text-slate-400 mt-1">
+                {stats.checkOuts > 0 ? Math.round((stats.earlyLeaveAttendance / stats.checkOuts) * 100) : 0}% dari check-out
+                {stats.earlyLeaveAttendance > 0 && ` • rata-rata ${stats.avgEarlyLeaveMinutes} menit lebih awal`}
+              </p>
+            </div>
           </div>
         </div>
 
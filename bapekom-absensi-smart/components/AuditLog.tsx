@@ -0,0 +1,182 @@
+import React, { useState, useEffect } from 'react';
+import { toast } from 'react-toastify';
+import { AuditAction, AuditEntityType, AuditLogEntry, User } from '../types';
+import { AuditLogFilters, getAuditLog } from '../services/auditService';
+import { addDays, formatOfficeDateTime, getOfficeToday } from '../services/dateService';
+
+interface AuditLogProps {
+  users: User[]; // For the actor filter
+}
+
+const ACTION_LABELS: Record<AuditAction, string> = {
+  create: 'Tambah',
+  update: 'Ubah',
+  delete: 'Hapus',
+  approve: 'Setujui',
+  reject: 'Tolak',
+  annotate: 'Catatan',
+  import: 'Impor',
+};
+
+const ACTION_COLORS: Record<AuditAction, string> = {
+  create: 'bg-emerald-50 text-emerald-600 border-emerald-100',
+  update: 'bg-blue-50 text-blue-600 border-blue-100',
+  delete: 'bg-red-50 text-red-600 border-red-100',
+  approve: 'bg-emerald-50 text-emerald-600 border-emerald-100',
+  reject: 'bg-red-50 text-red-600 border-red-100',
+  annotate: 'bg-slate-100 text-slate-500 border-slate-200',
+  import: 'bg-amber-50 text-amber-600 border-amber-100',
+};
+
+const ENTITY_LABELS: Record<AuditEntityType, string> = {
+  user: 'Pengguna',
+  leave: 'Perizinan',
+  settings: 'Pengaturan',
+  holiday: 'Hari Libur',
+  correction: 'Koreksi Absen',
+  attendance: 'Absensi',
+};
+
+const inputClass = "bg-slate-50 dark:bg-slate-800 p-3 rounded-xl w-full text-sm border-none focus:ring-2 focus:ring-blue-500 dark:text-white";
+const labelClass = "text-xs font-bold text-slate-500 uppercase block mb-1";
+
+const formatAuditValue = (value: unknown): string => {
+  if (value === null || value === undefined || value === '') return '—';
+  if (typeof value === 'boolean') return value ? 'Ya' : 'Tidak';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+};
+
+// One "field: before → after" line per changed field
+const formatChanges = (entry: AuditLogEntry): string[] =>
+  Object.entries(entry.changes).map(([field, change]) =>
+    entry.action === 'create' || entry.action === 'import'
+      ? `${field}: ${formatAuditValue(change.after)}`
+      : entry.action === 'delete'
+        ? `${field}: ${formatAuditValue(change.before)}`
+        : `${field}: ${formatAuditValue(change.before)} → ${formatAuditValue(change.after)}`
+  );
+
+// Admin viewer for audit_log: who changed what, and when
+const AuditLog: React.FC<AuditLogProps> = ({ users }) => {
+  const [entries, setEntries] = useState<AuditLogEntry[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [filters, setFilters] = useState<AuditLogFilters>({ startDate: addDays(getOfficeToday(), -30), endDate: getOfficeToday() });
+
+  useEffect(() => {
+    loadEntries();
+  }, [filters]);
+
+  const loadEntries = async () => {
+    setLoading(true);
+    setEntries(await getAuditLog(filters));
+    setLoading(false);
+  };
+
+  const admins = users.filter(u => u.role !== 'intern');
+
+  const handleExport = () => {
+    if (entries.length === 0) {
+      toast.warn("Tidak ada data untuk diexport.");
+      return;
+    }
+
+    const quote = (value: string) => `"${value.replace(/"/g, '""')}"`;
+    const headers = ["Waktu", "Pelaku", "Aksi", "Jenis Data", "Target", "ID Target", "Perubahan"];
+    const csvContent = [
+      headers.join(","),
+      ...entries.map(e => [
+        formatOfficeDateTime(e.createdAt),
+        quote(e.actorName),
+        ACTION_LABELS[e.action],
+        ENTITY_LABELS[e.entityType],
+        quote(e.entityLabel || ''),
+        e.entityId || '',
+        quote(formatChanges(e).join('; ')),
+      ].join(","))
+    ].join("\n");
+
+    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.setAttribute("href", url);
+    link.setAttribute("download", `audit_log_${getOfficeToday()}.csv`);
+    link.style.visibility = 'hidden';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+  };
+
+  return (
+    <div>
+      <div className="bg-white dark:bg-slate-900 p-6 rounded-2xl border dark:border-slate-800 shadow-sm mb-6 grid grid-cols-1 md:grid-cols-5 gap-4 items-end">
+        <div>
+          <label className={labelClass}>Pelaku</label>
+          <select className={inputClass} value={filters.actorId || ''} onChange={e => setFilters({ ...filters, actorId: e.target.value || undefined })}>
+            <option value="">Semua Admin</option>
+            {admins.map(u => <option key={u.id} value={u.id}>{u.name}</option>)}
+          </select>
+        </div>
+        <div>
+          <label className={labelClass}>Jenis Data</label>
+          <select className={inputClass} value={filters.entityType || ''} onChange={e => setFilters({ ...filters, entityType: (e.target.value || undefined) as AuditEntityType | undefined })}>
+            <option value="">Semua</option>
+            {(Object.keys(ENTITY_LABELS) as AuditEntityType[]).map(type => <option key={type} value={type}>{ENTITY_LABELS[type]}</option>)}
+          </select>
+        </div>
+        <div>
+          <label className={labelClass}>Dari</label>
+          <input type="date" className={inputClass} value={filters.startDate || ''} max={filters.endDate} onChange={e => setFilters({ ...filters, startDate: e.target.value || undefined })} />
+        </div>
+        <div>
+          <label className={labelClass}>Sampai</label>
+          <input type="date" className={inputClass} value={filters.endDate || ''} min={filters.startDate} onChange={e => setFilters({ ...filters, endDate: e.target.value || undefined })} />
+        </div>
+        <button onClick={handleExport} className="bg-emerald-600 hover:bg-emerald-700 text-white px-4 py-3 rounded-xl text-sm font-bold flex items-center justify-center gap-2 shadow-lg shadow-emerald-500/20 transition-colors">
+          <i className="fas fa-file-csv"></i> Export CSV
+        </button>
+      </div>
+
+      <div className="bg-white dark:bg-slate-900 rounded-2xl border dark:border-slate-800 shadow-sm overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full text-left text-sm">
+            <thead className="bg-slate-50 dark:bg-slate-800/50 text-slate-500 text-[10px] uppercase font-bold tracking-wider">
+              <tr>
+                <th className="px-6 py-4">Waktu</th>
+                <th className="px-6 py-4">Pelaku</th>
+                <th className="px-6 py-4">Aksi</th>
+                <th className="px-6 py-4">Target</th>
+                <th className="px-6 py-4">Perubahan</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100 dark:divide-slate-800">
+              {loading ? (
+                <tr><td colSpan={5} className="px-6 py-12 text-center text-slate-400 italic">Memuat audit log...</td></tr>
+              ) : entries.length === 0 ? (
+                <tr><td colSpan={5} className="px-6 py-12 text-center text-slate-400">Tidak ada aktivitas untuk filter ini.</td></tr>
+              ) : (
+                entries.map(e => (
+                  <tr key={e.id} className="hover:bg-slate-50 dark:hover:bg-slate-800/30 transition-colors align-top">
+                    <td className="px-6 py-4 whitespace-nowrap text-xs text-slate-500 font-mono">{formatOfficeDateTime(e.createdAt)}</td>
+                    <td className="px-6 py-4 font-bold dark:text-white whitespace-nowrap">{e.actorName}</td>
+                    <td className="px-6 py-4">
+                      <span className={`px-2 py-0.5 rounded text-[10px] font-bold uppercase border ${ACTION_COLORS[e.action]}`}>{ACTION_LABELS[e.action]}</span>
+                    </td>
+                    <td className="px-6 py-4">
+                      <div className="font-semibold dark:text-white">{e.entityLabel || e.entityId || '-'}</div>
+                      <div className="text-[10px] text-slate-400 uppercase font-semibold">{ENTITY_LABELS[e.entityType]}</div>
+                    </td>
+                    <td className="px-6 py-4 text-xs text-slate-600 dark:text-slate-300 font-mono max-w-md">
+                      {formatChanges(e).map(line => <div key={line} className="truncate" title={line}>{line}</div>)}
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AuditLog;
@@ -0,0 +1,187 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { toast } from 'react-toastify';
+import { AttendanceCorrection, AttendanceRecord } from '../types';
+import { createCorrectionRequest } from '../services/correctionService';
+import { CORRECTION_ATTACHMENT_TYPES, checkCorrectionAttachmentFile, deleteCorrectionAttachment, uploadCorrectionAttachment } from '../services/correctionAttachmentService';
+import { formatOfficeTime, getOfficeMinutesOfDay, getOfficeToday, parseTimeToMinutes, toOfficeDateString } from '../services/dateService';
+
+export interface CorrectionDraft {
+    date: string; // YYYY-MM-DD
+    type: 'in' | 'out';
+}
+
+interface CorrectionRequestModalProps {
+    userId: string;
+    history: AttendanceRecord[]; // The intern's own records, to pick the punch being fixed
+    initial?: CorrectionDraft;
+    onClose: () => void;
+    onSubmitted: () => void;
+}
+
+type CorrectionForm = Pick<AttendanceCorrection, 'date' | 'type' | 'time' | 'reason'> & { attendanceId: string };
+
+/**
+ * Checks a correction before it is sent.
+ * @returns An Indonesian error message, or null if the request is complete.
+ */
+const validateCorrection = (form: CorrectionForm, original?: AttendanceRecord): string | null => {
+    if (!form.date || !form.time || !form.reason.trim()) return 'Mohon lengkapi tanggal, jam dan alasan.';
+    const today = getOfficeToday();
+    if (form.date > today) return 'Tidak bisa mengajukan koreksi untuk tanggal yang akan datang.';
+    if (form.date === today && parseTimeToMinutes(form.time) > getOfficeMinutesOfDay(new Date())) {
+        return 'Jam koreksi tidak boleh melewati waktu sekarang.';
+    }
+    if (original && formatOfficeTime(original.timestamp) === form.time) return 'Jam koreksi sama dengan jam yang tercatat.';
+    return null;
+};
+
+const CorrectionRequestModal: React.FC<CorrectionRequestModalProps> = ({ userId, history, initial, onClose, onSubmitted }) => {
+    const [form, setForm] = useState<CorrectionForm>({
+        date: initial?.date || '',
+        type: initial?.type || 'in',
+        time: '',
+        reason: '',
+        attendanceId: '',
+    });
+    // Picked evidence, uploaded on submit
+    const [attachmentFile, setAttachmentFile] = useState<File | null>(null);
+    const [attachmentPreview, setAttachmentPreview] = useState('');
+    const [submitting, setSubmitting] = useState(false);
+    const attachmentInputRef = useRef<HTMLInputElement>(null);
+
+    useEffect(() => {
+        if (!attachmentFile) {
+            setAttachmentPreview('');
+            return;
+        }
+        const url = URL.createObjectURL(attachmentFile);
+        setAttachmentPreview(url);
+        return () => URL.revokeObjectURL(url);
+    }, [attachmentFile]);
+
+    // Punches of the chosen day and type that the correction can replace
+    const dayRecords = history.filter(r => r.type === form.type && toOfficeDateString(r.timestamp) === form.date);
+    const original = dayRecords.find(r => r.id === form.attendanceId);
+
+    const handleAttachmentChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        if (file) {
+            const problem = checkCorrectionAttachmentFile(file);
+            if (problem) {
+                toast.warning(problem);
+                event.target.value = '';
+                return;
+            }
+            setAttachmentFile(file);
+        }
+    };
+
+    const removeAttachment = () => {
+        setAttachmentFile(null);
+        if (attachmentInputRef.current) attachmentInputRef.current.value = '';
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        const error = validateCorrection(form, original);
+        if (error) {
+            toast.warn(error);
+            return;
+        }
+
+        setSubmitting(true);
+        let attachmentUrl: string | undefined;
+        let success = false;
+        try {
+            if (attachmentFile) attachmentUrl = await uploadCorrectionAttachment(attachmentFile, userId);
+            success = await createCorrectionRequest({
+                userId,
+                date: form.date,
+                type: form.type,
+                time: form.time,
+                attendanceId: original?.id,
+                originalTime: original ? formatOfficeTime(original.timestamp) : undefined,
+                reason: form.reason.trim(),
+                attachmentUrl,
+            });
+            if (!success) await deleteCorrectionAttachment(attachmentUrl);
+        } catch (err) {
+            console.error(err);
+        } finally {
+            setSubmitting(false);
+        }
+
+        if (success) {
+            toast.success("Pengajuan koreksi berhasil dikirim!");
+            onSubmitted();
+        } else {
+            toast.error("Gagal mengirim pengajuan koreksi.");
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-end sm:items-center justify-center bg-black/60 backdrop-blur-sm animate-fade-in">
+            <div className="bg-white w-full max-w-lg rounded-t-[2rem] sm:rounded-3xl p-6 sm:p-8 animate-fade-in-up shadow-2xl max-h-[90vh] overflow-y-auto">
+                <div className="flex justify-between items-center mb-6">
+                    <div>
+                        <h3 className="text-xl font-bold text-slate-800">Koreksi Absensi</h3>
+                        <p className="text-xs text-slate-400">Untuk absen yang terlewat atau jam yang salah tercatat.</p>
+                    </div>
+                    <button onClick={onClose} className="w-8 h-8 rounded-full bg-slate-100 text-slate-500 flex items-center justify-center hover:bg-slate-200 transition-colors"><i className="fas fa-times"></i></button>
+                </div>
+
+                <form onSubmit={handleSubmit} className="space-y-5">
+                    <div className="flex bg-slate-100 p-1.5 rounded-xl">
+                        <button type="button" onClick={() => setForm({ ...form, type: 'in', attendanceId: '' })} className={`flex-1 py-2.5 rounded-lg text-xs font-bold transition-all ${form.type === 'in' ? 'bg-white text-blue-600 shadow-sm' : 'text-slate-400 hover:text-slate-600'}`}>Absen Masuk</button>
+                        <button type="button" onClick={() => setForm({ ...form, type: 'out', attendanceId: '' })} className={`flex-1 py-2.5 rounded-lg text-xs font-bold transition-all ${form.type === 'out' ? 'bg-white text-orange-600 shadow-sm' : 'text-slate-400 hover:text-slate-600'}`}>Absen Pulang</button>
+                    </div>
+
+                    <div className="grid grid-cols-2 gap-4">
+                        <div className="space-y-1.5">
+                            <label className="text-[10px] font-bold text-slate-400 uppercase tracking-wide">Tanggal</label>
+                            <input type="date" required max={getOfficeToday()} className="w-full px-4 py-3 bg-slate-50 rounded-xl border-none focus:ring-2 focus:ring-blue-100 text-sm font-semibold text-slate-700" value={form.date} onChange={e => setForm({ ...form, date: e.target.value, attendanceId: '' })} />
+                        </div>
+                        <div className="space-y-1.5">
+                            <label className="text-[10px] font-bold text-slate-400 uppercase tracking-wide">Jam Seharusnya</label>
+                            <input type="time" required className="w-full px-4 py-3 bg-slate-50 rounded-xl border-none focus:ring-2 focus:ring-blue-100 text-sm font-semibold text-slate-700" value={form.time} onChange={e => setForm({ ...form, time: e.target.value })} />
+                        </div>
+                    </div>
+
+                    {form.date && (
+                        <div className="space-y-1.5">
+                            <label className="text-[10px] font-bold text-slate-400 uppercase tracking-wide">Yang Dikoreksi</label>
+                            <select className="w-full px-4 py-3 bg-slate-50 rounded-xl border-none focus:ring-2 focus:ring-blue-100 text-sm font-semibold text-slate-700" value={form.attendanceId} onChange={e => setForm({ ...form, attendanceId: e.target.value })}>
+                                <option value="">Tidak tercatat (absen terlewat)</option>
+                                {dayRecords.map(r => (
+                                    <option key={r.id} value={r.id}>Tercatat pukul {formatOfficeTime(r.timestamp)}</option>
+                                ))}
+                            </select>
+                        </div>
+                    )}
+
+                    <div className="space-y-1.5">
+                        <label className="text-[10px] font-bold text-slate-400 uppercase tracking-wide">Alasan</label>
+                        <textarea required rows={3} className="w-full px-4 py-3 bg-slate-50 rounded-xl border-none focus:ring-2 focus:ring-blue-100 text-sm text-slate-700 placeholder-slate-400 font-medium" placeholder="Contoh: HP mati / GPS tidak terbaca saat absen..." value={form.reason} onChange={e => setForm({ ...form, reason: e.target.value })}></textarea>
+                    </div>
+
+                    <div className="space-y-1.5">
+                        <label className="text-[10px] font-bold text-slate-400 uppercase tracking-wide">Bukti (Opsional)</label>
+                        <input type="file" ref={attachmentInputRef} onChange={handleAttachmentChange} accept={CORRECTION_ATTACHMENT_TYPES.join(',')} className="block w-full text-xs text-slate-500 file:mr-4 file:py-2.5 file:px-4 file:rounded-xl file:border-0 file:text-xs file:font-bold file:bg-blue-50 file:text-blue-700 hover:file:bg-blue-100 cursor-pointer bg-slate-50 rounded-xl border-2 border-dashed border-slate-200" />
+                        {attachmentPreview && (
+                            <div className="mt-2 relative w-full h-32 bg-slate-100 rounded-xl overflow-hidden border border-slate-200">
+                                <img src={attachmentPreview} alt="Preview" className="w-full h-full object-contain" />
+                                <button type="button" onClick={removeAttachment} className="absolute top-2 right-2 w-7 h-7 bg-red-500 text-white rounded-full flex items-center justify-center text-xs shadow-lg hover:bg-red-600 transition-colors"><i className="fas fa-times"></i></button>
+                            </div>
+                        )}
+                    </div>
+
+                    <button type="submit" disabled={submitting} className="w-full py-4 bg-slate-900 text-white rounded-xl font-bold text-sm shadow-xl shadow-slate-900/20 hover:bg-black transition-all active:scale-95 mt-4 disabled:opacity-60">
+                        {submitting ? <i className="fas fa-spinner fa-spin"></i> : 'Kirim Pengajuan'}
+                    </button>
+                </form>
+            </div>
+        </div>
+    );
+};
+
+export default CorrectionRequestModal;
@@ -0,0 +1,207 @@
+import React, { useState, useEffect } from 'react';
+import { toast } from 'react-toastify';
+import { AttendanceCorrection } from '../types';
+import { getCorrectionRequests, reviewCorrectionRequest } from '../services/correctionService';
+import { getCorrectionAttachmentUrl } from '../services/correctionAttachmentService';
+import LeaveAttachment from './LeaveAttachment';
+import { formatOfficeDateTime, getOfficeDayStart } from '../services/dateService';
+
+interface CorrectionRequestsProps {
+  onReviewed: () => void; // Refresh counts and stats after a decision
+}
+
+type CorrectionFilter = 'all' | 'pending' | 'approved' | 'rejected';
+
+const STATUS_LABELS: Record<AttendanceCorrection['status'], string> = {
+  pending: 'Menunggu',
+  approved: 'Disetujui',
+  rejected: 'Ditolak',
+};
+
+const formatCorrectionDate = (dateStr: string) =>
+  formatOfficeDateTime(getOfficeDayStart(dateStr), { weekday: 'long', day: 'numeric', month: 'long', year: 'numeric' });
+
+// Admin review of attendance correction requests submitted by interns
+const CorrectionRequests: React.FC<CorrectionRequestsProps> = ({ onReviewed }) => {
+  const [corrections, setCorrections] = useState<AttendanceCorrection[]>([]);
+  const [filter, setFilter] = useState<CorrectionFilter>('pending');
+  const [loading, setLoading] = useState(false);
+  const [rejecting, setRejecting] = useState<AttendanceCorrection | null>(null);
+  const [rejectionReason, setRejectionReason] = useState('');
+
+  useEffect(() => {
+    loadCorrections();
+  }, []);
+
+  const loadCorrections = async () => {
+    setLoading(true);
+    setCorrections(await getCorrectionRequests());
+    setLoading(false);
+  };
+
+  const review = async (correction: AttendanceCorrection, status: 'approved' | 'rejected', reason?: string) => {
+    try {
+      await reviewCorrectionRequest(correction.id, status, reason);
+      toast.success(`Koreksi berhasil ${status === 'approved' ? 'disetujui' : 'ditolak'}`);
+      setRejecting(null);
+      setRejectionReason('');
+      loadCorrections();
+      onReviewed();
+    } catch (error: any) {
+      toast.error("Gagal memproses koreksi: " + (error?.message || 'terjadi kesalahan'));
+    }
+  };
+
+  const handleApprove = (correction: AttendanceCorrection) => {
+    const action = correction.attendanceId
+      ? `memindahkan absen ${correction.type === 'in' ? 'masuk' : 'pulang'} ${correction.originalTime || ''} ke pukul ${correction.time}`
+      : `menambahkan absen ${correction.type === 'in' ? 'masuk' : 'pulang'} pukul ${correction.time}`;
+    if (confirm(`Setujui koreksi ${correction.userName}? Ini akan ${action} pada ${correction.date}.`)) {
+      review(correction, 'approved');
+    }
+  };
+
+  const filtered = corrections.filter(c => filter === 'all' || c.status === filter);
+
+  return (
+    <div>
+      <div className="bg-white dark:bg-slate-900 p-1 rounded-xl shadow-sm border dark:border-slate-800 flex mb-6">
+        {(['pending', 'approved', 'rejected', 'all'] as CorrectionFilter[]).map(f => (
+          <button
+            key={f}
+            onClick={() => setFilter(f)}
+            className={`flex-1 py-2 text-xs font-bold rounded-lg transition-all ${filter === f ? 'bg-slate-900 text-white shadow-md' : 'text-slate-500 hover:bg-slate-50 dark:hover:bg-slate-800'}`}
+          >
+            {f === 'all' ? 'Semua' : STATUS_LABELS[f]}
+          </button>
+        ))}
+      </div>
+
+      {loading ? (
+        <div className="text-center py-20 text-slate-400 italic text-sm">Memuat pengajuan koreksi...</div>
+      ) : filtered.length === 0 ? (
+        <div className="text-center py-20 bg-white dark:bg-slate-900 rounded-3xl border border-slate-100 dark:border-slate-800">
+          <i className="far fa-folder-open text-4xl text-slate-300 mb-4"></i>
+          <p className="text-slate-500">Tidak ada pengajuan koreksi untuk status ini.</p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 gap-4">
+          {filtered.map(c => (
+            <div key={c.id} className={`bg-white dark:bg-slate-900 p-6 rounded-2xl border shadow-sm flex flex-col md:flex-row gap-6 ${c.status === 'pending' ? 'border-amber-200 dark:border-amber-900/50' : c.status === 'approved' ? 'border-emerald-200 dark:border-emerald-900/50' : 'border-red-200 dark:border-red-900/50'}`}>
+              <div className="w-full md:w-32 h-32 flex-shrink-0 bg-slate-100 dark:bg-slate-800 rounded-xl overflow-hidden border dark:border-slate-700">
+                {c.attachmentUrl ? (
+                  <LeaveAttachment attachment={c.attachmentUrl} getUrl={getCorrectionAttachmentUrl} className="w-full h-full" />
+                ) : (
+                  <div className="w-full h-full flex flex-col items-center justify-center text-slate-400 text-xs">
+                    <i className="fas fa-image mb-1 text-2xl opacity-20"></i> Tanpa Bukti
+                  </div>
+                )}
+              </div>
+
+              <div className="flex-1">
+                <div className="flex justify-between items-start mb-2">
+                  <div>
+                    <h3 className="font-bold text-lg text-slate-800 dark:text-white">{c.userName}</h3>
+                    <p className="text-xs text-slate-500 uppercase font-semibold tracking-wide">{c.division} • Diajukan {formatOfficeDateTime(c.requestDate, { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' })}</p>
+                  </div>
+                  <span className={`px-3 py-1 rounded-lg text-xs font-bold uppercase ${c.status === 'pending' ? 'bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-400' :
+                    c.status === 'approved' ? 'bg-emerald-100 text-emerald-700 dark:bg-emerald-900/30 dark:text-emerald-400' :
+                      'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400'
+                    }`}>
+                    {STATUS_LABELS[c.status]}
+                  </span>
+                </div>
+
+                <div className="bg-slate-50 dark:bg-slate-800/50 p-4 rounded-xl mb-4 text-sm space-y-2 border border-slate-100 dark:border-slate-700">
+                  <div className="flex gap-4">
+                    <span className="font-semibold w-24 text-slate-500 text-xs uppercase tracking-wide">Tanggal</span>
+                    <span className="text-slate-800 dark:text-slate-200 font-medium">{formatCorrectionDate(c.date)}</span>
+                  </div>
+                  <div className="flex gap-4">
+                    <span className="font-semibold w-24 text-slate-500 text-xs uppercase tracking-wide">Koreksi</span>
+                    <span className="text-slate-800 dark:text-slate-200 font-medium">
+                      Absen {c.type === 'in' ? 'Masuk' : 'Pulang'}:{' '}
+                      {c.originalTime ? <><span className="line-through text-slate-400">{c.originalTime}</span> → </> : <span className="text-slate-400">tidak tercatat → </span>}
+                      <span className="font-bold font-mono">{c.time}</span>
+                    </span>
+                  </div>
+                  <div className="flex gap-4">
+                    <span className="font-semibold w-24 text-slate-500 text-xs uppercase tracking-wide">Alasan</span>
+                    <span className="text-slate-800 dark:text-slate-200 italic">"{c.reason}"</span>
+                  </div>
+                  {c.status === 'rejected' && c.rejectionReason && (
+                    <div className="flex gap-4">
+                      <span className="font-semibold w-24 text-slate-500 text-xs uppercase tracking-wide">Ditolak</span>
+                      <span className="text-red-600 dark:text-red-400 italic">{c.rejectionReason}</span>
+                    </div>
+                  )}
+                  {c.reviewedAt && (
+                    <div className="text-[10px] text-slate-400">Ditinjau {formatOfficeDateTime(c.reviewedAt)}</div>
+                  )}
+                </div>
+
+                {c.status === 'pending' && (
+                  <div className="flex gap-3 justify-end">
+                    <button
+                      onClick={() => setRejecting(c)}
+                      className="px-4 py-2 bg-white border border-slate-200 dark:bg-slate-800 dark:border-slate-700 hover:bg-red-50 dark:hover:bg-red-900/20 text-slate-600 dark:text-slate-300 hover:text-red-600 dark:hover:text-red-400 rounded-lg text-sm font-bold transition-all"
+                    >
+                      Tolak
+                    </button>
+                    <button
+                      onClick={() => handleApprove(c)}
+                      className="px-6 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg text-sm font-bold shadow-lg shadow-blue-500/20 transition-all transform active:scale-95"
+                    >
+                      Setujui
+                    </button>
+                  </div>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {rejecting && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm animate-fade-in">
+          <div className="bg-white dark:bg-slate-900 rounded-2xl p-6 w-full max-w-md shadow-2xl animate-fade-in-up border dark:border-slate-800">
+            <div className="flex justify-between items-center mb-6">
+              <h3 className="text-lg font-bold text-slate-800 dark:text-white">Alasan Penolakan</h3>
+              <button onClick={() => setRejecting(null)} className="text-slate-400 dark:text-slate-500 hover:text-slate-600 dark:hover:text-slate-300">
+                <i className="fas fa-times"></i>
+              </button>
+            </div>
+
+            <form onSubmit={(e) => { e.preventDefault(); review(rejecting, 'rejected', rejectionReason); }}>
+              <textarea
+                className="w-full px-4 py-3 bg-slate-50 dark:bg-slate-800 rounded-xl border-none focus:ring-2 focus:ring-blue-100 dark:focus:ring-blue-900 text-sm text-slate-700 dark:text-slate-200 font-medium placeholder-slate-400 dark:placeholder-slate-600"
+                rows={4}
+                placeholder="Masukkan alasan penolakan..."
+                value={rejectionReason}
+                onChange={(e) => setRejectionReason(e.target.value)}
+                required
+              />
+              <div className="pt-4 flex gap-3">
+                <button
+                  type="button"
+                  onClick={() => setRejecting(null)}
+                  className="flex-1 py-3 bg-slate-100 dark:bg-slate-800 hover:bg-slate-200 dark:hover:bg-slate-700 text-slate-600 dark:text-slate-300 rounded-xl text-sm font-bold transition-colors"
+                >
+                  Batal
+                </button>
+                <button
+                  type="submit"
+                  className="flex-1 py-3 bg-red-600 hover:bg-red-700 text-white rounded-xl text-sm font-bold shadow-lg shadow-red-500/20 transition-colors"
+                >
+                  Kirim Penolakan
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CorrectionRequests;
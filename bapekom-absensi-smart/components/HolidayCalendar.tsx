@@ -0,0 +1,193 @@
+import React, { useState, useEffect } from 'react';
+import { toast } from 'react-toastify';
+import { Holiday, HolidayKind } from '../types';
+import { addHoliday, deleteHoliday, getHolidays, importHolidays } from '../services/holidayService';
+import { parseHolidayFile } from '../services/holidayParser';
+import { formatOfficeDateTime, getDayOfWeek, getOfficeDayStart, getOfficeToday } from '../services/dateService';
+
+interface HolidayCalendarProps {
+    userId: string; // Admin making the changes
+}
+
+export const HOLIDAY_KIND_LABELS: Record<HolidayKind, string> = {
+    national: 'Libur Nasional',
+    cuti_bersama: 'Cuti Bersama',
+    office: 'Libur Kantor',
+};
+
+const KIND_COLORS: Record<HolidayKind, string> = {
+    national: 'bg-red-50 text-red-600 border-red-100',
+    cuti_bersama: 'bg-amber-50 text-amber-600 border-amber-100',
+    office: 'bg-blue-50 text-blue-600 border-blue-100',
+};
+
+const inputClass = "bg-slate-50 dark:bg-slate-800 p-3 rounded-xl w-full text-sm border-none focus:ring-2 focus:ring-blue-500 dark:text-white";
+const labelClass = "text-xs font-bold text-slate-500 uppercase block mb-1";
+
+const formatHolidayDate = (dateStr: string) =>
+    formatOfficeDateTime(getOfficeDayStart(dateStr), { weekday: 'long', day: 'numeric', month: 'long', year: 'numeric' });
+
+const HolidayCalendar: React.FC<HolidayCalendarProps> = ({ userId }) => {
+    const currentYear = Number(getOfficeToday().slice(0, 4));
+    const [selectedYear, setSelectedYear] = useState(currentYear);
+    const [holidays, setHolidays] = useState<Holiday[]>([]);
+    const [loading, setLoading] = useState(false);
+    const [saving, setSaving] = useState(false);
+    const [form, setForm] = useState<{ date: string; name: string; kind: HolidayKind }>({ date: '', name: '', kind: 'national' });
+
+    useEffect(() => {
+        loadHolidays();
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [selectedYear]);
+
+    const loadHolidays = async () => {
+        setLoading(true);
+        const data = await getHolidays(`${selectedYear}-01-01`, `${selectedYear}-12-31`);
+        setHolidays(data);
+        setLoading(false);
+    };
+
+    const handleAdd = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!form.date || !form.name.trim()) {
+            toast.error("Tanggal dan nama hari libur wajib diisi.");
+            return;
+        }
+        if (holidays.some(h => h.date === form.date)) {
+            toast.error("Tanggal tersebut sudah terdaftar sebagai hari libur.");
+            return;
+        }
+
+        setSaving(true);
+        const success = await addHoliday({ date: form.date, name: form.name.trim(), kind: form.kind }, userId);
+        setSaving(false);
+
+        if (success) {
+            toast.success("Hari libur ditambahkan.");
+            setForm({ date: '', name: '', kind: 'national' });
+            loadHolidays();
+        } else {
+            toast.error("Gagal menambahkan hari libur.");
+        }
+    };
+
+    const handleDelete = async (holiday: Holiday) => {
+        if (!window.confirm(`Hapus "${holiday.name}" (${holiday.date}) dari kalender libur?`)) return;
+        if (await deleteHoliday(holiday.id)) {
+            toast.success("Hari libur dihapus.");
+            loadHolidays();
+        } else {
+            toast.error("Gagal menghapus hari libur.");
+        }
+    };
+
+    const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+
+        try {
+            const parsed = parseHolidayFile(await file.text(), file.name);
+            if (parsed.length === 0) {
+                toast.warning("Tidak ada hari libur yang dikenali dalam file.");
+                return;
+            }
+            if (!window.confirm(`Impor ${parsed.length} hari libur dari ${file.name}? Tanggal yang sudah ada akan diperbarui.`)) return;
+
+            setSaving(true);
+            const count = await importHolidays(parsed, userId);
+            toast.success(`${count} hari libur berhasil diimpor.`);
+            loadHolidays();
+        } catch (error: any) {
+            toast.error("Gagal mengimpor file: " + (error?.message || 'format tidak valid'));
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    return (
+        <div className="space-y-6">
+            <form onSubmit={handleAdd} className="bg-white dark:bg-slate-900 p-6 rounded-3xl border dark:border-slate-800 shadow-sm">
+                <h3 className="font-bold mb-4 dark:text-white border-b dark:border-slate-700 pb-2">Tambah Hari Libur</h3>
+                <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+                    <div>
+                        <label className={labelClass}>Tanggal</label>
+                        <input type="date" className={inputClass} value={form.date} onChange={e => setForm({ ...form, date: e.target.value })} />
+                    </div>
+                    <div className="md:col-span-2">
+                        <label className={labelClass}>Keterangan</label>
+                        <input
+                            type="text"
+                            placeholder="Contoh: Hari Kemerdekaan RI"
+                            className={inputClass}
+                            value={form.name}
+                            onChange={e => setForm({ ...form, name: e.target.value })}
+                        />
+                    </div>
+                    <div>
+                        <label className={labelClass}>Jenis</label>
+                        <select className={inputClass} value={form.kind} onChange={e => setForm({ ...form, kind: e.target.value as HolidayKind })}>
+                            {(Object.keys(HOLIDAY_KIND_LABELS) as HolidayKind[]).map(kind => (
+                                <option key={kind} value={kind}>{HOLIDAY_KIND_LABELS[kind]}</option>
+                            ))}
+                        </select>
+                    </div>
+                </div>
+                <div className="flex flex-col md:flex-row gap-3 mt-4">
+                    <button type="submit" disabled={saving} className="flex-1 py-3 bg-blue-600 hover:bg-blue-700 text-white rounded-xl font-bold text-sm disabled:opacity-60">
+                        <i className="fas fa-plus mr-2"></i>Tambah
+                    </button>
+                    <label className={`flex-1 py-3 bg-emerald-50 hover:bg-emerald-100 text-emerald-700 rounded-xl font-bold text-sm border border-emerald-100 text-center cursor-pointer ${saving ? 'opacity-60 pointer-events-none' : ''}`}>
+                        <i className="fas fa-file-import mr-2"></i>Impor File (JSON / ICS)
+                        <input type="file" accept=".json,.ics,application/json,text/calendar" className="hidden" onChange={handleImport} />
+                    </label>
+                </div>
+            </form>
+
+            <div className="bg-white dark:bg-slate-900 rounded-3xl border dark:border-slate-800 shadow-sm overflow-hidden">
+                <div className="flex items-center justify-between p-6 border-b dark:border-slate-800">
+                    <h3 className="font-bold dark:text-white">Kalender Libur {selectedYear}</h3>
+                    <select
+                        value={selectedYear}
+                        onChange={e => setSelectedYear(Number(e.target.value))}
+                        className="px-4 py-2 bg-white dark:bg-slate-800 text-slate-900 dark:text-white rounded-xl border border-slate-200 dark:border-slate-700 focus:ring-2 focus:ring-blue-500 outline-none text-sm font-semibold"
+                    >
+                        {[currentYear + 1, currentYear, currentYear - 1, currentYear - 2].map(year => (
+                            <option key={year} value={year}>{year}</option>
+                        ))}
+                    </select>
+                </div>
+                {loading ? (
+                    <div className="text-center py-10 text-slate-400 italic text-sm">Memuat kalender libur...</div>
+                ) : holidays.length === 0 ? (
+                    <div className="text-center py-10 text-slate-400 italic text-sm">Belum ada hari libur untuk tahun {selectedYear}.</div>
+                ) : (
+                    <ul className="divide-y dark:divide-slate-800">
+                        {holidays.map(holiday => {
+                            const dow = getDayOfWeek(holiday.date);
+                            return (
+                                <li key={holiday.id} className="flex items-center justify-between px-6 py-4 hover:bg-slate-50 dark:hover:bg-slate-800/30">
+                                    <div>
+                                        <div className="font-bold dark:text-white text-sm">{holiday.name}</div>
+                                        <div className="text-xs text-slate-400">
+                                            {formatHolidayDate(holiday.date)}
+                                            {(dow === 0 || dow === 6) && <span className="ml-2 italic">(akhir pekan)</span>}
+                                        </div>
+                                    </div>
+                                    <div className="flex items-center gap-3">
+                                        <span className={`px-2 py-0.5 rounded text-[10px] font-bold uppercase border ${KIND_COLORS[holiday.kind]}`}>{HOLIDAY_KIND_LABELS[holiday.kind]}</span>
+                                        <button onClick={() => handleDelete(holiday)} className="w-9 h-9 rounded-lg text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20" title="Hapus">
+                                            <i className="fas fa-trash"></i>
+                                        </button>
+                                    </div>
+                                </li>
+                            );
+                        })}
+                    </ul>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default HolidayCalendar;
@@ -1,12 +1,25 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { toast } from 'react-toastify';
-import { User, LocationData, AttendanceRecord, LeaveRequest } from '../types';
+import { User, LocationData, AttendanceMethod, AttendanceRecord, AttendanceCorrection, LeaveRequest, LeaveType, PendingPunch } from '../types';
 import CameraCapture from './CameraCapture';
+import QrScanner from './QrScanner';
 import MonthlyRecap from './MonthlyRecap';
-import { submitAttendance, getTodaysRecords, getUserAttendanceHistory, getUserStats } from '../services/attendanceService';
+import CorrectionRequestModal, { CorrectionDraft } from './CorrectionRequestModal';
+import LeaveApprovalSteps, { describeLeaveCancellation, getLeaveStatusLabel } from './LeaveApprovalSteps';
+import LeaveAttachment from './LeaveAttachment';
+import { getTodaysRecords, getUserAttendanceHistory, getUserStats, submitQrAttendance } from '../services/attendanceService';
+import { SyncResult, enqueuePunch, generatePunchId, isRetryableError, sendPunch, startBackgroundSync, syncPendingPunches } from '../services/offlineQueue';
 import { updateUser } from '../services/userService';
+import { getFaceEmbedding, scoreSelfie } from '../services/faceService';
 import { getSettings } from '../services/settingsService';
-import { createLeaveRequest, getLeaveRequestsByUser, updateLeaveRequest } from '../services/leaveService';
+import { checkPunch } from '../services/punchService';
+import { describeScheduleDay, getEarlyLeaveMinutes, getScheduleDay, getScheduleForUser } from '../services/scheduleService';
+import { formatCalendarDate, formatOfficeDateTime, formatOfficeTime, getOfficeTimeZoneLabel, getOfficeToday, toOfficeDateString } from '../services/dateService';
+import { LeavePolicyError, cancelLeaveRequest, createLeaveRequest, getLeaveRequestsByUser, updateLeaveRequest } from '../services/leaveService';
+import { LeaveQuotaCheck, checkLeaveQuota } from '../services/leaveBalanceService';
+import { LeaveField, LeaveValidationErrors, firstLeaveError, getEarliestLeaveStart, validateLeaveRequest } from '../services/leaveValidationService';
+import { LEAVE_ATTACHMENT_TYPES, checkLeaveAttachmentFile, deleteLeaveAttachment, uploadLeaveAttachment } from '../services/leaveAttachmentService';
+import { getCorrectionRequestsByUser } from '../services/correctionService';
 
 interface InternDashboardProps {
    user: User;
@@ -16,6 +29,7 @@ interface InternDashboardProps {
 const InternDashboard: React.FC<InternDashboardProps> = ({ user: initialUser, onLogout }) => {
    const [user, setUser] = useState<User>(initialUser);
    const [showCamera, setShowCamera] = useState(false);
+   const [showQrScanner, setShowQrScanner] = useState(false);
    const [loading, setLoading] = useState(false);
    const [location, setLocation] = useState<LocationData | null>(null);
    const [error, setError] = useState<string>('');
@@ -23,6 +37,8 @@ const InternDashboard: React.FC<InternDashboardProps> = ({ user: initialUser, on
    const [history, setHistory] = useState<AttendanceRecord[]>([]);
    const [attendanceType, setAttendanceType] = useState<'in' | 'out'>('in');
    const [currentTime, setCurrentTime] = useState(new Date());
+   const [pendingPunches, setPendingPunches] = useState<PendingPunch[]>([]);
+   const [syncingPunches, setSyncingPunches] = useState(false);
 
    // Welcome Animation State
    const [showWelcome, setShowWelcome] = useState(true);
@@ -34,15 +50,29 @@ const InternDashboard: React.FC<InternDashboardProps> = ({ user: initialUser, on
    // Leave Request State
    const [showLeaveModal, setShowLeaveModal] = useState(false);
    const [leaveHistory, setLeaveHistory] = useState<LeaveRequest[]>([]);
-   const [activeTab, setActiveTab] = useState<'attendance' | 'leaves' | 'recap'>('attendance');
+   const [activeTab, setActiveTab] = useState<'attendance' | 'leaves' | 'corrections' | 'recap'>('attendance');
    const [editingLeave, setEditingLeave] = useState<LeaveRequest | null>(null);
    const [leaveForm, setLeaveForm] = useState({
-      type: 'sakit' as 'sakit' | 'izin',
+      type: 'sakit' as LeaveType,
       startDate: '',
       endDate: '',
       reason: '',
-      attachmentUrl: ''
+      attachmentUrl: '' // Stored object path of the current attachment, when editing
    });
+   // A newly picked attachment, uploaded on submit
+   const [attachmentFile, setAttachmentFile] = useState<File | null>(null);
+   const [attachmentPreview, setAttachmentPreview] = useState('');
+
+   const [leaveQuota, setLeaveQuota] = useState<LeaveQuotaCheck | null>(null);
+   const [leaveErrors, setLeaveErrors] = useState<LeaveValidationErrors>({});
+   // Approved leave the intern is cancelling, with the first day to give back
+   const [cancellingLeave, setCancellingLeave] = useState<LeaveRequest | null>(null);
+   const [cancelForm, setCancelForm] = useState({ fromDate: '', reason: '' });
+   const [cancelSubmitting, setCancelSubmitting] = useState(false);
+
+   // Correction Request State
+   const [correctionHistory, setCorrectionHistory] = useState<AttendanceCorrection[]>([]);
+   const [correctionDraft, setCorrectionDraft] = useState<CorrectionDraft | null>(null);
 
    // Personal Stats State
    const [personalStats, setPersonalStats] = useState({ present: 0, late: 0, onLeave: 0 });
@@ -55,6 +85,7 @@ const InternDashboard: React.FC<InternDashboardProps> = ({ user: initialUser, on
 
       loadHistory();
       loadLeaveHistory();
+      loadCorrectionHistory();
       getLocation();
 
       const timer = setInterval(() => setCurrentTime(new Date()), 1000);
@@ -65,6 +96,35 @@ const InternDashboard: React.FC<InternDashboardProps> = ({ user: initialUser, on
       // eslint-disable-next-line react-hooks/exhaustive-deps
    }, []);
 
+   // Offline outbox: keep the pending indicator current and retry when back online
+   useEffect(() => {
+      return startBackgroundSync(
+         user.id,
+         pending => setPendingPunches(pending.filter(p => p.userId === user.id)),
+         handleSyncResult
+      );
+      // eslint-disable-next-line react-hooks/exhaustive-deps
+   }, [user.id]);
+
+   const handleSyncResult = ({ synced, rejected }: SyncResult) => {
+      if (synced.length > 0) {
+         toast.success(`${synced.length} absensi offline berhasil dikirim.`);
+         loadHistory();
+      }
+      rejected.forEach(({ punch, message }) => {
+         toast.error(`Absen ${punch.type === 'in' ? 'Masuk' : 'Pulang'} pukul ${formatOfficeTime(punch.capturedAt)} ditolak: ${message}`, { autoClose: 8000 });
+      });
+   };
+
+   const handleSyncNow = async () => {
+      setSyncingPunches(true);
+      try {
+         handleSyncResult(await syncPendingPunches(user.id));
+      } finally {
+         setSyncingPunches(false);
+      }
+   };
+
    const getLocation = () => {
       setError('');
       setLocation(null);
@@ -125,15 +185,70 @@ const InternDashboard: React.FC<InternDashboardProps> = ({ user: initialUser, on
       setLeaveHistory(leaves);
    };
 
-   // Helper function to check if two dates are the same day
-   const isSameDay = (date1: Date, date2: Date): boolean => {
-      return date1.getFullYear() === date2.getFullYear() &&
-         date1.getMonth() === date2.getMonth() &&
-         date1.getDate() === date2.getDate();
+   // Remaining quota of the selected leave type, and what the chosen dates would use
+   useEffect(() => {
+      if (!showLeaveModal) return;
+      let cancelled = false;
+      checkLeaveQuota(user, leaveForm, editingLeave?.id)
+         .then(check => { if (!cancelled) setLeaveQuota(check); })
+         .catch(err => console.error("Failed to check leave quota:", err));
+      return () => { cancelled = true; };
+      // eslint-disable-next-line react-hooks/exhaustive-deps
+   }, [showLeaveModal, leaveForm.type, leaveForm.startDate, leaveForm.endDate, editingLeave?.id]);
+
+   // Messages from the last submit, cleared as soon as the form changes
+   useEffect(() => {
+      setLeaveErrors({});
+   }, [leaveForm, attachmentFile]);
+
+   // Local preview of a picked image, released when it changes
+   useEffect(() => {
+      if (!attachmentFile || !attachmentFile.type.startsWith('image/')) {
+         setAttachmentPreview('');
+         return;
+      }
+      const url = URL.createObjectURL(attachmentFile);
+      setAttachmentPreview(url);
+      return () => URL.revokeObjectURL(url);
+   }, [attachmentFile]);
+
+   const loadCorrectionHistory = async () => {
+      setCorrectionHistory(await getCorrectionRequestsByUser(user.id));
+   };
+
+   const handleCorrectionSubmitted = () => {
+      setCorrectionDraft(null);
+      setActiveTab('corrections');
+      loadCorrectionHistory();
    };
 
-   const handleClockInClick = () => {
+   // Cek absensi hari ini: which punches the daily state machine allows right now
+   const today = getOfficeToday();
+   // Punches still in the outbox count too, so an offline clock-in unlocks clock-out
+   const pendingAsRecords = pendingPunches.map(p => ({ id: p.id, userId: p.userId, type: p.type, timestamp: p.capturedAt } as AttendanceRecord));
+   // Days the missing clock-out job asked this intern to correct
+   const correctionDays = history.filter(r => r.type === 'in' && r.missingClockOut === 'correction');
+   const todayRecords = [...history, ...pendingAsRecords].filter(r => toOfficeDateString(r.timestamp) === today);
+   const { maxReentriesPerDay, schedules, attendanceMethods } = getSettings();
+   const gpsAllowed = attendanceMethods.includes('gps');
+   const qrAllowed = attendanceMethods.includes('qr');
+   // GPS + selfie when enabled, otherwise the office kiosk QR code
+   const defaultMethod: AttendanceMethod = gpsAllowed ? 'gps' : 'qr';
+   const userSchedule = getScheduleForUser(schedules, user);
+   const todaySchedule = getScheduleDay(userSchedule, today);
+   const clockInError = checkPunch(todayRecords, 'in', maxReentriesPerDay);
+   const clockOutError = checkPunch(todayRecords, 'out', maxReentriesPerDay);
+
+   const handleClockInClick = (method: AttendanceMethod = defaultMethod) => {
       setAttendanceType('in');
+      if (clockInError) {
+         toast.warning(clockInError);
+         return;
+      }
+      if (method === 'qr') {
+         setShowQrScanner(true);
+         return;
+      }
       if (!location) {
          if (error) toast.error("Lokasi tidak terdeteksi. Silakan aktifkan GPS.");
          else toast.info("Sedang mencari lokasi... Tunggu sebentar.");
@@ -142,39 +257,86 @@ const InternDashboard: React.FC<InternDashboardProps> = ({ user: initialUser, on
       setShowCamera(true);
    };
 
-   const handleClockOutClick = () => {
+   const handleClockOutClick = (method: AttendanceMethod = defaultMethod) => {
       setAttendanceType('out');
 
-      // Validasi waktu dihapus - absen pulang bisa kapan saja sebelum jam 12 malam
-
-      if (!location) {
+      if (clockOutError) {
+         toast.warning(clockOutError);
+         return;
+      }
+      if (method === 'gps' && !location) {
          if (error) toast.error("Lokasi tidak terdeteksi. Silakan aktifkan GPS.");
          else toast.info("Sedang mencari lokasi... Tunggu sebentar.");
          return;
       }
-      setShowCamera(true);
+
+      // Absen pulang tetap boleh sebelum jam pulang, tapi akan tercatat "pulang cepat"
+      const minutesEarly = getEarlyLeaveMinutes(userSchedule, new Date());
+      if (minutesEarly > 0 && !window.confirm(`Jam pulang Anda hari ini ${todaySchedule?.end}. Absen sekarang akan tercatat pulang cepat ${minutesEarly} menit. Lanjutkan?`)) {
+         return;
+      }
+      if (method === 'qr') setShowQrScanner(true);
+      else setShowCamera(true);
+   };
+
+   // Kiosk codes expire within a minute, so a failed QR punch is not queued offline
+   const onQrScanned = async (token: string) => {
+      setShowQrScanner(false);
+      setLoading(true);
+      try {
+         const record = await submitQrAttendance(attendanceType, token);
+         await loadHistory();
+         toast.success(`Berhasil ${attendanceType === 'in' ? 'Masuk' : 'Pulang'} lewat QR di ${record.locationName || 'kantor'}!`);
+      } catch (e: any) {
+         console.error(e);
+         toast.error(e?.message ? `Gagal absen dengan QR: ${e.message}` : "Gagal absen dengan QR. Pastikan Anda terhubung ke internet.");
+      } finally {
+         setLoading(false);
+      }
    };
 
    const onPhotoCaptured = async (imageData: string) => {
       setShowCamera(false);
       if (!location) return;
 
+      const capturedAt = new Date().toISOString();
       setLoading(true);
+      const punch: PendingPunch = {
+         id: generatePunchId(),
+         userId: user.id,
+         type: attendanceType,
+         photoData: imageData,
+         location: location,
+         capturedAt,
+         faceScore: await scoreSelfie(imageData, user.faceEmbedding),
+         attempts: 0,
+      };
+
       try {
-         await submitAttendance({
-            userId: user.id,
-            userName: user.name,
-            division: user.division || 'Umum',
-            timestamp: new Date().toISOString(),
-            type: attendanceType,
-            photoUrl: imageData,
-            location: location,
-         });
+         if (!navigator.onLine) throw new Error('offline');
+         const record = await sendPunch(punch);
          await loadHistory();
-         toast.success(`Berhasil ${attendanceType === 'in' ? 'Masuk' : 'Pulang'}!`);
-      } catch (e) {
+         if (record.status === 'pending' && record.syncedLate) {
+            toast.warning("Absensi terkirim terlambat dan menunggu peninjauan admin.", { autoClose: 6000 });
+         } else if (record.status === 'pending') {
+            toast.warning("Wajah pada foto kurang cocok dengan foto profil. Absensi tercatat dan menunggu peninjauan admin.", { autoClose: 6000 });
+         } else {
+            toast.success(`Berhasil ${attendanceType === 'in' ? 'Masuk' : 'Pulang'}!`);
+         }
+      } catch (e: any) {
          console.error(e);
-         toast.error("Gagal mengirim data absensi.");
+         if (isRetryableError(e)) {
+            // Keep the punch and send it once the connection is back
+            try {
+               await enqueuePunch({ ...punch, attempts: navigator.onLine ? 1 : 0, lastError: e?.message });
+               toast.info("Sinyal tidak stabil. Absensi disimpan di perangkat dan akan dikirim otomatis.", { autoClose: 6000 });
+            } catch (queueError) {
+               console.error(queueError);
+               toast.error("Gagal mengirim data absensi.");
+            }
+         } else {
+            toast.error(e?.message ? `Gagal mengirim data absensi: ${e.message}` : "Gagal mengirim data absensi.");
+         }
       } finally {
          setLoading(false);
       }
@@ -197,17 +359,29 @@ const InternDashboard: React.FC<InternDashboardProps> = ({ user: initialUser, on
          setUploadingPhoto(true);
          try {
             const reader = new FileReader();
-            reader.onloadend = () => {
+            reader.onloadend = async () => {
                const base64String = reader.result as string;
-               const updatedUser = { ...user, profilePhotoUrl: base64String };
-               const success = updateUser(updatedUser);
-               if (success) {
-                  setUser(updatedUser);
-                  toast.success("Foto profil diperbarui");
-               } else {
-                  toast.error("Gagal menyimpan foto profil.");
+               try {
+                  // The profile photo is the reference for selfie verification, so it needs a face
+                  const faceEmbedding = await getFaceEmbedding(base64String);
+                  if (!faceEmbedding) {
+                     toast.warning("Wajah tidak terdeteksi. Gunakan foto wajah yang jelas dan menghadap kamera.");
+                     return;
+                  }
+                  const updatedUser = { ...user, profilePhotoUrl: base64String, faceEmbedding };
+                  const success = await updateUser(updatedUser);
+                  if (success) {
+                     setUser(updatedUser);
+                     toast.success("Foto profil diperbarui");
+                  } else {
+                     toast.error("Gagal menyimpan foto profil.");
+                  }
+               } catch (err) {
+                  console.error(err);
+                  toast.error("Gagal memproses foto profil. Coba lagi.");
+               } finally {
+                  setUploadingPhoto(false);
                }
-               setUploadingPhoto(false);
             };
             reader.onerror = () => {
                toast.error("Gagal membaca file gambar.");
@@ -225,31 +399,53 @@ const InternDashboard: React.FC<InternDashboardProps> = ({ user: initialUser, on
    const handleLeaveAttachmentChange = (event: React.ChangeEvent<HTMLInputElement>) => {
       const file = event.target.files?.[0];
       if (file) {
-         if (file.size > 1024 * 1024) { // 1MB limit for attachments
-            toast.warning("Ukuran file terlalu besar. Maksimal 1MB.");
+         const problem = checkLeaveAttachmentFile(file);
+         if (problem) {
+            toast.warning(problem);
+            event.target.value = '';
             return;
          }
-         const reader = new FileReader();
-         reader.onloadend = () => {
-            setLeaveForm({ ...leaveForm, attachmentUrl: reader.result as string });
-         };
-         reader.readAsDataURL(file);
+         setAttachmentFile(file);
       }
    };
 
+   const removeLeaveAttachment = () => {
+      setAttachmentFile(null);
+      setLeaveForm({ ...leaveForm, attachmentUrl: '' });
+      if (attachmentInputRef.current) attachmentInputRef.current.value = '';
+   };
+
+   const resetLeaveForm = () => {
+      setEditingLeave(null);
+      setLeaveForm({ type: 'sakit', startDate: '', endDate: '', reason: '', attachmentUrl: '' });
+      setAttachmentFile(null);
+   };
+
    const submitLeaveRequest = async (e: React.FormEvent) => {
       e.preventDefault();
-      if (!leaveForm.startDate || !leaveForm.endDate || !leaveForm.reason) {
-         toast.warn("Mohon lengkapi semua field.");
-         return;
-      }
-      if (leaveForm.type === 'sakit' && !leaveForm.attachmentUrl) {
-         toast.warn("Untuk izin sakit, wajib melampirkan foto surat dokter/bukti.");
-         return;
-      }
-
       setLoading(true);
+      let uploadedAttachment = '';
       try {
+         // A picked file counts as attached; it is only uploaded once everything else passes
+         const errors = await validateLeaveRequest(user.id, { ...leaveForm, attachmentUrl: attachmentFile?.name || leaveForm.attachmentUrl }, editingLeave?.id);
+         const invalid = firstLeaveError(errors);
+         if (invalid) {
+            setLeaveErrors(errors);
+            toast.warn(invalid);
+            return;
+         }
+
+         const quota = await checkLeaveQuota(user, leaveForm, editingLeave?.id);
+         if (quota.blocked) {
+            toast.error(`Sisa kuota ${leaveForm.type} Anda ${quota.balance.remainingDays} hari kerja, sedangkan pengajuan ini ${quota.requestedDays} hari kerja.`);
+            return;
+         }
+         if (quota.exceeds && !window.confirm(`Pengajuan ini (${quota.requestedDays} hari kerja) melebihi sisa kuota ${leaveForm.type} Anda (${quota.balance.remainingDays} hari). Tetap kirim? Admin akan melihat tanda melebihi kuota.`)) {
+            return;
+         }
+
+         if (attachmentFile) uploadedAttachment = await uploadLeaveAttachment(attachmentFile, user.id);
+         const attachmentUrl = uploadedAttachment || leaveForm.attachmentUrl;
          let success = false;
          if (editingLeave) {
             success = await updateLeaveRequest(editingLeave.id, {
@@ -257,7 +453,7 @@ const InternDashboard: React.FC<InternDashboardProps> = ({ user: initialUser, on
                startDate: leaveForm.startDate,
                endDate: leaveForm.endDate,
                reason: leaveForm.reason,
-               attachmentUrl: leaveForm.attachmentUrl
+               attachmentUrl
             });
          } else {
             success = await createLeaveRequest({
@@ -266,27 +462,36 @@ const InternDashboard: React.FC<InternDashboardProps> = ({ user: initialUser, on
                startDate: leaveForm.startDate,
                endDate: leaveForm.endDate,
                reason: leaveForm.reason,
-               attachmentUrl: leaveForm.attachmentUrl
+               attachmentUrl
             });
          }
 
          if (success) {
             toast.success(editingLeave ? "Pengajuan berhasil diperbarui!" : "Pengajuan berhasil dikirim!");
             setShowLeaveModal(false);
-            setEditingLeave(null);
-            setLeaveForm({ type: 'sakit', startDate: '', endDate: '', reason: '', attachmentUrl: '' });
+            resetLeaveForm();
             await loadLeaveHistory();
          } else {
+            if (uploadedAttachment) await deleteLeaveAttachment(uploadedAttachment);
             toast.error("Gagal memproses pengajuan.");
          }
       } catch (err) {
-         console.error(err);
-         toast.error("Terjadi kesalahan.");
+         if (uploadedAttachment) await deleteLeaveAttachment(uploadedAttachment);
+         // Rules can change between the form check and the save (e.g. another request filed meanwhile)
+         if (err instanceof LeavePolicyError) {
+            toast.error(err.message);
+         } else {
+            console.error(err);
+            toast.error("Terjadi kesalahan.");
+         }
       } finally {
          setLoading(false);
       }
    };
 
+   const renderLeaveError = (field: LeaveField) =>
+      leaveErrors[field] && <p className="text-[10px] text-red-500 font-semibold">{leaveErrors[field]}</p>;
+
    const handleEditLeave = (leave: LeaveRequest) => {
       setEditingLeave(leave);
       setLeaveForm({
@@ -296,13 +501,50 @@ const InternDashboard: React.FC<InternDashboardProps> = ({ user: initialUser, on
          reason: leave.reason,
          attachmentUrl: leave.attachmentUrl || ''
       });
+      setAttachmentFile(null);
       setShowLeaveModal(true);
    };
 
-   // Cek absensi hari ini
-   const today = new Date();
-   const todayCheckIn = history.find(r => r.type === 'in' && isSameDay(new Date(r.timestamp), today));
-   const todayCheckOut = history.find(r => r.type === 'out' && isSameDay(new Date(r.timestamp), today));
+   // Pending requests are withdrawn at once; nobody has to review them
+   const handleWithdrawLeave = async (leave: LeaveRequest) => {
+      if (!window.confirm(`Tarik pengajuan ${leave.type} ${leave.startDate} - ${leave.endDate}? Pengajuan ini tidak akan diproses.`)) return;
+      try {
+         await cancelLeaveRequest(leave.id);
+         toast.success("Pengajuan berhasil ditarik.");
+         loadLeaveHistory();
+      } catch (e: any) {
+         toast.error(e?.message || "Gagal menarik pengajuan.");
+      }
+   };
+
+   // Days before today can't be given back, so the form starts at today for leave already under way
+   const getEarliestCancelDate = (leave: LeaveRequest) =>
+      leave.startDate > today ? leave.startDate : today;
+
+   const handleCancelLeave = (leave: LeaveRequest) => {
+      setCancellingLeave(leave);
+      setCancelForm({ fromDate: getEarliestCancelDate(leave), reason: '' });
+   };
+
+   const submitLeaveCancellation = async (e: React.FormEvent) => {
+      e.preventDefault();
+      if (!cancellingLeave) return;
+      setCancelSubmitting(true);
+      try {
+         await cancelLeaveRequest(cancellingLeave.id, {
+            fromDate: cancelForm.fromDate,
+            reason: cancelForm.reason.trim() || undefined,
+         });
+         toast.success("Permintaan pembatalan dikirim. Menunggu persetujuan admin.");
+         setCancellingLeave(null);
+         loadLeaveHistory();
+      } catch (e: any) {
+         toast.error(e?.message || "Gagal mengirim pembatalan.");
+      } finally {
+         setCancelSubmitting(false);
+      }
+   };
+
 
    return (
       <div className="min-h-screen bg-slate-50 font-sans pb-24">
@@ -368,11 +610,14 @@ const InternDashboard: React.FC<InternDashboardProps> = ({ user: initialUser, on
                   <div>
                      <p className="text-xs font-bold text-slate-400 uppercase mb-1">Waktu Sekarang</p>
                      <div className="text-3xl font-black text-slate-800 tracking-tight leading-none font-mono">
-                        {currentTime.toLocaleTimeString('id-ID', { hour: '2-digit', minute: '2-digit' })}
-                        <span className="text-sm text-slate-400 font-sans ml-1 font-medium animate-pulse">WITA</span>
+                        {formatOfficeTime(currentTime)}
+                        <span className="text-sm text-slate-400 font-sans ml-1 font-medium animate-pulse">{getOfficeTimeZoneLabel()}</span>
                      </div>
                      <p className="text-xs font-medium text-slate-400 mt-1">
-                        {currentTime.toLocaleDateString('id-ID', { weekday: 'long', day: 'numeric', month: 'long' })}
+                        {formatOfficeDateTime(currentTime, { weekday: 'long', day: 'numeric', month: 'long' })}
+                     </p>
+                     <p className="text-[10px] font-bold text-slate-400 mt-1">
+                        <i className="far fa-clock mr-1"></i>Jadwal hari ini: {describeScheduleDay(todaySchedule)}
                      </p>
                   </div>
                   <div className="text-right">
@@ -411,39 +656,96 @@ const InternDashboard: React.FC<InternDashboardProps> = ({ user: initialUser, on
                   </div>
                </div>
 
+               {/* Pending Sync Indicator */}
+               {pendingPunches.length > 0 && (
+                  <div className="mb-4 p-3 bg-amber-50 border border-amber-200 rounded-2xl flex items-center gap-3">
+                     <div className="w-9 h-9 rounded-full bg-amber-100 text-amber-600 flex items-center justify-center flex-shrink-0">
+                        <i className={`fas fa-cloud-upload-alt ${syncingPunches ? 'animate-pulse' : ''}`}></i>
+                     </div>
+                     <div className="flex-1 min-w-0">
+                        <p className="text-xs font-bold text-amber-800">{pendingPunches.length} absensi menunggu sinkronisasi</p>
+                        <p className="text-[10px] text-amber-700/80 truncate">
+                           {pendingPunches.map(p => `${p.type === 'in' ? 'Masuk' : 'Pulang'} ${formatOfficeTime(p.capturedAt)}`).join(', ')}
+                        </p>
+                     </div>
+                     <button
+                        onClick={handleSyncNow}
+                        disabled={syncingPunches}
+                        className="px-3 py-2 bg-amber-500 hover:bg-amber-600 text-white rounded-xl text-xs font-bold disabled:opacity-60"
+                     >
+                        {syncingPunches ? <i className="fas fa-spinner fa-spin"></i> : 'Kirim'}
+                     </button>
+                  </div>
+               )}
+
+               {/* Missing Clock-out Notice */}
+               {correctionDays.length > 0 && (
+                  <div className="mb-4 p-3 bg-purple-50 border border-purple-200 rounded-2xl flex items-center gap-3">
+                     <div className="w-9 h-9 rounded-full bg-purple-100 text-purple-600 flex items-center justify-center flex-shrink-0">
+                        <i className="fas fa-user-clock"></i>
+                     </div>
+                     <div className="flex-1 min-w-0">
+                        <p className="text-xs font-bold text-purple-800">Anda lupa absen pulang ({correctionDays.length} hari)</p>
+                        <p className="text-[10px] text-purple-700/80 truncate">
+                           {correctionDays.map(r => formatOfficeDateTime(r.timestamp, { weekday: 'short', day: 'numeric', month: 'short' })).join(', ')}
+                        </p>
+                     </div>
+                     <button
+                        onClick={() => setCorrectionDraft({ date: toOfficeDateString(correctionDays[0].timestamp), type: 'out' })}
+                        className="px-3 py-2 bg-purple-500 hover:bg-purple-600 text-white rounded-xl text-xs font-bold"
+                     >
+                        Koreksi
+                     </button>
+                  </div>
+               )}
+
                {/* Action Buttons */}
                <div className="grid grid-cols-2 gap-4">
                   <button
-                     onClick={handleClockInClick}
-                     disabled={loading || !!todayCheckIn}
-                     className={`relative h-28 rounded-2xl flex flex-col items-center justify-center gap-2 overflow-hidden transition-all duration-300 group shadow-lg ${todayCheckIn
+                     onClick={() => handleClockInClick()}
+                     disabled={loading || !!clockInError}
+                     title={clockInError || undefined}
+                     className={`relative h-28 rounded-2xl flex flex-col items-center justify-center gap-2 overflow-hidden transition-all duration-300 group shadow-lg ${clockInError
                         ? 'bg-slate-100 text-slate-400 cursor-not-allowed'
                         : 'bg-gradient-to-br from-blue-500 to-blue-600 text-white shadow-blue-500/30 active:scale-95'
                         }`}
                   >
                      <div className="absolute top-0 right-0 p-3 opacity-10 text-4xl"><i className="fas fa-sign-in-alt"></i></div>
-                     <div className={`w-10 h-10 rounded-full flex items-center justify-center text-lg shadow-sm ${todayCheckIn ? 'bg-slate-200' : 'bg-white/20 backdrop-blur-sm'}`}>
+                     <div className={`w-10 h-10 rounded-full flex items-center justify-center text-lg shadow-sm ${clockInError ? 'bg-slate-200' : 'bg-white/20 backdrop-blur-sm'}`}>
                         <i className="fas fa-sign-in-alt"></i>
                      </div>
                      <span className="font-bold text-sm">Absen Masuk</span>
                   </button>
 
                   <button
-                     onClick={handleClockOutClick}
-                     disabled={loading || !todayCheckIn || !!todayCheckOut}
-                     className={`relative h-28 rounded-2xl flex flex-col items-center justify-center gap-2 overflow-hidden transition-all duration-300 group shadow-lg ${!todayCheckIn || todayCheckOut
+                     onClick={() => handleClockOutClick()}
+                     disabled={loading || !!clockOutError}
+                     title={clockOutError || undefined}
+                     className={`relative h-28 rounded-2xl flex flex-col items-center justify-center gap-2 overflow-hidden transition-all duration-300 group shadow-lg ${clockOutError
                         ? 'bg-slate-100 text-slate-400 cursor-not-allowed'
                         : 'bg-gradient-to-br from-orange-500 to-red-500 text-white shadow-orange-500/30 active:scale-95'
                         }`}
                   >
                      <div className="absolute top-0 right-0 p-3 opacity-10 text-4xl"><i className="fas fa-sign-out-alt"></i></div>
-                     <div className={`w-10 h-10 rounded-full flex items-center justify-center text-lg shadow-sm ${!todayCheckIn || todayCheckOut ? 'bg-slate-200' : 'bg-white/20 backdrop-blur-sm'}`}>
+                     <div className={`w-10 h-10 rounded-full flex items-center justify-center text-lg shadow-sm ${clockOutError ? 'bg-slate-200' : 'bg-white/20 backdrop-blur-sm'}`}>
                         <i className="fas fa-sign-out-alt"></i>
                      </div>
                      <span className="font-bold text-sm">Absen Pulang</span>
                   </button>
                </div>
 
+               {/* With both methods enabled, the main buttons use GPS and this one the kiosk */}
+               {gpsAllowed && qrAllowed && (
+                  <button
+                     onClick={() => clockInError ? handleClockOutClick('qr') : handleClockInClick('qr')}
+                     disabled={loading || (!!clockInError && !!clockOutError)}
+                     className="w-full mt-4 py-3 bg-slate-800 hover:bg-slate-900 disabled:bg-slate-100 disabled:text-slate-400 text-white rounded-2xl font-bold text-xs flex items-center justify-center gap-2 transition-all active:scale-95"
+                  >
+                     <i className="fas fa-qrcode"></i>
+                     <span>Scan QR Kantor ({clockInError ? 'Pulang' : 'Masuk'})</span>
+                  </button>
+               )}
+
                {/* Quick Action: Leave Request Button */}
                <button
                   onClick={() => setShowLeaveModal(true)}
@@ -452,6 +754,13 @@ const InternDashboard: React.FC<InternDashboardProps> = ({ user: initialUser, on
                   <i className="fas fa-calendar-plus text-lg"></i>
                   <span>Ajukan Izin / Sakit</span>
                </button>
+               <button
+                  onClick={() => setCorrectionDraft({ date: today, type: 'in' })}
+                  className="w-full mt-2 py-3 bg-white hover:bg-slate-50 text-slate-600 rounded-2xl font-bold text-xs border border-slate-200 flex items-center justify-center gap-2 transition-all active:scale-95"
+               >
+                  <i className="fas fa-user-edit"></i>
+                  <span>Ajukan Koreksi Absen</span>
+               </button>
             </div>
          </div>
 
@@ -470,6 +779,12 @@ const InternDashboard: React.FC<InternDashboardProps> = ({ user: initialUser, on
                >
                   Riwayat Izin
                </button>
+               <button
+                  onClick={() => setActiveTab('corrections')}
+                  className={`flex-1 py-2 text-xs font-bold rounded-lg transition-all ${activeTab === 'corrections' ? 'bg-slate-900 text-white shadow-md' : 'text-slate-500 hover:bg-slate-50'}`}
+               >
+                  Koreksi
+               </button>
                <button
                   onClick={() => setActiveTab('recap')}
                   className={`flex-1 py-2 text-xs font-bold rounded-lg transition-all ${activeTab === 'recap' ? 'bg-slate-900 text-white shadow-md' : 'text-slate-500 hover:bg-slate-50'}`}
@@ -495,21 +810,35 @@ const InternDashboard: React.FC<InternDashboardProps> = ({ user: initialUser, on
                                  <div className={`absolute -left-[21px] top-1/2 -translate-y-1/2 w-3 h-3 rounded-full border-2 border-white shadow-sm ${record.type === 'in' ? (record.isLate ? 'bg-amber-400' : 'bg-blue-500') : 'bg-orange-500'}`}></div>
 
                                  <div className="bg-white p-3 rounded-xl shadow-sm border border-slate-100 flex items-center gap-3">
-                                    <div className="w-14 h-14 bg-slate-100 rounded-lg overflow-hidden flex-shrink-0 cursor-pointer" onClick={() => window.open(record.photoUrl, '_blank')}>
-                                       <img src={record.photoUrl} alt="Bukti" className="w-full h-full object-cover" />
-                                    </div>
+                                    {record.method === 'qr' ? (
+                                       <div className="w-14 h-14 bg-slate-100 rounded-lg flex-shrink-0 flex items-center justify-center text-slate-500 text-2xl">
+                                          <i className="fas fa-qrcode"></i>
+                                       </div>
+                                    ) : (
+                                       <div className="w-14 h-14 bg-slate-100 rounded-lg overflow-hidden flex-shrink-0 cursor-pointer" onClick={() => window.open(record.photoUrl, '_blank')}>
+                                          <img src={record.photoUrl} alt="Bukti" className="w-full h-full object-cover" />
+                                       </div>
+                                    )}
                                     <div className="flex-1 min-w-0">
                                        <div className="flex justify-between items-center mb-0.5">
                                           <h4 className="font-bold text-slate-800 text-sm truncate">{record.type === 'in' ? 'Absen Masuk' : 'Absen Pulang'}</h4>
                                           <span className={`text-[10px] font-bold px-2 py-0.5 rounded ${record.type === 'in' ? 'bg-blue-50 text-blue-600' : 'bg-orange-50 text-orange-600'}`}>
-                                             {new Date(record.timestamp).toLocaleTimeString('id-ID', { hour: '2-digit', minute: '2-digit' })}
+                                             {formatOfficeTime(record.timestamp)}
                                           </span>
                                        </div>
                                        <div className="flex items-center gap-1 text-[10px] text-slate-400">
                                           <i className="fas fa-map-marker-alt"></i>
-                                          <span className="truncate">{record.location.latitude.toFixed(5)}, {record.location.longitude.toFixed(5)}</span>
+                                          <span className="truncate">
+                                             {record.method === 'qr'
+                                                ? `Scan QR · ${record.locationName || record.location.address || 'Kantor'}`
+                                                : `${record.location.latitude.toFixed(5)}, ${record.location.longitude.toFixed(5)}`}
+                                          </span>
                                        </div>
                                        {record.isLate && record.type === 'in' && <span className="text-[10px] text-red-500 font-bold mt-1 block">TERLAMBAT</span>}
+                                       {record.isEarlyLeave && record.type === 'out' && <span className="text-[10px] text-orange-500 font-bold mt-1 block">PULANG CEPAT</span>}
+                                       {record.missingClockOut && record.type === 'in' && <span className="text-[10px] text-purple-500 font-bold mt-1 block">LUPA ABSEN PULANG</span>}
+                                       {record.source === 'system' && <span className="text-[10px] text-slate-400 font-bold mt-1 block">DITUTUP OTOMATIS OLEH SISTEM</span>}
+                                       {record.source === 'correction' && <span className="text-[10px] text-emerald-500 font-bold mt-1 block">DIKOREKSI</span>}
                                     </div>
                                  </div>
                               </div>
@@ -530,34 +859,64 @@ const InternDashboard: React.FC<InternDashboardProps> = ({ user: initialUser, on
                         <div className="space-y-3">
                            {leaveHistory.map((leave) => (
                               <div key={leave.id} className="bg-white p-4 rounded-xl shadow-sm border border-slate-100 relative overflow-hidden">
-                                 <div className={`absolute top-0 bottom-0 left-0 w-1 ${leave.status === 'approved' ? 'bg-emerald-500' : leave.status === 'rejected' ? 'bg-red-500' : 'bg-amber-400'}`}></div>
+                                 <div className={`absolute top-0 bottom-0 left-0 w-1 ${leave.status === 'approved' ? 'bg-emerald-500' : leave.status === 'rejected' ? 'bg-red-500' : leave.status === 'cancelled' ? 'bg-slate-300' : 'bg-amber-400'}`}></div>
                                  <div className="pl-3">
                                     <div className="flex justify-between items-start mb-1">
                                        <span className={`px-2 py-0.5 rounded text-[10px] font-bold uppercase ${leave.type === 'sakit' ? 'bg-red-50 text-red-600' : 'bg-purple-50 text-purple-600'}`}>
                                           {leave.type}
                                        </span>
                                        <span className={`text-[10px] font-bold px-2 py-0.5 rounded uppercase ${leave.status === 'approved' ? 'bg-emerald-100 text-emerald-700' :
-                                          leave.status === 'rejected' ? 'bg-red-100 text-red-700' : 'bg-amber-100 text-amber-700'
+                                          leave.status === 'rejected' ? 'bg-red-100 text-red-700' :
+                                             leave.status === 'cancelled' ? 'bg-slate-100 text-slate-500' : 'bg-amber-100 text-amber-700'
                                           }`}>
-                                          {leave.status === 'pending' ? 'Menunggu' : leave.status === 'approved' ? 'Disetujui' : 'Ditolak'}
+                                          {getLeaveStatusLabel(leave)}
                                        </span>
                                     </div>
                                     <h4 className="text-sm font-bold text-slate-800 mb-1">{leave.reason}</h4>
+                                    {leave.exceedsQuota && <span className="text-[10px] text-red-500 font-bold mb-1 block">MELEBIHI KUOTA</span>}
                                     <div className="flex items-center gap-2 text-[10px] text-slate-400">
                                        <i className="far fa-calendar-alt"></i>
                                        <span>{new Date(leave.startDate).toLocaleDateString('id-ID')} - {new Date(leave.endDate).toLocaleDateString('id-ID')}</span>
                                     </div>
+                                    {(leave.approvalSteps?.length ?? 0) > 0 && (
+                                       <div className="mt-2 pt-2 border-t border-slate-100">
+                                          <LeaveApprovalSteps leave={leave} />
+                                       </div>
+                                    )}
                                     {leave.status === 'rejected' && leave.rejectionReason && (
                                        <div className="mt-2 p-2 bg-red-50 border-l-2 border-red-200 text-red-700 text-xs italic">
                                           <strong>Alasan Penolakan:</strong> {leave.rejectionReason}
                                        </div>
                                     )}
+                                    {leave.cancellation && (
+                                       <div className={`mt-2 p-2 border-l-2 text-xs ${leave.cancellation.status === 'pending' ? 'bg-amber-50 border-amber-200 text-amber-700' : leave.cancellation.status === 'rejected' ? 'bg-red-50 border-red-200 text-red-700' : 'bg-slate-50 border-slate-200 text-slate-600'}`}>
+                                          <strong>{describeLeaveCancellation(leave)}</strong>
+                                          {leave.cancellation.reason && <p className="italic">Alasan: {leave.cancellation.reason}</p>}
+                                          {leave.cancellation.reviewNote && <p className="italic">Catatan admin: {leave.cancellation.reviewNote}</p>}
+                                       </div>
+                                    )}
                                     {leave.status === 'pending' && (
+                                       <div className="mt-3 flex gap-2">
+                                          <button
+                                             onClick={() => handleEditLeave(leave)}
+                                             className="flex-1 py-2 bg-slate-50 hover:bg-slate-100 text-slate-600 rounded-lg text-xs font-bold border border-slate-100 flex items-center justify-center gap-2 transition-all"
+                                          >
+                                             <i className="fas fa-edit"></i> Edit Pengajuan
+                                          </button>
+                                          <button
+                                             onClick={() => handleWithdrawLeave(leave)}
+                                             className="flex-1 py-2 bg-red-50 hover:bg-red-100 text-red-600 rounded-lg text-xs font-bold border border-red-100 flex items-center justify-center gap-2 transition-all"
+                                          >
+                                             <i className="fas fa-undo"></i> Tarik Pengajuan
+                                          </button>
+                                       </div>
+                                    )}
+                                    {leave.status === 'approved' && leave.endDate >= today && leave.cancellation?.status !== 'pending' && (
                                        <button
-                                          onClick={() => handleEditLeave(leave)}
+                                          onClick={() => handleCancelLeave(leave)}
                                           className="mt-3 w-full py-2 bg-slate-50 hover:bg-slate-100 text-slate-600 rounded-lg text-xs font-bold border border-slate-100 flex items-center justify-center gap-2 transition-all"
                                        >
-                                          <i className="fas fa-edit"></i> Edit Pengajuan
+                                          <i className="fas fa-ban"></i> Batalkan Izin
                                        </button>
                                     )}
                                  </div>
@@ -568,6 +927,47 @@ const InternDashboard: React.FC<InternDashboardProps> = ({ user: initialUser, on
                   </>
                )}
 
+               {activeTab === 'corrections' && (
+                  <>
+                     {correctionHistory.length === 0 ? (
+                        <div className="text-center py-10 bg-white rounded-2xl border border-slate-100 border-dashed">
+                           <i className="far fa-folder-open text-4xl text-slate-200 mb-3 block"></i>
+                           <p className="text-slate-400 text-xs">Belum ada pengajuan koreksi.</p>
+                        </div>
+                     ) : (
+                        <div className="space-y-3">
+                           {correctionHistory.map((correction) => (
+                              <div key={correction.id} className="bg-white p-4 rounded-xl shadow-sm border border-slate-100 relative overflow-hidden">
+                                 <div className={`absolute top-0 bottom-0 left-0 w-1 ${correction.status === 'approved' ? 'bg-emerald-500' : correction.status === 'rejected' ? 'bg-red-500' : 'bg-amber-400'}`}></div>
+                                 <div className="pl-3">
+                                    <div className="flex justify-between items-start mb-1">
+                                       <span className={`px-2 py-0.5 rounded text-[10px] font-bold uppercase ${correction.type === 'in' ? 'bg-blue-50 text-blue-600' : 'bg-orange-50 text-orange-600'}`}>
+                                          {correction.type === 'in' ? 'Masuk' : 'Pulang'} {correction.originalTime ? `${correction.originalTime} → ` : ''}{correction.time}
+                                       </span>
+                                       <span className={`text-[10px] font-bold px-2 py-0.5 rounded uppercase ${correction.status === 'approved' ? 'bg-emerald-100 text-emerald-700' :
+                                          correction.status === 'rejected' ? 'bg-red-100 text-red-700' : 'bg-amber-100 text-amber-700'
+                                          }`}>
+                                          {correction.status === 'pending' ? 'Menunggu' : correction.status === 'approved' ? 'Disetujui' : 'Ditolak'}
+                                       </span>
+                                    </div>
+                                    <h4 className="text-sm font-bold text-slate-800 mb-1">{correction.reason}</h4>
+                                    <div className="flex items-center gap-2 text-[10px] text-slate-400">
+                                       <i className="far fa-calendar-alt"></i>
+                                       <span>{formatCalendarDate(correction.date)}</span>
+                                    </div>
+                                    {correction.status === 'rejected' && correction.rejectionReason && (
+                                       <div className="mt-2 p-2 bg-red-50 border-l-2 border-red-200 text-red-700 text-xs italic">
+                                          <strong>Alasan Penolakan:</strong> {correction.rejectionReason}
+                                       </div>
+                                    )}
+                                 </div>
+                              </div>
+                           ))}
+                        </div>
+                     )}
+                  </>
+               )}
+
                {activeTab === 'recap' && (
                   <MonthlyRecap userId={user.id} />
                )}
@@ -575,6 +975,55 @@ const InternDashboard: React.FC<InternDashboardProps> = ({ user: initialUser, on
          </div>
 
          {showCamera && <CameraCapture onCapture={onPhotoCaptured} onClose={() => setShowCamera(false)} />}
+         {showQrScanner && <QrScanner onScan={onQrScanned} onClose={() => setShowQrScanner(false)} />}
+
+         {correctionDraft && (
+            <CorrectionRequestModal
+               userId={user.id}
+               history={history}
+               initial={correctionDraft}
+               onClose={() => setCorrectionDraft(null)}
+               onSubmitted={handleCorrectionSubmitted}
+            />
+         )}
+
+         {/* Leave Cancellation Modal */}
+         {cancellingLeave && (
+            <div className="fixed inset-0 z-50 flex items-end sm:items-center justify-center bg-black/60 backdrop-blur-sm animate-fade-in">
+               <div className="bg-white w-full max-w-lg rounded-t-[2rem] sm:rounded-3xl p-6 sm:p-8 animate-fade-in-up shadow-2xl max-h-[90vh] overflow-y-auto">
+                  <div className="flex justify-between items-center mb-6">
+                     <div>
+                        <h3 className="text-xl font-bold text-slate-800">Batalkan Izin</h3>
+                        <p className="text-xs text-slate-400">
+                           {cancellingLeave.type} {formatCalendarDate(cancellingLeave.startDate)} - {formatCalendarDate(cancellingLeave.endDate)}. Pembatalan perlu disetujui admin.
+                        </p>
+                     </div>
+                     <button onClick={() => setCancellingLeave(null)} className="w-8 h-8 rounded-full bg-slate-100 text-slate-500 flex items-center justify-center hover:bg-slate-200 transition-colors"><i className="fas fa-times"></i></button>
+                  </div>
+
+                  <form onSubmit={submitLeaveCancellation} className="space-y-5">
+                     <div className="space-y-1.5">
+                        <label className="text-[10px] font-bold text-slate-400 uppercase tracking-wide">Batalkan Mulai Tanggal</label>
+                        <input type="date" required className="w-full px-4 py-3 bg-slate-50 rounded-xl border-none focus:ring-2 focus:ring-blue-100 text-sm font-semibold text-slate-700" min={getEarliestCancelDate(cancellingLeave)} max={cancellingLeave.endDate} value={cancelForm.fromDate} onChange={e => setCancelForm({ ...cancelForm, fromDate: e.target.value })} />
+                        <p className="text-[10px] text-slate-400">
+                           {cancelForm.fromDate <= cancellingLeave.startDate
+                              ? 'Seluruh izin dibatalkan.'
+                              : `Izin tetap berlaku sampai sehari sebelum ${formatCalendarDate(cancelForm.fromDate)}.`}
+                        </p>
+                     </div>
+
+                     <div className="space-y-1.5">
+                        <label className="text-[10px] font-bold text-slate-400 uppercase tracking-wide">Alasan (Opsional)</label>
+                        <textarea rows={3} className="w-full px-4 py-3 bg-slate-50 rounded-xl border-none focus:ring-2 focus:ring-blue-100 text-sm text-slate-700 placeholder-slate-400 font-medium" placeholder="Contoh: Sudah sembuh, kembali masuk kantor." value={cancelForm.reason} onChange={e => setCancelForm({ ...cancelForm, reason: e.target.value })}></textarea>
+                     </div>
+
+                     <button type="submit" disabled={cancelSubmitting} className="w-full py-4 bg-slate-900 text-white rounded-xl font-bold text-sm shadow-xl shadow-slate-900/20 hover:bg-black transition-all active:scale-95 disabled:opacity-50">
+                        {cancelSubmitting ? 'Mengirim...' : 'Kirim Pembatalan'}
+                     </button>
+                  </form>
+               </div>
+            </div>
+         )}
 
          {/* Modern Leave Modal */}
          {showLeaveModal && (
@@ -585,7 +1034,7 @@ const InternDashboard: React.FC<InternDashboardProps> = ({ user: initialUser, on
                         <h3 className="text-xl font-bold text-slate-800">{editingLeave ? 'Edit Pengajuan' : 'Ajukan Izin'}</h3>
                         <p className="text-xs text-slate-400">{editingLeave ? 'Perbarui data pengajuan Anda.' : 'Isi form berikut dengan benar.'}</p>
                      </div>
-                     <button onClick={() => { setShowLeaveModal(false); setEditingLeave(null); setLeaveForm({ type: 'sakit', startDate: '', endDate: '', reason: '', attachmentUrl: '' }); }} className="w-8 h-8 rounded-full bg-slate-100 text-slate-500 flex items-center justify-center hover:bg-slate-200 transition-colors"><i className="fas fa-times"></i></button>
+                     <button onClick={() => { setShowLeaveModal(false); resetLeaveForm(); }} className="w-8 h-8 rounded-full bg-slate-100 text-slate-500 flex items-center justify-center hover:bg-slate-200 transition-colors"><i className="fas fa-times"></i></button>
                   </div>
 
                   <form onSubmit={submitLeaveRequest} className="space-y-5">
@@ -593,30 +1042,60 @@ const InternDashboard: React.FC<InternDashboardProps> = ({ user: initialUser, on
                         <button type="button" onClick={() => setLeaveForm({ ...leaveForm, type: 'sakit' })} className={`flex-1 py-2.5 rounded-lg text-xs font-bold transition-all ${leaveForm.type === 'sakit' ? 'bg-white text-red-600 shadow-sm' : 'text-slate-400 hover:text-slate-600'}`}>Sakit</button>
                         <button type="button" onClick={() => setLeaveForm({ ...leaveForm, type: 'izin' })} className={`flex-1 py-2.5 rounded-lg text-xs font-bold transition-all ${leaveForm.type === 'izin' ? 'bg-white text-purple-600 shadow-sm' : 'text-slate-400 hover:text-slate-600'}`}>Izin</button>
                      </div>
+                     {renderLeaveError('type')}
 
                      <div className="grid grid-cols-2 gap-4">
                         <div className="space-y-1.5">
                            <label className="text-[10px] font-bold text-slate-400 uppercase tracking-wide">Dari Tanggal</label>
-                           <input type="date" required className="w-full px-4 py-3 bg-slate-50 rounded-xl border-none focus:ring-2 focus:ring-blue-100 text-sm font-semibold text-slate-700" value={leaveForm.startDate} onChange={e => setLeaveForm({ ...leaveForm, startDate: e.target.value })} />
+                           <input type="date" required className="w-full px-4 py-3 bg-slate-50 rounded-xl border-none focus:ring-2 focus:ring-blue-100 text-sm font-semibold text-slate-700" min={getEarliestLeaveStart(leaveForm.type)} value={leaveForm.startDate} onChange={e => setLeaveForm({ ...leaveForm, startDate: e.target.value })} />
+                           {renderLeaveError('startDate')}
                         </div>
                         <div className="space-y-1.5">
                            <label className="text-[10px] font-bold text-slate-400 uppercase tracking-wide">Sampai Tanggal</label>
-                           <input type="date" required className="w-full px-4 py-3 bg-slate-50 rounded-xl border-none focus:ring-2 focus:ring-blue-100 text-sm font-semibold text-slate-700" value={leaveForm.endDate} onChange={e => setLeaveForm({ ...leaveForm, endDate: e.target.value })} />
+                           <input type="date" required className="w-full px-4 py-3 bg-slate-50 rounded-xl border-none focus:ring-2 focus:ring-blue-100 text-sm font-semibold text-slate-700" min={leaveForm.startDate || undefined} value={leaveForm.endDate} onChange={e => setLeaveForm({ ...leaveForm, endDate: e.target.value })} />
+                           {renderLeaveError('endDate')}
                         </div>
                      </div>
 
+                     {leaveQuota && (
+                        <div className={`p-3 rounded-xl text-xs border ${leaveQuota.exceeds ? 'bg-red-50 border-red-100 text-red-700' : 'bg-slate-50 border-slate-100 text-slate-600'}`}>
+                           {leaveQuota.balance.quotaDays === null ? (
+                              <p><i className="fas fa-infinity mr-1"></i>Pengajuan {leaveForm.type} tidak dibatasi kuota.</p>
+                           ) : (
+                              <p><i className="fas fa-wallet mr-1"></i>Sisa kuota {leaveForm.type}: <strong>{leaveQuota.balance.remainingDays} dari {leaveQuota.balance.quotaDays} hari kerja</strong>{leaveQuota.balance.pendingDays > 0 && ` (${leaveQuota.balance.pendingDays} hari masih menunggu persetujuan)`}</p>
+                           )}
+                           {leaveQuota.requestedDays > 0 && <p className="mt-1">Pengajuan ini: <strong>{leaveQuota.requestedDays} hari kerja</strong> (tanpa hari libur dan akhir pekan)</p>}
+                           {leaveQuota.exceeds && (
+                              <p className="mt-1 font-bold">
+                                 {leaveQuota.blocked ? 'Melebihi sisa kuota, pengajuan tidak dapat dikirim.' : 'Melebihi sisa kuota, pengajuan akan ditandai untuk admin.'}
+                              </p>
+                           )}
+                        </div>
+                     )}
+
                      <div className="space-y-1.5">
                         <label className="text-[10px] font-bold text-slate-400 uppercase tracking-wide">Alasan</label>
                         <textarea required rows={3} className="w-full px-4 py-3 bg-slate-50 rounded-xl border-none focus:ring-2 focus:ring-blue-100 text-sm text-slate-700 placeholder-slate-400 font-medium" placeholder="Jelaskan alasan izin/sakit..." value={leaveForm.reason} onChange={e => setLeaveForm({ ...leaveForm, reason: e.target.value })}></textarea>
+                        {renderLeaveError('reason')}
                      </div>
 
                      <div className="space-y-1.5">
-                        <label className="text-[10px] font-bold text-slate-400 uppercase tracking-wide">Bukti (Surat Dokter/Lainnya)</label>
-                        <input type="file" ref={attachmentInputRef} onChange={handleLeaveAttachmentChange} accept="image/*" className="block w-full text-xs text-slate-500 file:mr-4 file:py-2.5 file:px-4 file:rounded-xl file:border-0 file:text-xs file:font-bold file:bg-blue-50 file:text-blue-700 hover:file:bg-blue-100 cursor-pointer bg-slate-50 rounded-xl border-2 border-dashed border-slate-200" />
-                        {leaveForm.attachmentUrl && (
+                        <label className="text-[10px] font-bold text-slate-400 uppercase tracking-wide">Bukti (Surat Dokter/Lainnya){getSettings().leavePolicies[leaveForm.type].requiresAttachment && <span className="text-red-500"> *</span>}<span className="normal-case font-medium"> • gambar atau PDF, maks. 5MB</span></label>
+                        <input type="file" ref={attachmentInputRef} onChange={handleLeaveAttachmentChange} accept={LEAVE_ATTACHMENT_TYPES.join(',')} className="block w-full text-xs text-slate-500 file:mr-4 file:py-2.5 file:px-4 file:rounded-xl file:border-0 file:text-xs file:font-bold file:bg-blue-50 file:text-blue-700 hover:file:bg-blue-100 cursor-pointer bg-slate-50 rounded-xl border-2 border-dashed border-slate-200" />
+                        {renderLeaveError('attachmentUrl')}
+                        {(attachmentFile || leaveForm.attachmentUrl) && (
                            <div className="mt-2 relative w-full h-32 bg-slate-100 rounded-xl overflow-hidden border border-slate-200">
-                              <img src={leaveForm.attachmentUrl} alt="Preview" className="w-full h-full object-contain" />
-                              <button type="button" onClick={() => { setLeaveForm({ ...leaveForm, attachmentUrl: '' }); if (attachmentInputRef.current) attachmentInputRef.current.value = ''; }} className="absolute top-2 right-2 w-7 h-7 bg-red-500 text-white rounded-full flex items-center justify-center text-xs shadow-lg hover:bg-red-600 transition-colors"><i className="fas fa-times"></i></button>
+                              {attachmentPreview ? (
+                                 <img src={attachmentPreview} alt="Preview" className="w-full h-full object-contain" />
+                              ) : attachmentFile ? (
+                                 <div className="w-full h-full flex flex-col items-center justify-center text-red-500 text-xs font-bold px-10 text-center">
+                                    <i className="fas fa-file-pdf mb-1 text-3xl"></i>
+                                    <span className="text-slate-500 truncate max-w-full">{attachmentFile.name}</span>
+                                 </div>
+                              ) : (
+                                 <LeaveAttachment attachment={leaveForm.attachmentUrl} className="w-full h-full" />
+                              )}
+                              <button type="button" onClick={removeLeaveAttachment} className="absolute top-2 right-2 w-7 h-7 bg-red-500 text-white rounded-full flex items-center justify-center text-xs shadow-lg hover:bg-red-600 transition-colors"><i className="fas fa-times"></i></button>
                            </div>
                         )}
                      </div>
@@ -0,0 +1,79 @@
+import React from 'react';
+import { LeaveApprovalRole, LeaveApprovalStep, LeaveRequest } from '../types';
+import { getCurrentLeaveStep } from '../services/leaveService';
+import { formatOfficeDateTime } from '../services/dateService';
+
+export const LEAVE_APPROVAL_ROLE_LABELS: Record<LeaveApprovalRole, string> = {
+  mentor: 'Mentor',
+  hr: 'HR',
+};
+
+// "Menunggu Persetujuan Mentor" / "Menunggu HR" while a chain is in progress
+export const getLeaveStatusLabel = (leave: Pick<LeaveRequest, 'status' | 'approvalSteps'>): string => {
+  if (leave.status === 'approved') return 'Disetujui';
+  if (leave.status === 'rejected') return 'Ditolak';
+  if (leave.status === 'cancelled') return 'Dibatalkan';
+  const step = getCurrentLeaveStep(leave);
+  if (!step) return 'Menunggu';
+  return step.role === 'mentor' ? 'Menunggu Persetujuan Mentor' : 'Menunggu HR';
+};
+
+// One line on a leave's withdrawal or cancellation, or null when there is none
+export const describeLeaveCancellation = (leave: Pick<LeaveRequest, 'startDate' | 'cancellation'>): string | null => {
+  const cancellation = leave.cancellation;
+  if (!cancellation) return null;
+  const scope = cancellation.fromDate <= leave.startDate ? 'seluruh izin' : `mulai ${cancellation.fromDate}`;
+  if (cancellation.status === 'pending') return `Pembatalan ${scope} menunggu persetujuan admin`;
+  if (cancellation.status === 'rejected') return `Pembatalan ${scope} ditolak oleh ${cancellation.reviewedByName || 'admin'}`;
+  // Withdrawals of pending requests take effect without a review
+  if (!cancellation.reviewedAt) return 'Ditarik oleh peserta';
+  return cancellation.originalEndDate
+    ? `Dibatalkan mulai ${cancellation.fromDate} (semula s.d ${cancellation.originalEndDate}), disetujui oleh ${cancellation.reviewedByName || 'admin'}`
+    : `Dibatalkan, disetujui oleh ${cancellation.reviewedByName || 'admin'}`;
+};
+
+const STEP_STYLES: Record<LeaveApprovalStep['status'], { icon: string; color: string }> = {
+  pending: { icon: 'far fa-clock', color: 'text-slate-400' },
+  approved: { icon: 'fas fa-check-circle', color: 'text-emerald-500' },
+  rejected: { icon: 'fas fa-times-circle', color: 'text-red-500' },
+};
+
+interface LeaveApprovalStepsProps {
+  leave: Pick<LeaveRequest, 'status' | 'approvalSteps'>;
+}
+
+// Step-by-step progress of a leave request's approval chain
+const LeaveApprovalSteps: React.FC<LeaveApprovalStepsProps> = ({ leave }) => {
+  const steps = leave.approvalSteps || [];
+  if (steps.length === 0) return null;
+  const current = getCurrentLeaveStep(leave);
+
+  return (
+    <ol className="space-y-2">
+      {steps.map((step, index) => {
+        // Steps after a rejection are never decided
+        const skipped = step.status === 'pending' && step !== current;
+        const style = STEP_STYLES[step.status];
+        return (
+          <li key={index} className={`flex gap-2 text-xs ${skipped ? 'opacity-50' : ''}`}>
+            <i className={`${step === current ? 'fas fa-hourglass-half text-amber-500' : `${style.icon} ${style.color}`} mt-0.5`}></i>
+            <div>
+              <span className="font-bold text-slate-700 dark:text-slate-200">{index + 1}. {LEAVE_APPROVAL_ROLE_LABELS[step.role]}</span>
+              {step.status === 'pending' ? (
+                <span className="text-slate-400"> • {skipped ? 'Dilewati' : 'Menunggu keputusan'}</span>
+              ) : (
+                <span className="text-slate-500 dark:text-slate-400">
+                  {' '}• {step.status === 'approved' ? 'Disetujui' : 'Ditolak'} oleh {step.approverName || '-'}
+                  {step.decidedAt && `, ${formatOfficeDateTime(step.decidedAt, { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' })}`}
+                </span>
+              )}
+              {step.comment && <p className="italic text-slate-500 dark:text-slate-400">"{step.comment}"</p>}
+            </div>
+          </li>
+        );
+      })}
+    </ol>
+  );
+};
+
+export default LeaveApprovalSteps;
@@ -0,0 +1,52 @@
+import React, { useState, useEffect } from 'react';
+import { getLeaveAttachmentUrl, isPdfAttachment } from '../services/leaveAttachmentService';
+
+interface LeaveAttachmentProps {
+  attachment: string; // Object path in the leave-attachments bucket, or a legacy data URL
+  className?: string;
+  getUrl?: (attachment: string) => Promise<string>; // Signs paths of another private bucket
+}
+
+// Thumbnail of a leave attachment; opens it in a new tab with a freshly signed URL
+const LeaveAttachment: React.FC<LeaveAttachmentProps> = ({ attachment, className = '', getUrl = getLeaveAttachmentUrl }) => {
+  const [thumbnailUrl, setThumbnailUrl] = useState('');
+  const isPdf = isPdfAttachment(attachment);
+
+  useEffect(() => {
+    if (isPdf) return;
+    let cancelled = false;
+    getUrl(attachment).then(url => { if (!cancelled) setThumbnailUrl(url); });
+    return () => { cancelled = true; };
+  }, [attachment, isPdf, getUrl]);
+
+  const handleOpen = async () => {
+    // Opened before the await so popup blockers see it as a response to the click
+    const tab = window.open('', '_blank');
+    const url = await getUrl(attachment);
+    if (!url) {
+      tab?.close();
+      return;
+    }
+    if (tab) tab.location.href = url;
+    else window.open(url, '_blank');
+  };
+
+  return (
+    <div className={`cursor-pointer relative group ${className}`} onClick={handleOpen} title="Buka lampiran">
+      {isPdf ? (
+        <div className="w-full h-full flex flex-col items-center justify-center text-red-500 text-xs font-bold">
+          <i className="fas fa-file-pdf mb-1 text-3xl"></i> PDF
+        </div>
+      ) : thumbnailUrl ? (
+        <img src={thumbnailUrl} alt="Bukti" className="w-full h-full object-cover group-hover:scale-110 transition-transform duration-500" />
+      ) : (
+        <div className="w-full h-full flex items-center justify-center text-slate-400">
+          <i className="fas fa-circle-notch fa-spin"></i>
+        </div>
+      )}
+      <div className="absolute inset-0 bg-black/30 flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity"><i className="fas fa-search-plus text-white"></i></div>
+    </div>
+  );
+};
+
+export default LeaveAttachment;
@@ -0,0 +1,187 @@
+import React, { useState } from 'react';
+import { OfficeLocation, User } from '../types';
+import { formatPolygonText, getPolygonCenter, parsePolygonText } from '../services/geofenceService';
+import AssignmentPicker from './AssignmentPicker';
+
+interface LocationSettingsProps {
+    locations: OfficeLocation[];
+    users: User[];
+    onChange: (locations: OfficeLocation[]) => void;
+}
+
+const inputClass = "bg-slate-50 dark:bg-slate-800 p-3 rounded-xl w-full text-sm border-none focus:ring-2 focus:ring-blue-500 dark:text-white";
+const labelClass = "text-xs font-bold text-slate-500 uppercase block mb-1";
+
+const newLocationId = () => `lokasi-${Date.now().toString(36)}`;
+
+/**
+ * Validates the location list before saving.
+ * @returns An Indonesian error message, or null if every location is usable.
+ */
+export const validateLocations = (locations: OfficeLocation[]): string | null => {
+    if (locations.length === 0) return "Minimal harus ada satu lokasi absensi.";
+
+    for (const loc of locations) {
+        const name = loc.name.trim();
+        if (!name) return "Setiap lokasi harus memiliki nama.";
+        if (loc.kind === 'radius') {
+            if (isNaN(loc.lat) || loc.lat < -90 || loc.lat > 90) return `Latitude lokasi "${name}" tidak valid. Nilai harus antara -90 dan 90.`;
+            if (isNaN(loc.lng) || loc.lng < -180 || loc.lng > 180) return `Longitude lokasi "${name}" tidak valid. Nilai harus antara -180 dan 180.`;
+            if (isNaN(loc.radiusMeters) || loc.radiusMeters <= 0) return `Radius lokasi "${name}" harus berupa angka positif lebih dari 0.`;
+        } else {
+            const polygon = loc.polygon || [];
+            if (polygon.length < 3) return `Area lokasi "${name}" minimal terdiri dari 3 titik.`;
+            if (polygon.some(p => isNaN(p.lat) || isNaN(p.lng) || Math.abs(p.lat) > 90 || Math.abs(p.lng) > 180)) {
+                return `Ada titik area yang tidak valid pada lokasi "${name}". Gunakan format "lat, lng" per baris.`;
+            }
+        }
+    }
+    return null;
+};
+
+const LocationSettings: React.FC<LocationSettingsProps> = ({ locations, users, onChange }) => {
+    // Polygon text is kept while typing and only parsed on blur
+    const [polygonDrafts, setPolygonDrafts] = useState<Record<string, string>>({});
+
+    const updateLocation = (id: string, changes: Partial<OfficeLocation>) => {
+        onChange(locations.map(loc => (loc.id === id ? { ...loc, ...changes } : loc)));
+    };
+
+    const handleAdd = () => {
+        const first = locations[0];
+        onChange([
+            ...locations,
+            {
+                id: newLocationId(),
+                name: '',
+                kind: 'radius',
+                lat: first?.lat ?? 0,
+                lng: first?.lng ?? 0,
+                radiusMeters: 100,
+            },
+        ]);
+    };
+
+    const handleRemove = (id: string) => {
+        onChange(locations.filter(loc => loc.id !== id));
+    };
+
+    const handlePolygonBlur = (loc: OfficeLocation) => {
+        const text = polygonDrafts[loc.id];
+        if (text === undefined) return;
+        const polygon = parsePolygonText(text);
+        const center = polygon.length > 0 ? getPolygonCenter(polygon) : { lat: loc.lat, lng: loc.lng };
+        updateLocation(loc.id, { polygon, lat: center.lat, lng: center.lng });
+    };
+
+    return (
+        <div className="space-y-4">
+            {locations.map((loc, index) => (
+                <div key={loc.id} className="p-4 rounded-2xl border border-slate-100 dark:border-slate-800 bg-slate-50/50 dark:bg-slate-800/30 space-y-4">
+                    <div className="flex items-center gap-3">
+                        <span className="w-7 h-7 rounded-full bg-blue-100 dark:bg-blue-900/30 text-blue-600 dark:text-blue-400 text-xs font-bold flex items-center justify-center flex-shrink-0">{index + 1}</span>
+                        <input
+                            type="text"
+                            placeholder="Nama lokasi (contoh: Gedung Annex)"
+                            className={inputClass}
+                            value={loc.name}
+                            onChange={e => updateLocation(loc.id, { name: e.target.value })}
+                        />
+                        <button
+                            type="button"
+                            onClick={() => handleRemove(loc.id)}
+                            disabled={locations.length === 1}
+                            className="w-10 h-10 flex-shrink-0 rounded-xl text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 disabled:opacity-30 disabled:cursor-not-allowed"
+                            title="Hapus lokasi"
+                        >
+                            <i className="fas fa-trash"></i>
+                        </button>
+                    </div>
+
+                    <div>
+                        <label className={labelClass}>Jenis Area</label>
+                        <select
+                            className={inputClass}
+                            value={loc.kind}
+                            onChange={e => updateLocation(loc.id, { kind: e.target.value as OfficeLocation['kind'] })}
+                        >
+                            <option value="radius">Radius dari titik</option>
+                            <option value="polygon">Poligon (batas area)</option>
+                        </select>
+                    </div>
+
+                    {loc.kind === 'radius' ? (
+                        <div className="grid grid-cols-3 gap-4">
+                            <div>
+                                <label className={labelClass}>Latitude</label>
+                                <input
+                                    type="number"
+                                    step="any"
+                                    min="-90"
+                                    max="90"
+                                    className={inputClass}
+                                    value={loc.lat}
+                                    onChange={e => updateLocation(loc.id, { lat: parseFloat(e.target.value) })}
+                                />
+                            </div>
+                            <div>
+                                <label className={labelClass}>Longitude</label>
+                                <input
+                                    type="number"
+                                    step="any"
+                                    min="-180"
+                                    max="180"
+                                    className={inputClass}
+                                    value={loc.lng}
+                                    onChange={e => updateLocation(loc.id, { lng: parseFloat(e.target.value) })}
+                                />
+                            </div>
+                            <div>
+                                <label className={labelClass}>Radius (Meter)</label>
+                                <input
+                                    type="number"
+                                    min="1"
+                                    className={inputClass}
+                                    value={loc.radiusMeters}
+                                    onChange={e => updateLocation(loc.id, { radiusMeters: parseInt(e.target.value) })}
+                                />
+                            </div>
+                        </div>
+                    ) : (
+                        <div>
+                            <label className={labelClass}>Titik Batas Area</label>
+                            <textarea
+                                rows={5}
+                                placeholder={"-5.15970, 119.40970\n-5.15970, 119.41000\n-5.16000, 119.41000"}
+                                className={`${inputClass} font-mono`}
+                                value={polygonDrafts[loc.id] ?? formatPolygonText(loc.polygon)}
+                                onChange={e => setPolygonDrafts({ ...polygonDrafts, [loc.id]: e.target.value })}
+                                onBlur={() => handlePolygonBlur(loc)}
+                            />
+                            <p className="text-[10px] text-slate-400 mt-1">Satu titik "lat, lng" per baris, berurutan mengelilingi area. Minimal 3 titik.</p>
+                        </div>
+                    )}
+
+                    <AssignmentPicker
+                        users={users}
+                        divisions={loc.divisions || []}
+                        userIds={loc.userIds || []}
+                        onChange={assignment => updateLocation(loc.id, assignment)}
+                        emptyHint="Tidak ada divisi/peserta dipilih: lokasi berlaku untuk semua."
+                        selectedHint="Hanya divisi dan peserta terpilih yang dapat absen di lokasi ini."
+                    />
+                </div>
+            ))}
+
+            <button
+                type="button"
+                onClick={handleAdd}
+                className="w-full py-3 border-2 border-dashed border-slate-200 dark:border-slate-700 text-slate-500 hover:text-blue-600 hover:border-blue-400 rounded-2xl text-sm font-bold transition-colors"
+            >
+                <i className="fas fa-plus mr-2"></i>Tambah Lokasi
+            </button>
+        </div>
+    );
+};
+
+export default LocationSettings;
@@ -2,15 +2,16 @@ import React, { useState, useEffect } from 'react';
 import { toast } from 'react-toastify';
 import { MonthlyRecapData } from '../types';
 import { getMonthlyRecap } from '../services/attendanceService';
+import { formatDuration, getOfficeToday } from '../services/dateService';
 
 interface MonthlyRecapProps {
     userId: string;
 }
 
 const MonthlyRecap: React.FC<MonthlyRecapProps> = ({ userId }) => {
-    const now = new Date();
-    const [selectedMonth, setSelectedMonth] = useState(now.getMonth() + 1);
-    const [selectedYear, setSelectedYear] = useState(now.getFullYear());
+    const [currentYear, currentMonth] = getOfficeToday().split('-').map(Number);
+    const [selectedMonth, setSelectedMonth] = useState(currentMonth);
+    const [selectedYear, setSelectedYear] = useState(currentYear);
     const [recapData, setRecapData] = useState<MonthlyRecapData | null>(null);
     const [loading, setLoading] = useState(false);
 
@@ -41,17 +42,22 @@ const MonthlyRecap: React.FC<MonthlyRecapProps> = ({ userId }) => {
         if (!recapData) return;
 
         const csvRows = [
-            ['Tanggal', 'Hari', 'Status', 'Jam Masuk', 'Jam Pulang', 'Keterangan'],
+            ['Tanggal', 'Hari', 'Status', 'Jam Masuk', 'Jam Pulang', 'Durasi Kerja (Menit)', 'Telat (Menit)', 'Lembur (Menit)', 'Pulang Cepat (Menit)', 'Keterangan'],
             ...recapData.details.map(d => [
                 d.date,
                 d.dayName,
                 d.status === 'present' ? 'Hadir' :
                     d.status === 'late' ? 'Telat' :
                         d.status === 'leave' ? 'Izin' :
-                            d.status === 'alpha' ? 'Alpha' : 'Libur',
+                            d.status === 'alpha' ? 'Alpha' :
+                                d.status === 'holiday' ? 'Libur Nasional' : 'Libur',
                 d.checkInTime || '-',
-                d.checkOutTime || '-',
-                d.leaveReason || '-'
+                d.checkOutTime ? `${d.checkOutTime}${d.autoClosed ? ' (sistem)' : ''}` : d.missingClockOut ? 'Lupa absen pulang' : '-',
+                d.workedMinutes ?? '-',
+                d.lateMinutes || '-',
+                d.overtimeMinutes || '-',
+                d.earlyLeaveMinutes || '-',
+                d.leaveReason || d.holidayName || (d.corrected ? 'Dikoreksi' : '-')
             ])
         ];
 
@@ -73,6 +79,7 @@ const MonthlyRecap: React.FC<MonthlyRecapProps> = ({ userId }) => {
             case 'leave': return '📝';
             case 'alpha': return '❌';
             case 'weekend': return '🏖️';
+            case 'holiday': return '🎉';
             default: return '•';
         }
     };
@@ -84,6 +91,7 @@ const MonthlyRecap: React.FC<MonthlyRecapProps> = ({ userId }) => {
             case 'leave': return 'bg-blue-50 text-blue-700 border-blue-200';
             case 'alpha': return 'bg-red-50 text-red-700 border-red-200';
             case 'weekend': return 'bg-slate-50 text-slate-400 border-slate-200';
+            case 'holiday': return 'bg-purple-50 text-purple-700 border-purple-200';
             default: return 'bg-slate-50 text-slate-500 border-slate-200';
         }
     };
@@ -113,7 +121,7 @@ const MonthlyRecap: React.FC<MonthlyRecapProps> = ({ userId }) => {
                             className="w-full px-3 py-2 bg-slate-50 rounded-xl border-none focus:ring-2 focus:ring-blue-100 text-sm font-semibold text-slate-700"
                         >
                             {[...Array(5)].map((_, idx) => {
-                                const year = now.getFullYear() - idx;
+                                const year = currentYear - idx;
                                 return <option key={year} value={year}>{year}</option>;
                             })}
                         </select>
@@ -141,7 +149,7 @@ const MonthlyRecap: React.FC<MonthlyRecapProps> = ({ userId }) => {
                             </div>
                         </div>
 
-                        <div className="grid grid-cols-4 gap-3">
+                        <div className="grid grid-cols-5 gap-2">
                             <div className="bg-white/10 backdrop-blur-sm rounded-xl p-3 text-center border border-white/20">
                                 <div className="text-2xl font-bold">{recapData.totalPresent}</div>
                                 <div className="text-[10px] text-blue-100 mt-1">Hadir</div>
@@ -150,6 +158,10 @@ const MonthlyRecap: React.FC<MonthlyRecapProps> = ({ userId }) => {
                                 <div className="text-2xl font-bold">{recapData.totalLate}</div>
                                 <div className="text-[10px] text-blue-100 mt-1">Telat</div>
                             </div>
+                            <div className="bg-white/10 backdrop-blur-sm rounded-xl p-3 text-center border border-white/20">
+                                <div className="text-2xl font-bold">{recapData.totalEarlyLeave}</div>
+                                <div className="text-[10px] text-blue-100 mt-1">Pulang Cepat</div>
+                            </div>
                             <div className="bg-white/10 backdrop-blur-sm rounded-xl p-3 text-center border border-white/20">
                                 <div className="text-2xl font-bold">{recapData.totalOnLeave}</div>
                                 <div className="text-[10px] text-blue-100 mt-1">Izin</div>
@@ -159,6 +171,19 @@ const MonthlyRecap: React.FC<MonthlyRecapProps> = ({ userId }) => {
                                 <div className="text-[10px] text-blue-100 mt-1">Alpha</div>
                             </div>
                         </div>
+
+                        <div className="grid grid-cols-2 gap-2 mt-2">
+                            <div className="bg-white/10 backdrop-blur-sm rounded-xl p-3 border border-white/20">
+                                <div className="text-[10px] text-blue-100">Total Jam Kerja</div>
+                                <div className="text-lg font-bold">{formatDuration(recapData.totalWorkedMinutes)}</div>
+                                <div className="text-[10px] text-blue-100">Rata-rata {formatDuration(recapData.averageWorkedMinutes)} / hari</div>
+                            </div>
+                            <div className="bg-white/10 backdrop-blur-sm rounded-xl p-3 border border-white/20">
+                                <div className="text-[10px] text-blue-100">Lembur</div>
+                                <div className="text-lg font-bold">{formatDuration(recapData.totalOvertimeMinutes)}</div>
+                                <div className="text-[10px] text-blue-100">Total telat {formatDuration(recapData.totalLateMinutes)}</div>
+                            </div>
+                        </div>
                     </div>
 
                     {/* Export Button */}
@@ -188,12 +213,32 @@ const MonthlyRecap: React.FC<MonthlyRecapProps> = ({ userId }) => {
                                             <span className="text-lg">{getStatusIcon(detail.status)}</span>
                                             <div>
                                                 <div className="text-xs font-bold text-slate-800">
-                                                    {detail.dayName}, {new Date(detail.date).getDate()} {monthNames[selectedMonth - 1]}
+                                                    {detail.dayName}, {Number(detail.date.slice(8))} {monthNames[selectedMonth - 1]}
                                                 </div>
                                                 {detail.checkInTime && (
                                                     <div className="text-[10px] text-slate-500 mt-0.5">
                                                         Masuk: {detail.checkInTime}
                                                         {detail.checkOutTime && ` • Pulang: ${detail.checkOutTime}`}
+                                                        {detail.autoClosed && <span className="italic"> (otomatis)</span>}
+                                                        {detail.corrected && <span className="text-emerald-600 font-semibold"> • Dikoreksi</span>}
+                                                        {detail.missingClockOut && (
+                                                            <span className="text-purple-600 font-semibold"> • Lupa absen pulang</span>
+                                                        )}
+                                                        {detail.earlyLeaveMinutes && (
+                                                            <span className="text-orange-600 font-semibold"> (pulang cepat {detail.earlyLeaveMinutes} menit)</span>
+                                                        )}
+                                                    </div>
+                                                )}
+                                                {detail.workedMinutes !== undefined && detail.checkOutTime && (
+                                                    <div className="text-[10px] text-slate-500 mt-0.5">
+                                                        Durasi: {formatDuration(detail.workedMinutes)}
+                                                        {detail.lateMinutes && ` • Telat ${formatDuration(detail.lateMinutes)}`}
+                                                        {detail.overtimeMinutes && ` • Lembur ${formatDuration(detail.overtimeMinutes)}`}
+                                                    </div>
+                                                )}
+                                                {detail.holidayName && (
+                                                    <div className="text-[10px] text-slate-500 mt-0.5 italic">
+                                                        {detail.holidayName}
                                                     </div>
                                                 )}
                                                 {detail.leaveReason && (
@@ -207,12 +252,14 @@ const MonthlyRecap: React.FC<MonthlyRecapProps> = ({ userId }) => {
                                             detail.status === 'late' ? 'bg-amber-100 text-amber-700' :
                                                 detail.status === 'leave' ? 'bg-blue-100 text-blue-700' :
                                                     detail.status === 'alpha' ? 'bg-red-100 text-red-700' :
-                                                        'bg-slate-100 text-slate-500'
+                                                        detail.status === 'holiday' ? 'bg-purple-100 text-purple-700' :
+                                                            'bg-slate-100 text-slate-500'
                                             }`}>
                                             {detail.status === 'present' ? 'Hadir' :
                                                 detail.status === 'late' ? 'Telat' :
                                                     detail.status === 'leave' ? 'Izin' :
-                                                        detail.status === 'alpha' ? 'Alpha' : 'Libur'}
+                                                        detail.status === 'alpha' ? 'Alpha' :
+                                                            detail.status === 'holiday' ? 'Libur Nasional' : 'Libur'}
                                         </span>
                                     </div>
                                 </div>
@@ -0,0 +1,113 @@
+import React, { useState, useEffect } from 'react';
+import QRCode from 'qrcode';
+import { OfficeLocation } from '../types';
+import { getKioskQrToken } from '../services/attendanceService';
+import { formatOfficeTime, getOfficeTimeZoneLabel } from '../services/dateService';
+
+interface QrKioskProps {
+  locations: OfficeLocation[];
+  onClose: () => void;
+}
+
+// Full-screen check-in code for a screen at the office; interns scan it from their dashboard
+const QrKiosk: React.FC<QrKioskProps> = ({ locations, onClose }) => {
+  const [locationId, setLocationId] = useState(locations[0]?.id || '');
+  const [qrImage, setQrImage] = useState('');
+  const [expiresAt, setExpiresAt] = useState<string | null>(null);
+  const [error, setError] = useState('');
+  const [now, setNow] = useState(new Date());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  // Fetch a code, then the next one as soon as it expires
+  useEffect(() => {
+    if (!locationId) return;
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout>;
+
+    const refresh = async () => {
+      try {
+        const next = await getKioskQrToken(locationId);
+        const image = await QRCode.toDataURL(next.token, { width: 640, margin: 1, errorCorrectionLevel: 'M' });
+        if (cancelled) return;
+        setQrImage(image);
+        setExpiresAt(next.expiresAt);
+        setError('');
+        timer = setTimeout(refresh, Math.max(new Date(next.expiresAt).getTime() - Date.now(), 0) + 500);
+      } catch (err: any) {
+        if (cancelled) return;
+        console.error('Failed to load kiosk QR code:', err);
+        setQrImage('');
+        setError(err?.message || 'Gagal memuat kode QR.');
+        timer = setTimeout(refresh, 5000);
+      }
+    };
+
+    refresh();
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [locationId]);
+
+  const secondsLeft = expiresAt ? Math.max(Math.ceil((new Date(expiresAt).getTime() - now.getTime()) / 1000), 0) : 0;
+  const location = locations.find(l => l.id === locationId);
+
+  const toggleFullscreen = () => {
+    if (document.fullscreenElement) {
+      document.exitFullscreen();
+    } else {
+      document.documentElement.requestFullscreen().catch(err => console.error('Fullscreen failed:', err));
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-950 text-white flex flex-col">
+      <div className="p-4 flex justify-between items-center gap-4">
+        {locations.length > 1 ? (
+          <select
+            className="bg-slate-800 p-3 rounded-xl text-sm border-none focus:ring-2 focus:ring-blue-500"
+            value={locationId}
+            onChange={e => setLocationId(e.target.value)}
+          >
+            {locations.map(l => <option key={l.id} value={l.id}>{l.name}</option>)}
+          </select>
+        ) : <span />}
+        <div className="flex items-center gap-3">
+          <button onClick={toggleFullscreen} className="w-10 h-10 rounded-full bg-slate-800 hover:bg-slate-700 flex items-center justify-center" title="Layar Penuh">
+            <i className="fas fa-expand"></i>
+          </button>
+          <button onClick={onClose} className="w-10 h-10 rounded-full bg-slate-800 hover:bg-slate-700 flex items-center justify-center" title="Tutup Kiosk">
+            <i className="fas fa-times"></i>
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 flex flex-col items-center justify-center p-6 text-center">
+        <h1 className="text-3xl md:text-4xl font-bold tracking-tight">Scan untuk Absen</h1>
+        <p className="text-slate-400 mt-2">{location?.name || 'Lokasi belum diatur'}</p>
+
+        <div className="my-8 bg-white p-4 rounded-3xl shadow-2xl w-[min(70vh,80vw)] aspect-square flex items-center justify-center">
+          {qrImage ? (
+            <img src={qrImage} alt="Kode QR absensi" className="w-full h-full" />
+          ) : error ? (
+            <div className="text-red-600 text-sm font-semibold p-6"><i className="fas fa-exclamation-triangle text-3xl mb-3 block"></i>{error}</div>
+          ) : (
+            <i className="fas fa-circle-notch fa-spin text-4xl text-slate-400"></i>
+          )}
+        </div>
+
+        <div className="text-5xl font-bold font-mono">{formatOfficeTime(now)} <span className="text-lg text-slate-400">{getOfficeTimeZoneLabel()}</span></div>
+        <p className="text-slate-400 mt-3 text-sm">
+          {qrImage ? `Kode berganti dalam ${secondsLeft} detik` : 'Menyiapkan kode...'}
+        </p>
+        <p className="text-slate-500 mt-1 text-xs">Buka aplikasi absensi, pilih "Scan QR Kantor", lalu arahkan kamera ke kode ini.</p>
+      </div>
+    </div>
+  );
+};
+
+export default QrKiosk;
@@ -0,0 +1,115 @@
+import React, { useRef, useEffect, useState } from 'react';
+import jsQR from 'jsqr';
+import { isQrToken } from '../services/attendanceService';
+
+interface QrScannerProps {
+  onScan: (token: string) => void;
+  onClose: () => void;
+}
+
+// Reads the office kiosk code with the back camera
+const QrScanner: React.FC<QrScannerProps> = ({ onScan, onClose }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const [error, setError] = useState<string>('');
+  const [hint, setHint] = useState<string>('');
+
+  useEffect(() => {
+    let frame = 0;
+    let done = false;
+
+    const stop = () => {
+      done = true;
+      cancelAnimationFrame(frame);
+      streamRef.current?.getTracks().forEach(track => track.stop());
+    };
+
+    const scan = () => {
+      const video = videoRef.current;
+      const canvas = canvasRef.current;
+      const context = canvas?.getContext('2d', { willReadFrequently: true });
+      if (!done && video && canvas && context && video.readyState === video.HAVE_ENOUGH_DATA) {
+        canvas.width = video.videoWidth;
+        canvas.height = video.videoHeight;
+        context.drawImage(video, 0, 0, canvas.width, canvas.height);
+        const code = jsQR(context.getImageData(0, 0, canvas.width, canvas.height).data, canvas.width, canvas.height, {
+          inversionAttempts: 'dontInvert',
+        });
+        if (code && isQrToken(code.data)) {
+          stop();
+          onScan(code.data);
+          return;
+        }
+        if (code) setHint('Ini bukan kode QR absensi. Arahkan kamera ke layar kiosk kantor.');
+      }
+      if (!done) frame = requestAnimationFrame(scan);
+    };
+
+    const start = async () => {
+      try {
+        const mediaStream = await navigator.mediaDevices.getUserMedia({
+          video: { facingMode: 'environment' },
+          audio: false
+        });
+        if (done) {
+          mediaStream.getTracks().forEach(track => track.stop());
+          return;
+        }
+        streamRef.current = mediaStream;
+        if (videoRef.current) {
+          videoRef.current.srcObject = mediaStream;
+        }
+        frame = requestAnimationFrame(scan);
+      } catch (err) {
+        setError('Gagal mengakses kamera. Pastikan izin diberikan.');
+        console.error(err);
+      }
+    };
+
+    start();
+    return stop;
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black bg-opacity-90 flex flex-col items-center justify-center p-4">
+      <div className="w-full max-w-md bg-white rounded-xl overflow-hidden shadow-2xl relative">
+        <div className="p-4 bg-bapekom-900 text-white flex justify-between items-center">
+          <h3 className="font-semibold">Scan QR Kantor</h3>
+          <button onClick={onClose} className="text-white hover:text-gray-300">
+            <i className="fas fa-times text-xl"></i>
+          </button>
+        </div>
+
+        <div className="relative aspect-[3/4] bg-black">
+          {error ? (
+            <div className="flex h-full items-center justify-center text-white p-4 text-center">
+              {error}
+            </div>
+          ) : (
+            <>
+              <video
+                ref={videoRef}
+                autoPlay
+                playsInline
+                muted
+                className="w-full h-full object-cover"
+              />
+              <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
+                <div className="w-2/3 aspect-square border-4 border-white/80 rounded-3xl"></div>
+              </div>
+            </>
+          )}
+          <canvas ref={canvasRef} className="hidden" />
+        </div>
+
+        <div className="p-4 bg-gray-50 text-center text-xs text-slate-500">
+          {hint || 'Arahkan kamera ke kode QR pada layar kiosk kantor.'}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default QrScanner;
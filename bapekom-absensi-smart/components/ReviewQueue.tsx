@@ -0,0 +1,341 @@
+import React, { useState, useEffect } from 'react';
+import { toast } from 'react-toastify';
+import { AttendanceRecord, AttendanceReviewStatus, LocationTrustReason, User } from '../types';
+import { getReviewQueue, isFaceMismatch, isLowLocationTrust, reviewAttendanceRecords } from '../services/attendanceService';
+import { formatOfficeDateTime } from '../services/dateService';
+
+interface ReviewQueueProps {
+  reviewer: User;
+  users: User[]; // For the profile photos the selfies are compared with
+  onReviewed: () => void; // Refresh counts and history after a decision
+}
+
+const REVIEW_LABELS: Record<AttendanceReviewStatus, string> = {
+  accepted: 'Diterima',
+  rejected: 'Ditolak',
+};
+
+export const TRUST_REASON_LABELS: Record<LocationTrustReason, string> = {
+  accuracy_missing: 'Akurasi GPS tidak dilaporkan',
+  accuracy_too_precise: 'Akurasi GPS terlalu sempurna',
+  accuracy_poor: 'Akurasi GPS buruk',
+  impossible_travel: 'Berpindah terlalu cepat dari absen sebelumnya',
+  repeated_coordinates: 'Koordinat persis sama dengan hari lain',
+  shared_coordinates: 'Koordinat persis sama dengan peserta lain',
+};
+
+// Small OpenStreetMap embed centred on the punch, no API key needed
+const getMapEmbedUrl = (latitude: number, longitude: number) => {
+  const delta = 0.003;
+  const bbox = [longitude - delta, latitude - delta, longitude + delta, latitude + delta].join(',');
+  return `https://www.openstreetmap.org/export/embed.html?bbox=${bbox}&layer=mapnik&marker=${latitude},${longitude}`;
+};
+
+// Admin queue for punches outside the geofence (invalid), with an unverified face or synced late (pending) or with a low location trust score
+const ReviewQueue: React.FC<ReviewQueueProps> = ({ reviewer, users, onReviewed }) => {
+  const [records, setRecords] = useState<AttendanceRecord[]>([]);
+  const [showReviewed, setShowReviewed] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set<string>());
+  const [mapRecordId, setMapRecordId] = useState<string | null>(null);
+  const [noteTarget, setNoteTarget] = useState<{ ids: string[]; status?: AttendanceReviewStatus } | null>(null);
+  const [note, setNote] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    loadQueue();
+  }, [showReviewed]);
+
+  const loadQueue = async () => {
+    setLoading(true);
+    try {
+      setRecords(await getReviewQueue(showReviewed));
+    } catch (error: any) {
+      toast.error("Gagal memuat antrean tinjauan: " + (error?.message || 'terjadi kesalahan'));
+    }
+    setSelectedIds(new Set<string>());
+    setLoading(false);
+  };
+
+  const review = async (ids: string[], status?: AttendanceReviewStatus, reviewNote?: string) => {
+    setSaving(true);
+    try {
+      await reviewAttendanceRecords(ids, { status, note: reviewNote }, reviewer);
+      toast.success(status
+        ? `${ids.length} absen berhasil ${status === 'accepted' ? 'diterima' : 'ditolak'}`
+        : 'Catatan berhasil disimpan');
+      setNoteTarget(null);
+      setNote('');
+      loadQueue();
+      onReviewed();
+    } catch (error: any) {
+      toast.error("Gagal menyimpan tinjauan: " + (error?.message || 'terjadi kesalahan'));
+    }
+    setSaving(false);
+  };
+
+  const openNote = (ids: string[], status?: AttendanceReviewStatus) => {
+    const existing = ids.length === 1 ? records.find(r => r.id === ids[0])?.reviewNote : undefined;
+    setNote(existing || '');
+    setNoteTarget({ ids, status });
+  };
+
+  const handleAccept = (ids: string[]) => {
+    if (confirm(`Terima ${ids.length} absen ini? Absen yang diterima tetap dihitung dalam rekap.`)) {
+      review(ids, 'accepted');
+    }
+  };
+
+  const toggleSelected = (id: string) => {
+    const next = new Set(selectedIds);
+    if (next.has(id)) next.delete(id); else next.add(id);
+    setSelectedIds(next);
+  };
+
+  const profilePhotos = new Map(users.map(u => [u.id, u.profilePhotoUrl]));
+  const pendingRecords = records.filter(r => !r.reviewStatus);
+  const allSelected = pendingRecords.length > 0 && pendingRecords.every(r => selectedIds.has(r.id));
+  const selected: string[] = Array.from(selectedIds);
+
+  return (
+    <div>
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-6">
+        <div className="bg-white dark:bg-slate-900 p-1 rounded-xl shadow-sm border dark:border-slate-800 flex">
+          <button
+            onClick={() => setShowReviewed(false)}
+            className={`px-4 py-2 text-xs font-bold rounded-lg transition-all ${!showReviewed ? 'bg-slate-900 text-white shadow-md' : 'text-slate-500 hover:bg-slate-50 dark:hover:bg-slate-800'}`}
+          >
+            Belum Ditinjau
+          </button>
+          <button
+            onClick={() => setShowReviewed(true)}
+            className={`px-4 py-2 text-xs font-bold rounded-lg transition-all ${showReviewed ? 'bg-slate-900 text-white shadow-md' : 'text-slate-500 hover:bg-slate-50 dark:hover:bg-slate-800'}`}
+          >
+            Semua
+          </button>
+        </div>
+
+        <div className="flex items-center gap-3">
+          <label className="flex items-center gap-2 text-xs font-bold text-slate-500 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={allSelected}
+              onChange={() => setSelectedIds(allSelected ? new Set<string>() : new Set(pendingRecords.map(r => r.id)))}
+              className="w-4 h-4 rounded border-slate-300"
+            />
+            Pilih Semua
+          </label>
+          <button
+            disabled={selected.length === 0 || saving}
+            onClick={() => openNote(selected, 'rejected')}
+            className="px-4 py-2 bg-white border border-slate-200 dark:bg-slate-800 dark:border-slate-700 hover:bg-red-50 dark:hover:bg-red-900/20 text-slate-600 dark:text-slate-300 hover:text-red-600 rounded-lg text-xs font-bold transition-all disabled:opacity-40"
+          >
+            Tolak ({selected.length})
+          </button>
+          <button
+            disabled={selected.length === 0 || saving}
+            onClick={() => handleAccept(selected)}
+            className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg text-xs font-bold shadow-lg shadow-blue-500/20 transition-all disabled:opacity-40"
+          >
+            Terima ({selected.length})
+          </button>
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="text-center py-20 text-slate-400 italic text-sm">Memuat antrean tinjauan...</div>
+      ) : records.length === 0 ? (
+        <div className="text-center py-20 bg-white dark:bg-slate-900 rounded-3xl border border-slate-100 dark:border-slate-800">
+          <i className="fas fa-check-circle text-4xl text-emerald-300 mb-4"></i>
+          <p className="text-slate-500">Tidak ada absen yang perlu ditinjau.</p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 gap-4">
+          {records.map(r => (
+            <div key={r.id} className={`bg-white dark:bg-slate-900 p-6 rounded-2xl border shadow-sm flex flex-col md:flex-row gap-6 ${!r.reviewStatus ? 'border-amber-200 dark:border-amber-900/50' : r.reviewStatus === 'accepted' ? 'border-emerald-200 dark:border-emerald-900/50' : 'border-red-200 dark:border-red-900/50'}`}>
+              {!r.reviewStatus && (
+                <input
+                  type="checkbox"
+                  checked={selectedIds.has(r.id)}
+                  onChange={() => toggleSelected(r.id)}
+                  className="w-4 h-4 mt-1 rounded border-slate-300 flex-shrink-0"
+                />
+              )}
+
+              <div className="flex gap-2 flex-shrink-0">
+                <div className="w-full md:w-32 h-32 bg-slate-100 dark:bg-slate-800 rounded-xl overflow-hidden cursor-pointer border dark:border-slate-700" onClick={() => r.photoUrl && window.open(r.photoUrl, '_blank')}>
+                  {r.photoUrl ? (
+                    <img src={r.photoUrl} alt="Foto absen" className="w-full h-full object-cover" />
+                  ) : (
+                    <div className="w-full h-full flex flex-col items-center justify-center text-slate-400 text-xs">
+                      <i className="fas fa-image mb-1 text-2xl opacity-20"></i> Tanpa Foto
+                    </div>
+                  )}
+                </div>
+                {isFaceMismatch(r) && profilePhotos.get(r.userId) && (
+                  <div className="w-20 h-20 bg-slate-100 dark:bg-slate-800 rounded-xl overflow-hidden border dark:border-slate-700" title="Foto profil">
+                    <img src={profilePhotos.get(r.userId)} alt="Foto profil" className="w-full h-full object-cover" />
+                  </div>
+                )}
+              </div>
+
+              <div className="flex-1">
+                <div className="flex justify-between items-start mb-2">
+                  <div>
+                    <h3 className="font-bold text-lg text-slate-800 dark:text-white">{r.userName}</h3>
+                    <p className="text-xs text-slate-500 uppercase font-semibold tracking-wide">
+                      {r.division} • Absen {r.type === 'in' ? 'Masuk' : 'Pulang'} {formatOfficeDateTime(r.timestamp, { weekday: 'short', day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' })}
+                    </p>
+                  </div>
+                  <span className={`px-3 py-1 rounded-lg text-xs font-bold uppercase ${!r.reviewStatus ? 'bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-400' :
+                    r.reviewStatus === 'accepted' ? 'bg-emerald-100 text-emerald-700 dark:bg-emerald-900/30 dark:text-emerald-400' :
+                      'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400'
+                    }`}>
+                    {r.reviewStatus ? REVIEW_LABELS[r.reviewStatus] : r.status}
+                  </span>
+                </div>
+
+                <div className="bg-slate-50 dark:bg-slate-800/50 p-4 rounded-xl mb-4 text-sm space-y-2 border border-slate-100 dark:border-slate-700">
+                  <div className="flex gap-4">
+                    <span className="font-semibold w-24 text-slate-500 text-xs uppercase tracking-wide">Jarak</span>
+                    <span className="text-slate-800 dark:text-slate-200 font-medium">
+                      {r.distanceMeters != null ? `${Math.round(r.distanceMeters)} m dari ${r.locationName || 'kantor terdekat'}` : 'Tidak diketahui'}
+                    </span>
+                  </div>
+                  <div className="flex gap-4">
+                    <span className="font-semibold w-24 text-slate-500 text-xs uppercase tracking-wide">Akurasi GPS</span>
+                    <span className={`font-medium ${r.location.accuracy > 100 ? 'text-amber-600' : 'text-slate-800 dark:text-slate-200'}`}>± {Math.round(r.location.accuracy)} m</span>
+                  </div>
+                  {r.syncedLate && r.syncedAt && (
+                    <div className="flex gap-4">
+                      <span className="font-semibold w-24 text-slate-500 text-xs uppercase tracking-wide">Terkirim</span>
+                      <span className="text-amber-600 font-medium">
+                        {formatOfficeDateTime(r.syncedAt)} (offline, jam absen dari perangkat)
+                      </span>
+                    </div>
+                  )}
+                  {r.faceScore != null && (
+                    <div className="flex gap-4">
+                      <span className="font-semibold w-24 text-slate-500 text-xs uppercase tracking-wide">Wajah</span>
+                      <span className={`font-medium ${isFaceMismatch(r) ? 'text-red-600 font-bold' : 'text-slate-800 dark:text-slate-200'}`}>
+                        {Math.round(r.faceScore * 100)}% cocok dengan foto profil
+                      </span>
+                    </div>
+                  )}
+                  {r.locationTrustScore != null && (
+                    <div className="flex gap-4">
+                      <span className="font-semibold w-24 text-slate-500 text-xs uppercase tracking-wide">Skor Lokasi</span>
+                      <span className="font-medium">
+                        <span className={isLowLocationTrust(r) ? 'text-red-600 font-bold' : 'text-slate-800 dark:text-slate-200'}>{r.locationTrustScore}/100</span>
+                        {(r.locationTrustReasons || []).map(reason => (
+                          <span key={reason} className="block text-xs text-slate-500 dark:text-slate-400">• {TRUST_REASON_LABELS[reason] || reason}</span>
+                        ))}
+                      </span>
+                    </div>
+                  )}
+                  <div className="flex gap-4">
+                    <span className="font-semibold w-24 text-slate-500 text-xs uppercase tracking-wide">Koordinat</span>
+                    <button onClick={() => setMapRecordId(mapRecordId === r.id ? null : r.id)} className="text-blue-600 dark:text-blue-400 font-mono text-xs hover:underline">
+                      {r.location.latitude.toFixed(6)}, {r.location.longitude.toFixed(6)} <i className={`fas fa-chevron-${mapRecordId === r.id ? 'up' : 'down'} ml-1`}></i>
+                    </button>
+                  </div>
+                  {r.reviewNote && (
+                    <div className="flex gap-4">
+                      <span className="font-semibold w-24 text-slate-500 text-xs uppercase tracking-wide">Catatan</span>
+                      <span className="text-slate-800 dark:text-slate-200 italic">"{r.reviewNote}"</span>
+                    </div>
+                  )}
+                  {r.reviewedAt && (
+                    <div className="text-[10px] text-slate-400">Ditinjau {r.reviewedByName ? `oleh ${r.reviewedByName} ` : ''}{formatOfficeDateTime(r.reviewedAt)}</div>
+                  )}
+                </div>
+
+                {mapRecordId === r.id && (
+                  <iframe
+                    title={`Peta absen ${r.userName}`}
+                    src={getMapEmbedUrl(r.location.latitude, r.location.longitude)}
+                    className="w-full h-56 rounded-xl border border-slate-200 dark:border-slate-700 mb-4"
+                    loading="lazy"
+                  />
+                )}
+
+                <div className="flex gap-3 justify-end">
+                  <button
+                    onClick={() => openNote([r.id])}
+                    className="px-4 py-2 bg-white border border-slate-200 dark:bg-slate-800 dark:border-slate-700 hover:bg-slate-50 dark:hover:bg-slate-700 text-slate-600 dark:text-slate-300 rounded-lg text-sm font-bold transition-all"
+                  >
+                    <i className="fas fa-sticky-note mr-1"></i> Catatan
+                  </button>
+                  {!r.reviewStatus && (
+                    <>
+                      <button
+                        onClick={() => openNote([r.id], 'rejected')}
+                        className="px-4 py-2 bg-white border border-slate-200 dark:bg-slate-800 dark:border-slate-700 hover:bg-red-50 dark:hover:bg-red-900/20 text-slate-600 dark:text-slate-300 hover:text-red-600 dark:hover:text-red-400 rounded-lg text-sm font-bold transition-all"
+                      >
+                        Tolak
+                      </button>
+                      <button
+                        onClick={() => handleAccept([r.id])}
+                        className="px-6 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg text-sm font-bold shadow-lg shadow-blue-500/20 transition-all transform active:scale-95"
+                      >
+                        Terima
+                      </button>
+                    </>
+                  )}
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {noteTarget && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm animate-fade-in">
+          <div className="bg-white dark:bg-slate-900 rounded-2xl p-6 w-full max-w-md shadow-2xl animate-fade-in-up border dark:border-slate-800">
+            <div className="flex justify-between items-center mb-6">
+              <h3 className="text-lg font-bold text-slate-800 dark:text-white">
+                {noteTarget.status === 'rejected' ? `Tolak ${noteTarget.ids.length} Absen` : 'Catatan Tinjauan'}
+              </h3>
+              <button onClick={() => setNoteTarget(null)} className="text-slate-400 dark:text-slate-500 hover:text-slate-600 dark:hover:text-slate-300">
+                <i className="fas fa-times"></i>
+              </button>
+            </div>
+
+            {noteTarget.status === 'rejected' && (
+              <p className="text-xs text-slate-500 dark:text-slate-400 mb-4">Absen yang ditolak tidak dihitung dalam rekap bulanan.</p>
+            )}
+
+            <form onSubmit={(e) => { e.preventDefault(); review(noteTarget.ids, noteTarget.status, note); }}>
+              <textarea
+                className="w-full px-4 py-3 bg-slate-50 dark:bg-slate-800 rounded-xl border-none focus:ring-2 focus:ring-blue-100 dark:focus:ring-blue-900 text-sm text-slate-700 dark:text-slate-200 font-medium placeholder-slate-400 dark:placeholder-slate-600"
+                rows={4}
+                placeholder={noteTarget.status === 'rejected' ? 'Alasan penolakan...' : 'Contoh: sudah dikonfirmasi via telepon, tugas luar kantor...'}
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                required={noteTarget.status === 'rejected'}
+              />
+              <div className="pt-4 flex gap-3">
+                <button
+                  type="button"
+                  onClick={() => setNoteTarget(null)}
+                  className="flex-1 py-3 bg-slate-100 dark:bg-slate-800 hover:bg-slate-200 dark:hover:bg-slate-700 text-slate-600 dark:text-slate-300 rounded-xl text-sm font-bold transition-colors"
+                >
+                  Batal
+                </button>
+                <button
+                  type="submit"
+                  disabled={saving}
+                  className={`flex-1 py-3 text-white rounded-xl text-sm font-bold shadow-lg transition-colors disabled:opacity-60 ${noteTarget.status === 'rejected' ? 'bg-red-600 hover:bg-red-700 shadow-red-500/20' : 'bg-blue-600 hover:bg-blue-700 shadow-blue-500/20'}`}
+                >
+                  {noteTarget.status === 'rejected' ? 'Kirim Penolakan' : 'Simpan Catatan'}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ReviewQueue;
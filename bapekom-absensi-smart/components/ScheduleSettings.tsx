@@ -0,0 +1,168 @@
+import React from 'react';
+import { ScheduleDay, User, WorkSchedule } from '../types';
+import { parseTimeToMinutes } from '../services/dateService';
+import AssignmentPicker from './AssignmentPicker';
+
+interface ScheduleSettingsProps {
+    schedules: WorkSchedule[];
+    users: User[];
+    onChange: (schedules: WorkSchedule[]) => void;
+}
+
+const inputClass = "bg-slate-50 dark:bg-slate-800 p-3 rounded-xl w-full text-sm border-none focus:ring-2 focus:ring-blue-500 dark:text-white";
+const labelClass = "text-xs font-bold text-slate-500 uppercase block mb-1";
+
+const DAY_NAMES = ['Minggu', 'Senin', 'Selasa', 'Rabu', 'Kamis', 'Jumat', 'Sabtu'];
+const WEEK_ORDER = [1, 2, 3, 4, 5, 6, 0]; // Show Monday first
+const TIME_REGEX = /^([01]?[0-9]|2[0-3]):[0-5][0-9]$/;
+
+const newScheduleId = () => `jadwal-${Date.now().toString(36)}`;
+
+/**
+ * Validates the schedule list before saving.
+ * @returns An Indonesian error message, or null if every schedule is usable.
+ */
+export const validateSchedules = (schedules: WorkSchedule[]): string | null => {
+    if (schedules.length === 0) return "Minimal harus ada satu jadwal kerja.";
+
+    for (const schedule of schedules) {
+        const name = schedule.name.trim();
+        if (!name) return "Setiap jadwal harus memiliki nama.";
+        if (!schedule.days.some(Boolean)) return `Jadwal "${name}" harus memiliki minimal satu hari kerja.`;
+
+        for (let dow = 0; dow < 7; dow++) {
+            const day = schedule.days[dow];
+            if (!day) continue;
+            if (!TIME_REGEX.test(day.start) || !TIME_REGEX.test(day.end)) {
+                return `Jam kerja ${DAY_NAMES[dow]} pada jadwal "${name}" tidak valid. Format harus HH:mm (contoh: 07:40).`;
+            }
+            if (parseTimeToMinutes(day.end) <= parseTimeToMinutes(day.start)) {
+                return `Jam pulang ${DAY_NAMES[dow]} pada jadwal "${name}" harus setelah jam masuk.`;
+            }
+        }
+    }
+    return null;
+};
+
+const ScheduleSettings: React.FC<ScheduleSettingsProps> = ({ schedules, users, onChange }) => {
+    const updateSchedule = (id: string, changes: Partial<WorkSchedule>) => {
+        onChange(schedules.map(s => (s.id === id ? { ...s, ...changes } : s)));
+    };
+
+    const updateDay = (schedule: WorkSchedule, dow: number, day: ScheduleDay | null) => {
+        const days = Array.from({ length: 7 }, (_, i) => schedule.days[i] || null);
+        days[dow] = day;
+        updateSchedule(schedule.id, { days });
+    };
+
+    const handleAdd = () => {
+        const [first] = schedules;
+        onChange([
+            ...schedules,
+            {
+                id: newScheduleId(),
+                name: '',
+                days: first ? [...first.days] : Array.from({ length: 7 }, () => null),
+            },
+        ]);
+    };
+
+    const handleRemove = (id: string) => {
+        onChange(schedules.filter(s => s.id !== id));
+    };
+
+    return (
+        <div className="space-y-4">
+            {schedules.map((schedule, index) => (
+                <div key={schedule.id} className="p-4 rounded-2xl border border-slate-100 dark:border-slate-800 bg-slate-50/50 dark:bg-slate-800/30 space-y-4">
+                    <div className="flex items-center gap-3">
+                        <span className="w-7 h-7 rounded-full bg-blue-100 dark:bg-blue-900/30 text-blue-600 dark:text-blue-400 text-xs font-bold flex items-center justify-center flex-shrink-0">{index + 1}</span>
+                        <input
+                            type="text"
+                            placeholder="Nama jadwal (contoh: Paruh Waktu)"
+                            className={inputClass}
+                            value={schedule.name}
+                            onChange={e => updateSchedule(schedule.id, { name: e.target.value })}
+                        />
+                        <button
+                            type="button"
+                            onClick={() => handleRemove(schedule.id)}
+                            disabled={index === 0}
+                            className="w-10 h-10 flex-shrink-0 rounded-xl text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 disabled:opacity-30 disabled:cursor-not-allowed"
+                            title={index === 0 ? "Jadwal default tidak dapat dihapus" : "Hapus jadwal"}
+                        >
+                            <i className="fas fa-trash"></i>
+                        </button>
+                    </div>
+
+                    <div>
+                        <label className={labelClass}>Hari & Jam Kerja</label>
+                        <div className="space-y-2">
+                            {WEEK_ORDER.map(dow => {
+                                const day = schedule.days[dow] || null;
+                                return (
+                                    <div key={dow} className="grid grid-cols-[7rem_1fr_1fr] gap-3 items-center">
+                                        <label className="flex items-center gap-2 text-sm dark:text-white cursor-pointer">
+                                            <input
+                                                type="checkbox"
+                                                checked={!!day}
+                                                onChange={e => updateDay(schedule, dow, e.target.checked ? { start: '07:40', end: '16:00' } : null)}
+                                            />
+                                            {DAY_NAMES[dow]}
+                                        </label>
+                                        {day ? (
+                                            <>
+                                                <input
+                                                    type="time"
+                                                    className={inputClass}
+                                                    value={day.start}
+                                                    onChange={e => updateDay(schedule, dow, { ...day, start: e.target.value })}
+                                                    title="Jam masuk (lewat dari ini dihitung terlambat)"
+                                                />
+                                                <input
+                                                    type="time"
+                                                    className={inputClass}
+                                                    value={day.end}
+                                                    onChange={e => updateDay(schedule, dow, { ...day, end: e.target.value })}
+                                                    title="Jam pulang"
+                                                />
+                                            </>
+                                        ) : (
+                                            <span className="col-span-2 text-xs text-slate-400 italic">Libur</span>
+                                        )}
+                                    </div>
+                                );
+                            })}
+                        </div>
+                        <p className="text-[10px] text-slate-400 mt-1">Absen masuk setelah jam masuk dihitung terlambat. Hari libur tidak dihitung alpa.</p>
+                    </div>
+
+                    {index === 0 ? (
+                        <p className="text-xs text-slate-500 dark:text-slate-400">
+                            <i className="fas fa-info-circle mr-1"></i>Jadwal default: berlaku untuk semua peserta yang tidak memiliki jadwal khusus.
+                        </p>
+                    ) : (
+                        <AssignmentPicker
+                            users={users}
+                            divisions={schedule.divisions || []}
+                            userIds={schedule.userIds || []}
+                            onChange={assignment => updateSchedule(schedule.id, assignment)}
+                            emptyHint="Belum ada divisi/peserta dipilih: jadwal ini belum dipakai siapa pun."
+                            selectedHint="Jadwal peserta terpilih menggantikan jadwal divisinya."
+                        />
+                    )}
+                </div>
+            ))}
+
+            <button
+                type="button"
+                onClick={handleAdd}
+                className="w-full py-3 border-2 border-dashed border-slate-200 dark:border-slate-700 text-slate-500 hover:text-blue-600 hover:border-blue-400 rounded-2xl text-sm font-bold transition-colors"
+            >
+                <i className="fas fa-plus mr-2"></i>Tambah Jadwal
+            </button>
+        </div>
+    );
+};
+
+export default ScheduleSettings;
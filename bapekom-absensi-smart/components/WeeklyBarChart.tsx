@@ -1,15 +1,19 @@
 import React from 'react';
 import { Bar } from 'react-chartjs-2';
 import { Chart as ChartJS, CategoryScale, LinearScale, BarElement, Title, Tooltip, Legend } from 'chart.js';
-import { WeeklyStats } from '../types';
+import { WeeklyStats, StatsWindow } from '../types';
 
 ChartJS.register(CategoryScale, LinearScale, BarElement, Title, Tooltip, Legend);
 
 interface WeeklyBarChartProps {
     stats: WeeklyStats[];
+    days: StatsWindow;
+    onDaysChange: (days: StatsWindow) => void;
 }
 
-const WeeklyBarChart: React.FC<WeeklyBarChartProps> = ({ stats }) => {
+const WINDOW_OPTIONS: StatsWindow[] = [7, 14, 30];
+
+const WeeklyBarChart: React.FC<WeeklyBarChartProps> = ({ stats, days, onDaysChange }) => {
     const data = {
         labels: stats.map(s => s.date),
         datasets: [
@@ -29,6 +33,22 @@ const WeeklyBarChart: React.FC<WeeklyBarChartProps> = ({ stats }) => {
                 borderColor: 'rgba(202, 138, 4, 1)',
                 borderWidth: 1,
             },
+            {
+                label: 'Izin/Sakit',
+                data: stats.map(s => s.leave),
+                backgroundColor: 'rgba(16, 185, 129, 0.8)', // hijau
+                borderRadius: 6,
+                borderColor: 'rgba(5, 150, 105, 1)',
+                borderWidth: 1,
+            },
+            {
+                label: 'Alpa',
+                data: stats.map(s => s.alpa),
+                backgroundColor: 'rgba(239, 68, 68, 0.8)', // merah
+                borderRadius: 6,
+                borderColor: 'rgba(220, 38, 38, 1)',
+                borderWidth: 1,
+            },
         ],
     };
 
@@ -59,7 +79,7 @@ const WeeklyBarChart: React.FC<WeeklyBarChartProps> = ({ stats }) => {
             },
             title: {
                 display: true,
-                text: 'Tren Kehadiran Mingguan',
+                text: days === 7 ? 'Tren Kehadiran Mingguan' : `Tren Kehadiran ${days} Hari Terakhir`,
                 align: 'start' as const,
                 color: '#1e293b',
                 font: { size: 14, weight: 'bold' as const },
@@ -69,8 +89,19 @@ const WeeklyBarChart: React.FC<WeeklyBarChartProps> = ({ stats }) => {
     };
 
     return (
-        <div className="bg-white dark:bg-slate-900 rounded-2xl p-6 border dark:border-slate-800 shadow-sm h-full max-h-[300px]">
-            <div className="h-full">
+        <div className="bg-white dark:bg-slate-900 rounded-2xl p-6 border dark:border-slate-800 shadow-sm h-full max-h-[340px] flex flex-col">
+            <div className="flex justify-end gap-1 mb-2">
+                {WINDOW_OPTIONS.map(option => (
+                    <button
+                        key={option}
+                        onClick={() => onDaysChange(option)}
+                        className={`px-3 py-1 rounded-lg text-[10px] font-bold transition-all ${days === option ? 'bg-slate-900 text-white dark:bg-white dark:text-slate-900' : 'text-slate-500 hover:bg-slate-100 dark:hover:bg-slate-800'}`}
+                    >
+                        {option} Hari
+                    </button>
+                ))}
+            </div>
+            <div className="flex-1 min-h-0">
                 {stats.length > 0 ? (
                     <Bar data={data} options={options} />
                 ) : (
@@ -0,0 +1,137 @@
+import React, { useState, useEffect } from 'react';
+import { toast } from 'react-toastify';
+import { InternMonthlyReport } from '../types';
+import { getMonthlyWorkReport } from '../services/attendanceService';
+import { formatDuration } from '../services/dateService';
+
+interface WorkHoursReportProps {
+  month: string; // YYYY-MM
+}
+
+// Per-intern worked hours, lateness and overtime for one month
+const WorkHoursReport: React.FC<WorkHoursReportProps> = ({ month }) => {
+  const [rows, setRows] = useState<InternMonthlyReport[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    loadReport();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [month]);
+
+  const loadReport = async () => {
+    const [year, monthNumber] = month.split('-').map(Number);
+    setLoading(true);
+    try {
+      setRows(await getMonthlyWorkReport(monthNumber, year));
+    } catch (error) {
+      console.error('Error loading work report:', error);
+      toast.error('Gagal memuat laporan jam kerja.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const exportToCSV = () => {
+    if (rows.length === 0) {
+      toast.warn("Tidak ada data untuk diexport.");
+      return;
+    }
+
+    const headers = ["Nama", "Divisi", "Hari Kerja", "Hadir", "Telat (Kali)", "Telat (Menit)", "Pulang Cepat (Kali)", "Lupa Absen Pulang (Kali)", "Izin", "Alpha", "Total Kerja (Menit)", "Rata-rata per Hari (Menit)", "Lembur (Menit)"];
+    const csvContent = [
+      headers.join(","),
+      ...rows.map(({ userName, division, recap }) => [
+        `"${userName}"`,
+        `"${division}"`,
+        recap.totalWorkDays,
+        recap.totalPresent + recap.totalLate,
+        recap.totalLate,
+        recap.totalLateMinutes,
+        recap.totalEarlyLeave,
+        recap.totalMissingClockOut,
+        recap.totalOnLeave,
+        recap.totalAlpha,
+        recap.totalWorkedMinutes,
+        recap.averageWorkedMinutes,
+        recap.totalOvertimeMinutes
+      ].join(","))
+    ].join("\n");
+
+    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.setAttribute("href", url);
+    link.setAttribute("download", `laporan_jam_kerja_${month}.csv`);
+    link.style.visibility = 'hidden';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    toast.success("Data berhasil diexport!");
+  };
+
+  return (
+    <div className="bg-white dark:bg-slate-900 rounded-2xl border dark:border-slate-800 shadow-sm overflow-hidden">
+      <div className="flex items-center justify-between p-6 border-b dark:border-slate-800">
+        <div>
+          <h3 className="font-bold text-slate-800 dark:text-white text-lg">Laporan Jam Kerja</h3>
+          <p className="text-xs text-slate-400">Durasi kerja, keterlambatan dan lembur per peserta sesuai jadwal masing-masing.</p>
+        </div>
+        <button onClick={exportToCSV} className="px-4 py-2 bg-emerald-50 hover:bg-emerald-100 text-emerald-700 rounded-xl text-sm font-bold border border-emerald-100">
+          <i className="fas fa-file-csv mr-2"></i>Export CSV
+        </button>
+      </div>
+      <div className="overflow-x-auto">
+        <table className="w-full text-left text-sm">
+          <thead className="bg-slate-50 dark:bg-slate-800 text-slate-500 uppercase text-[10px] font-bold tracking-wider">
+            <tr>
+              <th className="px-6 py-3">Nama Magang</th>
+              <th className="px-6 py-3 text-center">Hadir</th>
+              <th className="px-6 py-3 text-center">Telat</th>
+              <th className="px-6 py-3 text-center">Pulang Cepat</th>
+              <th className="px-6 py-3 text-right">Total Kerja</th>
+              <th className="px-6 py-3 text-right">Rata-rata/Hari</th>
+              <th className="px-6 py-3 text-right">Lembur</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y dark:divide-slate-800">
+            {loading ? (
+              <tr>
+                <td colSpan={7} className="px-6 py-10 text-center text-slate-400 italic">Memuat laporan...</td>
+              </tr>
+            ) : rows.length === 0 ? (
+              <tr>
+                <td colSpan={7} className="px-6 py-10 text-center text-slate-400 italic">Belum ada data peserta magang.</td>
+              </tr>
+            ) : (
+              rows.map(({ userId, userName, division, recap }) => (
+                <tr key={userId} className="hover:bg-slate-50 dark:hover:bg-slate-800/30 transition-colors">
+                  <td className="px-6 py-4">
+                    <div className="font-bold dark:text-white">{userName}</div>
+                    <div className="text-[10px] text-slate-400 uppercase font-semibold">{division}</div>
+                  </td>
+                  <td className="px-6 py-4 text-center dark:text-slate-300">
+                    {recap.totalPresent + recap.totalLate}/{recap.totalWorkDays}
+                    {recap.totalAlpha > 0 && <div className="text-[10px] text-red-500 font-bold">{recap.totalAlpha} alpha</div>}
+                  </td>
+                  <td className="px-6 py-4 text-center dark:text-slate-300">
+                    {recap.totalLate}x
+                    {recap.totalLateMinutes > 0 && <div className="text-[10px] text-slate-400">{formatDuration(recap.totalLateMinutes)}</div>}
+                  </td>
+                  <td className="px-6 py-4 text-center dark:text-slate-300">
+                    {recap.totalEarlyLeave}x
+                    {recap.totalMissingClockOut > 0 && <div className="text-[10px] text-purple-500 font-bold">{recap.totalMissingClockOut} lupa absen</div>}
+                  </td>
+                  <td className="px-6 py-4 text-right font-mono font-bold dark:text-white">{formatDuration(recap.totalWorkedMinutes)}</td>
+                  <td className="px-6 py-4 text-right font-mono dark:text-slate-300">{formatDuration(recap.averageWorkedMinutes)}</td>
+                  <td className="px-6 py-4 text-right font-mono text-emerald-600 dark:text-emerald-400">{formatDuration(recap.totalOvertimeMinutes)}</td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default WorkHoursReport;
@@ -0,0 +1,208 @@
+-- Audit log of administrative actions
+-- One row per change made from the admin dashboard: users, leave decisions, settings, holidays,
+-- correction and attendance reviews. Written by the audit_row_change() trigger on each of those tables,
+-- so the browser never writes entries itself, and shown in the admin "Audit Log" tab.
+-- The table is append-only: nobody can edit or delete entries, not even with the service key.
+-- Run after the tables it watches exist. Safe to run more than once.
+
+CREATE TABLE IF NOT EXISTS audit_log (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    actor_id UUID, -- No foreign key: entries must outlive the account that made them
+    actor_name TEXT NOT NULL,
+    action TEXT NOT NULL CHECK (action IN ('create', 'update', 'delete', 'approve', 'reject', 'annotate', 'import')),
+    entity_type TEXT NOT NULL CHECK (entity_type IN ('user', 'leave', 'settings', 'holiday', 'correction', 'attendance')),
+    entity_id TEXT,
+    entity_label TEXT,
+    changes JSONB NOT NULL DEFAULT '{}'::jsonb, -- { field: { before, after } }
+    created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS audit_log_created_at_idx ON audit_log (created_at DESC);
+CREATE INDEX IF NOT EXISTS audit_log_actor_id_idx ON audit_log (actor_id);
+CREATE INDEX IF NOT EXISTS audit_log_entity_idx ON audit_log (entity_type, entity_id);
+
+-- Reject UPDATE and DELETE outright; RLS alone does not bind the service role
+CREATE OR REPLACE FUNCTION public.audit_log_append_only()
+RETURNS TRIGGER AS $$
+BEGIN
+    RAISE EXCEPTION 'audit_log is append-only' USING ERRCODE = '42501';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS audit_log_append_only ON audit_log;
+CREATE TRIGGER audit_log_append_only
+    BEFORE UPDATE OR DELETE ON audit_log
+    FOR EACH ROW EXECUTE FUNCTION public.audit_log_append_only();
+
+-- The server clock decides when an action happened
+CREATE OR REPLACE FUNCTION public.audit_log_stamp()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.created_at := NOW();
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS audit_log_stamp ON audit_log;
+CREATE TRIGGER audit_log_stamp
+    BEFORE INSERT ON audit_log
+    FOR EACH ROW EXECUTE FUNCTION public.audit_log_stamp();
+
+ALTER TABLE audit_log ENABLE ROW LEVEL SECURITY;
+
+-- No insert policy: only the SECURITY DEFINER trigger below writes entries
+DROP POLICY IF EXISTS "Users can write own audit entries" ON audit_log;
+REVOKE INSERT, UPDATE, DELETE ON audit_log FROM anon, authenticated;
+
+DROP POLICY IF EXISTS "Admins can read audit log" ON audit_log;
+CREATE POLICY "Admins can read audit log" ON audit_log
+    FOR SELECT
+    TO authenticated
+    USING (public.is_admin());
+
+-- Password resets go to Supabase Auth only; updateUser stamps this so the trigger can log them
+ALTER TABLE users ADD COLUMN IF NOT EXISTS "passwordChangedAt" TIMESTAMPTZ;
+
+-- { field: { before, after } } for the listed fields that differ between two row snapshots.
+-- Passwords and face descriptors only show that they changed.
+CREATE OR REPLACE FUNCTION public.audit_diff(p_before JSONB, p_after JSONB, p_fields TEXT[])
+RETURNS JSONB AS $$
+DECLARE
+    v_changes JSONB := '{}'::jsonb;
+    v_field TEXT;
+    v_old JSONB;
+    v_new JSONB;
+BEGIN
+    FOREACH v_field IN ARRAY p_fields LOOP
+        v_old := COALESCE(p_before->v_field, 'null'::jsonb);
+        v_new := COALESCE(p_after->v_field, 'null'::jsonb);
+        CONTINUE WHEN v_old = v_new;
+        IF v_field IN ('password', 'faceEmbedding') THEN
+            v_old := CASE WHEN v_old = 'null'::jsonb THEN v_old ELSE to_jsonb('••••••'::TEXT) END;
+            v_new := CASE WHEN v_new = 'null'::jsonb THEN v_new ELSE to_jsonb('••••••'::TEXT) END;
+        END IF;
+        v_changes := v_changes || jsonb_build_object(v_field, jsonb_build_object('before', v_old, 'after', v_new));
+    END LOOP;
+    RETURN v_changes;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Writes one audit entry per changed row. TG_ARGV[0] is the entity type. The actor is whoever
+-- the request is authenticated as, and their name is looked up here; changes made with the
+-- service key (scripts, or a user row removed by deleting its Auth account) are logged as "Sistem".
+-- Leaves, corrections and attendance are only logged when an admin updates them, i.e. decisions
+-- and reviews, not the interns' own requests and punches.
+CREATE OR REPLACE FUNCTION public.audit_row_change()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_entity TEXT := TG_ARGV[0];
+    v_old JSONB := CASE WHEN TG_OP = 'INSERT' THEN NULL ELSE to_jsonb(OLD) END;
+    v_new JSONB := CASE WHEN TG_OP = 'DELETE' THEN NULL ELSE to_jsonb(NEW) END;
+    v_row JSONB;
+    v_action TEXT := CASE TG_OP WHEN 'INSERT' THEN 'create' WHEN 'DELETE' THEN 'delete' ELSE 'update' END;
+    v_fields TEXT[];
+    v_label TEXT;
+    v_changes JSONB;
+    v_timezone TEXT;
+BEGIN
+    v_row := COALESCE(v_new, v_old);
+
+    IF v_entity IN ('leave', 'correction', 'attendance') AND (TG_OP <> 'UPDATE' OR NOT public.is_admin()) THEN
+        RETURN NULL;
+    END IF;
+
+    IF v_entity = 'user' THEN
+        v_fields := ARRAY['name', 'username', 'division', 'role', 'email', 'password', 'passwordChangedAt', 'faceEmbedding', 'leaveApprovalRole'];
+        v_label := v_row->>'name';
+
+    ELSIF v_entity = 'holiday' THEN
+        v_fields := ARRAY['date', 'name', 'kind'];
+        v_label := v_row->>'date';
+
+    ELSIF v_entity = 'settings' THEN
+        v_old := v_old->'value';
+        v_new := v_new->'value';
+        v_fields := ARRAY(SELECT jsonb_object_keys(COALESCE(v_old, '{}'::jsonb) || COALESCE(v_new, '{}'::jsonb)));
+        v_label := 'Pengaturan Sistem';
+
+    ELSIF v_entity = 'leave' THEN
+        v_fields := ARRAY['status', 'rejection_reason', 'approval_steps', 'end_date', 'cancellation'];
+        v_label := COALESCE((SELECT name FROM users WHERE id = (v_row->>'user_id')::UUID), 'Unknown')
+            || ' (' || (v_old->>'start_date') || ' s/d ' || (v_old->>'end_date') || ')';
+        IF v_old->'cancellation'->>'status' = 'pending' AND v_new->'cancellation'->>'status' IS DISTINCT FROM 'pending' THEN
+            v_label := 'Pembatalan ' || v_label;
+            v_action := CASE WHEN v_new->'cancellation'->>'status' = 'rejected' THEN 'reject' ELSE 'approve' END;
+        ELSIF v_old->>'status' = 'pending' AND v_new->>'status' = 'rejected' THEN
+            v_action := 'reject';
+        ELSIF v_old->>'status' = 'pending'
+            AND (v_new->>'status' = 'approved' OR v_old->'approval_steps' IS DISTINCT FROM v_new->'approval_steps') THEN
+            v_action := 'approve'; -- Also a step of the approval chain
+        END IF;
+
+    ELSIF v_entity = 'correction' THEN
+        v_fields := ARRAY['status', 'rejection_reason', 'attendance_id'];
+        v_label := (v_row->>'date') || ' ' || CASE WHEN v_row->>'type' = 'in' THEN 'masuk' ELSE 'pulang' END
+            || ' ' || left(v_row->>'time', 5);
+        IF v_old->>'status' = 'pending' AND v_new->>'status' IN ('approved', 'rejected') THEN
+            v_action := CASE WHEN v_new->>'status' = 'approved' THEN 'approve' ELSE 'reject' END;
+        END IF;
+
+    ELSIF v_entity = 'attendance' THEN
+        v_fields := ARRAY['reviewStatus', 'reviewNote'];
+        SELECT COALESCE(value->>'timezone', 'Asia/Makassar') INTO v_timezone FROM settings WHERE id = 1;
+        v_label := (v_row->>'userName') || ' (' || CASE WHEN v_row->>'type' = 'in' THEN 'masuk' ELSE 'pulang' END
+            || ' ' || ((v_row->>'timestamp')::TIMESTAMPTZ AT TIME ZONE COALESCE(v_timezone, 'Asia/Makassar'))::DATE || ')';
+        v_action := CASE
+            WHEN v_old->>'reviewStatus' IS NOT DISTINCT FROM v_new->>'reviewStatus' THEN 'annotate'
+            WHEN v_new->>'reviewStatus' = 'accepted' THEN 'approve'
+            WHEN v_new->>'reviewStatus' = 'rejected' THEN 'reject'
+            ELSE 'annotate'
+        END;
+    END IF;
+
+    v_changes := public.audit_diff(v_old, v_new, v_fields);
+    IF TG_OP = 'UPDATE' AND v_changes = '{}'::jsonb THEN
+        RETURN NULL; -- Saved without changing anything
+    END IF;
+
+    INSERT INTO audit_log (actor_id, actor_name, action, entity_type, entity_id, entity_label, changes)
+    VALUES (
+        auth.uid(),
+        COALESCE((SELECT name FROM users WHERE id = auth.uid()), 'Sistem'),
+        v_action, v_entity, v_row->>'id', v_label, v_changes
+    );
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.audit_row_change FROM PUBLIC;
+
+DROP TRIGGER IF EXISTS audit_users ON users;
+CREATE TRIGGER audit_users
+    AFTER INSERT OR UPDATE OR DELETE ON users
+    FOR EACH ROW EXECUTE FUNCTION public.audit_row_change('user');
+
+DROP TRIGGER IF EXISTS audit_settings ON settings;
+CREATE TRIGGER audit_settings
+    AFTER INSERT OR UPDATE ON settings
+    FOR EACH ROW EXECUTE FUNCTION public.audit_row_change('settings');
+
+DROP TRIGGER IF EXISTS audit_holidays ON holidays;
+CREATE TRIGGER audit_holidays
+    AFTER INSERT OR UPDATE OR DELETE ON holidays
+    FOR EACH ROW EXECUTE FUNCTION public.audit_row_change('holiday');
+
+DROP TRIGGER IF EXISTS audit_leaves ON leaves;
+CREATE TRIGGER audit_leaves
+    AFTER UPDATE ON leaves
+    FOR EACH ROW EXECUTE FUNCTION public.audit_row_change('leave');
+
+DROP TRIGGER IF EXISTS audit_attendance_corrections ON attendance_corrections;
+CREATE TRIGGER audit_attendance_corrections
+    AFTER UPDATE ON attendance_corrections
+    FOR EACH ROW EXECUTE FUNCTION public.audit_row_change('correction');
+
+DROP TRIGGER IF EXISTS audit_attendance_reviews ON attendance;
+CREATE TRIGGER audit_attendance_reviews
+    AFTER UPDATE OF "reviewStatus", "reviewNote" ON attendance
+    FOR EACH ROW EXECUTE FUNCTION public.audit_row_change('attendance');
@@ -0,0 +1,177 @@
+-- Attendance correction requests
+-- Interns ask for a missing or wrong punch to be fixed (dead phone, no GPS, forgot to clock out).
+-- Admins approve or reject them; approving writes the punch into `attendance` through
+-- review_attendance_correction(), with source = 'correction' and "correctionId" pointing back here.
+-- Run this in the Supabase SQL Editor after create_submit_attendance_function.sql.
+
+CREATE TABLE IF NOT EXISTS attendance_corrections (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID REFERENCES users(id) ON DELETE CASCADE NOT NULL,
+    date DATE NOT NULL, -- Office date of the punch
+    type TEXT NOT NULL CHECK (type IN ('in', 'out')),
+    time TIME NOT NULL, -- Office wall-clock time the punch should have
+    attendance_id UUID REFERENCES attendance(id) ON DELETE SET NULL, -- Record being fixed, NULL when the punch is missing
+    original_time TIME, -- Time of that record when the request was made
+    reason TEXT NOT NULL,
+    attachment_url TEXT, -- Object path in the private correction-attachments bucket (setup_storage.sql)
+    status TEXT DEFAULT 'pending' NOT NULL CHECK (status IN ('pending', 'approved', 'rejected')),
+    rejection_reason TEXT,
+    reviewed_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    reviewed_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS attendance_corrections_user_id_idx ON attendance_corrections (user_id);
+CREATE INDEX IF NOT EXISTS attendance_corrections_status_idx ON attendance_corrections (status);
+
+-- Provenance of corrected punches (source = 'correction')
+ALTER TABLE attendance ADD COLUMN IF NOT EXISTS "correctionId" UUID;
+
+ALTER TABLE attendance_corrections ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own corrections" ON attendance_corrections;
+CREATE POLICY "Users can view own corrections" ON attendance_corrections
+    FOR SELECT
+    USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can insert own corrections" ON attendance_corrections;
+CREATE POLICY "Users can insert own corrections" ON attendance_corrections
+    FOR INSERT
+    WITH CHECK (auth.uid() = user_id AND status = 'pending' AND reviewed_by IS NULL);
+
+DROP POLICY IF EXISTS "Admins can do everything on corrections" ON attendance_corrections;
+CREATE POLICY "Admins can do everything on corrections" ON attendance_corrections
+    FOR ALL
+    USING (public.is_admin())
+    WITH CHECK (public.is_admin());
+
+-- Approves or rejects a pending correction. Approving adds the punch, or moves the
+-- existing record to the requested time, and recomputes isLate / isEarlyLeave with the
+-- same schedule rules as submit_attendance. A corrected clock-out also clears the
+-- "lupa absen pulang" mark left by services/closeMissingClockOuts.ts.
+CREATE OR REPLACE FUNCTION public.review_attendance_correction(
+    p_correction_id UUID,
+    p_status TEXT,
+    p_rejection_reason TEXT DEFAULT NULL
+)
+RETURNS attendance_corrections AS $$
+DECLARE
+    v_correction attendance_corrections%ROWTYPE;
+    v_user users%ROWTYPE;
+    v_settings JSONB;
+    v_timezone TEXT;
+    v_timestamp TIMESTAMPTZ;
+    v_day_start TIMESTAMPTZ;
+    v_schedule_day JSONB;
+    v_is_holiday BOOLEAN := false;
+    v_is_late BOOLEAN := false;
+    v_early_minutes INT;
+    v_location JSONB;
+    v_attendance_id UUID;
+BEGIN
+    IF NOT public.is_admin() THEN
+        RAISE EXCEPTION 'Hanya admin yang dapat meninjau koreksi absensi.' USING ERRCODE = '42501';
+    END IF;
+
+    IF p_status NOT IN ('approved', 'rejected') THEN
+        RAISE EXCEPTION 'Status koreksi tidak valid: %', p_status USING ERRCODE = '22023';
+    END IF;
+
+    SELECT * INTO v_correction FROM attendance_corrections WHERE id = p_correction_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Pengajuan koreksi tidak ditemukan.' USING ERRCODE = 'P0002';
+    END IF;
+    IF v_correction.status <> 'pending' THEN
+        RAISE EXCEPTION 'Pengajuan koreksi ini sudah ditinjau.' USING ERRCODE = 'P0001';
+    END IF;
+
+    IF p_status = 'rejected' THEN
+        UPDATE attendance_corrections
+        SET status = 'rejected', rejection_reason = p_rejection_reason,
+            reviewed_by = auth.uid(), reviewed_at = NOW()
+        WHERE id = p_correction_id
+        RETURNING * INTO v_correction;
+        RETURN v_correction;
+    END IF;
+
+    SELECT * INTO v_user FROM users WHERE id = v_correction.user_id;
+    SELECT value INTO v_settings FROM settings WHERE id = 1;
+    v_timezone := COALESCE(v_settings->>'timezone', 'Asia/Makassar');
+    v_timestamp := (v_correction.date + v_correction.time) AT TIME ZONE v_timezone;
+    v_day_start := v_correction.date::TIMESTAMP AT TIME ZONE v_timezone;
+
+    -- Same schedule rules as submit_attendance: days off and holidays are never late or early
+    v_schedule_day := public.user_schedule(COALESCE(v_settings, '{}'::jsonb), v_user.id, v_user.division)
+        ->'days'->EXTRACT(DOW FROM v_correction.date)::INT;
+    IF to_regclass('public.holidays') IS NOT NULL THEN
+        SELECT EXISTS (SELECT 1 FROM holidays WHERE date = v_correction.date) INTO v_is_holiday;
+    END IF;
+    IF v_is_holiday THEN
+        v_schedule_day := NULL;
+    END IF;
+
+    IF v_correction.type = 'in' AND jsonb_typeof(v_schedule_day) = 'object' THEN
+        -- Only the first clock-in of the day can be late
+        v_is_late := v_correction.time > (v_schedule_day->>'start')::TIME
+            AND NOT EXISTS (
+                SELECT 1 FROM attendance
+                WHERE "userId" = v_user.id AND type = 'in'
+                  AND timestamp >= v_day_start AND timestamp < v_timestamp
+                  AND id IS DISTINCT FROM v_correction.attendance_id
+            );
+    END IF;
+
+    IF v_correction.type = 'out' AND jsonb_typeof(v_schedule_day) = 'object' THEN
+        v_early_minutes := EXTRACT(EPOCH FROM ((v_schedule_day->>'end')::TIME - v_correction.time))::INT / 60;
+        IF v_early_minutes <= 0 THEN
+            v_early_minutes := NULL;
+        END IF;
+    END IF;
+
+    IF v_correction.attendance_id IS NOT NULL THEN
+        UPDATE attendance
+        SET timestamp = v_timestamp, "isLate" = v_is_late,
+            "isEarlyLeave" = v_early_minutes IS NOT NULL, "earlyLeaveMinutes" = v_early_minutes,
+            source = 'correction', "correctionId" = v_correction.id
+        WHERE id = v_correction.attendance_id AND "userId" = v_user.id
+        RETURNING id INTO v_attendance_id;
+    END IF;
+
+    IF v_attendance_id IS NULL THEN
+        -- No photo or GPS for a corrected punch; reuse the day's other location if there is one
+        SELECT location INTO v_location FROM attendance
+        WHERE "userId" = v_user.id AND timestamp >= v_day_start AND timestamp < v_day_start + INTERVAL '1 day'
+        ORDER BY timestamp
+        LIMIT 1;
+
+        INSERT INTO attendance (
+            "userId", "userName", division, timestamp, type,
+            "photoUrl", location, "isLate", status,
+            "isEarlyLeave", "earlyLeaveMinutes", source, "correctionId"
+        )
+        VALUES (
+            v_user.id, v_user.name, COALESCE(v_user.division, 'Umum'), v_timestamp, v_correction.type,
+            NULL, COALESCE(v_location, '{"latitude": 0, "longitude": 0, "accuracy": 0}'::jsonb), v_is_late, 'valid',
+            v_early_minutes IS NOT NULL, v_early_minutes, 'correction', v_correction.id
+        )
+        RETURNING id INTO v_attendance_id;
+    END IF;
+
+    IF v_correction.type = 'out' THEN
+        UPDATE attendance SET "missingClockOut" = NULL
+        WHERE "userId" = v_user.id AND type = 'in'
+          AND timestamp >= v_day_start AND timestamp < v_day_start + INTERVAL '1 day';
+    END IF;
+
+    UPDATE attendance_corrections
+    SET status = 'approved', attendance_id = v_attendance_id,
+        reviewed_by = auth.uid(), reviewed_at = NOW()
+    WHERE id = p_correction_id
+    RETURNING * INTO v_correction;
+
+    RETURN v_correction;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.review_attendance_correction FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.review_attendance_correction TO authenticated;
@@ -0,0 +1,28 @@
+-- Holiday calendar: national holidays, cuti bersama and office-specific closures.
+-- Days listed here are not workdays: recaps show them as "Libur Nasional" and nobody is counted as alpa.
+-- Safe to run more than once. Fill it from the admin "Hari Libur" tab or with `npm run import:holidays`.
+
+CREATE TABLE IF NOT EXISTS holidays (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    date DATE NOT NULL UNIQUE, -- One entry per day; imports upsert on this
+    name TEXT NOT NULL,
+    kind TEXT NOT NULL DEFAULT 'national' CHECK (kind IN ('national', 'cuti_bersama', 'office')),
+    created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+-- Everyone logged in can read, only admins can write
+ALTER TABLE holidays ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated users can read holidays" ON holidays;
+CREATE POLICY "Authenticated users can read holidays" ON holidays
+    FOR SELECT
+    TO authenticated
+    USING (TRUE);
+
+DROP POLICY IF EXISTS "Admins can write holidays" ON holidays;
+CREATE POLICY "Admins can write holidays" ON holidays
+    FOR ALL
+    TO authenticated
+    USING (public.is_admin())
+    WITH CHECK (public.is_admin());
@@ -1,5 +1,7 @@
 -- Create enum for leave status
-CREATE TYPE leave_status AS ENUM ('pending', 'approved', 'rejected');
+CREATE TYPE leave_status AS ENUM ('pending', 'approved', 'rejected', 'cancelled');
+-- CREATE TYPE fails on an existing database; this adds the value for cancel_leave there
+ALTER TYPE leave_status ADD VALUE IF NOT EXISTS 'cancelled';
 
 -- Create leaves table
 CREATE TABLE IF NOT EXISTS leaves (
@@ -15,6 +17,21 @@ CREATE TABLE IF NOT EXISTS leaves (
     created_at TIMESTAMPTZ DEFAULT NOW()
 );
 
+-- Set when a request went over its leave quota while settings.leaveQuotaMode is 'flag'
+-- (see services/leaveBalanceService.ts). On an existing database, run just this statement.
+ALTER TABLE leaves ADD COLUMN IF NOT EXISTS exceeds_quota BOOLEAN DEFAULT false;
+
+-- Approval chain of each request: [{role, status, approverId, approverName, decidedAt, comment}],
+-- copied from settings.leaveApprovalChain when filed. NULL or [] = any admin decides in one step.
+-- Admins get their step through users."leaveApprovalRole" ('mentor' for their division, or 'hr').
+ALTER TABLE leaves ADD COLUMN IF NOT EXISTS approval_steps JSONB;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS "leaveApprovalRole" TEXT;
+
+-- Withdrawal and cancellation (see cancel_leave below). status 'cancelled' = withdrawn while
+-- pending, or fully cancelled after approval. cancellation = {fromDate, reason, status,
+-- requestedAt, reviewedByName, reviewedAt, reviewNote, originalEndDate}.
+ALTER TABLE leaves ADD COLUMN IF NOT EXISTS cancellation JSONB;
+
 -- Enable RLS
 ALTER TABLE leaves ENABLE ROW LEVEL SECURITY;
 
@@ -29,41 +46,445 @@ CREATE POLICY "Users can view own leaves" ON leaves
     FOR SELECT
     USING (auth.uid() = user_id);
 
--- Policy: Users can INSERT their own leaves
-CREATE POLICY "Users can insert own leaves" ON leaves
-    FOR INSERT
-    WITH CHECK (auth.uid() = user_id);
+-- Interns file and edit requests through submit_leave below, which applies the leave rules,
+-- so there is no insert policy for them
+DROP POLICY IF EXISTS "Users can insert own leaves" ON leaves;
 
+-- Admin policies use public.is_admin() (create_submit_attendance_function.sql), so super admins
+-- are included. On an existing database, run these three on their own to replace the old ones.
 -- Policy: Admins can VIEW ALL leaves
--- We use a simpler approach: allow if the current user is an admin in the public.users table
+DROP POLICY IF EXISTS "Admins can view all leaves" ON leaves;
 CREATE POLICY "Admins can view all leaves" ON leaves
     FOR SELECT
-    USING (
-        EXISTS (
-            SELECT 1 FROM users 
-            WHERE users.id = auth.uid() 
-            AND users.role = 'admin'
-        )
-    );
-
--- Policy: Admins can UPDATE leaves (approve/reject)
+    USING (public.is_admin());
+
+-- Policy: Admins can UPDATE leaves. Decisions themselves go through review_leave below.
+DROP POLICY IF EXISTS "Admins can update leaves" ON leaves;
 CREATE POLICY "Admins can update leaves" ON leaves
     FOR UPDATE
-    USING (
-        EXISTS (
-            SELECT 1 FROM users 
-            WHERE users.id = auth.uid() 
-            AND users.role = 'admin'
-        )
-    );
+    USING (public.is_admin());
 
 -- Policy: Admins can DELETE leaves
+DROP POLICY IF EXISTS "Admins can delete leaves" ON leaves;
 CREATE POLICY "Admins can delete leaves" ON leaves
     FOR DELETE
-    USING (
-        EXISTS (
-            SELECT 1 FROM users 
-            WHERE users.id = auth.uid() 
-            AND users.role = 'admin'
-        )
-    );
+    USING (public.is_admin());
+
+-- Decisions, the approval chain and cancellations are only written by the SECURITY DEFINER
+-- functions below, which run as their owner. A direct PATCH from the app (as "authenticated")
+-- may not touch them, so no admin can approve a step that isn't theirs or sign in someone else's name.
+CREATE OR REPLACE FUNCTION public.leaves_guard_decision()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF current_user IN ('anon', 'authenticated') AND (
+        NEW.status IS DISTINCT FROM OLD.status
+        OR NEW.approval_steps IS DISTINCT FROM OLD.approval_steps
+        OR NEW.rejection_reason IS DISTINCT FROM OLD.rejection_reason
+        OR NEW.cancellation IS DISTINCT FROM OLD.cancellation
+        OR NEW.user_id IS DISTINCT FROM OLD.user_id
+    ) THEN
+        RAISE EXCEPTION 'Keputusan izin hanya dapat diubah melalui menu persetujuan.' USING ERRCODE = '42501';
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS leaves_guard_decision ON leaves;
+CREATE TRIGGER leaves_guard_decision
+    BEFORE UPDATE ON leaves
+    FOR EACH ROW EXECUTE FUNCTION public.leaves_guard_decision();
+
+-- An admin decides the current step of a pending request (leaveService.updateLeaveStatus). Same
+-- rules as canDecideLeave in leaveService.ts: the mentor step needs a mentor of the intern's
+-- division, the HR step an HR admin; super admins decide any step and requests without a chain
+-- any admin. An approval completes the step, and the request once no step is left; a rejection
+-- rejects it with the comment as its reason. The approver is stamped from the session.
+CREATE OR REPLACE FUNCTION public.review_leave(
+    p_leave_id UUID,
+    p_decision TEXT,
+    p_comment TEXT DEFAULT NULL
+)
+RETURNS leaves AS $$
+DECLARE
+    v_reviewer users%ROWTYPE;
+    v_leave leaves%ROWTYPE;
+    v_division TEXT;
+    v_steps JSONB;
+    v_index INT;
+    v_role TEXT;
+    v_comment TEXT := NULLIF(trim(p_comment), '');
+    v_status TEXT;
+BEGIN
+    SELECT * INTO v_reviewer FROM users WHERE id = auth.uid();
+    IF NOT FOUND OR v_reviewer.role NOT IN ('admin', 'super-admin') THEN
+        RAISE EXCEPTION 'Hanya admin yang dapat memutuskan pengajuan izin.' USING ERRCODE = '42501';
+    END IF;
+
+    IF p_decision NOT IN ('approved', 'rejected') THEN
+        RAISE EXCEPTION 'Keputusan tidak valid: %', p_decision USING ERRCODE = '22023';
+    END IF;
+
+    -- Locked, so two reviewers deciding at once can't both go through
+    SELECT * INTO v_leave FROM leaves WHERE id = p_leave_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Pengajuan izin tidak ditemukan.' USING ERRCODE = 'P0002';
+    END IF;
+    IF v_leave.status <> 'pending' THEN
+        RAISE EXCEPTION 'Pengajuan ini sudah diputuskan.' USING ERRCODE = 'P0001';
+    END IF;
+
+    v_steps := COALESCE(v_leave.approval_steps, '[]'::jsonb);
+    SELECT ord - 1 INTO v_index
+    FROM jsonb_array_elements(v_steps) WITH ORDINALITY AS s(step, ord)
+    WHERE step->>'status' = 'pending'
+    ORDER BY ord
+    LIMIT 1;
+
+    IF v_index IS NOT NULL AND v_reviewer.role <> 'super-admin' THEN
+        v_role := v_steps->v_index->>'role';
+        SELECT division INTO v_division FROM users WHERE id = v_leave.user_id;
+        IF v_reviewer."leaveApprovalRole" IS DISTINCT FROM v_role
+           OR (v_role = 'mentor' AND (v_reviewer.division IS NULL OR v_reviewer.division IS DISTINCT FROM v_division)) THEN
+            RAISE EXCEPTION 'Tahap persetujuan % bukan bagian Anda.', CASE v_role WHEN 'hr' THEN 'HR' ELSE 'Mentor' END
+                USING ERRCODE = '42501';
+        END IF;
+    END IF;
+
+    IF v_index IS NOT NULL THEN
+        v_steps := jsonb_set(v_steps, ARRAY[v_index::TEXT], (v_steps->v_index) || jsonb_strip_nulls(jsonb_build_object(
+            'status', p_decision,
+            'approverId', v_reviewer.id,
+            'approverName', v_reviewer.name,
+            'decidedAt', NOW(),
+            'comment', v_comment
+        )));
+    END IF;
+
+    v_status := CASE
+        WHEN p_decision = 'rejected' THEN 'rejected'
+        WHEN EXISTS (SELECT 1 FROM jsonb_array_elements(v_steps) s WHERE s->>'status' = 'pending') THEN 'pending'
+        ELSE 'approved'
+    END;
+
+    UPDATE leaves
+    SET status = v_status,
+        approval_steps = CASE WHEN v_index IS NULL THEN approval_steps ELSE v_steps END,
+        rejection_reason = CASE WHEN p_decision = 'rejected' AND v_comment IS NOT NULL THEN v_comment ELSE rejection_reason END
+    WHERE id = p_leave_id
+    RETURNING * INTO v_leave;
+    RETURN v_leave;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Working days from p_start to p_end (inclusive): days with hours in the intern's schedule that
+-- are not holidays. Same count as countLeaveWorkDays in services/leaveBalanceService.ts.
+CREATE OR REPLACE FUNCTION public.leave_work_days(
+    p_settings JSONB,
+    p_user_id UUID,
+    p_division TEXT,
+    p_start DATE,
+    p_end DATE
+)
+RETURNS INT AS $$
+DECLARE
+    v_days JSONB := public.user_schedule(p_settings, p_user_id, p_division)->'days';
+    v_count INT;
+BEGIN
+    SELECT COUNT(*) INTO v_count
+    FROM generate_series(p_start, p_end, INTERVAL '1 day') AS d
+    WHERE jsonb_typeof(v_days->EXTRACT(DOW FROM d)::INT) = 'object'
+      AND (to_regclass('public.holidays') IS NULL
+           OR NOT EXISTS (SELECT 1 FROM holidays h WHERE h.date = d::DATE));
+    RETURN v_count;
+END;
+$$ LANGUAGE plpgsql STABLE SET search_path = public;
+
+-- Interns file a request, or edit a pending one (p_leave_id), through this function; there is no
+-- insert policy. It applies settings.leavePolicies like leaveValidationService.ts and
+-- leaveBalanceService.ts do in the form: required fields, date order, backdate and notice rules,
+-- no overlap with other pending/approved leave or days already clocked in, then the quota
+-- (refused in 'block' mode, saved with exceeds_quota in 'flag' mode). The approval chain is
+-- copied from settings.leaveApprovalChain, so an edited request starts its approval over.
+-- Rule violations are raised with ERRCODE P0001 and a message for the intern.
+CREATE OR REPLACE FUNCTION public.submit_leave(
+    p_type TEXT,
+    p_start_date DATE,
+    p_end_date DATE,
+    p_reason TEXT,
+    p_attachment_url TEXT DEFAULT NULL,
+    p_leave_id UUID DEFAULT NULL
+)
+RETURNS leaves AS $$
+DECLARE
+    v_user users%ROWTYPE;
+    v_settings JSONB;
+    v_policy JSONB;
+    v_existing leaves%ROWTYPE;
+    v_today DATE;
+    v_notice INT;
+    v_backdate INT;
+    v_earliest DATE;
+    v_other leaves%ROWTYPE;
+    v_clocked_in TEXT;
+    v_quota INT;
+    v_used INT;
+    v_remaining INT;
+    v_requested INT;
+    v_exceeds BOOLEAN := false;
+    v_steps JSONB;
+    v_timezone TEXT;
+    v_leave leaves%ROWTYPE;
+BEGIN
+    SELECT * INTO v_user FROM users WHERE id = auth.uid();
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Data pengguna tidak ditemukan.' USING ERRCODE = '28000';
+    END IF;
+
+    -- Serializes requests of the same user, so two at once can't both fit the quota
+    PERFORM pg_advisory_xact_lock(hashtext('leave:' || auth.uid()::TEXT));
+
+    IF p_leave_id IS NOT NULL THEN
+        SELECT * INTO v_existing FROM leaves WHERE id = p_leave_id FOR UPDATE;
+        IF NOT FOUND OR v_existing.user_id IS DISTINCT FROM auth.uid() THEN
+            RAISE EXCEPTION 'Pengajuan izin tidak ditemukan.' USING ERRCODE = 'P0002';
+        END IF;
+        IF v_existing.status <> 'pending' THEN
+            RAISE EXCEPTION 'Hanya pengajuan yang masih menunggu yang dapat diubah.' USING ERRCODE = 'P0001';
+        END IF;
+    END IF;
+
+    SELECT value INTO v_settings FROM settings WHERE id = 1;
+    v_settings := COALESCE(v_settings, '{}'::jsonb);
+    v_timezone := COALESCE(v_settings->>'timezone', 'Asia/Makassar');
+    v_today := (NOW() AT TIME ZONE v_timezone)::DATE;
+
+    -- Defaults as in services/defaultSettings.ts, overridden by what is stored
+    v_policy := CASE p_type
+        WHEN 'sakit' THEN '{"quotaDays": null, "requiresAttachment": true, "maxBackdateDays": 3, "minNoticeDays": 0}'::jsonb
+        WHEN 'izin' THEN '{"quotaDays": 3, "requiresAttachment": false, "maxBackdateDays": 0, "minNoticeDays": 1}'::jsonb
+    END || COALESCE(v_settings->'leavePolicies'->p_type, '{}'::jsonb);
+    IF v_policy IS NULL THEN
+        RAISE EXCEPTION 'Jenis pengajuan tidak dikenal.' USING ERRCODE = 'P0001';
+    END IF;
+
+    IF p_start_date IS NULL THEN
+        RAISE EXCEPTION 'Tanggal mulai wajib diisi.' USING ERRCODE = 'P0001';
+    END IF;
+    IF p_end_date IS NULL THEN
+        RAISE EXCEPTION 'Tanggal selesai wajib diisi.' USING ERRCODE = 'P0001';
+    END IF;
+    IF NULLIF(trim(p_reason), '') IS NULL THEN
+        RAISE EXCEPTION 'Alasan wajib diisi.' USING ERRCODE = 'P0001';
+    END IF;
+    IF (v_policy->>'requiresAttachment')::BOOLEAN AND NULLIF(p_attachment_url, '') IS NULL THEN
+        RAISE EXCEPTION '%', CASE WHEN p_type = 'sakit'
+            THEN 'Untuk izin sakit, wajib melampirkan surat dokter/bukti.'
+            ELSE 'Untuk izin ini, wajib melampirkan bukti.'
+        END USING ERRCODE = 'P0001';
+    END IF;
+    -- New attachments live in the intern's folder of the leave-attachments bucket (setup_storage.sql)
+    IF NULLIF(p_attachment_url, '') IS NOT NULL
+       AND p_attachment_url IS DISTINCT FROM v_existing.attachment_url
+       AND p_attachment_url NOT LIKE auth.uid()::TEXT || '/%' THEN
+        RAISE EXCEPTION 'Lampiran tidak valid. Silakan unggah ulang.' USING ERRCODE = '22023';
+    END IF;
+    IF p_end_date < p_start_date THEN
+        RAISE EXCEPTION 'Tanggal selesai tidak boleh sebelum tanggal mulai.' USING ERRCODE = 'P0001';
+    END IF;
+
+    v_notice := COALESCE((v_policy->>'minNoticeDays')::INT, 0);
+    v_backdate := COALESCE((v_policy->>'maxBackdateDays')::INT, 0);
+    v_earliest := v_today + CASE WHEN v_notice > 0 THEN v_notice ELSE -v_backdate END;
+    IF p_start_date < v_earliest THEN
+        RAISE EXCEPTION '%', CASE
+            WHEN v_notice > 0 THEN format('Pengajuan %s paling lambat %s hari sebelumnya (mulai paling cepat %s).',
+                p_type, v_notice, to_char(v_earliest, 'FMDD/FMMM/YYYY'))
+            WHEN v_backdate > 0 THEN format('Pengajuan %s hanya boleh mundur %s hari (paling awal %s).',
+                p_type, v_backdate, to_char(v_earliest, 'FMDD/FMMM/YYYY'))
+            ELSE format('Pengajuan %s tidak boleh untuk tanggal yang sudah lewat.', p_type)
+        END USING ERRCODE = 'P0001';
+    END IF;
+
+    SELECT * INTO v_other FROM leaves
+    WHERE user_id = auth.uid() AND status IN ('pending', 'approved')
+      AND start_date <= p_end_date AND end_date >= p_start_date
+      AND id IS DISTINCT FROM p_leave_id
+    LIMIT 1;
+    IF FOUND THEN
+        RAISE EXCEPTION 'Bertumpuk dengan pengajuan % % - % yang %.', v_other.type,
+            to_char(v_other.start_date, 'FMDD/FMMM/YYYY'), to_char(v_other.end_date, 'FMDD/FMMM/YYYY'),
+            CASE WHEN v_other.status = 'approved' THEN 'sudah disetujui' ELSE 'masih menunggu persetujuan' END
+            USING ERRCODE = 'P0001';
+    END IF;
+
+    SELECT string_agg(to_char(day, 'FMDD/FMMM/YYYY'), ', ' ORDER BY day) INTO v_clocked_in
+    FROM (
+        SELECT DISTINCT (timestamp AT TIME ZONE v_timezone)::DATE AS day
+        FROM attendance
+        WHERE "userId" = auth.uid() AND type = 'in'
+          AND timestamp >= (p_start_date::TIMESTAMP AT TIME ZONE v_timezone)
+          AND timestamp < ((p_end_date + 1)::TIMESTAMP AT TIME ZONE v_timezone)
+    ) days;
+    IF v_clocked_in IS NOT NULL THEN
+        RAISE EXCEPTION 'Anda sudah absen masuk pada %. Pilih tanggal lain atau ajukan koreksi absensi.', v_clocked_in
+            USING ERRCODE = 'P0001';
+    END IF;
+
+    -- Quota of the whole internship, in working days, counting pending requests too
+    v_quota := (v_policy->>'quotaDays')::INT;
+    IF v_quota IS NOT NULL THEN
+        SELECT COALESCE(SUM(public.leave_work_days(v_settings, v_user.id, v_user.division, start_date, end_date)), 0)
+        INTO v_used
+        FROM leaves
+        WHERE user_id = auth.uid() AND type = p_type AND status IN ('pending', 'approved')
+          AND id IS DISTINCT FROM p_leave_id;
+        v_remaining := GREATEST(v_quota - v_used, 0);
+        v_requested := public.leave_work_days(v_settings, v_user.id, v_user.division, p_start_date, p_end_date);
+        v_exceeds := v_requested > v_remaining;
+        IF v_exceeds AND COALESCE(v_settings->>'leaveQuotaMode', 'block') = 'block' THEN
+            RAISE EXCEPTION 'Sisa kuota % Anda % hari kerja, sedangkan pengajuan ini % hari kerja.',
+                p_type, v_remaining, v_requested USING ERRCODE = 'P0001';
+        END IF;
+    END IF;
+
+    SELECT COALESCE(jsonb_agg(jsonb_build_object('role', role, 'status', 'pending') ORDER BY ord), '[]'::jsonb) INTO v_steps
+    FROM jsonb_array_elements_text(COALESCE(v_settings->'leaveApprovalChain', '["mentor", "hr"]'::jsonb))
+        WITH ORDINALITY AS chain(role, ord);
+
+    IF p_leave_id IS NULL THEN
+        INSERT INTO leaves (user_id, type, start_date, end_date, reason, attachment_url, status, exceeds_quota, approval_steps)
+        VALUES (auth.uid(), p_type, p_start_date, p_end_date, trim(p_reason), NULLIF(p_attachment_url, ''), 'pending', v_exceeds, v_steps)
+        RETURNING * INTO v_leave;
+    ELSE
+        UPDATE leaves
+        SET type = p_type,
+            start_date = p_start_date,
+            end_date = p_end_date,
+            reason = trim(p_reason),
+            attachment_url = NULLIF(p_attachment_url, ''),
+            exceeds_quota = v_exceeds,
+            approval_steps = v_steps
+        WHERE id = p_leave_id
+        RETURNING * INTO v_leave;
+    END IF;
+    RETURN v_leave;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Interns withdraw or cancel their own leave. A pending request is withdrawn at once. For an
+-- approved one this files a cancellation request for admins, either for the whole leave or for the
+-- days from p_from_date on (today at the earliest; days already past can't be given back).
+CREATE OR REPLACE FUNCTION public.cancel_leave(
+    p_leave_id UUID,
+    p_from_date DATE DEFAULT NULL,
+    p_reason TEXT DEFAULT NULL
+)
+RETURNS leaves AS $$
+DECLARE
+    v_leave leaves%ROWTYPE;
+    v_today DATE;
+    v_earliest DATE;
+    v_from DATE;
+BEGIN
+    SELECT * INTO v_leave FROM leaves WHERE id = p_leave_id FOR UPDATE;
+    IF NOT FOUND OR v_leave.user_id IS DISTINCT FROM auth.uid() THEN
+        RAISE EXCEPTION 'Pengajuan izin tidak ditemukan.' USING ERRCODE = 'P0002';
+    END IF;
+
+    IF v_leave.status = 'pending' THEN
+        UPDATE leaves
+        SET status = 'cancelled',
+            cancellation = jsonb_build_object(
+                'fromDate', v_leave.start_date, 'reason', p_reason,
+                'status', 'approved', 'requestedAt', NOW())
+        WHERE id = p_leave_id
+        RETURNING * INTO v_leave;
+        RETURN v_leave;
+    END IF;
+
+    IF v_leave.status <> 'approved' THEN
+        RAISE EXCEPTION 'Hanya pengajuan yang menunggu atau disetujui yang dapat dibatalkan.' USING ERRCODE = 'P0001';
+    END IF;
+    IF v_leave.cancellation->>'status' = 'pending' THEN
+        RAISE EXCEPTION 'Pembatalan izin ini masih menunggu persetujuan admin.' USING ERRCODE = 'P0001';
+    END IF;
+
+    SELECT (NOW() AT TIME ZONE COALESCE(value->>'timezone', 'Asia/Makassar'))::DATE INTO v_today
+    FROM settings WHERE id = 1;
+    v_earliest := GREATEST(v_leave.start_date, COALESCE(v_today, CURRENT_DATE));
+    v_from := COALESCE(p_from_date, v_earliest);
+    IF v_earliest > v_leave.end_date THEN
+        RAISE EXCEPTION 'Izin ini sudah selesai dan tidak dapat dibatalkan.' USING ERRCODE = 'P0001';
+    END IF;
+    IF v_from < v_earliest OR v_from > v_leave.end_date THEN
+        RAISE EXCEPTION 'Tanggal mulai pembatalan harus antara % dan %.', v_earliest, v_leave.end_date USING ERRCODE = '22023';
+    END IF;
+
+    UPDATE leaves
+    SET cancellation = jsonb_build_object(
+            'fromDate', v_from, 'reason', p_reason,
+            'status', 'pending', 'requestedAt', NOW())
+    WHERE id = p_leave_id
+    RETURNING * INTO v_leave;
+    RETURN v_leave;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Admins approve or reject a cancellation request. Approving a cancellation of the whole leave
+-- sets it to 'cancelled'; a partial one ends the leave the day before fromDate, so stats and the
+-- monthly recap count the intern as present (or absent) again from then on.
+CREATE OR REPLACE FUNCTION public.review_leave_cancellation(
+    p_leave_id UUID,
+    p_status TEXT,
+    p_note TEXT DEFAULT NULL
+)
+RETURNS leaves AS $$
+DECLARE
+    v_leave leaves%ROWTYPE;
+    v_from DATE;
+    v_reviewer_name TEXT;
+    v_review JSONB;
+BEGIN
+    IF NOT public.is_admin() THEN
+        RAISE EXCEPTION 'Hanya admin yang dapat meninjau pembatalan izin.' USING ERRCODE = '42501';
+    END IF;
+
+    IF p_status NOT IN ('approved', 'rejected') THEN
+        RAISE EXCEPTION 'Status pembatalan tidak valid: %', p_status USING ERRCODE = '22023';
+    END IF;
+
+    SELECT * INTO v_leave FROM leaves WHERE id = p_leave_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Pengajuan izin tidak ditemukan.' USING ERRCODE = 'P0002';
+    END IF;
+    IF v_leave.status <> 'approved' OR v_leave.cancellation->>'status' IS DISTINCT FROM 'pending' THEN
+        RAISE EXCEPTION 'Tidak ada pembatalan yang menunggu untuk izin ini.' USING ERRCODE = 'P0001';
+    END IF;
+
+    SELECT name INTO v_reviewer_name FROM users WHERE id = auth.uid();
+    v_review := jsonb_build_object(
+        'status', p_status, 'reviewedByName', v_reviewer_name,
+        'reviewedAt', NOW(), 'reviewNote', p_note);
+
+    IF p_status = 'rejected' THEN
+        UPDATE leaves SET cancellation = cancellation || v_review
+        WHERE id = p_leave_id
+        RETURNING * INTO v_leave;
+        RETURN v_leave;
+    END IF;
+
+    v_from := (v_leave.cancellation->>'fromDate')::DATE;
+    IF v_from <= v_leave.start_date THEN
+        UPDATE leaves SET status = 'cancelled', cancellation = cancellation || v_review
+        WHERE id = p_leave_id
+        RETURNING * INTO v_leave;
+    ELSE
+        UPDATE leaves
+        SET end_date = v_from - 1,
+            cancellation = cancellation || v_review || jsonb_build_object('originalEndDate', v_leave.end_date)
+        WHERE id = p_leave_id
+        RETURNING * INTO v_leave;
+    END IF;
+    RETURN v_leave;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,59 @@
+-- Shared system settings (office location, radius, working hours, timezone)
+-- One row (id = 1) holding the SystemSettings object as JSON, plus who changed it last.
+-- Safe to run more than once. Seed the values with `npm run seed:settings`.
+
+CREATE TABLE IF NOT EXISTS settings (
+    id INT PRIMARY KEY DEFAULT 1 CHECK (id = 1),
+    value JSONB NOT NULL DEFAULT '{}'::jsonb,
+    updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+-- Audit info shown in the admin settings tab
+ALTER TABLE settings ADD COLUMN IF NOT EXISTS updated_by UUID REFERENCES users(id) ON DELETE SET NULL;
+ALTER TABLE settings ADD COLUMN IF NOT EXISTS updated_by_name TEXT;
+ALTER TABLE settings ADD COLUMN IF NOT EXISTS changed_fields TEXT[] NOT NULL DEFAULT '{}';
+
+-- Everyone logged in can read, only admins can write
+ALTER TABLE settings ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated users can read settings" ON settings;
+CREATE POLICY "Authenticated users can read settings" ON settings
+    FOR SELECT
+    TO authenticated
+    USING (TRUE);
+
+DROP POLICY IF EXISTS "Admins can write settings" ON settings;
+CREATE POLICY "Admins can write settings" ON settings
+    FOR ALL
+    TO authenticated
+    USING (public.is_admin())
+    WITH CHECK (public.is_admin());
+
+-- Don't trust the client for the audit columns: stamp them from the session
+CREATE OR REPLACE FUNCTION public.stamp_settings_update()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.updated_at := NOW();
+    IF auth.uid() IS NOT NULL THEN
+        NEW.updated_by := auth.uid();
+        SELECT name INTO NEW.updated_by_name FROM users WHERE id = auth.uid();
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS settings_stamp_update ON settings;
+CREATE TRIGGER settings_stamp_update
+    BEFORE INSERT OR UPDATE ON settings
+    FOR EACH ROW EXECUTE FUNCTION public.stamp_settings_update();
+
+-- Push changes to open clients (settingsService.subscribeToSettings)
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_publication_tables
+        WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'settings'
+    ) THEN
+        ALTER PUBLICATION supabase_realtime ADD TABLE settings;
+    END IF;
+END $$;
@@ -0,0 +1,679 @@
+-- Server-authoritative clock-in/clock-out
+-- The browser only sends raw coordinates and a photo reference (storage object path). The server stamps
+-- the time and computes lateness, early leave and the geofence status from the stored settings,
+-- so editing localStorage or the device clock no longer changes the outcome.
+-- Run this in the Supabase SQL Editor.
+
+-- 0. Super admins count as admins too (see fix_recursion.sql)
+CREATE OR REPLACE FUNCTION public.is_admin()
+RETURNS BOOLEAN AS $$
+BEGIN
+  RETURN EXISTS (
+    SELECT 1
+    FROM public.users
+    WHERE id = auth.uid()
+    AND role IN ('admin', 'super-admin')
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 1. Office settings (single row, id = 1)
+CREATE TABLE IF NOT EXISTS settings (
+    id INT PRIMARY KEY DEFAULT 1 CHECK (id = 1),
+    value JSONB NOT NULL DEFAULT '{}'::jsonb,
+    updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+-- Seed with the same values as DEFAULT_SETTINGS in services/defaultSettings.ts
+INSERT INTO settings (id, value)
+VALUES (1, '{
+    "locations": [{
+        "id": "kantor-utama",
+        "name": "Kantor Bapekom Wilayah VIII",
+        "kind": "radius",
+        "lat": -5.1597000997736,
+        "lng": 119.40979746499184,
+        "radiusMeters": 500
+    }],
+    "schedules": [{
+        "id": "reguler",
+        "name": "Reguler",
+        "days": [
+            null,
+            {"start": "07:40", "end": "16:00"},
+            {"start": "07:40", "end": "16:00"},
+            {"start": "07:40", "end": "16:00"},
+            {"start": "07:40", "end": "16:00"},
+            {"start": "07:40", "end": "16:30"},
+            null
+        ]
+    }],
+    "timezone": "Asia/Makassar",
+    "maxReentriesPerDay": 0,
+    "maxOfflineHours": 12,
+    "missingClockOutMode": "flag",
+    "missingClockOutGraceHours": 2,
+    "faceMatchThreshold": 0.5,
+    "attendanceMethods": ["gps"],
+    "leavePolicies": {
+        "sakit": {"quotaDays": null, "requiresAttachment": true, "maxBackdateDays": 3, "minNoticeDays": 0},
+        "izin": {"quotaDays": 3, "requiresAttachment": false, "maxBackdateDays": 0, "minNoticeDays": 1}
+    },
+    "leaveQuotaMode": "block",
+    "leaveApprovalChain": ["mentor", "hr"]
+}'::jsonb)
+ON CONFLICT (id) DO NOTHING;
+
+ALTER TABLE settings ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated users can read settings" ON settings;
+CREATE POLICY "Authenticated users can read settings" ON settings
+    FOR SELECT
+    TO authenticated
+    USING (TRUE);
+
+DROP POLICY IF EXISTS "Admins can write settings" ON settings;
+CREATE POLICY "Admins can write settings" ON settings
+    FOR ALL
+    TO authenticated
+    USING (public.is_admin())
+    WITH CHECK (public.is_admin());
+
+-- 2. Distance from the office at the time of the punch, for admin review
+ALTER TABLE attendance ADD COLUMN IF NOT EXISTS "distanceMeters" DOUBLE PRECISION;
+
+-- Offline punches: "timestamp" is when the selfie was taken, "syncedAt" when it reached
+-- the server. "clientId" makes retries from the offline outbox idempotent.
+ALTER TABLE attendance ADD COLUMN IF NOT EXISTS "syncedAt" TIMESTAMPTZ;
+ALTER TABLE attendance ADD COLUMN IF NOT EXISTS "syncedLate" BOOLEAN DEFAULT false;
+ALTER TABLE attendance ADD COLUMN IF NOT EXISTS "clientId" UUID;
+CREATE UNIQUE INDEX IF NOT EXISTS attendance_client_id_key ON attendance ("clientId");
+
+-- Which office location (from settings.locations) the punch matched, if any
+ALTER TABLE attendance ADD COLUMN IF NOT EXISTS "locationId" TEXT;
+ALTER TABLE attendance ADD COLUMN IF NOT EXISTS "locationName" TEXT;
+
+-- Clock-outs before the scheduled end time, and by how many minutes
+ALTER TABLE attendance ADD COLUMN IF NOT EXISTS "isEarlyLeave" BOOLEAN DEFAULT false;
+ALTER TABLE attendance ADD COLUMN IF NOT EXISTS "earlyLeaveMinutes" INT;
+
+-- Provenance: 'user' for punches made through the RPC, 'system' for rows written by
+-- scheduled jobs (e.g. clock-outs added by services/closeMissingClockOuts.ts)
+ALTER TABLE attendance ADD COLUMN IF NOT EXISTS source TEXT DEFAULT 'user';
+
+-- Clock-ins never followed by a clock-out, marked by the same job:
+-- 'flagged' (lupa absen pulang) or 'correction' (the intern has to submit a correction)
+ALTER TABLE attendance ADD COLUMN IF NOT EXISTS "missingClockOut" TEXT;
+
+-- Admin review of invalid/pending punches: 'accepted' or 'rejected' (NULL = not reviewed),
+-- with an optional note and who decided when. A note alone leaves "reviewStatus" NULL.
+ALTER TABLE attendance ADD COLUMN IF NOT EXISTS "reviewStatus" TEXT;
+ALTER TABLE attendance ADD COLUMN IF NOT EXISTS "reviewNote" TEXT;
+ALTER TABLE attendance ADD COLUMN IF NOT EXISTS "reviewedBy" UUID;
+ALTER TABLE attendance ADD COLUMN IF NOT EXISTS "reviewedByName" TEXT;
+ALTER TABLE attendance ADD COLUMN IF NOT EXISTS "reviewedAt" TIMESTAMPTZ;
+CREATE INDEX IF NOT EXISTS attendance_review_queue_idx ON attendance (status) WHERE "reviewStatus" IS NULL;
+
+-- How plausible the reported position is, 0-100, and the rules that lowered it (see location_trust below)
+ALTER TABLE attendance ADD COLUMN IF NOT EXISTS "locationTrustScore" INT;
+ALTER TABLE attendance ADD COLUMN IF NOT EXISTS "locationTrustReasons" TEXT[];
+
+-- Face verification, done on the device (services/faceService.ts): the profile photo and its
+-- enrolled face descriptor, and how similar each selfie was to it (0-1)
+ALTER TABLE users ADD COLUMN IF NOT EXISTS "profilePhotoUrl" TEXT;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS "faceEmbedding" DOUBLE PRECISION[];
+ALTER TABLE attendance ADD COLUMN IF NOT EXISTS "faceScore" DOUBLE PRECISION;
+
+-- 'gps' (coordinates + selfie) or 'qr' (scanned the office kiosk, see kiosk_qr_token below)
+ALTER TABLE attendance ADD COLUMN IF NOT EXISTS method TEXT DEFAULT 'gps';
+
+-- 3. Great-circle distance in meters (same formula as services/geofenceService.ts)
+CREATE OR REPLACE FUNCTION public.distance_meters(
+    lat1 DOUBLE PRECISION, lng1 DOUBLE PRECISION,
+    lat2 DOUBLE PRECISION, lng2 DOUBLE PRECISION
+)
+RETURNS DOUBLE PRECISION AS $$
+DECLARE
+    d_lat DOUBLE PRECISION := radians(lat2 - lat1);
+    d_lng DOUBLE PRECISION := radians(lng2 - lng1);
+    a DOUBLE PRECISION;
+BEGIN
+    a := sin(d_lat / 2) ^ 2 + cos(radians(lat1)) * cos(radians(lat2)) * sin(d_lng / 2) ^ 2;
+    RETURN 6371000 * 2 * atan2(sqrt(a), sqrt(1 - a));
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Ray-casting point-in-polygon over a JSON array of {"lat", "lng"} points
+-- (same algorithm as isPointInPolygon in services/geofenceService.ts)
+CREATE OR REPLACE FUNCTION public.point_in_polygon(
+    p_lat DOUBLE PRECISION, p_lng DOUBLE PRECISION, p_polygon JSONB
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+    n INT := COALESCE(jsonb_array_length(p_polygon), 0);
+    i INT;
+    j INT;
+    a_lat DOUBLE PRECISION;
+    a_lng DOUBLE PRECISION;
+    b_lat DOUBLE PRECISION;
+    b_lng DOUBLE PRECISION;
+    inside BOOLEAN := false;
+BEGIN
+    IF n < 3 THEN
+        RETURN false;
+    END IF;
+
+    j := n - 1;
+    FOR i IN 0..n - 1 LOOP
+        a_lat := (p_polygon->i->>'lat')::DOUBLE PRECISION;
+        a_lng := (p_polygon->i->>'lng')::DOUBLE PRECISION;
+        b_lat := (p_polygon->j->>'lat')::DOUBLE PRECISION;
+        b_lng := (p_polygon->j->>'lng')::DOUBLE PRECISION;
+        IF ((a_lat > p_lat) <> (b_lat > p_lat))
+           AND p_lng < (b_lng - a_lng) * (p_lat - a_lat) / (b_lat - a_lat) + a_lng THEN
+            inside := NOT inside;
+        END IF;
+        j := i;
+    END LOOP;
+
+    RETURN inside;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Work schedule of a user (same order as getScheduleForUser in services/scheduleService.ts):
+-- assigned to the user, then to their division, then the first schedule.
+-- Rows saved before schedules existed only have the global lateThreshold/clockOutTime* times.
+CREATE OR REPLACE FUNCTION public.user_schedule(p_settings JSONB, p_user_id UUID, p_division TEXT)
+RETURNS JSONB AS $$
+DECLARE
+    v_schedules JSONB := p_settings->'schedules';
+    v_weekday JSONB;
+    v_schedule JSONB;
+BEGIN
+    IF v_schedules IS NULL OR jsonb_array_length(v_schedules) = 0 THEN
+        v_weekday := jsonb_build_object(
+            'start', COALESCE(p_settings->>'lateThreshold', '07:40'),
+            'end', COALESCE(p_settings->>'clockOutTimeMonThu', '16:00')
+        );
+        RETURN jsonb_build_object(
+            'id', 'reguler',
+            'name', 'Reguler',
+            'days', jsonb_build_array(
+                'null'::jsonb, v_weekday, v_weekday, v_weekday, v_weekday,
+                v_weekday || jsonb_build_object('end', COALESCE(p_settings->>'clockOutTimeFri', '16:30')),
+                'null'::jsonb
+            )
+        );
+    END IF;
+
+    SELECT s INTO v_schedule FROM jsonb_array_elements(v_schedules) s
+    WHERE COALESCE(s->'userIds', '[]'::jsonb) ? p_user_id::TEXT
+    LIMIT 1;
+    IF v_schedule IS NOT NULL THEN
+        RETURN v_schedule;
+    END IF;
+
+    IF p_division IS NOT NULL THEN
+        SELECT s INTO v_schedule FROM jsonb_array_elements(v_schedules) s
+        WHERE COALESCE(s->'divisions', '[]'::jsonb) ? p_division
+        LIMIT 1;
+        IF v_schedule IS NOT NULL THEN
+            RETURN v_schedule;
+        END IF;
+    END IF;
+
+    RETURN v_schedules->0;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Location trust of a punch, from 100 (nothing suspicious) down to 0. Mock-location apps report
+-- fixes that are too exact, jump faster than anyone can travel and replay the same coordinates;
+-- each rule that fires costs points and adds a reason (labels in components/ReviewQueue.tsx).
+-- Only GPS punches made through the RPC are compared, not system, corrected or QR rows
+-- (those carry the office coordinates, not a position reported by the phone).
+CREATE OR REPLACE FUNCTION public.location_trust(
+    p_user_id UUID,
+    p_latitude DOUBLE PRECISION,
+    p_longitude DOUBLE PRECISION,
+    p_accuracy DOUBLE PRECISION,
+    p_at TIMESTAMPTZ,
+    p_timezone TEXT
+)
+RETURNS TABLE (score INT, reasons TEXT[]) AS $$
+DECLARE
+    v_score INT := 100;
+    v_reasons TEXT[] := ARRAY[]::TEXT[];
+    v_prev attendance%ROWTYPE;
+    v_meters DOUBLE PRECISION;
+    v_seconds DOUBLE PRECISION;
+BEGIN
+    -- Real phone fixes are never perfect; mock apps tend to report 0-2 m
+    IF p_accuracy IS NULL OR p_accuracy <= 0 THEN
+        v_score := v_score - 25;
+        v_reasons := array_append(v_reasons, 'accuracy_missing');
+    ELSIF p_accuracy < 3 THEN
+        v_score := v_score - 20;
+        v_reasons := array_append(v_reasons, 'accuracy_too_precise');
+    ELSIF p_accuracy > 100 THEN
+        v_score := v_score - 15;
+        v_reasons := array_append(v_reasons, 'accuracy_poor');
+    END IF;
+
+    -- More than 1 km from the previous punch at over 200 km/h
+    SELECT * INTO v_prev FROM attendance
+    WHERE "userId" = p_user_id AND timestamp < p_at
+      AND COALESCE(source, 'user') = 'user' AND COALESCE(method, 'gps') = 'gps'
+    ORDER BY timestamp DESC
+    LIMIT 1;
+    IF FOUND THEN
+        v_meters := public.distance_meters(
+            p_latitude, p_longitude,
+            (v_prev.location->>'latitude')::DOUBLE PRECISION,
+            (v_prev.location->>'longitude')::DOUBLE PRECISION
+        );
+        v_seconds := GREATEST(EXTRACT(EPOCH FROM p_at - v_prev.timestamp), 1);
+        IF v_meters > 1000 AND v_meters / v_seconds > 200 / 3.6 THEN
+            v_score := v_score - 40;
+            v_reasons := array_append(v_reasons, 'impossible_travel');
+        END IF;
+    END IF;
+
+    -- Exactly the same coordinates (to ~10 cm) as on another day; real GPS always drifts a little
+    IF EXISTS (
+        SELECT 1 FROM attendance
+        WHERE "userId" = p_user_id AND COALESCE(source, 'user') = 'user' AND COALESCE(method, 'gps') = 'gps'
+          AND round((location->>'latitude')::NUMERIC, 6) = round(p_latitude::NUMERIC, 6)
+          AND round((location->>'longitude')::NUMERIC, 6) = round(p_longitude::NUMERIC, 6)
+          AND (timestamp AT TIME ZONE p_timezone)::DATE <> (p_at AT TIME ZONE p_timezone)::DATE
+    ) THEN
+        v_score := v_score - 30;
+        v_reasons := array_append(v_reasons, 'repeated_coordinates');
+    END IF;
+
+    -- Exactly the same coordinates as another user in the last 30 days
+    IF EXISTS (
+        SELECT 1 FROM attendance
+        WHERE "userId" <> p_user_id AND COALESCE(source, 'user') = 'user' AND COALESCE(method, 'gps') = 'gps'
+          AND timestamp > p_at - INTERVAL '30 days'
+          AND round((location->>'latitude')::NUMERIC, 6) = round(p_latitude::NUMERIC, 6)
+          AND round((location->>'longitude')::NUMERIC, 6) = round(p_longitude::NUMERIC, 6)
+    ) THEN
+        v_score := v_score - 30;
+        v_reasons := array_append(v_reasons, 'shared_coordinates');
+    END IF;
+
+    RETURN QUERY SELECT GREATEST(v_score, 0), v_reasons;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- QR check-in. An admin opens the kiosk screen (components/QrKiosk.tsx) at an office location;
+-- it shows a code that changes every 30 seconds: "<window>.<signature>.<locationId>", where window
+-- is the number of 30-second periods since the epoch and the signature an HMAC of the rest with a
+-- secret that never leaves the database. A code is accepted during its own window and the next one,
+-- so a photo of it sent to someone at home goes stale within a minute.
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+CREATE TABLE IF NOT EXISTS qr_kiosk_secret (
+    id INT PRIMARY KEY DEFAULT 1 CHECK (id = 1),
+    secret TEXT NOT NULL DEFAULT encode(extensions.gen_random_bytes(32), 'hex')
+);
+INSERT INTO qr_kiosk_secret (id) VALUES (1) ON CONFLICT (id) DO NOTHING;
+
+-- No policies: only the SECURITY DEFINER functions below can read the secret.
+-- Rotate it with: UPDATE qr_kiosk_secret SET secret = encode(extensions.gen_random_bytes(32), 'hex');
+ALTER TABLE qr_kiosk_secret ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION public.qr_token_signature(p_window BIGINT, p_location_id TEXT)
+RETURNS TEXT AS $$
+    SELECT left(encode(extensions.hmac(p_window::TEXT || '.' || p_location_id, secret, 'sha256'), 'hex'), 32)
+    FROM qr_kiosk_secret WHERE id = 1;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Internal helpers: Supabase grants EXECUTE on public functions to anon and authenticated by
+-- default, and anyone who can call this can mint the current code from home
+REVOKE ALL ON FUNCTION public.qr_token_signature FROM PUBLIC, anon, authenticated;
+
+-- The code the kiosk should show right now, for admins only
+CREATE OR REPLACE FUNCTION public.kiosk_qr_token(p_location_id TEXT)
+RETURNS TABLE (token TEXT, expires_at TIMESTAMPTZ) AS $$
+DECLARE
+    v_window BIGINT := floor(EXTRACT(EPOCH FROM NOW()) / 30);
+BEGIN
+    IF NOT public.is_admin() THEN
+        RAISE EXCEPTION 'Hanya admin yang dapat membuka layar kiosk.' USING ERRCODE = '42501';
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM settings, jsonb_array_elements(COALESCE(value->'locations', '[]'::jsonb)) loc
+        WHERE id = 1 AND loc->>'id' = p_location_id
+    ) THEN
+        RAISE EXCEPTION 'Lokasi kantor tidak ditemukan.' USING ERRCODE = '22023';
+    END IF;
+
+    RETURN QUERY SELECT
+        v_window::TEXT || '.' || public.qr_token_signature(v_window, p_location_id) || '.' || p_location_id,
+        to_timestamp((v_window + 1) * 30);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.kiosk_qr_token FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.kiosk_qr_token TO authenticated;
+
+-- Location ID of a scanned code, or an error when it is malformed, forged or expired
+CREATE OR REPLACE FUNCTION public.verify_qr_token(p_token TEXT)
+RETURNS TEXT AS $$
+DECLARE
+    v_parts TEXT[] := regexp_match(p_token, '^([0-9]+)\.([0-9a-f]{32})\.(.+)$');
+    v_window BIGINT;
+    v_current BIGINT := floor(EXTRACT(EPOCH FROM NOW()) / 30);
+BEGIN
+    IF v_parts IS NULL OR v_parts[2] <> public.qr_token_signature(v_parts[1]::BIGINT, v_parts[3]) THEN
+        RAISE EXCEPTION 'Kode QR tidak dikenali. Scan kode pada layar kiosk kantor.' USING ERRCODE = '22023';
+    END IF;
+
+    v_window := v_parts[1]::BIGINT;
+    IF v_window NOT IN (v_current, v_current - 1) THEN
+        RAISE EXCEPTION 'Kode QR sudah kedaluwarsa. Silakan scan ulang.' USING ERRCODE = 'P0001';
+    END IF;
+
+    RETURN v_parts[3];
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.verify_qr_token FROM PUBLIC, anon, authenticated;
+
+-- 4. The RPC called by submitAttendance() and submitQrAttendance()
+DROP FUNCTION IF EXISTS public.submit_attendance;
+
+CREATE OR REPLACE FUNCTION public.submit_attendance(
+    p_type TEXT,
+    p_latitude DOUBLE PRECISION,
+    p_longitude DOUBLE PRECISION,
+    p_accuracy DOUBLE PRECISION,
+    p_photo_url TEXT,
+    p_address TEXT DEFAULT NULL,
+    p_captured_at TIMESTAMPTZ DEFAULT NULL,
+    p_client_id UUID DEFAULT NULL,
+    p_face_score DOUBLE PRECISION DEFAULT NULL,
+    p_qr_token TEXT DEFAULT NULL -- Set for QR check-ins, which send no coordinates or photo
+)
+RETURNS attendance AS $$
+DECLARE
+    v_user users%ROWTYPE;
+    v_settings JSONB;
+    v_synced_at TIMESTAMPTZ := NOW();
+    v_now TIMESTAMPTZ;
+    v_timezone TEXT;
+    v_distance DOUBLE PRECISION;
+    v_is_late BOOLEAN := false;
+    v_location JSONB;
+    v_record attendance%ROWTYPE;
+    v_day_start TIMESTAMPTZ;
+    v_last_type TEXT;
+    v_ins INT;
+    v_max_reentries INT;
+    v_locations JSONB;
+    v_loc JSONB;
+    v_loc_distance DOUBLE PRECISION;
+    v_matched JSONB;
+    v_schedule_day JSONB;
+    v_is_holiday BOOLEAN := false;
+    v_early_minutes INT;
+    v_trust_score INT;
+    v_trust_reasons TEXT[];
+    v_status TEXT;
+    v_face_threshold DOUBLE PRECISION;
+    v_synced_late BOOLEAN;
+    v_method TEXT := CASE WHEN p_qr_token IS NULL THEN 'gps' ELSE 'qr' END;
+    v_qr_location_id TEXT;
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'Sesi login tidak ditemukan. Silakan login ulang.' USING ERRCODE = '28000';
+    END IF;
+
+    IF p_type NOT IN ('in', 'out') THEN
+        RAISE EXCEPTION 'Jenis absensi tidak valid: %', p_type USING ERRCODE = '22023';
+    END IF;
+
+    IF p_face_score IS NOT NULL AND p_face_score NOT BETWEEN 0 AND 1 THEN
+        RAISE EXCEPTION 'Skor verifikasi wajah tidak valid.' USING ERRCODE = '22023';
+    END IF;
+
+    IF v_method = 'gps' AND (p_latitude IS NULL OR p_longitude IS NULL
+       OR p_latitude NOT BETWEEN -90 AND 90 OR p_longitude NOT BETWEEN -180 AND 180) THEN
+        RAISE EXCEPTION 'Koordinat lokasi tidak valid.' USING ERRCODE = '22023';
+    END IF;
+
+    -- Photos live in the attendance-photos bucket; only the object path is stored
+    IF v_method = 'gps' AND (p_photo_url IS NULL OR p_photo_url NOT LIKE auth.uid()::TEXT || '/%') THEN
+        RAISE EXCEPTION 'Foto absensi tidak valid. Silakan ambil ulang foto.' USING ERRCODE = '22023';
+    END IF;
+
+    SELECT * INTO v_user FROM users WHERE id = auth.uid();
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Data pengguna tidak ditemukan.' USING ERRCODE = '28000';
+    END IF;
+
+    SELECT value INTO v_settings FROM settings WHERE id = 1;
+    IF v_settings IS NULL THEN
+        RAISE EXCEPTION 'Pengaturan kantor belum diisi. Hubungi admin.' USING ERRCODE = 'P0001';
+    END IF;
+
+    v_timezone := COALESCE(v_settings->>'timezone', 'Asia/Makassar');
+
+    IF NOT COALESCE(v_settings->'attendanceMethods', '["gps"]'::jsonb) ? v_method THEN
+        RAISE EXCEPTION '%', CASE v_method
+            WHEN 'qr' THEN 'Absen dengan QR kantor tidak diaktifkan.'
+            ELSE 'Absen dengan GPS tidak diaktifkan. Silakan scan QR di kantor.'
+        END USING ERRCODE = 'P0001';
+    END IF;
+
+    -- Checked before the outbox retry below: QR punches never go through the outbox
+    IF v_method = 'qr' THEN
+        v_qr_location_id := public.verify_qr_token(p_qr_token);
+    END IF;
+
+    -- Serializes concurrent punches (and outbox retries) of the same user
+    PERFORM pg_advisory_xact_lock(hashtext('attendance:' || auth.uid()::TEXT));
+
+    -- A retry of a punch that already went through: return the stored row
+    IF p_client_id IS NOT NULL THEN
+        SELECT * INTO v_record FROM attendance WHERE "clientId" = p_client_id AND "userId" = auth.uid();
+        IF FOUND THEN
+            RETURN v_record;
+        END IF;
+    END IF;
+
+    -- Punches queued offline carry their capture time. It is accepted only within
+    -- maxOfflineHours and never in the future; otherwise the server time is used.
+    -- It comes from the phone's clock, so a punch that arrives late goes to review (below).
+    v_now := LEAST(COALESCE(p_captured_at, v_synced_at), v_synced_at);
+    IF v_synced_at - v_now > make_interval(hours => COALESCE((v_settings->>'maxOfflineHours')::INT, 12)) THEN
+        RAISE EXCEPTION 'Absensi offline sudah kedaluwarsa (lebih dari % jam). Silakan absen ulang.',
+            COALESCE((v_settings->>'maxOfflineHours')::INT, 12) USING ERRCODE = 'P0001';
+    END IF;
+    v_synced_late := v_synced_at - v_now > INTERVAL '5 minutes';
+
+    -- Daily state machine (none -> in -> out), same rules as services/punchService.ts
+    v_day_start := date_trunc('day', v_now AT TIME ZONE v_timezone) AT TIME ZONE v_timezone;
+    v_max_reentries := COALESCE((v_settings->>'maxReentriesPerDay')::INT, 0);
+
+    SELECT type INTO v_last_type
+    FROM attendance
+    WHERE "userId" = auth.uid() AND timestamp >= v_day_start AND timestamp <= v_now
+    ORDER BY timestamp DESC
+    LIMIT 1;
+
+    SELECT COUNT(*) INTO v_ins
+    FROM attendance
+    WHERE "userId" = auth.uid() AND timestamp >= v_day_start AND timestamp < v_day_start + INTERVAL '1 day' AND type = 'in';
+
+    IF p_type = 'in' THEN
+        IF v_last_type = 'in' THEN
+            RAISE EXCEPTION 'Anda sudah absen masuk. Silakan absen pulang terlebih dahulu.' USING ERRCODE = 'P0001';
+        ELSIF v_last_type = 'out' AND v_max_reentries <= 0 THEN
+            RAISE EXCEPTION 'Anda sudah absen pulang hari ini. Masuk kembali tidak diizinkan.' USING ERRCODE = 'P0001';
+        ELSIF v_last_type = 'out' AND v_ins - 1 >= v_max_reentries THEN
+            RAISE EXCEPTION 'Batas masuk kembali (%x per hari) sudah tercapai.', v_max_reentries USING ERRCODE = 'P0001';
+        END IF;
+    ELSE
+        IF v_last_type IS NULL THEN
+            RAISE EXCEPTION 'Anda belum absen masuk hari ini.' USING ERRCODE = 'P0001';
+        ELSIF v_last_type = 'out' THEN
+            RAISE EXCEPTION 'Anda sudah absen pulang hari ini.' USING ERRCODE = 'P0001';
+        END IF;
+    END IF;
+
+    -- Geofence: the first of the user's locations that contains the point.
+    -- Rows saved before multiple locations existed only have officeLat/officeLng/maxDistanceMeters.
+    v_locations := COALESCE(v_settings->'locations', jsonb_build_array(jsonb_build_object(
+        'id', 'kantor-utama',
+        'name', 'Kantor Utama',
+        'kind', 'radius',
+        'lat', v_settings->'officeLat',
+        'lng', v_settings->'officeLng',
+        'radiusMeters', v_settings->'maxDistanceMeters'
+    )));
+
+    FOR v_loc IN SELECT * FROM jsonb_array_elements(v_locations) LOOP
+        -- Locations assigned to divisions/users only apply to them
+        IF (jsonb_array_length(COALESCE(v_loc->'divisions', '[]'::jsonb)) > 0
+            OR jsonb_array_length(COALESCE(v_loc->'userIds', '[]'::jsonb)) > 0)
+           AND NOT (COALESCE(v_loc->'userIds', '[]'::jsonb) ? v_user.id::TEXT
+                    OR (v_user.division IS NOT NULL AND COALESCE(v_loc->'divisions', '[]'::jsonb) ? v_user.division)) THEN
+            CONTINUE;
+        END IF;
+
+        -- A QR check-in happened at the kiosk's location; there is no phone position to measure
+        IF v_method = 'qr' THEN
+            IF v_loc->>'id' = v_qr_location_id THEN
+                v_matched := v_loc;
+            END IF;
+            CONTINUE;
+        END IF;
+
+        v_loc_distance := public.distance_meters(
+            p_latitude, p_longitude,
+            (v_loc->>'lat')::DOUBLE PRECISION,
+            (v_loc->>'lng')::DOUBLE PRECISION
+        );
+        IF v_distance IS NULL OR v_loc_distance < v_distance THEN
+            v_distance := v_loc_distance;
+        END IF;
+
+        IF v_matched IS NULL AND CASE
+            WHEN v_loc->>'kind' = 'polygon' THEN public.point_in_polygon(p_latitude, p_longitude, v_loc->'polygon')
+            ELSE v_loc_distance <= (v_loc->>'radiusMeters')::DOUBLE PRECISION
+        END THEN
+            v_matched := v_loc;
+        END IF;
+    END LOOP;
+
+    IF v_method = 'qr' AND v_matched IS NULL THEN
+        RAISE EXCEPTION 'Kode QR ini bukan untuk lokasi kantor Anda.' USING ERRCODE = 'P0001';
+    END IF;
+
+    -- Lateness only applies to the first clock-in, compared on the office wall clock
+    -- against the start time of the user's own schedule. Days off and holidays are never late.
+    v_schedule_day := public.user_schedule(v_settings, v_user.id, v_user.division)
+        ->'days'->EXTRACT(DOW FROM v_now AT TIME ZONE v_timezone)::INT;
+    IF to_regclass('public.holidays') IS NOT NULL THEN
+        SELECT EXISTS (SELECT 1 FROM holidays WHERE date = (v_now AT TIME ZONE v_timezone)::DATE) INTO v_is_holiday;
+    END IF;
+    IF v_is_holiday THEN
+        v_schedule_day := NULL;
+    END IF;
+
+    IF p_type = 'in' AND v_ins = 0 AND jsonb_typeof(v_schedule_day) = 'object' THEN
+        v_is_late := date_trunc('minute', v_now AT TIME ZONE v_timezone)::TIME
+            > (v_schedule_day->>'start')::TIME;
+    END IF;
+
+    -- Clocking out before the scheduled end time (same rule as getEarlyLeaveMinutes in scheduleService.ts)
+    IF p_type = 'out' AND jsonb_typeof(v_schedule_day) = 'object' THEN
+        v_early_minutes := EXTRACT(EPOCH FROM (
+            (v_schedule_day->>'end')::TIME - date_trunc('minute', v_now AT TIME ZONE v_timezone)::TIME
+        ))::INT / 60;
+        IF v_early_minutes <= 0 THEN
+            v_early_minutes := NULL;
+        END IF;
+    END IF;
+
+    IF v_method = 'qr' THEN
+        v_location := jsonb_build_object(
+            'latitude', v_matched->'lat',
+            'longitude', v_matched->'lng',
+            'accuracy', 0,
+            'address', v_matched->>'name'
+        );
+    ELSE
+        v_location := jsonb_build_object(
+            'latitude', p_latitude,
+            'longitude', p_longitude,
+            'accuracy', COALESCE(p_accuracy, 0)
+        );
+        IF p_address IS NOT NULL THEN
+            v_location := v_location || jsonb_build_object('address', p_address);
+        END IF;
+
+        SELECT score, reasons INTO v_trust_score, v_trust_reasons
+        FROM public.location_trust(v_user.id, p_latitude, p_longitude, p_accuracy, v_now, v_timezone);
+    END IF;
+
+    -- Outside every location is 'invalid'. Inside, a punch synced late is 'pending' for admin
+    -- review: its time, lateness and day all rest on a clock the intern controls.
+    -- So is a selfie that doesn't look like the profile photo, or a missing score once a face is enrolled.
+    -- The score is computed on the device, so this catches buddy-punching, not a tampered client.
+    -- A threshold of 0 turns the check off. QR check-ins have no selfie to check.
+    v_face_threshold := COALESCE((v_settings->>'faceMatchThreshold')::DOUBLE PRECISION, 0.5);
+    IF v_matched IS NULL THEN
+        v_status := 'invalid';
+    ELSIF v_synced_late THEN
+        v_status := 'pending';
+    ELSIF v_method = 'gps' AND v_face_threshold > 0 AND (
+        (p_face_score IS NULL AND v_user."faceEmbedding" IS NOT NULL) OR p_face_score < v_face_threshold
+    ) THEN
+        v_status := 'pending';
+    ELSE
+        v_status := 'valid';
+    END IF;
+
+    INSERT INTO attendance (
+        "userId", "userName", division, timestamp, type,
+        "photoUrl", location, "isLate", status, "distanceMeters",
+        "locationId", "locationName", "isEarlyLeave", "earlyLeaveMinutes",
+        "syncedAt", "syncedLate", "clientId", "locationTrustScore", "locationTrustReasons", "faceScore", method
+    )
+    VALUES (
+        v_user.id, v_user.name, COALESCE(v_user.division, 'Umum'), v_now, p_type,
+        p_photo_url, v_location, v_is_late, v_status, v_distance,
+        v_matched->>'id', v_matched->>'name', v_early_minutes IS NOT NULL, v_early_minutes,
+        v_synced_at, v_synced_late, p_client_id,
+        v_trust_score, v_trust_reasons, p_face_score, v_method
+    )
+    RETURNING * INTO v_record;
+
+    RETURN v_record;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.submit_attendance FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.submit_attendance TO authenticated;
+
+-- 5. Interns may no longer insert attendance rows directly; the RPC is the only way in.
+--    This re-enables RLS if fix_attendance_rls.sql disabled it, since otherwise the
+--    checks above could be bypassed with a plain insert. Admins keep full access.
+ALTER TABLE attendance ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can insert own attendance" ON attendance;
+
+DROP POLICY IF EXISTS "Admins can do everything on attendance" ON attendance;
+CREATE POLICY "Admins can do everything on attendance" ON attendance
+    FOR ALL
+    USING (public.is_admin())
+    WITH CHECK (public.is_admin());
+
+DROP POLICY IF EXISTS "Users can view own attendance" ON attendance;
+CREATE POLICY "Users can view own attendance" ON attendance
+    FOR SELECT
+    USING (auth.uid() = "userId");
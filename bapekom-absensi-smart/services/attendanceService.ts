@@ -1,268 +1,386 @@
-import { AttendanceRecord, DashboardStats, WeeklyStats } from '../types';
+import { AttendanceRecord, AttendanceReviewStatus, DashboardStats, InternMonthlyReport, LocationData, MonthlyRecapData, OfficeLocation, User, WeeklyStats, StatsWindow } from '../types';
 import { supabase, isSupabaseConfigured } from './supabaseClient';
 import { getUsers } from './userService';
 import { getLeaveRequests } from './leaveService';
+import { getHolidayMap } from './holidayService';
 import { getSettings } from './settingsService';
-
-// Safe ID Generator
-const generateId = () => {
-  if (typeof crypto !== 'undefined' && crypto.randomUUID) {
-    return crypto.randomUUID();
-  }
-  return Date.now().toString(36) + Math.random().toString(36).substring(2);
+import { countActiveUsers } from './punchService';
+import { matchLocation } from './geofenceService';
+import { getScheduleForUser, isWorkDay } from './scheduleService';
+import { buildMonthlyRecap, emptyMonthlyRecap } from './recapService';
+import {
+  addDays,
+  getDayOfWeek,
+  getMonthDates,
+  getOfficeDayRange,
+  getOfficeDayStart,
+  getOfficeMonthRange,
+  getOfficeToday,
+  toOfficeDateString
+} from './dateService';
+
+// Helper to check if today (office date) is within a date range
+const isTodayInRange = (startDate: string, endDate: string) => {
+  const today = getOfficeToday();
+  return today >= startDate && today <= endDate;
 };
 
-// Helper to calculate distance
-const getDistanceFromLatLonInKm = (lat1: number, lon1: number, lat2: number, lon2: number) => {
-  const R = 6371; // Radius of the earth in km
-  const dLat = deg2rad(lat2 - lat1);
-  const dLon = deg2rad(lon2 - lon1);
-  const a =
-    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-    Math.cos(deg2rad(lat1)) * Math.cos(deg2rad(lat2)) *
-    Math.sin(dLon / 2) * Math.sin(dLon / 2);
-  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-  const d = R * c; // Distance in km
-  return d * 1000; // Distance in meters
-};
+// Function to get the [start, end) instants of "today" in the office timezone
+const getTodayDateRange = (): { start: string; end: string } => getOfficeDayRange(getOfficeToday());
 
-const deg2rad = (deg: number) => deg * (Math.PI / 180);
+// Every attendance column except "photoUrl". Older rows still hold base64 data URLs
+// (until `npm run migrate:photos` has run), so list queries leave photos out unless asked for.
+const ATTENDANCE_COLUMNS = 'id, userId, userName, division, timestamp, type, location, isLate, status, distanceMeters, locationId, locationName, isEarlyLeave, earlyLeaveMinutes, syncedAt, syncedLate, source, missingClockOut, reviewStatus, reviewNote, reviewedByName, reviewedAt, locationTrustScore, locationTrustReasons, faceScore, method';
 
-// Helper to check if today is within a date range
-const isTodayInRange = (startDate: string, endDate: string) => {
-  const today = new Date().toISOString().split('T')[0];
-  return today >= startDate && today <= endDate;
-};
+const toIsoString = (value: Date | string): string =>
+  value instanceof Date ? value.toISOString() : new Date(value).toISOString();
 
-// Helper to get today's date in YYYY-MM-DD format
-const getTodayDateString = (): string => {
-  // Use local timezone date in YYYY-MM-DD format
-  return new Date().toLocaleDateString('en-CA');
-};
+export interface AttendanceRangeOptions {
+  userId?: string;
+  division?: string;
+  type?: AttendanceRecord['type'];
+  includePhoto?: boolean;
+  ascending?: boolean;
+}
 
-// Helper to safely extract date from timestamp
-const getDateFromTimestamp = (timestamp: string | null | undefined): string | null => {
-  if (!timestamp) return null;
-  try {
-    // Parse timestamp and return local date in YYYY-MM-DD
-    const date = new Date(timestamp);
-    if (isNaN(date.getTime())) {
-      console.warn('Invalid timestamp:', timestamp);
-      return null;
-    }
-    return date.toLocaleDateString('en-CA');
-  } catch (e) {
-    console.warn('Error parsing timestamp:', timestamp, e);
-    return null;
-  }
-};
+// --- Service Methods ---
 
-// Function to get date range for "today" considering timezone
-const getTodayDateRange = (): { start: string; end: string } => {
-  const today = new Date();
-  const tomorrow = new Date(today);
-  tomorrow.setDate(tomorrow.getDate() + 1);
-  
-  return {
-    start: today.toISOString().split('T')[0],
-    end: tomorrow.toISOString().split('T')[0],
-  };
+export const ATTENDANCE_PHOTO_BUCKET = 'attendance-photos';
+
+// Storage object path for a selfie, dated by the office day: "<userId>/<YYYY-MM-DD>_<ms>.jpg"
+export const getAttendancePhotoPath = (userId: string, timestamp: string): string =>
+  `${userId}/${toOfficeDateString(timestamp)}_${new Date(timestamp).getTime()}.jpg`;
+
+/**
+ * Turns a stored `photoUrl` into something an <img> can show.
+ * New rows store a storage object path; legacy rows hold a base64 data URL or a full URL.
+ */
+export const resolveAttendancePhotoUrl = (photoUrl: string): string => {
+  if (!photoUrl || photoUrl.startsWith('data:') || /^https?:\/\//.test(photoUrl)) return photoUrl;
+  if (!isSupabaseConfigured || !supabase) return '';
+  return supabase.storage.from(ATTENDANCE_PHOTO_BUCKET).getPublicUrl(photoUrl).data.publicUrl;
 };
 
-// --- Service Methods ---
+const withResolvedPhoto = (r: any): AttendanceRecord => ({ ...r, photoUrl: resolveAttendancePhotoUrl(r.photoUrl ?? '') });
 
-// Helper to upload photo to Supabase Storage
+/**
+ * Uploads a captured selfie to the attendance-photos bucket.
+ * @returns The storage object path, which is what gets saved in `photoUrl`.
+ */
 export const uploadAttendancePhoto = async (base64Data: string, userId: string, timestamp: string): Promise<string> => {
   if (!isSupabaseConfigured || !supabase) {
-    console.log('Supabase not configured, using base64 fallback');
-    return base64Data;
+    throw new Error('Supabase is not configured.');
   }
 
-  try {
-    // Extract base64 string (remove data:image/jpeg;base64, prefix if present)
-    let base64String = base64Data;
-    if (base64Data.includes(',')) {
-      base64String = base64Data.split(',')[1];
-    }
+  // Extract base64 string (remove data:image/jpeg;base64, prefix if present)
+  const base64String = base64Data.includes(',') ? base64Data.split(',')[1] : base64Data;
 
-    // Convert base64 to blob
-    const binaryString = atob(base64String);
-    const bytes = new Uint8Array(binaryString.length);
-    for (let i = 0; i < binaryString.length; i++) {
-      bytes[i] = binaryString.charCodeAt(i);
-    }
-    const blob = new Blob([bytes], { type: 'image/jpeg' });
-
-    // Create unique filename
-    const dateObj = new Date(timestamp);
-    const year = dateObj.getFullYear();
-    const month = String(dateObj.getMonth() + 1).padStart(2, '0');
-    const day = String(dateObj.getDate()).padStart(2, '0');
-    const time = dateObj.getTime();
-    const filename = `${userId}/${year}-${month}-${day}_${time}.jpg`;
-
-    console.log('Uploading photo to:', filename);
-
-    // Upload to storage
-    const { data, error } = await supabase.storage
-      .from('attendance-photos')
-      .upload(filename, blob, {
-        cacheControl: '3600',
-        upsert: false,
-      });
+  // Convert base64 to blob
+  const binaryString = atob(base64String);
+  const bytes = new Uint8Array(binaryString.length);
+  for (let i = 0; i < binaryString.length; i++) {
+    bytes[i] = binaryString.charCodeAt(i);
+  }
+  const blob = new Blob([bytes], { type: 'image/jpeg' });
+
+  const path = getAttendancePhotoPath(userId, timestamp);
+  const { error } = await supabase.storage
+    .from(ATTENDANCE_PHOTO_BUCKET)
+    .upload(path, blob, {
+      cacheControl: '3600',
+      contentType: 'image/jpeg',
+      upsert: false,
+    });
 
-    if (error) {
-      console.error('Photo upload error:', error);
-      return base64Data;
-    }
+  if (error) {
+    // A retry from the offline outbox after an earlier upload went through
+    if ((error as any).statusCode === '409' || /already exists/i.test(error.message)) return path;
+    console.error('Photo upload error:', error);
+    throw error;
+  }
 
-    // Get public URL
-    const { data: urlData } = supabase.storage
-      .from('attendance-photos')
-      .getPublicUrl(filename);
+  return path;
+};
 
-    console.log('Photo uploaded successfully:', urlData?.publicUrl);
-    return urlData?.publicUrl || base64Data;
-  } catch (err) {
-    console.error('Photo upload exception:', err);
-    return base64Data;
+/**
+ * Client-side preview of the geofence check done by submit_attendance.
+ * @returns The matched location, or null when the user is outside all of theirs.
+ */
+export const checkLocationValidity = (lat: number, lng: number, user: Pick<User, 'id' | 'division'>): OfficeLocation | null =>
+  matchLocation({ lat, lng }, getSettings().locations, user).location;
+
+export interface AttendanceSubmission {
+  type: AttendanceRecord['type'];
+  location: LocationData;
+  photoUrl: string; // Storage object path returned by uploadAttendancePhoto
+  capturedAt?: string; // ISO String, for punches sent from the offline outbox
+  clientId?: string; // Makes retries of the same punch idempotent
+  faceScore?: number; // Selfie vs. profile photo similarity, when the user has an enrolled face
+}
+
+/**
+ * Records a clock-in/clock-out through the `submit_attendance` RPC.
+ * The server stamps the time and decides `isLate`, `isEarlyLeave` and the geofence `status`
+ * from the stored office settings; the client only sends what it captured.
+ */
+export const submitAttendance = async (submission: AttendanceSubmission): Promise<AttendanceRecord> => {
+  if (!isSupabaseConfigured || !supabase) {
+    throw new Error('Supabase is not configured.');
   }
-};
 
-export const checkLocationValidity = (lat: number, lng: number): boolean => {
-  const settings = getSettings();
-  const distance = getDistanceFromLatLonInKm(lat, lng, settings.officeLat, settings.officeLng);
-  return distance <= settings.maxDistanceMeters;
-};
+  const { location } = submission;
+  const { data, error } = await supabase.rpc('submit_attendance', {
+    p_type: submission.type,
+    p_latitude: location.latitude,
+    p_longitude: location.longitude,
+    p_accuracy: location.accuracy,
+    p_photo_url: submission.photoUrl,
+    p_address: location.address ?? null,
+    p_captured_at: submission.capturedAt ?? null,
+    p_client_id: submission.clientId ?? null,
+    p_face_score: submission.faceScore ?? null,
+  });
 
-export const submitAttendance = async (record: Omit<AttendanceRecord, 'id' | 'isLate' | 'status'>): Promise<AttendanceRecord> => {
-  const settings = getSettings();
-  const date = new Date(record.timestamp);
-  const currentHours = date.getHours();
-  const currentMinutes = date.getMinutes();
+  if (error) throw error;
+  return withResolvedPhoto(data);
+};
 
-  // Dynamic Late Logic
-  const [lateHour, lateMinute] = settings.lateThreshold.split(':').map(Number);
+export interface KioskQrToken {
+  token: string;
+  expiresAt: string; // ISO String, when the kiosk should fetch the next code
+}
 
-  // Logic: If current hour > lateHour OR (current hour == lateHour AND current minute > lateMinute)
-  const isLate = currentHours > lateHour || (currentHours === lateHour && currentMinutes > lateMinute);
+// Shape of a kiosk code ("<window>.<signature>.<locationId>"); the server checks the rest
+export const isQrToken = (text: string): boolean => /^[0-9]+\.[0-9a-f]{32}\..+$/.test(text);
 
-  const isValidLoc = checkLocationValidity(record.location.latitude, record.location.longitude);
+/**
+ * The code the office kiosk should show now for a location (admins only).
+ * Signed by the database, so the secret never reaches the browser.
+ */
+export const getKioskQrToken = async (locationId: string): Promise<KioskQrToken> => {
+  if (!isSupabaseConfigured || !supabase) {
+    throw new Error('Supabase is not configured.');
+  }
 
-  // Keep photoUrl as base64 for now (no storage upload)
-  const fullRecord: AttendanceRecord = {
-    ...record,
-    id: generateId(),
-    isLate,
-    status: isValidLoc ? 'valid' : 'invalid', // Auto-flag based on geofence
-  };
+  const { data, error } = await supabase.rpc('kiosk_qr_token', { p_location_id: locationId });
+  if (error) throw error;
+  const [row] = data || [];
+  if (!row) throw new Error('Kode QR tidak tersedia.');
+  return { token: row.token, expiresAt: row.expires_at };
+};
 
-  if (isSupabaseConfigured && supabase) {
-    const { error } = await supabase.from('attendance').insert([fullRecord]);
-    if (error) throw error;
-    return fullRecord;
+/**
+ * Records a punch made by scanning the kiosk code. Codes expire within a minute,
+ * so unlike GPS punches these are never queued offline.
+ */
+export const submitQrAttendance = async (type: AttendanceRecord['type'], token: string): Promise<AttendanceRecord> => {
+  if (!isSupabaseConfigured || !supabase) {
+    throw new Error('Supabase is not configured.');
   }
 
-  // If not configured, you might want to explicitly throw an error
-  // or handle it differently, but for now, we remove the silent fallback.
-  throw new Error('Supabase is not configured.');
+  const { data, error } = await supabase.rpc('submit_attendance', {
+    p_type: type,
+    p_latitude: null,
+    p_longitude: null,
+    p_accuracy: null,
+    p_photo_url: null,
+    p_qr_token: token,
+  });
+
+  if (error) throw error;
+  return withResolvedPhoto(data);
 };
 
-export const getTodaysRecords = async (): Promise<AttendanceRecord[]> => {
+/**
+ * Fetches attendance records whose timestamp falls in [start, end).
+ * Filtering happens in Supabase, and photos are only selected when `includePhoto` is set.
+ */
+export const getAttendanceInRange = async (
+  start: Date | string,
+  end: Date | string,
+  options: AttendanceRangeOptions = {}
+): Promise<AttendanceRecord[]> => {
+  const startIso = toIsoString(start);
+  const endIso = toIsoString(end);
+  const { userId, division, type, includePhoto = false, ascending = false } = options;
+
   try {
-    // Get ALL records first from Supabase
-    const allRecords = await getAllAttendanceRecords();
-    
-    if (!allRecords || allRecords.length === 0) {
-      console.log('getTodaysRecords: No records found at all');
-      return [];
-    }
+    if (isSupabaseConfigured && supabase) {
+      let query = supabase
+        .from('attendance')
+        .select(includePhoto ? `${ATTENDANCE_COLUMNS}, photoUrl` : ATTENDANCE_COLUMNS)
+        .gte('timestamp', startIso)
+        .lt('timestamp', endIso);
 
-    // Filter for today's records only
-    const todayDateStr = getTodayDateString();
-    console.log('getTodaysRecords: Today date is:', todayDateStr);
-    console.log('getTodaysRecords: Total records in DB:', allRecords.length);
-    
-    // Log first few records for debugging
-    if (allRecords.length > 0) {
-      console.log('getTodaysRecords: First record timestamp:', allRecords[0].timestamp);
-      console.log('getTodaysRecords: First record extracted date:', getDateFromTimestamp(allRecords[0].timestamp));
-    }
+      if (userId) query = query.eq('userId', userId);
+      if (division) query = query.eq('division', division);
+      if (type) query = query.eq('type', type);
 
-    const todaysRecords = allRecords.filter(r => {
-      const recordDate = getDateFromTimestamp(r.timestamp);
-      const isToday = recordDate === todayDateStr;
-      if (isToday) {
-        console.log(`getTodaysRecords: Found today's record - User: ${r.userName}, Timestamp: ${r.timestamp}`);
+      const { data, error } = await query.order('timestamp', { ascending });
+      if (error) {
+        console.error('getAttendanceInRange error:', error);
+        throw error;
       }
-      return isToday;
-    });
-    
-    console.log('getTodaysRecords: FINAL RESULT - Found', todaysRecords.length, 'records for today');
-    
-    return todaysRecords;
+
+      return (data || []).map(withResolvedPhoto);
+    }
+    throw new Error('Supabase not configured');
   } catch (err) {
-    console.error("Error fetching today's records:", err);
+    console.error('getAttendanceInRange fallback:', err);
     // Local Storage Fallback
-    const all = JSON.parse(localStorage.getItem('bapekom_attendance') || '[]');
-    const todayStr = getTodayDateString();
-    console.log('getTodaysRecords: Using localStorage fallback with', all.length, 'records');
-    return all.filter((r: AttendanceRecord) => {
-      const recordDate = getDateFromTimestamp(r.timestamp);
-      return recordDate === todayStr;
-    });
+    const all: AttendanceRecord[] = JSON.parse(localStorage.getItem('bapekom_attendance') || '[]');
+    const startMs = new Date(startIso).getTime();
+    const endMs = new Date(endIso).getTime();
+    return all
+      .filter(r => {
+        const ts = new Date(r.timestamp).getTime();
+        return ts >= startMs && ts < endMs &&
+          (!userId || r.userId === userId) &&
+          (!division || r.division === division) &&
+          (!type || r.type === type);
+      })
+      .map(r => (includePhoto ? r : { ...r, photoUrl: '' }))
+      .sort((a, b) => {
+        const diff = new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime();
+        return ascending ? diff : -diff;
+      });
   }
 };
 
-// Get recent records (last 30 days) for activity display
-export const getRecentRecords = async (): Promise<AttendanceRecord[]> => {
+// Loads the photo of a single record, for views that list records without photos
+export const getAttendancePhoto = async (recordId: string): Promise<string> => {
   try {
-    const allRecords = await getAllAttendanceRecords();
-    
-    // Get records from last 30 days
-    const thirtyDaysAgo = new Date();
-    thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
-    const thirtyDaysAgoStr = thirtyDaysAgo.toISOString().split('T')[0];
-    
-    const recentRecords = allRecords.filter(r => {
-      const recordDate = getDateFromTimestamp(r.timestamp);
-      return recordDate && recordDate >= thirtyDaysAgoStr;
-    });
-    console.log('getRecentRecords: Returning', recentRecords.length, 'records from last 30 days');
-    return recentRecords;
+    if (isSupabaseConfigured && supabase) {
+      const { data, error } = await supabase
+        .from('attendance')
+        .select('photoUrl')
+        .eq('id', recordId)
+        .single();
+
+      if (error) throw error;
+      return resolveAttendancePhotoUrl(data?.photoUrl || '');
+    }
+    throw new Error('Supabase not configured');
   } catch (err) {
-    console.error("Error fetching recent records:", err);
-    const all = JSON.parse(localStorage.getItem('bapekom_attendance') || '[]');
-    return all;
+    console.error('getAttendancePhoto fallback:', err);
+    const all: AttendanceRecord[] = JSON.parse(localStorage.getItem('bapekom_attendance') || '[]');
+    return all.find(r => r.id === recordId)?.photoUrl || '';
+  }
+};
+
+const REVIEW_QUEUE_LIMIT = 200;
+
+// Punches scoring below this are treated as possibly spoofed and go to the review queue
+export const LOW_LOCATION_TRUST_SCORE = 50;
+
+export const isLowLocationTrust = (record: AttendanceRecord): boolean =>
+  record.locationTrustScore != null && record.locationTrustScore < LOW_LOCATION_TRUST_SCORE;
+
+// Selfie less similar to the profile photo than settings.faceMatchThreshold (same rule as submit_attendance)
+export const isFaceMismatch = (record: AttendanceRecord): boolean =>
+  record.faceScore != null && record.faceScore < getSettings().faceMatchThreshold;
+
+// PostgREST filter for punches that need a look: outside the geofence, unverified or low trust
+const REVIEW_QUEUE_FILTER = `status.in.(invalid,pending),locationTrustScore.lt.${LOW_LOCATION_TRUST_SCORE}`;
+
+/**
+ * Punches the geofence marked invalid or pending, or with a low location trust score,
+ * newest first and with photos. Only the ones no admin has accepted or rejected yet,
+ * unless `includeReviewed` is set.
+ */
+export const getReviewQueue = async (includeReviewed = false): Promise<AttendanceRecord[]> => {
+  if (!isSupabaseConfigured || !supabase) return [];
+
+  let query = supabase
+    .from('attendance')
+    .select(`${ATTENDANCE_COLUMNS}, photoUrl`)
+    .or(REVIEW_QUEUE_FILTER);
+  if (!includeReviewed) query = query.is('reviewStatus', null);
+
+  const { data, error } = await query.order('timestamp', { ascending: false }).limit(REVIEW_QUEUE_LIMIT);
+  if (error) throw error;
+  return (data || []).map(withResolvedPhoto);
+};
+
+/**
+ * Records an admin decision on one or more punches. Without `status` only the note
+ * is saved and the punches stay in the queue. The reviewer and time are kept either way.
+ */
+export const reviewAttendanceRecords = async (
+  recordIds: string[],
+  review: { status?: AttendanceReviewStatus; note?: string },
+  reviewer: Pick<User, 'id' | 'name'>
+): Promise<void> => {
+  if (recordIds.length === 0) return;
+  if (!isSupabaseConfigured || !supabase) throw new Error('Supabase is not configured.');
+
+  const update: Record<string, unknown> = {
+    reviewedBy: reviewer.id,
+    reviewedByName: reviewer.name,
+    reviewedAt: new Date().toISOString(),
+  };
+  if (review.status) update.reviewStatus = review.status;
+  if (review.note !== undefined) update.reviewNote = review.note.trim() || null;
+
+  const { error } = await supabase.from('attendance').update(update).in('id', recordIds);
+  if (error) throw error;
+};
+
+// Number of punches still waiting in the review queue, for the admin sidebar badge
+export const getReviewQueueCount = async (): Promise<number> => {
+  try {
+    if (!isSupabaseConfigured || !supabase) return 0;
+    const { count, error } = await supabase
+      .from('attendance')
+      .select('id', { count: 'exact', head: true })
+      .or(REVIEW_QUEUE_FILTER)
+      .is('reviewStatus', null);
+
+    if (error) throw error;
+    return count || 0;
+  } catch (error) {
+    console.error('Error counting review queue:', error);
+    return 0;
   }
 };
 
+export const getTodaysRecords = async (options: Omit<AttendanceRangeOptions, 'ascending'> = {}): Promise<AttendanceRecord[]> => {
+  const { start, end } = getTodayDateRange();
+  const todaysRecords = await getAttendanceInRange(start, end, options);
+  console.log('getTodaysRecords: Found', todaysRecords.length, 'records for today');
+  return todaysRecords;
+};
+
+// Get recent records (last 30 days) for activity display
+export const getRecentRecords = async (): Promise<AttendanceRecord[]> => {
+  const { end } = getTodayDateRange();
+  const thirtyDaysAgo = getOfficeDayStart(addDays(getOfficeToday(), -30));
+
+  const recentRecords = await getAttendanceInRange(thirtyDaysAgo, end);
+  console.log('getRecentRecords: Returning', recentRecords.length, 'records from last 30 days');
+  return recentRecords;
+};
+
 export const getAllAttendanceRecords = async (): Promise<AttendanceRecord[]> => {
   try {
     if (isSupabaseConfigured && supabase) {
       const { data, error } = await supabase
         .from('attendance')
-        .select('*')
+        .select(ATTENDANCE_COLUMNS)
         .order('timestamp', { ascending: false });
 
       if (error) {
         console.error('getAllAttendanceRecords error:', error);
         throw error;
       }
-      
+
       if (!data || data.length === 0) {
         console.warn('getAllAttendanceRecords: No data from Supabase, falling back to localStorage');
         throw new Error('No data from Supabase');
       }
-      
+
       console.log('getAllAttendanceRecords: Got', data.length, 'records from Supabase');
-      console.log('getAllAttendanceRecords: First 3 records:', data.slice(0, 3).map(r => ({
-        id: r.id,
-        userName: r.userName,
-        timestamp: r.timestamp,
-        type: r.type
-      })));
-      return data as AttendanceRecord[];
+      return data.map((r: any) => ({ ...r, photoUrl: '' })) as AttendanceRecord[];
     }
     throw new Error('Supabase not configured');
   } catch (err) {
@@ -286,7 +404,7 @@ export const getUserAttendanceHistory = async (userId: string): Promise<Attendan
         .order('timestamp', { ascending: false });
 
       if (error) throw error;
-      return data as AttendanceRecord[];
+      return (data || []).map(withResolvedPhoto);
     }
     throw new Error('Supabase skipped');
   } catch (err) {
@@ -300,7 +418,8 @@ export const getUserAttendanceHistory = async (userId: string): Promise<Attendan
 
 export const getAllStats = async (): Promise<DashboardStats> => {
   // 1. Get Today's Attendance
-  const records = await getTodaysRecords();
+  const { start, end } = getTodayDateRange();
+  const records = await getAttendanceInRange(start, end);
   const presentUserIds = new Set(records.map(r => r.userId));
 
   // 2. Get All Interns
@@ -316,9 +435,14 @@ export const getAllStats = async (): Promise<DashboardStats> => {
   );
 
   // 4. Calculate Alpa
-  // Alpa = Interns who are NOT present AND NOT on approved leave
+  // Alpa = Interns scheduled to work today who are NOT present AND NOT on approved leave.
+  // Nobody is alpa on a holiday.
+  const { schedules } = getSettings();
+  const today = getOfficeToday();
+  const isHolidayToday = (await getHolidayMap(today, today)).has(today);
   let alpaCount = 0;
   interns.forEach(intern => {
+    if (isHolidayToday || !isWorkDay(getScheduleForUser(schedules, intern), today)) return;
     if (!presentUserIds.has(intern.id) && !usersOnLeave.has(intern.id)) {
       alpaCount++;
     }
@@ -330,41 +454,66 @@ export const getAllStats = async (): Promise<DashboardStats> => {
     lateToday: records.filter(r => r.isLate && r.type === 'in').length,
     onLeaveToday: usersOnLeave.size,
     alpaToday: alpaCount,
-    activeNow: records.filter(r => r.type === 'in').length - records.filter(r => r.type === 'out').length
+    activeNow: countActiveUsers(records)
   };
 }
 
-export const getWeeklyStats = async (): Promise<WeeklyStats[]> => {
-  const days = ['Min', 'Sen', 'Sel', 'Rab', 'Kam', 'Jum', 'Sab'];
-  const stats: WeeklyStats[] = [];
+export const getWeeklyStats = async (days: StatsWindow = 7): Promise<WeeklyStats[]> => {
+  const dayNames = ['Min', 'Sen', 'Sel', 'Rab', 'Kam', 'Jum', 'Sab'];
 
-  for (let i = 6; i >= 0; i--) {
-    const d = new Date();
-    d.setDate(d.getDate() - i);
+  const today = getOfficeToday();
+  const firstDate = addDays(today, -(days - 1));
+  const { end } = getTodayDateRange();
+  const start = getOfficeDayStart(firstDate);
 
-    const dayName = days[d.getDay()];
-    // Randomize data for demo visuals (Total interns ~12)
-    const isWeekend = d.getDay() === 0 || d.getDay() === 6;
-    const basePresent = isWeekend ? 0 : Math.floor(Math.random() * 3) + 9; // 9-11 people
-    const present = Math.max(0, Math.min(12, basePresent));
-    const late = isWeekend ? 0 : Math.floor(Math.random() * 4); // 0-3 late
+  const [records, allUsers, allLeaves, holidays] = await Promise.all([
+    getAttendanceInRange(start, end, { type: 'in' }),
+    getUsers(),
+    getLeaveRequests(),
+    getHolidayMap(firstDate, today)
+  ]);
+  const interns = allUsers.filter(u => u.role === 'intern');
+  const approvedLeaves = allLeaves.filter(req => req.status === 'approved');
+  const { schedules } = getSettings();
+  const internSchedules = interns.map(intern => ({ intern, schedule: getScheduleForUser(schedules, intern) }));
+
+  // Group check-ins by office date
+  const checkInsByDate = new Map<string, AttendanceRecord[]>();
+  records.forEach(r => {
+    const dateStr = toOfficeDateString(r.timestamp);
+    const list = checkInsByDate.get(dateStr) || [];
+    list.push(r);
+    checkInsByDate.set(dateStr, list);
+  });
 
-    stats.push({
-      date: dayName,
-      fullDate: d.toISOString().split('T')[0],
-      present: present,
-      late: late
+  const stats: WeeklyStats[] = [];
+  for (let i = 0; i < days; i++) {
+    const dateStr = addDays(firstDate, i);
+    const dayOfWeek = getDayOfWeek(dateStr);
+
+    const checkIns = checkInsByDate.get(dateStr) || [];
+    const presentUserIds = new Set(checkIns.map(r => r.userId));
+    const lateUserIds = new Set(checkIns.filter(r => r.isLate).map(r => r.userId));
+
+    let leave = 0;
+    let alpa = 0;
+    internSchedules.forEach(({ intern, schedule }) => {
+      if (holidays.has(dateStr) || !isWorkDay(schedule, dateStr) || presentUserIds.has(intern.id)) return;
+      const onLeave = approvedLeaves.some(req =>
+        req.userId === intern.id && dateStr >= req.startDate && dateStr <= req.endDate
+      );
+      if (onLeave) leave++;
+      else alpa++;
     });
-  }
 
-  // Override today's data with actual real-time data from local storage/db
-  try {
-    const todayStats = await getAllStats();
-    const lastIndex = stats.length - 1;
-    stats[lastIndex].present = todayStats.presentToday;
-    stats[lastIndex].late = todayStats.lateToday;
-  } catch (e) {
-    console.warn("Could not fetch real-time stats for chart overlay", e);
+    stats.push({
+      date: days === 7 ? dayNames[dayOfWeek] : `${dayNames[dayOfWeek]} ${Number(dateStr.slice(8))}`,
+      fullDate: dateStr,
+      present: presentUserIds.size,
+      late: lateUserIds.size,
+      leave,
+      alpa
+    });
   }
 
   return stats;
@@ -372,8 +521,9 @@ export const getWeeklyStats = async (): Promise<WeeklyStats[]> => {
 
 export const getUserStats = async (userId: string): Promise<{ present: number; late: number; onLeave: number }> => {
   try {
-    const now = new Date();
-    const startOfMonth = new Date(now.getFullYear(), now.getMonth(), 1).toISOString();
+    const today = getOfficeToday();
+    const monthStartDate = `${today.slice(0, 7)}-01`;
+    const startOfMonth = getOfficeDayStart(monthStartDate).toISOString();
 
     // 1. Get Attendance this month
     let attendanceData: AttendanceRecord[] = [];
@@ -387,10 +537,10 @@ export const getUserStats = async (userId: string): Promise<{ present: number; l
       attendanceData = data as AttendanceRecord[];
     } else {
       const all = JSON.parse(localStorage.getItem('bapekom_attendance') || '[]');
-      attendanceData = all.filter((r: AttendanceRecord) => r.userId === userId && r.timestamp >= startOfMonth);
+      attendanceData = all.filter((r: AttendanceRecord) => r.userId === userId && new Date(r.timestamp) >= new Date(startOfMonth));
     }
 
-    const presentCount = new Set(attendanceData.map(r => r.timestamp.split('T')[0])).size;
+    const presentCount = new Set(attendanceData.map(r => toOfficeDateString(r.timestamp))).size;
     const lateCount = attendanceData.filter(r => r.type === 'in' && r.isLate).length;
 
     // 2. Get Approved Leaves this month
@@ -398,7 +548,7 @@ export const getUserStats = async (userId: string): Promise<{ present: number; l
     const approvedLeavesThisMonth = allLeaves.filter(req =>
       req.userId === userId &&
       req.status === 'approved' &&
-      (req.startDate >= startOfMonth.split('T')[0] || req.endDate >= startOfMonth.split('T')[0])
+      (req.startDate >= monthStartDate || req.endDate >= monthStartDate)
     );
 
     return {
@@ -412,169 +562,63 @@ export const getUserStats = async (userId: string): Promise<{ present: number; l
   }
 };
 
-export const getMonthlyRecap = async (userId: string, month: number, year: number): Promise<import('../types').MonthlyRecapData> => {
+export const getMonthlyRecap = async (userId: string, month: number, year: number): Promise<MonthlyRecapData> => {
   try {
-    const dayNames = ['Minggu', 'Senin', 'Selasa', 'Rabu', 'Kamis', 'Jumat', 'Sabtu'];
-
-    // 1. Get all days in the month
-    const daysInMonth = new Date(year, month, 0).getDate();
-    const details: import('../types').MonthlyRecapDetail[] = [];
-
-    // 2. Get attendance records for this month
-    const startDate = new Date(year, month - 1, 1).toISOString();
-    const endDate = new Date(year, month, 0, 23, 59, 59).toISOString();
-
-    let attendanceRecords: AttendanceRecord[] = [];
-    if (isSupabaseConfigured && supabase) {
-      const { data, error } = await supabase
-        .from('attendance')
-        .select('*')
-        .eq('userId', userId)
-        .gte('timestamp', startDate)
-        .lte('timestamp', endDate);
-      if (error) throw error;
-      attendanceRecords = data as AttendanceRecord[];
-    } else {
-      const all = JSON.parse(localStorage.getItem('bapekom_attendance') || '[]');
-      attendanceRecords = all.filter((r: AttendanceRecord) =>
-        r.userId === userId && r.timestamp >= startDate && r.timestamp <= endDate
-      );
-    }
-
-    // 3. Get approved leaves for this month
-    const allLeaves = await getLeaveRequests();
-    const approvedLeaves = allLeaves.filter(req =>
-      req.userId === userId &&
-      req.status === 'approved'
-    );
-
-    // 4. Process each day
-    let totalWorkDays = 0;
-    let totalPresent = 0;
-    let totalLate = 0;
-    let totalOnLeave = 0;
-    let totalAlpha = 0;
-
-    // Get today's date for comparison
-    const today = new Date();
-    today.setHours(0, 0, 0, 0); // Reset time to midnight for accurate comparison
-
-    for (let day = 1; day <= daysInMonth; day++) {
-      const currentDate = new Date(year, month - 1, day);
-      currentDate.setHours(0, 0, 0, 0); // Reset time to midnight
-      const dateStr = currentDate.toISOString().split('T')[0];
-      const dayOfWeek = currentDate.getDay();
-      const dayName = dayNames[dayOfWeek];
-
-      // Skip future dates (only show past dates and today)
-      if (currentDate > today) {
-        continue;
-      }
-
-      // Skip weekends
-      if (dayOfWeek === 0 || dayOfWeek === 6) {
-        details.push({
-          date: dateStr,
-          dayName,
-          status: 'weekend'
-        });
-        continue;
-      }
-
-      totalWorkDays++;
-
-      // Check if on leave
-      const onLeave = approvedLeaves.find(leave =>
-        dateStr >= leave.startDate && dateStr <= leave.endDate
-      );
-
-      if (onLeave) {
-        totalOnLeave++;
-        details.push({
-          date: dateStr,
-          dayName,
-          status: 'leave',
-          leaveType: onLeave.type,
-          leaveReason: onLeave.reason
-        });
-        continue;
-      }
-
-      // Check attendance
-      const checkIn = attendanceRecords.find(r =>
-        r.timestamp.startsWith(dateStr) && r.type === 'in'
-      );
-      const checkOut = attendanceRecords.find(r =>
-        r.timestamp.startsWith(dateStr) && r.type === 'out'
-      );
-
-      if (checkIn) {
-        const checkInTime = new Date(checkIn.timestamp).toLocaleTimeString('id-ID', {
-          hour: '2-digit',
-          minute: '2-digit'
-        });
-        const checkOutTime = checkOut ? new Date(checkOut.timestamp).toLocaleTimeString('id-ID', {
-          hour: '2-digit',
-          minute: '2-digit'
-        }) : undefined;
-
-        if (checkIn.isLate) {
-          totalLate++;
-          details.push({
-            date: dateStr,
-            dayName,
-            status: 'late',
-            checkInTime,
-            checkOutTime
-          });
-        } else {
-          totalPresent++;
-          details.push({
-            date: dateStr,
-            dayName,
-            status: 'present',
-            checkInTime,
-            checkOutTime
-          });
-        }
-      } else {
-        // Alpha (absent without notice)
-        totalAlpha++;
-        details.push({
-          date: dateStr,
-          dayName,
-          status: 'alpha'
-        });
-      }
-    }
-
-    const attendancePercentage = totalWorkDays > 0
-      ? Math.round(((totalPresent + totalLate + totalOnLeave) / totalWorkDays) * 100)
-      : 0;
-
-    return {
+    // Attendance within the office-time month boundaries, plus approved leaves, holidays
+    // and the user's work schedule
+    const monthDates = getMonthDates(year, month);
+    const monthRange = getOfficeMonthRange(year, month);
+    const [records, allLeaves, allUsers, holidays] = await Promise.all([
+      getAttendanceInRange(monthRange.start, monthRange.end, { userId }),
+      getLeaveRequests(),
+      getUsers(),
+      getHolidayMap(monthDates[0], monthDates[monthDates.length - 1])
+    ]);
+    const user = allUsers.find(u => u.id === userId);
+
+    return buildMonthlyRecap({
       month,
       year,
-      totalWorkDays,
-      totalPresent,
-      totalLate,
-      totalOnLeave,
-      totalAlpha,
-      attendancePercentage,
-      details
-    };
+      records,
+      approvedLeaves: allLeaves.filter(req => req.userId === userId && req.status === 'approved'),
+      holidays,
+      schedule: getScheduleForUser(getSettings().schedules, user || { id: userId, division: '' })
+    });
   } catch (e) {
     console.error("Error in getMonthlyRecap:", e);
-    return {
-      month,
-      year,
-      totalWorkDays: 0,
-      totalPresent: 0,
-      totalLate: 0,
-      totalOnLeave: 0,
-      totalAlpha: 0,
-      attendancePercentage: 0,
-      details: []
-    };
+    return emptyMonthlyRecap(month, year);
   }
+};
+
+/**
+ * Monthly recap of every intern, for the admin worked-hours report.
+ * Fetches the month once and builds each recap from it.
+ */
+export const getMonthlyWorkReport = async (month: number, year: number): Promise<InternMonthlyReport[]> => {
+  const monthDates = getMonthDates(year, month);
+  const monthRange = getOfficeMonthRange(year, month);
+  const [records, allLeaves, allUsers, holidays] = await Promise.all([
+    getAttendanceInRange(monthRange.start, monthRange.end, { ascending: true }),
+    getLeaveRequests(),
+    getUsers(),
+    getHolidayMap(monthDates[0], monthDates[monthDates.length - 1])
+  ]);
+  const { schedules } = getSettings();
+
+  return allUsers
+    .filter(u => u.role === 'intern')
+    .map(intern => ({
+      userId: intern.id,
+      userName: intern.name,
+      division: intern.division || '-',
+      recap: buildMonthlyRecap({
+        month,
+        year,
+        records: records.filter(r => r.userId === intern.id),
+        approvedLeaves: allLeaves.filter(req => req.userId === intern.id && req.status === 'approved'),
+        holidays,
+        schedule: getScheduleForUser(schedules, intern)
+      })
+    }))
+    .sort((a, b) => a.userName.localeCompare(b.userName));
 };
\ No newline at end of file
@@ -0,0 +1,47 @@
+import { supabase } from './supabaseClient';
+import { getOfficeDayStart, addDays } from './dateService';
+import { AuditEntityType, AuditLogEntry } from '../types';
+
+// Read side only: entries are written by the audit_row_change() trigger (create_audit_log_table.sql)
+// next to each change, so they can't be forged or skipped from the browser.
+
+export interface AuditLogFilters {
+  actorId?: string;
+  entityType?: AuditEntityType;
+  startDate?: string; // YYYY-MM-DD, office dates, inclusive
+  endDate?: string;
+}
+
+const AUDIT_LOG_LIMIT = 500;
+
+const mapAuditEntry = (item: any): AuditLogEntry => ({
+  id: item.id,
+  actorId: item.actor_id ?? undefined,
+  actorName: item.actor_name,
+  action: item.action,
+  entityType: item.entity_type,
+  entityId: item.entity_id ?? undefined,
+  entityLabel: item.entity_label ?? undefined,
+  changes: item.changes || {},
+  createdAt: item.created_at,
+});
+
+/**
+ * Audit entries matching the filters, newest first (at most 500).
+ */
+export const getAuditLog = async (filters: AuditLogFilters = {}): Promise<AuditLogEntry[]> => {
+  try {
+    let query = supabase.from('audit_log').select('*');
+    if (filters.actorId) query = query.eq('actor_id', filters.actorId);
+    if (filters.entityType) query = query.eq('entity_type', filters.entityType);
+    if (filters.startDate) query = query.gte('created_at', getOfficeDayStart(filters.startDate).toISOString());
+    if (filters.endDate) query = query.lt('created_at', getOfficeDayStart(addDays(filters.endDate, 1)).toISOString());
+
+    const { data, error } = await query.order('created_at', { ascending: false }).limit(AUDIT_LOG_LIMIT);
+    if (error) throw error;
+    return (data || []).map(mapAuditEntry);
+  } catch (error) {
+    console.error("Error fetching audit log:", error);
+    return [];
+  }
+};
@@ -0,0 +1,154 @@
+import { createClient } from '@supabase/supabase-js';
+import { config } from 'dotenv';
+import type { AttendanceRecord, OpenDay } from '../types';
+import { normalizeSettings } from './defaultSettings';
+import { addDays, getOfficeDayStart, getOfficeToday, setOfficeTimeZone } from './dateService';
+import { getScheduleForUser } from './scheduleService';
+import { findOpenDays } from './missingClockOutService';
+config();
+
+// Handles interns who clocked in and never clocked out. Run it daily after office hours
+// (e.g. from cron). What happens to an open day depends on settings.missingClockOutMode:
+// - 'flag':       the clock-in is marked "lupa absen pulang" (missingClockOut = 'flagged')
+// - 'auto_close': a clock-out with source = 'system' is added at the scheduled end time;
+//                 days without a usable end time (days off, holidays) are flagged instead
+// - 'correction': the clock-in is marked missingClockOut = 'correction' and the intern is
+//                 asked to submit a correction from their dashboard
+// Override the mode with MISSING_CLOCKOUT_MODE; LOOKBACK_DAYS (default 7) limits how far back to look.
+
+const supabaseUrl = process.env.VITE_SUPABASE_URL;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_KEY;
+
+if (!supabaseUrl || !supabaseServiceKey) {
+  throw new Error('VITE_SUPABASE_URL and SUPABASE_SERVICE_KEY must be set in your .env');
+}
+
+const supabaseAdmin = createClient(supabaseUrl, supabaseServiceKey, {
+  auth: { autoRefreshToken: false, persistSession: false }
+});
+
+const LOOKBACK_DAYS = Number(process.env.LOOKBACK_DAYS || '7');
+const MODES = ['flag', 'auto_close', 'correction'];
+const dryRun = process.env.DRY_RUN === '1' || process.argv.includes('--dry-run');
+
+const markClockIn = async (day: OpenDay, mark: 'flagged' | 'correction') => {
+  const { error } = await supabaseAdmin
+    .from('attendance')
+    .update({ missingClockOut: mark })
+    .eq('id', day.clockIn.id);
+  if (error) throw error;
+};
+
+const addSystemClockOut = async (day: OpenDay) => {
+  const { clockIn } = day;
+  const { error } = await supabaseAdmin.from('attendance').insert({
+    userId: clockIn.userId,
+    userName: clockIn.userName,
+    division: clockIn.division,
+    timestamp: day.closeAt,
+    type: 'out',
+    photoUrl: null,
+    location: clockIn.location,
+    isLate: false,
+    status: clockIn.status,
+    distanceMeters: clockIn.distanceMeters ?? null,
+    locationId: clockIn.locationId ?? null,
+    locationName: clockIn.locationName ?? null,
+    source: 'system',
+  });
+  if (error) throw error;
+};
+
+(async function main() {
+  const { data: settingsRow, error: settingsError } = await supabaseAdmin
+    .from('settings')
+    .select('value')
+    .eq('id', 1)
+    .maybeSingle();
+
+  if (settingsError) {
+    console.error('Error reading settings:', settingsError.message);
+    process.exit(1);
+  }
+
+  const settings = normalizeSettings(settingsRow?.value);
+  const mode = process.env.MISSING_CLOCKOUT_MODE || settings.missingClockOutMode;
+  if (!MODES.includes(mode)) {
+    console.error(`Unknown mode '${mode}'. Use one of: ${MODES.join(', ')}`);
+    process.exit(1);
+  }
+  setOfficeTimeZone(settings.timezone);
+
+  const startDate = addDays(getOfficeToday(), -LOOKBACK_DAYS);
+  console.log(`Looking for missing clock-outs since ${startDate} (mode: ${mode}, grace: ${settings.missingClockOutGraceHours} hour(s))`);
+  if (dryRun) console.log('-- DRY RUN MODE -- No changes will be made (set DRY_RUN=1 or remove flag to execute)');
+
+  const { data: records, error: recordsError } = await supabaseAdmin
+    .from('attendance')
+    .select('id, userId, userName, division, timestamp, type, location, status, distanceMeters, locationId, locationName, missingClockOut')
+    .gte('timestamp', getOfficeDayStart(startDate).toISOString())
+    .order('timestamp', { ascending: true });
+
+  if (recordsError) {
+    console.error('Error reading attendance (did you re-run create_submit_attendance_function.sql?):', recordsError.message);
+    process.exit(1);
+  }
+
+  const { data: users, error: usersError } = await supabaseAdmin.from('users').select('id, division');
+  if (usersError) {
+    console.error('Error reading users:', usersError.message);
+    process.exit(1);
+  }
+
+  // The holidays table is optional (create_holidays_table.sql)
+  const { data: holidayRows, error: holidaysError } = await supabaseAdmin
+    .from('holidays')
+    .select('date')
+    .gte('date', startDate);
+  if (holidaysError) console.warn('Could not read holidays, treating every scheduled day as a work day:', holidaysError.message);
+
+  const divisions = new Map((users || []).map((u: any) => [u.id, u.division]));
+  const openDays = findOpenDays((records || []) as AttendanceRecord[], {
+    scheduleFor: userId => getScheduleForUser(settings.schedules, { id: userId, division: divisions.get(userId) }),
+    holidays: new Set((holidayRows || []).map((h: any) => h.date)),
+    graceHours: settings.missingClockOutGraceHours,
+  });
+
+  if (openDays.length === 0) {
+    console.log('No open days found. Nothing to do.');
+    return;
+  }
+
+  let closed = 0;
+  let flagged = 0;
+  let failed = 0;
+  for (const day of openDays) {
+    const autoClose = mode === 'auto_close' && !!day.closeAt;
+    const action = autoClose
+      ? `close at ${day.closeAt}`
+      : mode === 'correction' ? 'ask for a correction' : 'flag';
+    console.log(`  ${day.date}  ${day.userName}  (in: ${day.clockIn.timestamp})  -> ${action}`);
+    if (dryRun) continue;
+
+    try {
+      if (autoClose) {
+        await addSystemClockOut(day);
+        closed++;
+      } else {
+        await markClockIn(day, mode === 'correction' ? 'correction' : 'flagged');
+        flagged++;
+      }
+    } catch (err: any) {
+      console.error(`    Failed: ${err.message}`);
+      failed++;
+    }
+  }
+
+  if (dryRun) {
+    console.log('Dry-run completed. Open days found:', openDays.length);
+    console.log('Run without DRY_RUN=1 / --dry-run to apply the changes.');
+  } else {
+    console.log(`Done. Closed: ${closed}, marked: ${flagged}, failed: ${failed}`);
+    if (failed > 0) process.exit(1);
+  }
+})();
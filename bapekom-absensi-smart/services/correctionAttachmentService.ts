@@ -0,0 +1,72 @@
+import { supabase, isSupabaseConfigured } from './supabaseClient';
+
+// Evidence attached to an attendance correction goes to a private bucket (see setup_storage.sql),
+// like leave attachments. `attendance_corrections.attachment_url` holds the object path; requests
+// filed before the bucket may still hold a base64 data URL, which is shown as is.
+
+export const CORRECTION_ATTACHMENT_BUCKET = 'correction-attachments';
+export const CORRECTION_ATTACHMENT_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+export const MAX_CORRECTION_ATTACHMENT_BYTES = 5 * 1024 * 1024; // Same as the bucket's file_size_limit
+const SIGNED_URL_SECONDS = 300;
+
+const EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+};
+
+/**
+ * Why a picked file can't be attached, or null when it can.
+ */
+export const checkCorrectionAttachmentFile = (file: File): string | null => {
+  if (!CORRECTION_ATTACHMENT_TYPES.includes(file.type)) return 'Bukti harus berupa gambar (JPG, PNG, WEBP).';
+  if (file.size > MAX_CORRECTION_ATTACHMENT_BYTES) return 'Ukuran file terlalu besar. Maksimal 5MB.';
+  return null;
+};
+
+/**
+ * Uploads evidence into the intern's folder of the private bucket.
+ * @returns The storage object path, which is what gets saved in `attachment_url`.
+ */
+export const uploadCorrectionAttachment = async (file: File, userId: string): Promise<string> => {
+  if (!isSupabaseConfigured || !supabase) {
+    throw new Error('Supabase is not configured.');
+  }
+
+  const path = `${userId}/${crypto.randomUUID()}.${EXTENSIONS[file.type] || 'bin'}`;
+  const { error } = await supabase.storage
+    .from(CORRECTION_ATTACHMENT_BUCKET)
+    .upload(path, file, { contentType: file.type, upsert: false });
+
+  if (error) {
+    console.error('Correction attachment upload error:', error);
+    throw error;
+  }
+  return path;
+};
+
+// Removes evidence whose request was never saved. Failures are only logged.
+export const deleteCorrectionAttachment = async (attachment: string | null | undefined): Promise<void> => {
+  if (!attachment || attachment.startsWith('data:') || !isSupabaseConfigured || !supabase) return;
+  const { error } = await supabase.storage.from(CORRECTION_ATTACHMENT_BUCKET).remove([attachment]);
+  if (error) console.error('Failed to delete correction attachment:', error);
+};
+
+/**
+ * A URL the browser can open for the evidence, valid for a few minutes. Generate it when it is
+ * shown or opened, never store it.
+ */
+export const getCorrectionAttachmentUrl = async (attachment: string): Promise<string> => {
+  if (attachment.startsWith('data:') || /^https?:\/\//.test(attachment)) return attachment;
+  if (!isSupabaseConfigured || !supabase) return '';
+
+  const { data, error } = await supabase.storage
+    .from(CORRECTION_ATTACHMENT_BUCKET)
+    .createSignedUrl(attachment, SIGNED_URL_SECONDS);
+
+  if (error) {
+    console.error('Failed to sign correction attachment URL:', error);
+    return '';
+  }
+  return data.signedUrl;
+};
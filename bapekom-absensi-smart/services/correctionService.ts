@@ -0,0 +1,111 @@
+import { supabase } from './supabaseClient';
+import { AttendanceCorrection } from '../types';
+
+const mapCorrection = (item: any): AttendanceCorrection => ({
+  id: item.id,
+  userId: item.user_id,
+  userName: item.users?.name || '',
+  division: item.users?.division || '',
+  date: item.date,
+  type: item.type,
+  time: (item.time || '').slice(0, 5), // Postgres TIME comes back as HH:mm:ss
+  attendanceId: item.attendance_id ?? undefined,
+  originalTime: item.original_time ? item.original_time.slice(0, 5) : undefined,
+  reason: item.reason,
+  attachmentUrl: item.attachment_url ?? undefined,
+  status: item.status,
+  requestDate: item.created_at,
+  rejectionReason: item.rejection_reason ?? undefined,
+  reviewedBy: item.reviewed_by ?? undefined,
+  reviewedAt: item.reviewed_at ?? undefined,
+});
+
+export const getCorrectionRequests = async (): Promise<AttendanceCorrection[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('attendance_corrections')
+      .select('*, users!attendance_corrections_user_id_fkey(name, division)')
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return (data || []).map(mapCorrection);
+  } catch (error) {
+    console.error("Error fetching correction requests:", error);
+    return [];
+  }
+};
+
+export const getCorrectionRequestsByUser = async (userId: string): Promise<AttendanceCorrection[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('attendance_corrections')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return (data || []).map(mapCorrection);
+  } catch (error) {
+    console.error("Error fetching user corrections:", error);
+    return [];
+  }
+};
+
+export const createCorrectionRequest = async (
+  request: Pick<AttendanceCorrection, 'userId' | 'date' | 'type' | 'time' | 'attendanceId' | 'originalTime' | 'reason' | 'attachmentUrl'>
+): Promise<boolean> => {
+  try {
+    const { error } = await supabase
+      .from('attendance_corrections')
+      .insert([{
+        user_id: request.userId,
+        date: request.date,
+        type: request.type,
+        time: request.time,
+        attendance_id: request.attendanceId ?? null,
+        original_time: request.originalTime ?? null,
+        reason: request.reason,
+        attachment_url: request.attachmentUrl || null,
+        status: 'pending'
+      }]);
+
+    if (error) throw error;
+    return true;
+  } catch (error) {
+    console.error("Error creating correction request:", error);
+    return false;
+  }
+};
+
+/**
+ * Approves or rejects a correction. Approval writes the punch into `attendance`
+ * server-side (review_attendance_correction in create_corrections_table.sql).
+ * @throws The RPC error, whose message is already in Indonesian.
+ */
+export const reviewCorrectionRequest = async (
+  correctionId: string,
+  status: 'approved' | 'rejected',
+  rejectionReason?: string
+): Promise<void> => {
+  const { error } = await supabase.rpc('review_attendance_correction', {
+    p_correction_id: correctionId,
+    p_status: status,
+    p_rejection_reason: rejectionReason ?? null,
+  });
+  if (error) throw error;
+};
+
+export const getPendingCorrectionCount = async (): Promise<number> => {
+  try {
+    const { count, error } = await supabase
+      .from('attendance_corrections')
+      .select('*', { count: 'exact', head: true })
+      .eq('status', 'pending');
+
+    if (error) throw error;
+    return count || 0;
+  } catch (error) {
+    console.error("Error counting pending corrections:", error);
+    return 0;
+  }
+};
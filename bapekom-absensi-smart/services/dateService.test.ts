@@ -0,0 +1,141 @@
+import { afterEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  DEFAULT_TIME_ZONE,
+  formatCalendarDate,
+  getOfficeDayStart,
+  getOfficeMonthRange,
+  getOfficeToday,
+  setOfficeTimeZone,
+  toOfficeDateString,
+} from './dateService';
+
+// WITA is UTC+8 with no DST: 00:00-07:59 WITA is still the previous day in UTC.
+
+afterEach(() => {
+  setOfficeTimeZone(DEFAULT_TIME_ZONE);
+  mock.timers.reset();
+});
+
+describe('toOfficeDateString', () => {
+  it('puts an early-morning WITA check-in on the local date, not the UTC one', () => {
+    // 07:30 WITA on 12 March = 23:30 UTC on 11 March
+    assert.equal(toOfficeDateString('2025-03-11T23:30:00Z'), '2025-03-12');
+  });
+
+  it('covers the whole 00:00-07:59 WITA window', () => {
+    assert.equal(toOfficeDateString('2025-03-11T16:00:00Z'), '2025-03-12'); // 00:00 WITA
+    assert.equal(toOfficeDateString('2025-03-11T23:59:59Z'), '2025-03-12'); // 07:59:59 WITA
+    assert.equal(toOfficeDateString('2025-03-12T00:00:00Z'), '2025-03-12'); // 08:00 WITA
+  });
+
+  it('keeps the last second before WITA midnight on the previous day', () => {
+    assert.equal(toOfficeDateString('2025-03-11T15:59:59Z'), '2025-03-11'); // 23:59:59 WITA
+  });
+
+  it('crosses month and year boundaries', () => {
+    assert.equal(toOfficeDateString('2025-03-31T17:00:00Z'), '2025-04-01'); // 01:00 WITA, 1 April
+    assert.equal(toOfficeDateString('2024-12-31T20:00:00Z'), '2025-01-01'); // 04:00 WITA, 1 January
+    assert.equal(toOfficeDateString('2024-02-28T16:30:00Z'), '2024-02-29'); // leap day
+  });
+
+  it('uses another office timezone when one is set', () => {
+    setOfficeTimeZone('Asia/Jakarta'); // WIB, UTC+7
+    assert.equal(toOfficeDateString('2025-03-11T16:30:00Z'), '2025-03-11'); // 23:30 WIB
+    assert.equal(toOfficeDateString('2025-03-11T17:00:00Z'), '2025-03-12'); // 00:00 WIB
+  });
+
+  it('accepts an explicit timezone', () => {
+    assert.equal(toOfficeDateString('2025-03-11T15:30:00Z', 'Asia/Jayapura'), '2025-03-12'); // 00:30 WIT
+  });
+
+  it('falls back to WITA for an unknown timezone', () => {
+    mock.method(console, 'warn', () => {});
+    setOfficeTimeZone('Mars/Olympus_Mons');
+    assert.equal(toOfficeDateString('2025-03-11T16:00:00Z'), '2025-03-12');
+  });
+});
+
+describe('getOfficeDayStart', () => {
+  it('starts a WITA day at 16:00 UTC the day before', () => {
+    assert.equal(getOfficeDayStart('2025-03-12').toISOString(), '2025-03-11T16:00:00.000Z');
+  });
+
+  it('starts the first of the month on the last day of the previous month in UTC', () => {
+    assert.equal(getOfficeDayStart('2025-03-01').toISOString(), '2025-02-28T16:00:00.000Z');
+    assert.equal(getOfficeDayStart('2025-01-01').toISOString(), '2024-12-31T16:00:00.000Z');
+  });
+
+  it('follows a non-default timezone', () => {
+    setOfficeTimeZone('Asia/Jayapura'); // WIT, UTC+9
+    assert.equal(getOfficeDayStart('2025-03-12').toISOString(), '2025-03-11T15:00:00.000Z');
+    assert.equal(getOfficeDayStart('2025-03-12', 'Asia/Jakarta').toISOString(), '2025-03-11T17:00:00.000Z');
+  });
+
+  it('handles a zone with DST', () => {
+    // Europe/Berlin switches to CEST (UTC+2) on 30 March 2025
+    assert.equal(getOfficeDayStart('2025-03-30', 'Europe/Berlin').toISOString(), '2025-03-29T23:00:00.000Z');
+    assert.equal(getOfficeDayStart('2025-03-31', 'Europe/Berlin').toISOString(), '2025-03-30T22:00:00.000Z');
+  });
+
+  it('round-trips with toOfficeDateString', () => {
+    const start = getOfficeDayStart('2025-03-12');
+    assert.equal(toOfficeDateString(start), '2025-03-12');
+    assert.equal(toOfficeDateString(start.getTime() - 1), '2025-03-11');
+  });
+});
+
+describe('getOfficeMonthRange', () => {
+  it('spans office midnight to office midnight', () => {
+    const { start, end } = getOfficeMonthRange(2025, 3);
+    assert.equal(start.toISOString(), '2025-02-28T16:00:00.000Z');
+    assert.equal(end.toISOString(), '2025-03-31T16:00:00.000Z');
+  });
+
+  it('includes an early-morning check-in on the 1st and excludes one on the 1st of the next month', () => {
+    const { start, end } = getOfficeMonthRange(2025, 3);
+    const firstMorning = new Date('2025-02-28T23:30:00Z'); // 07:30 WITA, 1 March
+    const nextFirstMorning = new Date('2025-03-31T23:30:00Z'); // 07:30 WITA, 1 April
+    assert.ok(firstMorning >= start && firstMorning < end);
+    assert.ok(!(nextFirstMorning >= start && nextFirstMorning < end));
+  });
+
+  it('rolls December over into the next year', () => {
+    const { start, end } = getOfficeMonthRange(2024, 12);
+    assert.equal(start.toISOString(), '2024-11-30T16:00:00.000Z');
+    assert.equal(end.toISOString(), '2024-12-31T16:00:00.000Z');
+  });
+
+  it('follows a non-default timezone', () => {
+    setOfficeTimeZone('Asia/Jakarta');
+    const { start, end } = getOfficeMonthRange(2024, 2);
+    assert.equal(start.toISOString(), '2024-01-31T17:00:00.000Z');
+    assert.equal(end.toISOString(), '2024-02-29T17:00:00.000Z');
+  });
+});
+
+describe('getOfficeToday', () => {
+  it('is already the next day at 00:30 WITA', () => {
+    mock.timers.enable({ apis: ['Date'], now: new Date('2025-03-11T16:30:00Z') });
+    assert.equal(getOfficeToday(), '2025-03-12');
+  });
+
+  it('is still the previous day at 23:30 WITA', () => {
+    mock.timers.enable({ apis: ['Date'], now: new Date('2025-03-11T15:30:00Z') });
+    assert.equal(getOfficeToday(), '2025-03-11');
+  });
+
+  it('follows a non-default timezone', () => {
+    mock.timers.enable({ apis: ['Date'], now: new Date('2025-03-11T16:30:00Z') });
+    setOfficeTimeZone('Asia/Jakarta'); // 23:30 WIB
+    assert.equal(getOfficeToday(), '2025-03-11');
+  });
+});
+
+describe('formatCalendarDate', () => {
+  it('formats the date as written, whatever the timezone', () => {
+    setOfficeTimeZone('Asia/Jayapura');
+    assert.equal(formatCalendarDate('2025-03-01'), '1/3/2025');
+    assert.equal(formatCalendarDate('2024-12-31'), '31/12/2024');
+  });
+});
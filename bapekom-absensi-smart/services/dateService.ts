@@ -0,0 +1,227 @@
+// Date and time helpers that bucket attendance by the office's calendar day.
+// Every "which day does this record belong to" question goes through this module,
+// so a check-in at 07:30 WITA (23:30 UTC the day before) lands on the right date.
+
+export const DEFAULT_TIME_ZONE = 'Asia/Makassar';
+
+// Indonesian zones offered in the settings tab, with their usual labels
+export const OFFICE_TIME_ZONES: { value: string; label: string }[] = [
+  { value: 'Asia/Jakarta', label: 'WIB' },
+  { value: 'Asia/Makassar', label: 'WITA' },
+  { value: 'Asia/Jayapura', label: 'WIT' },
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+let officeTimeZone = DEFAULT_TIME_ZONE;
+
+const isValidTimeZone = (timeZone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Sets the IANA timezone used for all office date computations.
+ * Unknown zones are ignored so a bad setting can't break the app.
+ */
+export const setOfficeTimeZone = (timeZone: string | undefined | null): void => {
+  if (timeZone && isValidTimeZone(timeZone)) {
+    officeTimeZone = timeZone;
+  } else {
+    if (timeZone) console.warn(`Unknown timezone "${timeZone}", using ${DEFAULT_TIME_ZONE}`);
+    officeTimeZone = DEFAULT_TIME_ZONE;
+  }
+};
+
+export const getOfficeTimeZone = (): string => officeTimeZone;
+
+// Short label for the active zone, e.g. "WITA"
+export const getOfficeTimeZoneLabel = (): string =>
+  OFFICE_TIME_ZONES.find(z => z.value === officeTimeZone)?.label || officeTimeZone;
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+const getPartsFormatter = (timeZone: string): Intl.DateTimeFormat => {
+  let formatter = formatterCache.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+    formatterCache.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+interface ZonedParts {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+const toDate = (value: Date | string | number): Date => (value instanceof Date ? value : new Date(value));
+
+const getZonedParts = (date: Date, timeZone: string): ZonedParts => {
+  const parts: Record<string, number> = {};
+  getPartsFormatter(timeZone).formatToParts(date).forEach(p => {
+    if (p.type !== 'literal') parts[p.type] = Number(p.value);
+  });
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour,
+    minute: parts.minute,
+    second: parts.second,
+  };
+};
+
+// Offset of the zone from UTC at the given instant, in milliseconds
+const getTimeZoneOffsetMs = (date: Date, timeZone: string): number => {
+  const p = getZonedParts(date, timeZone);
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  return asUtc - (date.getTime() - date.getMilliseconds());
+};
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+const parseDateString = (dateStr: string): { year: number; month: number; day: number } => {
+  const [year, month, day] = dateStr.split('-').map(Number);
+  return { year, month, day };
+};
+
+/**
+ * Returns the office calendar date (YYYY-MM-DD) an instant belongs to.
+ */
+export const toOfficeDateString = (value: Date | string | number, timeZone: string = officeTimeZone): string => {
+  const p = getZonedParts(toDate(value), timeZone);
+  return `${p.year}-${pad(p.month)}-${pad(p.day)}`;
+};
+
+// Today's office date (YYYY-MM-DD)
+export const getOfficeToday = (): string => toOfficeDateString(new Date());
+
+// Minutes since office midnight for an instant, e.g. 07:40 -> 460
+export const getOfficeMinutesOfDay = (value: Date | string | number, timeZone: string = officeTimeZone): number => {
+  const p = getZonedParts(toDate(value), timeZone);
+  return p.hour * 60 + p.minute;
+};
+
+// "HH:mm" wall-clock time at the office
+export const formatOfficeTime = (value: Date | string | number, timeZone: string = officeTimeZone): string => {
+  const p = getZonedParts(toDate(value), timeZone);
+  return `${pad(p.hour)}:${pad(p.minute)}`;
+};
+
+// Locale formatting pinned to the office zone, for display
+export const formatOfficeDateTime = (
+  value: Date | string | number,
+  options: Intl.DateTimeFormatOptions = {},
+  locale: string = 'id-ID'
+): string => toDate(value).toLocaleString(locale, { ...options, timeZone: officeTimeZone });
+
+// "HH:mm" -> minutes since midnight
+export const parseTimeToMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+// Duration in minutes as "7j 45m" (jam/menit), e.g. for worked hours
+export const formatDuration = (minutes: number): string => {
+  const total = Math.max(0, Math.round(minutes));
+  const hours = Math.floor(total / 60);
+  const rest = total % 60;
+  if (hours === 0) return `${rest}m`;
+  return rest === 0 ? `${hours}j` : `${hours}j ${rest}m`;
+};
+
+/**
+ * Day of week (0 = Sunday) of a calendar date. Independent of any timezone.
+ */
+export const getDayOfWeek = (dateStr: string): number => {
+  const { year, month, day } = parseDateString(dateStr);
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+};
+
+// A YYYY-MM-DD date for display, e.g. "12/3/2025". Formatted from its parts, so a browser
+// west of UTC can't show it as the day before.
+export const formatCalendarDate = (
+  dateStr: string,
+  options: Intl.DateTimeFormatOptions = { day: 'numeric', month: 'numeric', year: 'numeric' },
+  locale: string = 'id-ID'
+): string => {
+  const { year, month, day } = parseDateString(dateStr);
+  return new Date(Date.UTC(year, month - 1, day)).toLocaleDateString(locale, { ...options, timeZone: 'UTC' });
+};
+
+export const isWeekend = (dateStr: string): boolean => {
+  const dow = getDayOfWeek(dateStr);
+  return dow === 0 || dow === 6;
+};
+
+// Calendar arithmetic on YYYY-MM-DD strings
+export const addDays = (dateStr: string, days: number): string => {
+  const { year, month, day } = parseDateString(dateStr);
+  const d = new Date(Date.UTC(year, month - 1, day) + days * DAY_MS);
+  return `${d.getUTCFullYear()}-${pad(d.getUTCMonth() + 1)}-${pad(d.getUTCDate())}`;
+};
+
+// Inclusive list of dates between two YYYY-MM-DD strings
+export const getDatesInRange = (startDate: string, endDate: string): string[] => {
+  const dates: string[] = [];
+  for (let d = startDate; d <= endDate; d = addDays(d, 1)) {
+    dates.push(d);
+  }
+  return dates;
+};
+
+// All dates of a month (month is 1-12)
+export const getMonthDates = (year: number, month: number): string[] => {
+  const daysInMonth = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  const first = `${year}-${pad(month)}-01`;
+  return getDatesInRange(first, `${year}-${pad(month)}-${pad(daysInMonth)}`);
+};
+
+/**
+ * The instant at which an office calendar day starts (00:00 office time).
+ */
+export const getOfficeDayStart = (dateStr: string, timeZone: string = officeTimeZone): Date => {
+  const { year, month, day } = parseDateString(dateStr);
+  const utcMidnight = Date.UTC(year, month - 1, day);
+  // Two passes so days that start right after a DST change still resolve correctly
+  let instant = utcMidnight - getTimeZoneOffsetMs(new Date(utcMidnight), timeZone);
+  instant = utcMidnight - getTimeZoneOffsetMs(new Date(instant), timeZone);
+  return new Date(instant);
+};
+
+// [start, end) instants of an office day, as ISO strings for range queries
+export const getOfficeDayRange = (dateStr: string): { start: string; end: string } => ({
+  start: getOfficeDayStart(dateStr).toISOString(),
+  end: getOfficeDayStart(addDays(dateStr, 1)).toISOString(),
+});
+
+// [start, end) instants of an office month (month is 1-12)
+export const getOfficeMonthRange = (year: number, month: number): { start: Date; end: Date } => {
+  const nextYear = month === 12 ? year + 1 : year;
+  const nextMonth = month === 12 ? 1 : month + 1;
+  return {
+    start: getOfficeDayStart(`${year}-${pad(month)}-01`),
+    end: getOfficeDayStart(`${nextYear}-${pad(nextMonth)}-01`),
+  };
+};
+
+export const isDateInRange = (dateStr: string, startDate: string, endDate: string): boolean =>
+  dateStr >= startDate && dateStr <= endDate;
@@ -0,0 +1,90 @@
+import type { OfficeLocation, ScheduleDay, SystemSettings, WorkSchedule } from '../types';
+
+// Default settings (Bapekom Wilayah VIII Makassar approx)
+// Kept free of runtime imports so Node scripts (seedSettings.ts) can load it too.
+export const DEFAULT_SETTINGS: SystemSettings = {
+  locations: [
+    {
+      id: 'kantor-utama',
+      name: 'Kantor Bapekom Wilayah VIII',
+      kind: 'radius',
+      lat: -5.1597000997736,
+      lng: 119.40979746499184,
+      radiusMeters: 500,
+    },
+  ],
+  schedules: [
+    {
+      id: 'reguler',
+      name: 'Reguler',
+      days: [
+        null,
+        { start: '07:40', end: '16:00' },
+        { start: '07:40', end: '16:00' },
+        { start: '07:40', end: '16:00' },
+        { start: '07:40', end: '16:00' },
+        { start: '07:40', end: '16:30' },
+        null,
+      ],
+    },
+  ],
+  timezone: 'Asia/Makassar', // WITA, same as DEFAULT_TIME_ZONE in dateService.ts
+  maxReentriesPerDay: 0,
+  maxOfflineHours: 12,
+  missingClockOutMode: 'flag',
+  missingClockOutGraceHours: 2,
+  faceMatchThreshold: 0.5,
+  attendanceMethods: ['gps'],
+  leavePolicies: {
+    sakit: { quotaDays: null, requiresAttachment: true, maxBackdateDays: 3, minNoticeDays: 0 },
+    izin: { quotaDays: 3, requiresAttachment: false, maxBackdateDays: 0, minNoticeDays: 1 },
+  },
+  leaveQuotaMode: 'block',
+  leaveApprovalChain: ['mentor', 'hr'],
+};
+
+/**
+ * Fills in defaults for a stored settings value. Rows saved before multiple
+ * locations existed have a single officeLat/officeLng/maxDistanceMeters circle,
+ * which becomes the first location. Rows from before work schedules have global
+ * lateThreshold/clockOutTimeMonThu/clockOutTimeFri times, which become the default schedule.
+ */
+export const normalizeSettings = (value: Record<string, any> | null | undefined): SystemSettings => {
+  const {
+    officeLat, officeLng, maxDistanceMeters,
+    lateThreshold, clockOutTimeMonThu, clockOutTimeFri,
+    ...rest
+  } = value || {};
+  let locations: OfficeLocation[] | undefined = rest.locations;
+  let schedules: WorkSchedule[] | undefined = rest.schedules;
+
+  if (!locations && typeof officeLat === 'number' && typeof officeLng === 'number') {
+    locations = [{
+      ...DEFAULT_SETTINGS.locations[0],
+      lat: officeLat,
+      lng: officeLng,
+      radiusMeters: maxDistanceMeters ?? DEFAULT_SETTINGS.locations[0].radiusMeters,
+    }];
+  }
+
+  if (!schedules && (lateThreshold || clockOutTimeMonThu || clockOutTimeFri)) {
+    const [defaultSchedule] = DEFAULT_SETTINGS.schedules;
+    const weekday: ScheduleDay = { start: lateThreshold || '07:40', end: clockOutTimeMonThu || '16:00' };
+    schedules = [{
+      ...defaultSchedule,
+      days: [null, weekday, weekday, weekday, weekday, { start: weekday.start, end: clockOutTimeFri || '16:30' }, null],
+    }];
+  }
+
+  return {
+    ...DEFAULT_SETTINGS,
+    ...rest,
+    locations: locations || DEFAULT_SETTINGS.locations,
+    schedules: schedules || DEFAULT_SETTINGS.schedules,
+    // Per type, so rules added later get their defaults on rows saved before them
+    leavePolicies: {
+      sakit: { ...DEFAULT_SETTINGS.leavePolicies.sakit, ...rest.leavePolicies?.sakit },
+      izin: { ...DEFAULT_SETTINGS.leavePolicies.izin, ...rest.leavePolicies?.izin },
+    },
+  } as SystemSettings;
+};
@@ -0,0 +1,61 @@
+import * as faceapi from '@vladmandic/face-api';
+
+// On-device face verification. The models ship with the app (see faceModels in vite.config.ts)
+// and photos never leave the browser for this; only the descriptor and the score are stored.
+
+const FACE_MODEL_URL = `${import.meta.env.BASE_URL}models/face`;
+const DETECTOR_OPTIONS = new faceapi.TinyFaceDetectorOptions({ inputSize: 320, scoreThreshold: 0.5 });
+
+let modelsLoading: Promise<void> | null = null;
+
+// Loads the detector, landmark and recognition models once per session
+export const loadFaceModels = (): Promise<void> => {
+  if (!modelsLoading) {
+    modelsLoading = Promise.all([
+      faceapi.nets.tinyFaceDetector.loadFromUri(FACE_MODEL_URL),
+      faceapi.nets.faceLandmark68TinyNet.loadFromUri(FACE_MODEL_URL),
+      faceapi.nets.faceRecognitionNet.loadFromUri(FACE_MODEL_URL),
+    ]).then(() => undefined);
+    // Allow a retry after a failed download
+    modelsLoading.catch(() => { modelsLoading = null; });
+  }
+  return modelsLoading;
+};
+
+/**
+ * Face descriptor (128 numbers) of the most prominent face in an image.
+ * @param image A data URL or any URL the browser can load.
+ * @returns null when no face is found.
+ */
+export const getFaceEmbedding = async (image: string): Promise<number[] | null> => {
+  await loadFaceModels();
+  const img = await faceapi.fetchImage(image);
+  const result = await faceapi
+    .detectSingleFace(img, DETECTOR_OPTIONS)
+    .withFaceLandmarks(true)
+    .withFaceDescriptor();
+  return result ? Array.from(result.descriptor) : null;
+};
+
+/**
+ * Similarity of two descriptors from 0 to 1 (1 - euclidean distance). The same person
+ * usually scores above 0.5, different people below 0.4.
+ */
+export const compareFaces = (a: number[], b: number[]): number =>
+  Math.round(Math.max(0, 1 - faceapi.euclideanDistance(a, b)) * 1000) / 1000;
+
+/**
+ * Scores a selfie against the user's enrolled face. A selfie without a face scores 0.
+ * @returns undefined when there is nothing to compare against or the models could not load,
+ *   in which case the server decides what to do (see submit_attendance).
+ */
+export const scoreSelfie = async (selfie: string, reference?: number[]): Promise<number | undefined> => {
+  if (!reference || reference.length === 0) return undefined;
+  try {
+    const embedding = await getFaceEmbedding(selfie);
+    return embedding ? compareFaces(embedding, reference) : 0;
+  } catch (err) {
+    console.error('Face verification failed:', err);
+    return undefined;
+  }
+};
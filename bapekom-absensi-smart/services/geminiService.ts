@@ -1,5 +1,6 @@
 import { GoogleGenAI } from "@google/genai";
 import { AttendanceRecord } from "../types";
+import { formatOfficeTime } from "./dateService";
 
 const apiKey = import.meta.env.VITE_GEMINI_API_KEY; 
 
@@ -13,7 +14,7 @@ export const generateDailySummary = async (records: AttendanceRecord[], absentNa
 
   const recordsJson = JSON.stringify(records.map(r => ({
     name: r.userName,
-    time: new Date(r.timestamp).toLocaleTimeString(),
+    time: formatOfficeTime(r.timestamp),
     type: r.type,
     status: r.status,
     isLate: r.isLate
@@ -0,0 +1,106 @@
+import type { GeoPoint, OfficeLocation, User } from '../types';
+
+// Geofence checks against the list of office locations in SystemSettings.
+// The submit_attendance RPC applies the same rules on the server; this module is
+// for the UI (previews, admin tools) and must stay in sync with the SQL.
+
+const EARTH_RADIUS_M = 6371000;
+
+const deg2rad = (deg: number) => deg * (Math.PI / 180);
+
+// Great-circle distance between two points, in meters
+export const getDistanceMeters = (lat1: number, lng1: number, lat2: number, lng2: number): number => {
+  const dLat = deg2rad(lat2 - lat1);
+  const dLng = deg2rad(lng2 - lng1);
+  const a =
+    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos(deg2rad(lat1)) * Math.cos(deg2rad(lat2)) *
+    Math.sin(dLng / 2) * Math.sin(dLng / 2);
+  return EARTH_RADIUS_M * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+};
+
+/**
+ * Ray-casting point-in-polygon test. Fine for building-sized polygons,
+ * where treating lat/lng as planar coordinates is accurate enough.
+ */
+export const isPointInPolygon = (point: GeoPoint, polygon: GeoPoint[]): boolean => {
+  if (polygon.length < 3) return false;
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    const crosses = (a.lat > point.lat) !== (b.lat > point.lat)
+      && point.lng < ((b.lng - a.lng) * (point.lat - a.lat)) / (b.lat - a.lat) + a.lng;
+    if (crosses) inside = !inside;
+  }
+  return inside;
+};
+
+/**
+ * Whether a location applies to a user. Locations without any division or user
+ * assignment are open to everyone.
+ */
+export const isLocationAssignedTo = (location: OfficeLocation, user: Pick<User, 'id' | 'division'>): boolean => {
+  const divisions = location.divisions || [];
+  const userIds = location.userIds || [];
+  if (divisions.length === 0 && userIds.length === 0) return true;
+  return userIds.includes(user.id) || (!!user.division && divisions.includes(user.division));
+};
+
+export const isInsideLocation = (point: GeoPoint, location: OfficeLocation): boolean =>
+  location.kind === 'polygon'
+    ? isPointInPolygon(point, location.polygon || [])
+    : getDistanceMeters(point.lat, point.lng, location.lat, location.lng) <= location.radiusMeters;
+
+export interface GeofenceMatch {
+  location: OfficeLocation | null; // The location the point is inside, if any
+  nearest: OfficeLocation | null;
+  distanceMeters: number | null; // Distance to the nearest location's center
+}
+
+/**
+ * Finds which of the user's locations contains the point.
+ */
+export const matchLocation = (
+  point: GeoPoint,
+  locations: OfficeLocation[],
+  user: Pick<User, 'id' | 'division'>
+): GeofenceMatch => {
+  const candidates = locations.filter(l => isLocationAssignedTo(l, user));
+
+  let nearest: OfficeLocation | null = null;
+  let distanceMeters: number | null = null;
+  candidates.forEach(l => {
+    const d = getDistanceMeters(point.lat, point.lng, l.lat, l.lng);
+    if (distanceMeters === null || d < distanceMeters) {
+      nearest = l;
+      distanceMeters = d;
+    }
+  });
+
+  return {
+    location: candidates.find(l => isInsideLocation(point, l)) || null,
+    nearest,
+    distanceMeters,
+  };
+};
+
+// Polygon text format used in the settings form: one "lat, lng" pair per line
+export const parsePolygonText = (text: string): GeoPoint[] =>
+  text
+    .split('\n')
+    .map(line => line.trim())
+    .filter(Boolean)
+    .map(line => {
+      const [lat, lng] = line.split(',').map(v => Number(v.trim()));
+      return { lat, lng };
+    });
+
+export const formatPolygonText = (polygon: GeoPoint[] = []): string =>
+  polygon.map(p => `${p.lat}, ${p.lng}`).join('\n');
+
+// Center of a polygon's vertices, used as its marker and for distance display
+export const getPolygonCenter = (polygon: GeoPoint[]): GeoPoint => ({
+  lat: polygon.reduce((sum, p) => sum + p.lat, 0) / polygon.length,
+  lng: polygon.reduce((sum, p) => sum + p.lng, 0) / polygon.length,
+});
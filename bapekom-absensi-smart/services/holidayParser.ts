@@ -0,0 +1,123 @@
+import type { Holiday, HolidayKind } from '../types';
+
+// Parses yearly holiday files (JSON or ICS) into holiday rows.
+// Kept free of runtime imports so the Node importer (importHolidays.ts) can load it too.
+//
+// Accepted JSON shapes:
+// - [{ "date": "2026-01-01", "name": "Tahun Baru", "kind": "national" }, ...]
+// - [{ "tanggal": "2026-01-01", "keterangan": "Tahun Baru", "is_cuti": false }, ...]
+// - { "2026-01-01": { "summary": "Tahun Baru" }, ... } (or the name as a plain string)
+// ICS: all-day VEVENTs; multi-day events become one row per day.
+
+export type HolidayInput = Omit<Holiday, 'id'>;
+
+const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+const KINDS: HolidayKind[] = ['national', 'cuti_bersama', 'office'];
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+const nextDate = (dateStr: string): string => {
+  const [y, m, d] = dateStr.split('-').map(Number);
+  const next = new Date(Date.UTC(y, m - 1, d + 1));
+  return `${next.getUTCFullYear()}-${pad(next.getUTCMonth() + 1)}-${pad(next.getUTCDate())}`;
+};
+
+// Holiday lists rarely say "cuti bersama" in a field of their own
+const guessKind = (name: string): HolidayKind =>
+  /cuti\s*bersama/i.test(name) ? 'cuti_bersama' : 'national';
+
+const toKind = (value: unknown, name: string, isCuti?: unknown): HolidayKind => {
+  if (typeof value === 'string' && (KINDS as string[]).includes(value)) return value as HolidayKind;
+  if (isCuti === true) return 'cuti_bersama';
+  return guessKind(name);
+};
+
+const firstString = (...values: unknown[]): string => {
+  for (const v of values) {
+    if (typeof v === 'string' && v.trim()) return v.trim();
+    if (Array.isArray(v) && typeof v[0] === 'string') return v.join(', ').trim();
+  }
+  return '';
+};
+
+export const parseHolidayJson = (text: string): HolidayInput[] => {
+  const data = JSON.parse(text);
+
+  if (Array.isArray(data)) {
+    return data.map((item: any) => {
+      const date = firstString(item?.date, item?.tanggal, item?.holiday_date).slice(0, 10);
+      const name = firstString(item?.name, item?.keterangan, item?.summary, item?.holiday_name);
+      return { date, name, kind: toKind(item?.kind, name, item?.is_cuti ?? item?.is_cuti_bersama) };
+    });
+  }
+
+  if (data && typeof data === 'object') {
+    return Object.entries(data)
+      .filter(([key]) => DATE_REGEX.test(key))
+      .map(([date, value]: [string, any]) => {
+        const name = firstString(value, value?.name, value?.summary, value?.keterangan);
+        return { date, name, kind: toKind(value?.kind, name, value?.is_cuti) };
+      });
+  }
+
+  throw new Error('Format JSON tidak dikenali.');
+};
+
+// "20260101" or "20260101T000000Z" -> "2026-01-01"
+const icsDate = (value: string): string =>
+  `${value.slice(0, 4)}-${value.slice(4, 6)}-${value.slice(6, 8)}`;
+
+const unescapeIcs = (value: string): string =>
+  value.replace(/\\n/gi, ' ').replace(/\\([,;\\])/g, '$1').trim();
+
+export const parseHolidayIcs = (text: string): HolidayInput[] => {
+  // Long lines are folded onto continuation lines starting with a space or tab
+  const lines = text.replace(/\r\n/g, '\n').replace(/\n[ \t]/g, '').split('\n');
+  const holidays: HolidayInput[] = [];
+  let event: { start?: string; end?: string; summary?: string } | null = null;
+
+  for (const line of lines) {
+    if (line === 'BEGIN:VEVENT') {
+      event = {};
+      continue;
+    }
+    if (line === 'END:VEVENT') {
+      if (event?.start && event.summary) {
+        const name = unescapeIcs(event.summary);
+        // DTEND of an all-day event is exclusive
+        const last = event.end && event.end > event.start ? event.end : nextDate(event.start);
+        for (let date = event.start; date < last; date = nextDate(date)) {
+          holidays.push({ date, name, kind: guessKind(name) });
+        }
+      }
+      event = null;
+      continue;
+    }
+    if (!event) continue;
+
+    const separator = line.indexOf(':');
+    if (separator < 0) continue;
+    const key = line.slice(0, separator).split(';')[0].toUpperCase();
+    const value = line.slice(separator + 1);
+    if (key === 'DTSTART') event.start = icsDate(value);
+    else if (key === 'DTEND') event.end = icsDate(value);
+    else if (key === 'SUMMARY') event.summary = value;
+  }
+
+  return holidays;
+};
+
+/**
+ * Parses a holiday file by its extension (or content), dropping rows without a
+ * valid date or name. When a date appears twice the first entry wins.
+ */
+export const parseHolidayFile = (text: string, fileName = ''): HolidayInput[] => {
+  const isIcs = /\.ics$/i.test(fileName) || text.trimStart().startsWith('BEGIN:VCALENDAR');
+  const parsed = isIcs ? parseHolidayIcs(text) : parseHolidayJson(text);
+
+  const byDate = new Map<string, HolidayInput>();
+  parsed.forEach(h => {
+    if (DATE_REGEX.test(h.date) && h.name && !byDate.has(h.date)) byDate.set(h.date, h);
+  });
+  return Array.from(byDate.values()).sort((a, b) => a.date.localeCompare(b.date));
+};
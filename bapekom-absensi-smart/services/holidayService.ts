@@ -0,0 +1,81 @@
+import { supabase } from './supabaseClient';
+import { Holiday } from '../types';
+import type { HolidayInput } from './holidayParser';
+
+const mapHoliday = (item: any): Holiday => ({
+  id: item.id,
+  date: item.date,
+  name: item.name,
+  kind: item.kind,
+});
+
+/**
+ * Holidays between two office dates (inclusive), oldest first. Without a range, all of them.
+ */
+export const getHolidays = async (startDate?: string, endDate?: string): Promise<Holiday[]> => {
+  try {
+    let query = supabase.from('holidays').select('id, date, name, kind');
+    if (startDate) query = query.gte('date', startDate);
+    if (endDate) query = query.lte('date', endDate);
+
+    const { data, error } = await query.order('date', { ascending: true });
+    if (error) throw error;
+    return (data || []).map(mapHoliday);
+  } catch (error) {
+    console.error("Error fetching holidays:", error);
+    return [];
+  }
+};
+
+// Holidays in a range keyed by date, for day-by-day lookups in recaps and stats
+export const getHolidayMap = async (startDate: string, endDate: string): Promise<Map<string, Holiday>> => {
+  const holidays = await getHolidays(startDate, endDate);
+  return new Map(holidays.map(h => [h.date, h]));
+};
+
+export const addHoliday = async (holiday: HolidayInput, createdBy?: string): Promise<boolean> => {
+  try {
+    const { error } = await supabase
+      .from('holidays')
+      .insert([{ date: holiday.date, name: holiday.name, kind: holiday.kind, created_by: createdBy ?? null }]);
+
+    if (error) throw error;
+    return true;
+  } catch (error) {
+    console.error("Error adding holiday:", error);
+    return false;
+  }
+};
+
+export const deleteHoliday = async (holidayId: string): Promise<boolean> => {
+  try {
+    const { error } = await supabase
+      .from('holidays')
+      .delete()
+      .eq('id', holidayId);
+
+    if (error) throw error;
+    return true;
+  } catch (error) {
+    console.error("Error deleting holiday:", error);
+    return false;
+  }
+};
+
+/**
+ * Saves parsed holidays, replacing the name/kind of dates that already exist.
+ * @returns The number of rows written.
+ */
+export const importHolidays = async (holidays: HolidayInput[], createdBy?: string): Promise<number> => {
+  if (holidays.length === 0) return 0;
+
+  const { error } = await supabase
+    .from('holidays')
+    .upsert(
+      holidays.map(h => ({ date: h.date, name: h.name, kind: h.kind, created_by: createdBy ?? null })),
+      { onConflict: 'date' }
+    );
+
+  if (error) throw error;
+  return holidays.length;
+};
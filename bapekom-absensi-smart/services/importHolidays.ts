@@ -0,0 +1,62 @@
+import { readFileSync } from 'fs';
+import { createClient } from '@supabase/supabase-js';
+import { config } from 'dotenv';
+import { parseHolidayFile } from './holidayParser';
+config();
+
+// Imports a yearly holiday file (JSON or ICS) into the `holidays` table.
+// Usage: npm run import:holidays -- path/to/libur-2026.ics
+// Existing dates are updated (upsert on date), other dates are left alone.
+
+const supabaseUrl = process.env.VITE_SUPABASE_URL;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_KEY;
+
+if (!supabaseUrl || !supabaseServiceKey) {
+  throw new Error('VITE_SUPABASE_URL and SUPABASE_SERVICE_KEY must be set in your .env');
+}
+
+const supabaseAdmin = createClient(supabaseUrl, supabaseServiceKey, {
+  auth: { autoRefreshToken: false, persistSession: false }
+});
+
+const dryRun = process.env.DRY_RUN === '1' || process.argv.includes('--dry-run');
+const filePath = process.argv.slice(2).find(arg => !arg.startsWith('--'));
+
+(async function main() {
+  if (!filePath) {
+    console.error('Usage: npm run import:holidays -- <file.json|file.ics>');
+    process.exit(1);
+  }
+
+  console.log(`Importing holidays from ${filePath}`);
+  if (dryRun) console.log('-- DRY RUN MODE -- No changes will be made');
+
+  let holidays;
+  try {
+    holidays = parseHolidayFile(readFileSync(filePath, 'utf8'), filePath);
+  } catch (err: any) {
+    console.error('Could not parse file:', err.message);
+    process.exit(1);
+  }
+
+  if (holidays.length === 0) {
+    console.log('No holidays found in file. Nothing to do.');
+    return;
+  }
+
+  holidays.forEach(h => console.log(`  ${h.date}  [${h.kind}]  ${h.name}`));
+  console.log(`Holidays found: ${holidays.length}`);
+
+  if (dryRun) return;
+
+  const { error } = await supabaseAdmin
+    .from('holidays')
+    .upsert(holidays, { onConflict: 'date' });
+
+  if (error) {
+    console.error('Error writing holidays (did you run create_holidays_table.sql?):', error.message);
+    process.exit(1);
+  }
+
+  console.log('Holidays imported.');
+})();
@@ -0,0 +1,85 @@
+import { supabase, isSupabaseConfigured } from './supabaseClient';
+
+// Leave attachments (doctor's letters etc.) are medical documents, so they go to a private bucket
+// (see setup_storage.sql) and are only ever shown through short-lived signed URLs.
+// `leaves.attachment_url` holds the object path; rows from before the bucket may still hold a
+// base64 data URL until migrateLeaveAttachments.ts has run.
+
+export const LEAVE_ATTACHMENT_BUCKET = 'leave-attachments';
+export const LEAVE_ATTACHMENT_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'application/pdf'];
+export const MAX_LEAVE_ATTACHMENT_BYTES = 5 * 1024 * 1024; // Same as the bucket's file_size_limit
+const SIGNED_URL_SECONDS = 300;
+
+const EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'application/pdf': 'pdf',
+};
+
+// Storage object path for a new attachment: "<userId>/<uuid>.<ext>"
+export const getLeaveAttachmentPath = (userId: string, contentType: string): string =>
+  `${userId}/${crypto.randomUUID()}.${EXTENSIONS[contentType] || 'bin'}`;
+
+// Whether an attachment (object path or legacy data URL) is a PDF rather than an image
+export const isPdfAttachment = (attachment: string): boolean =>
+  attachment.startsWith('data:application/pdf') || /\.pdf$/i.test(attachment);
+
+/**
+ * Why a picked file can't be attached, or null when it can.
+ */
+export const checkLeaveAttachmentFile = (file: File): string | null => {
+  if (!LEAVE_ATTACHMENT_TYPES.includes(file.type)) return 'Lampiran harus berupa gambar (JPG, PNG, WEBP) atau PDF.';
+  if (file.size > MAX_LEAVE_ATTACHMENT_BYTES) return 'Ukuran file terlalu besar. Maksimal 5MB.';
+  return null;
+};
+
+/**
+ * Uploads an attachment into the intern's folder of the private bucket.
+ * @returns The storage object path, which is what gets saved in `attachment_url`.
+ */
+export const uploadLeaveAttachment = async (file: File, userId: string): Promise<string> => {
+  if (!isSupabaseConfigured || !supabase) {
+    throw new Error('Supabase is not configured.');
+  }
+
+  const path = getLeaveAttachmentPath(userId, file.type);
+  const { error } = await supabase.storage
+    .from(LEAVE_ATTACHMENT_BUCKET)
+    .upload(path, file, { contentType: file.type, upsert: false });
+
+  if (error) {
+    console.error('Leave attachment upload error:', error);
+    throw error;
+  }
+  return path;
+};
+
+/**
+ * Removes an attachment that is no longer referenced, e.g. after it was replaced. Legacy data
+ * URLs have nothing to remove. Failures are only logged; an orphaned file is harmless.
+ */
+export const deleteLeaveAttachment = async (attachment: string | null | undefined): Promise<void> => {
+  if (!attachment || attachment.startsWith('data:') || !isSupabaseConfigured || !supabase) return;
+  const { error } = await supabase.storage.from(LEAVE_ATTACHMENT_BUCKET).remove([attachment]);
+  if (error) console.error('Failed to delete leave attachment:', error);
+};
+
+/**
+ * A URL the browser can open for an attachment, valid for a few minutes. Generate it when the
+ * attachment is shown or opened, never store it.
+ */
+export const getLeaveAttachmentUrl = async (attachment: string): Promise<string> => {
+  if (attachment.startsWith('data:') || /^https?:\/\//.test(attachment)) return attachment;
+  if (!isSupabaseConfigured || !supabase) return '';
+
+  const { data, error } = await supabase.storage
+    .from(LEAVE_ATTACHMENT_BUCKET)
+    .createSignedUrl(attachment, SIGNED_URL_SECONDS);
+
+  if (error) {
+    console.error('Failed to sign leave attachment URL:', error);
+    return '';
+  }
+  return data.signedUrl;
+};
@@ -0,0 +1,123 @@
+import { supabase } from './supabaseClient';
+import { getSettings } from './settingsService';
+import { getHolidayMap } from './holidayService';
+import { getScheduleForUser, isWorkDay } from './scheduleService';
+import { getDatesInRange } from './dateService';
+import { Holiday, LeaveBalance, LeaveRequest, LeaveType, User, WorkSchedule } from '../types';
+
+// Leave quotas from settings.leavePolicies. A quota covers a whole internship (one intern
+// account), and only working days count: days off in the intern's schedule and holidays are free.
+
+export const LEAVE_TYPES: LeaveType[] = ['sakit', 'izin'];
+
+type LeaveDays = Pick<LeaveRequest, 'id' | 'userId' | 'type' | 'startDate' | 'endDate' | 'status'>;
+type LeaveRange = Pick<LeaveRequest, 'type' | 'startDate' | 'endDate'>;
+
+export interface LeaveBalances {
+  byUser: Map<string, Record<LeaveType, LeaveBalance>>;
+  daysByLeave: Map<string, number>; // Working days of each pending/approved request
+}
+
+export interface LeaveQuotaCheck {
+  requestedDays: number; // Working days in the requested range
+  balance: LeaveBalance; // Without the request itself
+  exceeds: boolean;
+  blocked: boolean; // Exceeds, and settings.leaveQuotaMode is 'block'
+}
+
+// Working days from startDate to endDate (inclusive), 0 until both are set
+export const countLeaveWorkDays = (
+  startDate: string,
+  endDate: string,
+  schedule: WorkSchedule | null,
+  holidays: Map<string, Holiday>
+): number =>
+  !startDate || !endDate || startDate > endDate ? 0 : getDatesInRange(startDate, endDate).filter(d => isWorkDay(schedule, d) && !holidays.has(d)).length;
+
+// Pending and approved leave, the requests that use up a quota
+const fetchActiveLeaves = async (userIds: string[]): Promise<LeaveDays[]> => {
+  if (userIds.length === 0) return [];
+  const { data, error } = await supabase
+    .from('leaves')
+    .select('id, user_id, type, start_date, end_date, status')
+    .in('user_id', userIds)
+    .in('status', ['pending', 'approved']);
+
+  if (error) throw error;
+  return (data || []).map((item: any) => ({
+    id: item.id,
+    userId: item.user_id,
+    type: item.type,
+    startDate: item.start_date,
+    endDate: item.end_date,
+    status: item.status,
+  }));
+};
+
+// Holidays covering every range, fetched once
+const getHolidaysFor = async (ranges: Pick<LeaveRequest, 'startDate' | 'endDate'>[]): Promise<Map<string, Holiday>> => {
+  if (ranges.length === 0) return new Map();
+  const start = ranges.reduce((min, r) => (r.startDate < min ? r.startDate : min), ranges[0].startDate);
+  const end = ranges.reduce((max, r) => (r.endDate > max ? r.endDate : max), ranges[0].endDate);
+  return getHolidayMap(start, end);
+};
+
+const buildBalance = (type: LeaveType, leaves: LeaveDays[], daysByLeave: Map<string, number>): LeaveBalance => {
+  const { quotaDays } = getSettings().leavePolicies[type];
+  const sum = (status: LeaveRequest['status']) => leaves
+    .filter(l => l.type === type && l.status === status)
+    .reduce((total, l) => total + (daysByLeave.get(l.id) || 0), 0);
+  const approvedDays = sum('approved');
+  const pendingDays = sum('pending');
+  return {
+    type,
+    quotaDays,
+    approvedDays,
+    pendingDays,
+    remainingDays: quotaDays === null ? null : Math.max(quotaDays - approvedDays - pendingDays, 0),
+  };
+};
+
+/**
+ * Leave balances of several interns, e.g. everyone in the admin leave list.
+ * Users only need their ID and division, to find the schedule that applies to them.
+ */
+export const getLeaveBalances = async (users: Pick<User, 'id' | 'division'>[]): Promise<LeaveBalances> => {
+  const leaves = await fetchActiveLeaves(users.map(u => u.id));
+  const holidays = await getHolidaysFor(leaves);
+  const { schedules } = getSettings();
+
+  const daysByLeave = new Map<string, number>();
+  const byUser = new Map<string, Record<LeaveType, LeaveBalance>>();
+  users.forEach(user => {
+    const schedule = getScheduleForUser(schedules, user);
+    const own = leaves.filter(l => l.userId === user.id);
+    own.forEach(l => daysByLeave.set(l.id, countLeaveWorkDays(l.startDate, l.endDate, schedule, holidays)));
+    byUser.set(user.id, {
+      sakit: buildBalance('sakit', own, daysByLeave),
+      izin: buildBalance('izin', own, daysByLeave),
+    });
+  });
+  return { byUser, daysByLeave };
+};
+
+/**
+ * Whether a new or edited request fits the intern's remaining quota.
+ * @param excludeLeaveId The request being edited, so its old dates don't count twice.
+ */
+export const checkLeaveQuota = async (
+  user: Pick<User, 'id' | 'division'>,
+  request: LeaveRange,
+  excludeLeaveId?: string
+): Promise<LeaveQuotaCheck> => {
+  const leaves = (await fetchActiveLeaves([user.id])).filter(l => l.id !== excludeLeaveId);
+  const holidays = await getHolidaysFor([...leaves, request].filter(r => r.startDate && r.endDate));
+  const { schedules, leaveQuotaMode } = getSettings();
+  const schedule = getScheduleForUser(schedules, user);
+
+  const daysByLeave = new Map(leaves.map(l => [l.id, countLeaveWorkDays(l.startDate, l.endDate, schedule, holidays)]));
+  const balance = buildBalance(request.type, leaves, daysByLeave);
+  const requestedDays = countLeaveWorkDays(request.startDate, request.endDate, schedule, holidays);
+  const exceeds = balance.remainingDays !== null && requestedDays > balance.remainingDays;
+  return { requestedDays, balance, exceeds, blocked: exceeds && leaveQuotaMode === 'block' };
+};
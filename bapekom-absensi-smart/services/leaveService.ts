@@ -1,5 +1,58 @@
 import { supabase } from './supabaseClient';
-import { LeaveRequest } from '../types';
+import { deleteLeaveAttachment } from './leaveAttachmentService';
+import { LeaveApprovalStep, LeaveRequest, LeaveType, User } from '../types';
+
+// A request refused by a leave rule or the quota. The message is in Indonesian, for the intern.
+export class LeavePolicyError extends Error {
+  name = 'LeavePolicyError';
+}
+
+/**
+ * Files or edits a request through submit_leave (create_leaves_table.sql), which applies
+ * settings.leavePolicies again on the server: the rules in leaveValidationService, then the quota.
+ * Over-quota requests are refused in 'block' mode and saved with exceeds_quota in 'flag' mode.
+ * @throws LeavePolicyError naming the rule the request breaks.
+ */
+const submitLeave = async (
+  request: Pick<LeaveRequest, 'type' | 'startDate' | 'endDate' | 'reason' | 'attachmentUrl'>,
+  leaveId?: string
+): Promise<void> => {
+  const { error } = await supabase.rpc('submit_leave', {
+    p_type: request.type,
+    p_start_date: request.startDate,
+    p_end_date: request.endDate,
+    p_reason: request.reason,
+    p_attachment_url: request.attachmentUrl || null,
+    p_leave_id: leaveId ?? null,
+  });
+  if (error) {
+    if (error.code === 'P0001') throw new LeavePolicyError(error.message);
+    throw error;
+  }
+};
+
+/**
+ * The step waiting for a decision, or undefined when the request is decided or has no chain
+ * (filed before the chain existed, or while settings.leaveApprovalChain was empty).
+ */
+export const getCurrentLeaveStep = (leave: Pick<LeaveRequest, 'status' | 'approvalSteps'>): LeaveApprovalStep | undefined =>
+  leave.status === 'pending' ? leave.approvalSteps?.find(step => step.status === 'pending') : undefined;
+
+/**
+ * Whether an admin may decide the pending step of a request: the mentor step needs a mentor of the
+ * intern's division, the HR step an HR admin. Super admins can decide any step, and requests
+ * without a chain can be decided by any admin. Only hides buttons; review_leave enforces the same rules.
+ */
+export const canDecideLeave = (
+  reviewer: Pick<User, 'role' | 'division' | 'leaveApprovalRole'>,
+  leave: Pick<LeaveRequest, 'status' | 'division' | 'approvalSteps'>
+): boolean => {
+  if (leave.status !== 'pending' || reviewer.role === 'intern') return false;
+  const step = getCurrentLeaveStep(leave);
+  if (!step || reviewer.role === 'super-admin') return true;
+  if (reviewer.leaveApprovalRole !== step.role) return false;
+  return step.role !== 'mentor' || (!!reviewer.division && reviewer.division === leave.division);
+};
 
 export const getLeaveRequests = async (): Promise<LeaveRequest[]> => {
   try {
@@ -26,7 +79,10 @@ export const getLeaveRequests = async (): Promise<LeaveRequest[]> => {
       attachmentUrl: item.attachment_url,
       status: item.status,
       requestDate: item.created_at,
-      rejectionReason: item.rejection_reason
+      rejectionReason: item.rejection_reason,
+      exceedsQuota: item.exceeds_quota ?? false,
+      approvalSteps: item.approval_steps || [],
+      cancellation: item.cancellation ?? undefined
     }));
   } catch (error) {
     console.error("Error fetching leave requests:", error);
@@ -57,7 +113,10 @@ export const getLeaveRequestsByUser = async (userId: string): Promise<LeaveReque
       attachmentUrl: item.attachment_url,
       status: item.status,
       requestDate: item.created_at,
-      rejectionReason: item.rejection_reason
+      rejectionReason: item.rejection_reason,
+      exceedsQuota: item.exceeds_quota ?? false,
+      approvalSteps: item.approval_steps || [],
+      cancellation: item.cancellation ?? undefined
     }));
   } catch (error) {
     console.error("Error fetching user leaves:", error);
@@ -65,46 +124,74 @@ export const getLeaveRequestsByUser = async (userId: string): Promise<LeaveReque
   }
 };
 
+/**
+ * @throws LeavePolicyError when the request breaks a leave rule; other failures return false.
+ */
 export const createLeaveRequest = async (request: Omit<LeaveRequest, 'id' | 'status' | 'requestDate' | 'userName' | 'division'>): Promise<boolean> => {
   try {
-    const { error } = await supabase
-      .from('leaves')
-      .insert([{
-        user_id: request.userId,
-        type: request.type,
-        start_date: request.startDate,
-        end_date: request.endDate,
-        reason: request.reason,
-        attachment_url: request.attachmentUrl,
-        status: 'pending'
-      }]);
-
-    if (error) throw error;
+    await submitLeave(request);
     return true;
   } catch (error) {
+    if (error instanceof LeavePolicyError) throw error;
     console.error("Error creating leave request:", error);
     return false;
   }
 };
 
-export const updateLeaveStatus = async (requestId: string, status: 'approved' | 'rejected', reason?: string): Promise<boolean> => {
-  try {
-    const updateData: any = { status };
-    if (status === 'rejected' && reason) {
-      updateData.rejection_reason = reason;
-    }
+/**
+ * Records a reviewer's decision on a pending request. With an approval chain, an approval only
+ * completes the current step and the request is approved after the last one; a rejection at any
+ * step rejects the request, with the comment as its rejection reason. The database checks that the
+ * step is the reviewer's and stamps them as its approver (review_leave in create_leaves_table.sql).
+ * @throws The RPC error, whose message is already in Indonesian.
+ */
+export const updateLeaveStatus = async (
+  requestId: string,
+  decision: 'approved' | 'rejected',
+  comment?: string
+): Promise<void> => {
+  const { error } = await supabase.rpc('review_leave', {
+    p_leave_id: requestId,
+    p_decision: decision,
+    p_comment: comment?.trim() || null,
+  });
+  if (error) throw error;
+};
 
-    const { error } = await supabase
-      .from('leaves')
-      .update(updateData)
-      .eq('id', requestId);
+/**
+ * Withdraws a pending request at once, or asks admins to cancel an approved one
+ * (cancel_leave in create_leaves_table.sql).
+ * @param fromDate First day to give back; omitted = everything from today (or the start) on.
+ * @throws The RPC error, whose message is already in Indonesian.
+ */
+export const cancelLeaveRequest = async (
+  requestId: string,
+  options: { fromDate?: string; reason?: string } = {}
+): Promise<void> => {
+  const { error } = await supabase.rpc('cancel_leave', {
+    p_leave_id: requestId,
+    p_from_date: options.fromDate ?? null,
+    p_reason: options.reason?.trim() || null,
+  });
+  if (error) throw error;
+};
 
-    if (error) throw error;
-    return true;
-  } catch (error) {
-    console.error("Error updating leave status:", error);
-    return false;
-  }
+/**
+ * Approves or rejects an intern's request to cancel approved leave. Approval marks the leave
+ * 'cancelled', or for a partial cancellation ends it the day before cancellation.fromDate.
+ * @throws The RPC error, whose message is already in Indonesian.
+ */
+export const reviewLeaveCancellation = async (
+  leaveId: string,
+  status: 'approved' | 'rejected',
+  note?: string
+): Promise<void> => {
+  const { error } = await supabase.rpc('review_leave_cancellation', {
+    p_leave_id: leaveId,
+    p_status: status,
+    p_note: note?.trim() || null,
+  });
+  if (error) throw error;
 };
 
 export const getPendingLeaveCount = async (): Promise<number> => {
@@ -112,7 +199,7 @@ export const getPendingLeaveCount = async (): Promise<number> => {
     const { count, error } = await supabase
       .from('leaves')
       .select('*', { count: 'exact', head: true })
-      .eq('status', 'pending');
+      .or('status.eq.pending,cancellation->>status.eq.pending');
 
     if (error) throw error;
     return count || 0;
@@ -122,10 +209,14 @@ export const getPendingLeaveCount = async (): Promise<number> => {
   }
 };
 
+/**
+ * Edits a pending request; the same rules apply as when filing it.
+ * @throws LeavePolicyError when the edit breaks a leave rule; other failures return false.
+ */
 export const updateLeaveRequest = async (
   requestId: string,
   updates: {
-    type?: 'sakit' | 'izin';
+    type?: LeaveType;
     startDate?: string;
     endDate?: string;
     reason?: string;
@@ -136,7 +227,7 @@ export const updateLeaveRequest = async (
     // First, check if the leave request exists and is still pending
     const { data: existingLeave, error: fetchError } = await supabase
       .from('leaves')
-      .select('status')
+      .select('status, type, start_date, end_date, reason, attachment_url')
       .eq('id', requestId)
       .single();
 
@@ -152,22 +243,22 @@ export const updateLeaveRequest = async (
       return false;
     }
 
-    // Build update object with snake_case for database
-    const updateData: any = {};
-    if (updates.type) updateData.type = updates.type;
-    if (updates.startDate) updateData.start_date = updates.startDate;
-    if (updates.endDate) updateData.end_date = updates.endDate;
-    if (updates.reason) updateData.reason = updates.reason;
-    if (updates.attachmentUrl !== undefined) updateData.attachment_url = updates.attachmentUrl;
-
-    const { error } = await supabase
-      .from('leaves')
-      .update(updateData)
-      .eq('id', requestId);
+    // An edited request starts its approval over
+    await submitLeave({
+      type: updates.type || existingLeave.type,
+      startDate: updates.startDate || existingLeave.start_date,
+      endDate: updates.endDate || existingLeave.end_date,
+      reason: updates.reason || existingLeave.reason,
+      attachmentUrl: updates.attachmentUrl !== undefined ? updates.attachmentUrl : existingLeave.attachment_url,
+    }, requestId);
 
-    if (error) throw error;
+    // A replaced or removed attachment is no longer referenced anywhere
+    if (updates.attachmentUrl !== undefined && updates.attachmentUrl !== existingLeave.attachment_url) {
+      await deleteLeaveAttachment(existingLeave.attachment_url);
+    }
     return true;
   } catch (error) {
+    if (error instanceof LeavePolicyError) throw error;
     console.error("Error updating leave request:", error);
     return false;
   }
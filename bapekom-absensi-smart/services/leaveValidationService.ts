@@ -0,0 +1,112 @@
+import { supabase } from './supabaseClient';
+import { getSettings } from './settingsService';
+import { addDays, formatCalendarDate, getOfficeDayStart, getOfficeToday, toOfficeDateString } from './dateService';
+import { LeaveRequest, LeaveType } from '../types';
+
+// Checks a leave request before it is filed or edited. The intern form shows the messages next to
+// each field; submit_leave (create_leaves_table.sql) runs the same checks again so nothing invalid
+// reaches the table. Keep the two in step.
+
+export type LeaveField = 'type' | 'startDate' | 'endDate' | 'reason' | 'attachmentUrl';
+
+// Indonesian message per invalid field; empty when the request is valid
+export type LeaveValidationErrors = Partial<Record<LeaveField, string>>;
+
+type LeaveDraft = Pick<LeaveRequest, 'type' | 'startDate' | 'endDate' | 'reason' | 'attachmentUrl'>;
+
+/**
+ * First date a leave of this type may start on, from settings.leavePolicies: today plus the
+ * notice period, or today minus the days it may be backdated.
+ */
+export const getEarliestLeaveStart = (type: LeaveType, today: string = getOfficeToday()): string => {
+  const { minNoticeDays, maxBackdateDays } = getSettings().leavePolicies[type];
+  return addDays(today, minNoticeDays > 0 ? minNoticeDays : -maxBackdateDays);
+};
+
+/**
+ * Rules that only need the request itself: required fields, date order, the backdate and
+ * notice rules, and the attachment rule.
+ */
+export const checkLeaveFields = (request: LeaveDraft, today: string = getOfficeToday()): LeaveValidationErrors => {
+  const errors: LeaveValidationErrors = {};
+  const policy = getSettings().leavePolicies[request.type];
+  if (!policy) {
+    errors.type = 'Jenis pengajuan tidak dikenal.';
+    return errors;
+  }
+
+  if (!request.startDate) errors.startDate = 'Tanggal mulai wajib diisi.';
+  if (!request.endDate) errors.endDate = 'Tanggal selesai wajib diisi.';
+  if (!request.reason?.trim()) errors.reason = 'Alasan wajib diisi.';
+  if (policy.requiresAttachment && !request.attachmentUrl) {
+    errors.attachmentUrl = request.type === 'sakit'
+      ? 'Untuk izin sakit, wajib melampirkan surat dokter/bukti.'
+      : 'Untuk izin ini, wajib melampirkan bukti.';
+  }
+
+  if (request.startDate && request.endDate && request.endDate < request.startDate) {
+    errors.endDate = 'Tanggal selesai tidak boleh sebelum tanggal mulai.';
+  }
+
+  const earliest = getEarliestLeaveStart(request.type, today);
+  if (request.startDate && request.startDate < earliest) {
+    if (policy.minNoticeDays > 0) {
+      errors.startDate = `Pengajuan ${request.type} paling lambat ${policy.minNoticeDays} hari sebelumnya (mulai paling cepat ${formatCalendarDate(earliest)}).`;
+    } else if (policy.maxBackdateDays > 0) {
+      errors.startDate = `Pengajuan ${request.type} hanya boleh mundur ${policy.maxBackdateDays} hari (paling awal ${formatCalendarDate(earliest)}).`;
+    } else {
+      errors.startDate = `Pengajuan ${request.type} tidak boleh untuk tanggal yang sudah lewat.`;
+    }
+  }
+  return errors;
+};
+
+/**
+ * All rules, including the ones that look at the intern's other data: the range may not overlap
+ * another pending or approved leave, and may not include days the intern already clocked in on.
+ * @param excludeLeaveId The request being edited, so it doesn't overlap itself.
+ */
+export const validateLeaveRequest = async (
+  userId: string,
+  request: LeaveDraft,
+  excludeLeaveId?: string
+): Promise<LeaveValidationErrors> => {
+  const errors = checkLeaveFields(request);
+  if (errors.startDate || errors.endDate || errors.type) return errors;
+
+  let leaveQuery = supabase
+    .from('leaves')
+    .select('id, type, start_date, end_date, status')
+    .eq('user_id', userId)
+    .in('status', ['pending', 'approved'])
+    .lte('start_date', request.endDate)
+    .gte('end_date', request.startDate);
+  if (excludeLeaveId) leaveQuery = leaveQuery.neq('id', excludeLeaveId);
+
+  const [{ data: overlapping, error: leaveError }, { data: clockIns, error: attendanceError }] = await Promise.all([
+    leaveQuery.limit(1),
+    supabase
+      .from('attendance')
+      .select('timestamp')
+      .eq('userId', userId)
+      .eq('type', 'in')
+      .gte('timestamp', getOfficeDayStart(request.startDate).toISOString())
+      .lt('timestamp', getOfficeDayStart(addDays(request.endDate, 1)).toISOString())
+      .order('timestamp', { ascending: true }),
+  ]);
+  if (leaveError) throw leaveError;
+  if (attendanceError) throw attendanceError;
+
+  const other = overlapping?.[0];
+  if (other) {
+    errors.startDate = `Bertumpuk dengan pengajuan ${other.type} ${formatCalendarDate(other.start_date)} - ${formatCalendarDate(other.end_date)} yang ${other.status === 'approved' ? 'sudah disetujui' : 'masih menunggu persetujuan'}.`;
+  } else if (clockIns && clockIns.length > 0) {
+    const days = Array.from(new Set(clockIns.map(r => toOfficeDateString(r.timestamp))));
+    errors.startDate = `Anda sudah absen masuk pada ${days.map(d => formatCalendarDate(d)).join(', ')}. Pilih tanggal lain atau ajukan koreksi absensi.`;
+  }
+  return errors;
+};
+
+// The first message, for a toast or the service log
+export const firstLeaveError = (errors: LeaveValidationErrors): string | undefined =>
+  Object.values(errors).find(Boolean);
@@ -0,0 +1,135 @@
+import { createClient } from '@supabase/supabase-js';
+import { config } from 'dotenv';
+config();
+
+// One-off migration: moves base64 `attachment_url` values out of leave rows into the private
+// leave-attachments bucket and replaces them with the storage object path.
+// Resumable: migrated rows no longer match, so re-running picks up where it stopped.
+// Objects are named after the leave id and uploaded with upsert, so a row whose upload
+// succeeded but update failed is simply redone.
+
+const supabaseUrl = process.env.VITE_SUPABASE_URL;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_KEY;
+
+if (!supabaseUrl || !supabaseServiceKey) {
+  throw new Error('VITE_SUPABASE_URL and SUPABASE_SERVICE_KEY must be set in your .env');
+}
+
+const supabaseAdmin = createClient(supabaseUrl, supabaseServiceKey, {
+  auth: { autoRefreshToken: false, persistSession: false }
+});
+
+const BUCKET = process.env.MIGRATE_BUCKET || 'leave-attachments';
+const BATCH_SIZE = Number(process.env.MIGRATE_BATCH_SIZE || '25'); // rows are large, keep batches small
+const dryRun = process.env.DRY_RUN === '1' || process.argv.includes('--dry-run');
+
+// Same types as LEAVE_ATTACHMENT_TYPES in leaveAttachmentService.ts (and the bucket's allowed_mime_types)
+const EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'application/pdf': 'pdf',
+};
+
+// Same folder layout as getLeaveAttachmentPath(), named after the leave instead of a random id
+const getAttachmentPath = (userId: string, leaveId: string, contentType: string) =>
+  `${userId}/${leaveId}.${EXTENSIONS[contentType]}`;
+
+const decodeDataUrl = (dataUrl: string): { bytes: Buffer; contentType: string } => {
+  const match = dataUrl.match(/^data:([^;,]+)?(;base64)?,(.*)$/s);
+  if (!match || !match[2]) throw new Error('not a base64 data URL');
+  const contentType = match[1] === 'image/jpg' ? 'image/jpeg' : match[1] || 'image/jpeg';
+  if (!EXTENSIONS[contentType]) throw new Error(`unsupported type ${contentType}`);
+  return { bytes: Buffer.from(match[3], 'base64'), contentType };
+};
+
+(async function main() {
+  console.log(`Starting leave attachment migration into bucket '${BUCKET}'`);
+  if (dryRun) console.log('-- DRY RUN MODE -- No changes will be made (set DRY_RUN=1 or remove flag to execute)');
+
+  const { count: total, error: countErr } = await supabaseAdmin
+    .from('leaves')
+    .select('id', { count: 'exact', head: true })
+    .like('attachment_url', 'data:%');
+
+  if (countErr) {
+    console.error('Error counting rows to migrate:', countErr.message);
+    process.exit(1);
+  }
+
+  console.log(`Rows with base64 attachments: ${total ?? 0}`);
+  if (!total) return;
+
+  let lastId: string | null = null;
+  let processed = 0;
+  let migrated = 0;
+  let totalBytes = 0;
+  const failed: string[] = [];
+
+  while (true) {
+    // Keyset pagination on id, so failed rows (still base64) are not fetched again this run
+    let query = supabaseAdmin
+      .from('leaves')
+      .select('id, user_id, attachment_url')
+      .like('attachment_url', 'data:%')
+      .order('id', { ascending: true })
+      .limit(BATCH_SIZE);
+    if (lastId) query = query.gt('id', lastId);
+
+    const { data: batch, error: selectErr } = await query;
+    if (selectErr) {
+      console.error('Error selecting batch from leaves:', selectErr.message);
+      process.exit(1);
+    }
+
+    if (!batch || batch.length === 0) break;
+    lastId = batch[batch.length - 1].id;
+
+    for (const row of batch as any[]) {
+      processed++;
+      try {
+        const { bytes, contentType } = decodeDataUrl(row.attachment_url);
+        const path = getAttachmentPath(row.user_id, row.id, contentType);
+        totalBytes += bytes.length;
+
+        if (dryRun) {
+          migrated++;
+          continue;
+        }
+
+        const { error: uploadErr } = await supabaseAdmin.storage
+          .from(BUCKET)
+          .upload(path, bytes, { contentType, upsert: true });
+        if (uploadErr) throw uploadErr;
+
+        const { error: updateErr } = await supabaseAdmin
+          .from('leaves')
+          .update({ attachment_url: path })
+          .eq('id', row.id);
+        if (updateErr) throw updateErr;
+
+        migrated++;
+      } catch (e: any) {
+        failed.push(row.id);
+        console.warn(`Failed to migrate leave ${row.id}: ${e?.message || e}`);
+      }
+    }
+
+    const pct = Math.round((processed / total) * 100);
+    console.log(`${dryRun ? 'Dry run: checked' : 'Migrated'} ${processed}/${total} (${pct}%) - ${(totalBytes / 1024 / 1024).toFixed(1)} MB so far`);
+
+    if (batch.length < BATCH_SIZE) break;
+  }
+
+  if (dryRun) {
+    console.log(`Dry-run completed. Rows that would be migrated: ${migrated}, unreadable: ${failed.length}`);
+    console.log('Run without DRY_RUN=1 / --dry-run to perform the actual migration.');
+  } else {
+    console.log(`Leave attachment migration completed. Migrated: ${migrated}, failed: ${failed.length}`);
+  }
+
+  if (failed.length > 0) {
+    console.log(`Failed ids (re-run to retry): ${failed.slice(0, 20).join(', ')}${failed.length > 20 ? ', ...' : ''}`);
+    process.exitCode = 1;
+  }
+})();
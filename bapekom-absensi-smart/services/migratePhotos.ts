@@ -0,0 +1,125 @@
+import { createClient } from '@supabase/supabase-js';
+import { config } from 'dotenv';
+import { toOfficeDateString } from './dateService';
+config();
+
+// One-off migration: moves base64 `photoUrl` values out of attendance rows into the
+// attendance-photos bucket and replaces them with the storage object path.
+// Resumable: migrated rows no longer match, so re-running picks up where it stopped.
+// Uploads use upsert, so a row whose upload succeeded but update failed is simply redone.
+
+const supabaseUrl = process.env.VITE_SUPABASE_URL;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_KEY;
+
+if (!supabaseUrl || !supabaseServiceKey) {
+  throw new Error('VITE_SUPABASE_URL and SUPABASE_SERVICE_KEY must be set in your .env');
+}
+
+const supabaseAdmin = createClient(supabaseUrl, supabaseServiceKey, {
+  auth: { autoRefreshToken: false, persistSession: false }
+});
+
+const BUCKET = process.env.MIGRATE_BUCKET || 'attendance-photos';
+const BATCH_SIZE = Number(process.env.MIGRATE_BATCH_SIZE || '25'); // rows are large, keep batches small
+const dryRun = process.env.DRY_RUN === '1' || process.argv.includes('--dry-run');
+
+// Same layout as getAttendancePhotoPath() in attendanceService.ts
+const getPhotoPath = (userId: string, timestamp: string) =>
+  `${userId}/${toOfficeDateString(timestamp)}_${new Date(timestamp).getTime()}.jpg`;
+
+const decodeDataUrl = (dataUrl: string): { bytes: Buffer; contentType: string } => {
+  const match = dataUrl.match(/^data:([^;,]+)?(;base64)?,(.*)$/s);
+  if (!match || !match[2]) throw new Error('not a base64 data URL');
+  return { bytes: Buffer.from(match[3], 'base64'), contentType: match[1] || 'image/jpeg' };
+};
+
+(async function main() {
+  console.log(`Starting photo migration into bucket '${BUCKET}'`);
+  if (dryRun) console.log('-- DRY RUN MODE -- No changes will be made (set DRY_RUN=1 or remove flag to execute)');
+
+  const { count: total, error: countErr } = await supabaseAdmin
+    .from('attendance')
+    .select('id', { count: 'exact', head: true })
+    .like('photoUrl', 'data:%');
+
+  if (countErr) {
+    console.error('Error counting rows to migrate:', countErr.message);
+    process.exit(1);
+  }
+
+  console.log(`Rows with base64 photos: ${total ?? 0}`);
+  if (!total) return;
+
+  let lastId: string | null = null;
+  let processed = 0;
+  let migrated = 0;
+  let totalBytes = 0;
+  const failed: string[] = [];
+
+  while (true) {
+    // Keyset pagination on id, so failed rows (still base64) are not fetched again this run
+    let query = supabaseAdmin
+      .from('attendance')
+      .select('id, userId, timestamp, photoUrl')
+      .like('photoUrl', 'data:%')
+      .order('id', { ascending: true })
+      .limit(BATCH_SIZE);
+    if (lastId) query = query.gt('id', lastId);
+
+    const { data: batch, error: selectErr } = await query;
+    if (selectErr) {
+      console.error('Error selecting batch from attendance:', selectErr.message);
+      process.exit(1);
+    }
+
+    if (!batch || batch.length === 0) break;
+    lastId = batch[batch.length - 1].id;
+
+    for (const row of batch as any[]) {
+      processed++;
+      try {
+        const { bytes, contentType } = decodeDataUrl(row.photoUrl);
+        const path = getPhotoPath(row.userId, row.timestamp);
+        totalBytes += bytes.length;
+
+        if (dryRun) {
+          migrated++;
+          continue;
+        }
+
+        const { error: uploadErr } = await supabaseAdmin.storage
+          .from(BUCKET)
+          .upload(path, bytes, { contentType, cacheControl: '3600', upsert: true });
+        if (uploadErr) throw uploadErr;
+
+        const { error: updateErr } = await supabaseAdmin
+          .from('attendance')
+          .update({ photoUrl: path })
+          .eq('id', row.id);
+        if (updateErr) throw updateErr;
+
+        migrated++;
+      } catch (e: any) {
+        failed.push(row.id);
+        console.warn(`Failed to migrate row ${row.id}: ${e?.message || e}`);
+      }
+    }
+
+    const pct = Math.round((processed / total) * 100);
+    console.log(`${dryRun ? 'Dry run: checked' : 'Migrated'} ${processed}/${total} (${pct}%) - ${(totalBytes / 1024 / 1024).toFixed(1)} MB so far`);
+
+    if (batch.length < BATCH_SIZE) break;
+  }
+
+  if (dryRun) {
+    console.log(`Dry-run completed. Rows that would be migrated: ${migrated}, unreadable: ${failed.length}`);
+    console.log('Run without DRY_RUN=1 / --dry-run to perform the actual migration.');
+  } else {
+    console.log(`Photo migration completed. Migrated: ${migrated}, failed: ${failed.length}`);
+  }
+
+  if (failed.length > 0) {
+    console.log(`Failed ids (re-run to retry): ${failed.slice(0, 20).join(', ')}${failed.length > 20 ? ', ...' : ''}`);
+    process.exitCode = 1;
+  }
+})();
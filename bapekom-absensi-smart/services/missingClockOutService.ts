@@ -0,0 +1,64 @@
+import type { AttendanceRecord, OpenDay, WorkSchedule } from '../types';
+import { addDays, getOfficeDayStart, parseTimeToMinutes, toOfficeDateString } from './dateService';
+import { getPunchStatus } from './punchService';
+import { getScheduleDay } from './scheduleService';
+
+// Finds days an intern clocked in and never clocked out ("lupa absen pulang").
+// Also used by the closeMissingClockOuts.ts job, so it only imports modules Node can load.
+
+export interface FindOpenDaysOptions {
+  scheduleFor: (userId: string) => WorkSchedule | null;
+  holidays: Set<string>; // Office dates with no scheduled hours for anyone
+  graceHours: number; // After the scheduled end
+  now?: Date;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Days whose last punch is a clock-in that is past the cutoff: the scheduled end plus
+ * `graceHours` on a work day, or the end of the office day on a day off or holiday.
+ * Clock-ins already marked by an earlier run are skipped.
+ */
+export const findOpenDays = (
+  records: AttendanceRecord[],
+  { scheduleFor, holidays, graceHours, now = new Date() }: FindOpenDaysOptions
+): OpenDay[] => {
+  const days = new Map<string, AttendanceRecord[]>();
+  records.forEach(r => {
+    const key = `${r.userId}|${toOfficeDateString(r.timestamp)}`;
+    if (!days.has(key)) days.set(key, []);
+    days.get(key)!.push(r);
+  });
+
+  const openDays: OpenDay[] = [];
+  days.forEach((dayRecords, key) => {
+    if (getPunchStatus(dayRecords).state !== 'in') return;
+
+    const [userId, date] = key.split('|');
+    const clockIn = dayRecords
+      .filter(r => r.type === 'in')
+      .reduce((latest, r) => (new Date(r.timestamp) > new Date(latest.timestamp) ? r : latest));
+    if (clockIn.missingClockOut) return;
+
+    const scheduleDay = holidays.has(date) ? null : getScheduleDay(scheduleFor(userId), date);
+    const end = scheduleDay
+      ? new Date(getOfficeDayStart(date).getTime() + parseTimeToMinutes(scheduleDay.end) * 60000)
+      : null;
+    const cutoff = end
+      ? new Date(end.getTime() + graceHours * HOUR_MS)
+      : getOfficeDayStart(addDays(date, 1));
+    if (now < cutoff) return;
+
+    openDays.push({
+      userId,
+      userName: clockIn.userName,
+      date,
+      clockIn,
+      // Closing at the scheduled end only makes sense if the clock-in came before it
+      closeAt: end && end > new Date(clockIn.timestamp) ? end.toISOString() : undefined,
+    });
+  });
+
+  return openDays.sort((a, b) => a.date.localeCompare(b.date) || a.userName.localeCompare(b.userName));
+};
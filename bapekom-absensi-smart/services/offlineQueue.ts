@@ -0,0 +1,199 @@
+import { AttendanceRecord, PendingPunch } from '../types';
+import { submitAttendance, uploadAttendancePhoto } from './attendanceService';
+import { toOfficeDateString } from './dateService';
+
+// IndexedDB-backed outbox for clock-ins/clock-outs captured without signal.
+// A punch is stored with its photo, location and capture time, and retried until
+// the server accepts it or rejects it for a reason a retry can't fix.
+
+const DB_NAME = 'bapekom_offline';
+const DB_VERSION = 1;
+const STORE = 'pending_punches';
+const RETRY_INTERVAL_MS = 30 * 1000;
+
+// Postgres error codes raised by submit_attendance for invalid punches (see the SQL file)
+const PERMANENT_ERROR_CODES = ['P0001', '22023'];
+
+type QueueListener = (pending: PendingPunch[]) => void;
+const listeners = new Set<QueueListener>();
+// One run per user at a time
+const syncing = new Map<string, Promise<SyncResult>>();
+
+export interface SyncResult {
+  synced: AttendanceRecord[];
+  rejected: { punch: PendingPunch; message: string }[];
+}
+
+// UUID v4 for a new punch. crypto.randomUUID is missing on plain-http LAN hosts,
+// so fall back to getRandomValues, which is available everywhere.
+export const generatePunchId = (): string => {
+  if (typeof crypto.randomUUID === 'function') return crypto.randomUUID();
+  const bytes = crypto.getRandomValues(new Uint8Array(16));
+  bytes[6] = (bytes[6] & 0x0f) | 0x40;
+  bytes[8] = (bytes[8] & 0x3f) | 0x80;
+  const hex = Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+};
+
+const openDb = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(STORE)) {
+        db.createObjectStore(STORE, { keyPath: 'id' });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const runRequest = async <T,>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDb();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = run(db.transaction(STORE, mode).objectStore(STORE));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+const notify = async () => {
+  if (listeners.size === 0) return;
+  const pending = await getPendingPunches();
+  listeners.forEach(listener => listener(pending));
+};
+
+/**
+ * All queued punches, oldest capture first. Pass a userId to limit to one user.
+ */
+export const getPendingPunches = async (userId?: string): Promise<PendingPunch[]> => {
+  try {
+    const all = await runRequest<PendingPunch[]>('readonly', store => store.getAll());
+    return all
+      .filter(p => !userId || p.userId === userId)
+      .sort((a, b) => a.capturedAt.localeCompare(b.capturedAt));
+  } catch (err) {
+    console.error('Failed to read offline queue:', err);
+    return [];
+  }
+};
+
+export const enqueuePunch = async (punch: PendingPunch): Promise<void> => {
+  await runRequest('readwrite', store => store.put(punch));
+  await notify();
+};
+
+const removePunch = async (id: string): Promise<void> => {
+  await runRequest('readwrite', store => store.delete(id));
+};
+
+// Network failures and expired sessions are worth retrying; invalid punches are not
+export const isRetryableError = (error: any): boolean =>
+  !PERMANENT_ERROR_CODES.includes(error?.code);
+
+// No connection at all: fetch() rejects with a TypeError, which supabase-js passes on
+// as the message ("TypeError: Failed to fetch", "Load failed" on Safari)
+const isNetworkError = (error: any): boolean =>
+  !navigator.onLine ||
+  error instanceof TypeError ||
+  /failed to fetch|load failed|networkerror|network request failed/i.test(error?.message || '');
+
+/**
+ * Uploads the photo and submits the punch. Safe to call more than once for the
+ * same punch: the photo path and clientId are derived from the punch itself.
+ */
+export const sendPunch = async (punch: PendingPunch): Promise<AttendanceRecord> => {
+  const photoPath = await uploadAttendancePhoto(punch.photoData, punch.userId, punch.capturedAt);
+  return submitAttendance({
+    type: punch.type,
+    photoUrl: photoPath,
+    location: punch.location,
+    capturedAt: punch.capturedAt,
+    clientId: punch.id,
+    faceScore: punch.faceScore,
+  });
+};
+
+// Only the signed-in user's punches are sent: submit_attendance records them under
+// auth.uid() and the photo goes into that user's storage folder. Punches left on a
+// shared phone by someone else wait until they sign in again.
+const syncOnce = async (userId: string): Promise<SyncResult> => {
+  const result: SyncResult = { synced: [], rejected: [] };
+  const pending = await getPendingPunches(userId);
+  // Office days with a punch still queued; later punches of that day wait for it
+  const blockedDays = new Set<string>();
+
+  // In capture order, so a queued clock-out never overtakes its clock-in
+  for (const punch of pending) {
+    const day = toOfficeDateString(punch.capturedAt);
+    if (blockedDays.has(day)) continue;
+    try {
+      result.synced.push(await sendPunch(punch));
+      await removePunch(punch.id);
+    } catch (err: any) {
+      if (!isRetryableError(err)) {
+        result.rejected.push({ punch, message: err?.message || 'Absensi ditolak server.' });
+        await removePunch(punch.id);
+        continue;
+      }
+      await runRequest('readwrite', store =>
+        store.put({ ...punch, attempts: punch.attempts + 1, lastError: err?.message || String(err) })
+      );
+      if (isNetworkError(err)) break; // Still offline, try the rest later
+      blockedDays.add(day);
+    }
+  }
+
+  await notify();
+  return result;
+};
+
+/**
+ * Sends every queued punch of this user. Concurrent calls share the same run.
+ */
+export const syncPendingPunches = (userId: string): Promise<SyncResult> => {
+  let run = syncing.get(userId);
+  if (!run) {
+    run = syncOnce(userId).finally(() => {
+      syncing.delete(userId);
+    });
+    syncing.set(userId, run);
+  }
+  return run;
+};
+
+/**
+ * Retries the user's outbox when the browser comes back online and every 30 seconds.
+ * `onChange` receives the whole queue after each change, `onSynced` each sync result.
+ * Returns a function that stops background sync.
+ */
+export const startBackgroundSync = (
+  userId: string,
+  onChange: QueueListener,
+  onSynced?: (result: SyncResult) => void
+): (() => void) => {
+  listeners.add(onChange);
+
+  const run = async () => {
+    if (!navigator.onLine) return;
+    const pending = await getPendingPunches(userId);
+    if (pending.length === 0) return;
+    const result = await syncPendingPunches(userId);
+    if (onSynced && (result.synced.length > 0 || result.rejected.length > 0)) onSynced(result);
+  };
+
+  window.addEventListener('online', run);
+  const timer = setInterval(run, RETRY_INTERVAL_MS);
+  notify();
+  run();
+
+  return () => {
+    listeners.delete(onChange);
+    window.removeEventListener('online', run);
+    clearInterval(timer);
+  };
+};
@@ -0,0 +1,130 @@
+import { AttendanceRecord, PunchViolation } from '../types';
+import { toOfficeDateString } from './dateService';
+
+// Per-user daily punch state machine: none -> in -> out.
+// After clocking out, an intern may clock in again up to `maxReentries` times a day.
+// The same rules are enforced by the submit_attendance RPC; keep the messages in sync.
+
+export type PunchState = 'none' | 'in' | 'out';
+
+export interface PunchStatus {
+  state: PunchState;
+  reentries: number; // clock-ins after the first clock-out of the day
+}
+
+const INITIAL_STATUS: PunchStatus = { state: 'none', reentries: 0 };
+
+/**
+ * Returns why a punch of `type` is not allowed from `status`, or null if it is.
+ */
+export const getPunchError = (status: PunchStatus, type: AttendanceRecord['type'], maxReentries: number): string | null => {
+  if (type === 'in') {
+    if (status.state === 'in') return 'Anda sudah absen masuk. Silakan absen pulang terlebih dahulu.';
+    if (status.state === 'out') {
+      if (maxReentries <= 0) return 'Anda sudah absen pulang hari ini. Masuk kembali tidak diizinkan.';
+      if (status.reentries >= maxReentries) return `Batas masuk kembali (${maxReentries}x per hari) sudah tercapai.`;
+    }
+    return null;
+  }
+
+  if (status.state === 'none') return 'Anda belum absen masuk hari ini.';
+  if (status.state === 'out') return 'Anda sudah absen pulang hari ini.';
+  return null;
+};
+
+const nextStatus = (status: PunchStatus, type: AttendanceRecord['type']): PunchStatus => ({
+  state: type,
+  reentries: status.reentries + (type === 'in' && status.state === 'out' ? 1 : 0),
+});
+
+const byTimestamp = (a: AttendanceRecord, b: AttendanceRecord) =>
+  new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime();
+
+/**
+ * Current state of one user's day, replaying their records in time order.
+ */
+export const getPunchStatus = (dayRecords: AttendanceRecord[]): PunchStatus =>
+  [...dayRecords].sort(byTimestamp).reduce((status, r) => nextStatus(status, r.type), INITIAL_STATUS);
+
+/**
+ * Checks whether a user may punch `type` now, given today's records.
+ * @returns An Indonesian error message, or null if the punch is allowed.
+ */
+export const checkPunch = (todayRecords: AttendanceRecord[], type: AttendanceRecord['type'], maxReentries: number): string | null =>
+  getPunchError(getPunchStatus(todayRecords), type, maxReentries);
+
+/**
+ * Reconciliation: replays records per user and office day and lists every punch
+ * the state machine would have rejected. Rejected punches still advance the state,
+ * so one bad punch doesn't flag the rest of the day.
+ */
+export const findPunchViolations = (records: AttendanceRecord[], maxReentries: number): PunchViolation[] => {
+  const days = new Map<string, AttendanceRecord[]>();
+  records.forEach(r => {
+    const key = `${r.userId}|${toOfficeDateString(r.timestamp)}`;
+    if (!days.has(key)) days.set(key, []);
+    days.get(key)!.push(r);
+  });
+
+  const violations: PunchViolation[] = [];
+  days.forEach((dayRecords, key) => {
+    const date = key.split('|')[1];
+    let status = INITIAL_STATUS;
+    [...dayRecords].sort(byTimestamp).forEach(r => {
+      const message = getPunchError(status, r.type, maxReentries);
+      if (message) {
+        violations.push({
+          recordId: r.id,
+          userId: r.userId,
+          userName: r.userName,
+          date,
+          timestamp: r.timestamp,
+          type: r.type,
+          message,
+        });
+      }
+      status = nextStatus(status, r.type);
+    });
+  });
+
+  return violations.sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+};
+
+/**
+ * Minutes worked in one day: each clock-in up to the clock-out that follows it.
+ * A clock-in that is still open (no clock-out yet) is not counted.
+ */
+export const getWorkedMinutes = (dayRecords: AttendanceRecord[]): number => {
+  let totalMs = 0;
+  let openedAt: number | null = null;
+  [...dayRecords].sort(byTimestamp).forEach(r => {
+    const time = new Date(r.timestamp).getTime();
+    if (r.type === 'in') {
+      if (openedAt === null) openedAt = time;
+    } else if (openedAt !== null) {
+      totalMs += time - openedAt;
+      openedAt = null;
+    }
+  });
+  return Math.round(totalMs / 60000);
+};
+
+/**
+ * Number of users whose latest punch today is a clock-in, not counting
+ * clock-ins the missing clock-out job has already marked as left open.
+ */
+export const countActiveUsers = (todayRecords: AttendanceRecord[]): number => {
+  const byUser = new Map<string, AttendanceRecord[]>();
+  todayRecords.forEach(r => {
+    if (!byUser.has(r.userId)) byUser.set(r.userId, []);
+    byUser.get(r.userId)!.push(r);
+  });
+
+  let active = 0;
+  byUser.forEach(userRecords => {
+    const sorted = [...userRecords].sort(byTimestamp);
+    const last = sorted[sorted.length - 1];
+    if (getPunchStatus(sorted).state === 'in' && !last.missingClockOut) active++;
+  });
+  return active;
+};
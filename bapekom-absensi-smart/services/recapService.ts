@@ -0,0 +1,146 @@
+import { AttendanceRecord, Holiday, LeaveRequest, MonthlyRecapData, MonthlyRecapDetail, WorkSchedule } from '../types';
+import { formatOfficeTime, getDayOfWeek, getMonthDates, getOfficeToday, toOfficeDateString } from './dateService';
+import { getLateMinutes, getOvertimeMinutes, isWorkDay } from './scheduleService';
+import { getPunchStatus, getWorkedMinutes } from './punchService';
+
+// Monthly recap engine: turns one person's records for a month into per-day statuses
+// and totals. Pure, so the intern recap and the admin report can share it after
+// fetching their data in bulk (see getMonthlyRecap / getMonthlyWorkReport).
+
+const DAY_NAMES = ['Minggu', 'Senin', 'Selasa', 'Rabu', 'Kamis', 'Jumat', 'Sabtu'];
+
+export interface MonthlyRecapInput {
+  month: number; // 1-12
+  year: number;
+  records: AttendanceRecord[]; // The user's records in the month
+  approvedLeaves: LeaveRequest[]; // The user's approved leaves
+  holidays: Map<string, Holiday>;
+  schedule: WorkSchedule | null;
+}
+
+export const emptyMonthlyRecap = (month: number, year: number): MonthlyRecapData => ({
+  month,
+  year,
+  totalWorkDays: 0,
+  totalPresent: 0,
+  totalLate: 0,
+  totalEarlyLeave: 0,
+  totalMissingClockOut: 0,
+  totalOnLeave: 0,
+  totalAlpha: 0,
+  attendancePercentage: 0,
+  totalWorkedMinutes: 0,
+  averageWorkedMinutes: 0,
+  totalLateMinutes: 0,
+  totalOvertimeMinutes: 0,
+  details: []
+});
+
+export const buildMonthlyRecap = ({ month, year, records, approvedLeaves, holidays, schedule }: MonthlyRecapInput): MonthlyRecapData => {
+  const recap = emptyMonthlyRecap(month, year);
+  const details: MonthlyRecapDetail[] = [];
+  const today = getOfficeToday();
+
+  // Group records by office date; punches rejected in the review queue don't count
+  const recordsByDate = new Map<string, AttendanceRecord[]>();
+  records.filter(r => r.reviewStatus !== 'rejected').forEach(r => {
+    const dateStr = toOfficeDateString(r.timestamp);
+    const list = recordsByDate.get(dateStr) || [];
+    list.push(r);
+    recordsByDate.set(dateStr, list);
+  });
+
+  let daysWithCheckIn = 0;
+
+  for (const dateStr of getMonthDates(year, month)) {
+    const dayName = DAY_NAMES[getDayOfWeek(dateStr)];
+
+    // Skip future dates (only show past dates and today)
+    if (dateStr > today) {
+      continue;
+    }
+
+    // Skip days off in the user's schedule
+    if (!isWorkDay(schedule, dateStr)) {
+      details.push({ date: dateStr, dayName, status: 'weekend' });
+      continue;
+    }
+
+    // Holidays are not workdays, so they count neither as alpa nor in the percentage
+    const holiday = holidays.get(dateStr);
+    if (holiday) {
+      details.push({ date: dateStr, dayName, status: 'holiday', holidayName: holiday.name });
+      continue;
+    }
+
+    recap.totalWorkDays++;
+
+    // Check if on leave
+    const onLeave = approvedLeaves.find(leave =>
+      dateStr >= leave.startDate && dateStr <= leave.endDate
+    );
+
+    if (onLeave) {
+      recap.totalOnLeave++;
+      details.push({
+        date: dateStr,
+        dayName,
+        status: 'leave',
+        leaveType: onLeave.type,
+        leaveReason: onLeave.reason
+      });
+      continue;
+    }
+
+    // Check attendance: the first clock-in and the last clock-out of the day count
+    const dayRecords = [...(recordsByDate.get(dateStr) || [])]
+      .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+    const checkIn = dayRecords.find(r => r.type === 'in');
+    const checkOut = [...dayRecords].reverse().find(r => r.type === 'out');
+
+    if (!checkIn) {
+      // Alpha (absent without notice)
+      recap.totalAlpha++;
+      details.push({ date: dateStr, dayName, status: 'alpha' });
+      continue;
+    }
+
+    daysWithCheckIn++;
+    const workedMinutes = getWorkedMinutes(dayRecords);
+    const lateMinutes = checkIn.isLate ? getLateMinutes(schedule, checkIn.timestamp) : 0;
+    const overtimeMinutes = checkOut ? getOvertimeMinutes(schedule, checkOut.timestamp) : 0;
+
+    recap.totalWorkedMinutes += workedMinutes;
+    recap.totalLateMinutes += lateMinutes;
+    recap.totalOvertimeMinutes += overtimeMinutes;
+    if (checkOut?.isEarlyLeave) recap.totalEarlyLeave++;
+    // A day still open once it is over (or marked by the job) is "lupa absen pulang"
+    const missingClockOut = getPunchStatus(dayRecords).state === 'in'
+      && (dateStr < today || !!dayRecords[dayRecords.length - 1].missingClockOut);
+    if (missingClockOut) recap.totalMissingClockOut++;
+    if (checkIn.isLate) recap.totalLate++;
+    else recap.totalPresent++;
+
+    details.push({
+      date: dateStr,
+      dayName,
+      status: checkIn.isLate ? 'late' : 'present',
+      checkInTime: formatOfficeTime(checkIn.timestamp),
+      checkOutTime: checkOut ? formatOfficeTime(checkOut.timestamp) : undefined,
+      earlyLeaveMinutes: checkOut?.isEarlyLeave ? checkOut.earlyLeaveMinutes : undefined,
+      workedMinutes,
+      lateMinutes: lateMinutes || undefined,
+      overtimeMinutes: overtimeMinutes || undefined,
+      missingClockOut: missingClockOut || undefined,
+      autoClosed: checkOut?.source === 'system' || undefined,
+      corrected: dayRecords.some(r => r.source === 'correction') || undefined
+    });
+  }
+
+  recap.attendancePercentage = recap.totalWorkDays > 0
+    ? Math.round(((recap.totalPresent + recap.totalLate + recap.totalOnLeave) / recap.totalWorkDays) * 100)
+    : 0;
+  recap.averageWorkedMinutes = daysWithCheckIn > 0 ? Math.round(recap.totalWorkedMinutes / daysWithCheckIn) : 0;
+  recap.details = details;
+  return recap;
+};
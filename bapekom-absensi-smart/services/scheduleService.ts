@@ -0,0 +1,52 @@
+import type { ScheduleDay, User, WorkSchedule } from '../types';
+import { getDayOfWeek, getOfficeMinutesOfDay, parseTimeToMinutes, toOfficeDateString } from './dateService';
+
+// Work schedules from SystemSettings: which days a person is expected in, and when.
+// The submit_attendance RPC (public.user_schedule) resolves schedules the same way
+// when deciding isLate and isEarlyLeave; keep the two in sync.
+
+/**
+ * The schedule that applies to a user: one assigned to them directly, then one
+ * assigned to their division, then the first (default) schedule.
+ */
+export const getScheduleForUser = (
+  schedules: WorkSchedule[],
+  user: Pick<User, 'id' | 'division'>
+): WorkSchedule | null =>
+  schedules.find(s => (s.userIds || []).includes(user.id))
+  || (user.division ? schedules.find(s => (s.divisions || []).includes(user.division)) : undefined)
+  || schedules[0]
+  || null;
+
+// Working hours on an office date, or null for a day off
+export const getScheduleDay = (schedule: WorkSchedule | null, dateStr: string): ScheduleDay | null =>
+  schedule?.days[getDayOfWeek(dateStr)] || null;
+
+export const isWorkDay = (schedule: WorkSchedule | null, dateStr: string): boolean =>
+  getScheduleDay(schedule, dateStr) !== null;
+
+// Signed minutes from a scheduled time ('start' or 'end') to the instant, or null on a day off
+const minutesFromScheduled = (schedule: WorkSchedule | null, timestamp: Date | string, edge: keyof ScheduleDay): number | null => {
+  const day = getScheduleDay(schedule, toOfficeDateString(timestamp));
+  if (!day) return null;
+  return getOfficeMinutesOfDay(timestamp) - parseTimeToMinutes(day[edge]);
+};
+
+/**
+ * How many minutes before the scheduled end time a clock-out at this instant is.
+ * 0 when it is not early, or on a day off. Compared per minute, like the RPC.
+ */
+export const getEarlyLeaveMinutes = (schedule: WorkSchedule | null, timestamp: Date | string): number =>
+  Math.max(0, -(minutesFromScheduled(schedule, timestamp, 'end') ?? 0));
+
+// Minutes a clock-in is past the scheduled start, 0 if on time or on a day off
+export const getLateMinutes = (schedule: WorkSchedule | null, timestamp: Date | string): number =>
+  Math.max(0, minutesFromScheduled(schedule, timestamp, 'start') ?? 0);
+
+// Minutes a clock-out is past the scheduled end, 0 if not later or on a day off
+export const getOvertimeMinutes = (schedule: WorkSchedule | null, timestamp: Date | string): number =>
+  Math.max(0, minutesFromScheduled(schedule, timestamp, 'end') ?? 0);
+
+// Short label for a day's hours, e.g. "07:40-16:00" or "Libur"
+export const describeScheduleDay = (day: ScheduleDay | null): string =>
+  day ? `${day.start}-${day.end}` : 'Libur';
@@ -0,0 +1,75 @@
+import { createClient } from '@supabase/supabase-js';
+import { config } from 'dotenv';
+import { DEFAULT_SETTINGS, normalizeSettings } from './defaultSettings';
+config();
+
+// Seeds the single `settings` row from DEFAULT_SETTINGS.
+// - Missing row: inserted with the defaults.
+// - Existing row: only keys it doesn't have yet are added, admin changes are kept.
+//   Old single-location rows (officeLat/officeLng/maxDistanceMeters) are converted to `locations`,
+//   and old global times (lateThreshold/clockOutTime*) to the default entry in `schedules`.
+// - FORCE=1 (or --force): overwrite everything with the defaults.
+
+const supabaseUrl = process.env.VITE_SUPABASE_URL;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_KEY;
+
+if (!supabaseUrl || !supabaseServiceKey) {
+  throw new Error('VITE_SUPABASE_URL and SUPABASE_SERVICE_KEY must be set in your .env');
+}
+
+const supabaseAdmin = createClient(supabaseUrl, supabaseServiceKey, {
+  auth: { autoRefreshToken: false, persistSession: false }
+});
+
+const SETTINGS_ROW_ID = 1;
+const dryRun = process.env.DRY_RUN === '1' || process.argv.includes('--dry-run');
+const force = process.env.FORCE === '1' || process.argv.includes('--force');
+
+(async function main() {
+  console.log('Seeding settings from DEFAULT_SETTINGS');
+  if (dryRun) console.log('-- DRY RUN MODE -- No changes will be made');
+
+  const { data: existing, error: fetchError } = await supabaseAdmin
+    .from('settings')
+    .select('value')
+    .eq('id', SETTINGS_ROW_ID)
+    .maybeSingle();
+
+  if (fetchError) {
+    console.error('Error reading settings (did you run create_settings_table.sql?):', fetchError.message);
+    process.exit(1);
+  }
+
+  const current: Record<string, unknown> = existing?.value || {};
+  const missingKeys = Object.keys(DEFAULT_SETTINGS).filter(key => !(key in current));
+  const value = force ? { ...DEFAULT_SETTINGS } : normalizeSettings(current);
+  const changedFields = force ? Object.keys(DEFAULT_SETTINGS) : missingKeys;
+
+  if (existing && changedFields.length === 0) {
+    console.log('Settings row is already up to date. Nothing to do.');
+    return;
+  }
+
+  console.log(existing ? `Keys to write: ${changedFields.join(', ')}` : 'No settings row yet, inserting defaults.');
+
+  if (dryRun) {
+    console.log(JSON.stringify(value, null, 2));
+    return;
+  }
+
+  const { error } = await supabaseAdmin.from('settings').upsert({
+    id: SETTINGS_ROW_ID,
+    value,
+    updated_at: new Date().toISOString(),
+    updated_by: null,
+    updated_by_name: 'seed:settings',
+    changed_fields: changedFields,
+  });
+
+  if (error) {
+    console.error('Error writing settings:', error.message);
+    process.exit(1);
+  }
+
+  console.log('Settings seeded.');
+})();
@@ -1,35 +1,157 @@
-import { SystemSettings } from '../types';
-
-const SETTINGS_KEY = 'bapekom_settings';
-
-// Default settings (Bapekom Wilayah VIII Makassar approx)
-const DEFAULT_SETTINGS: SystemSettings = {
-  officeLat: -5.1597000997736,
-  officeLng: 119.40979746499184,
-  maxDistanceMeters: 500,
-  lateThreshold: '07:40',
-  clockOutTimeMonThu: '16:00',
-  clockOutTimeFri: '16:30'
-};
+import { SettingsAuditInfo, SystemSettings, User } from '../types';
+import { setOfficeTimeZone } from './dateService';
+import { DEFAULT_SETTINGS, normalizeSettings } from './defaultSettings';
+import { supabase, isSupabaseConfigured } from './supabaseClient';
+
+export { DEFAULT_SETTINGS };
+
+// Last settings received from the server, so the app starts with sensible values
+// before the first fetch completes. The `settings` table is the source of truth.
+const SETTINGS_CACHE_KEY = 'bapekom_settings';
+const SETTINGS_ROW_ID = 1;
+
+type SettingsListener = (settings: SystemSettings, audit: SettingsAuditInfo | null) => void;
 
-export const getSettings = (): SystemSettings => {
+let currentSettings: SystemSettings = DEFAULT_SETTINGS;
+let currentAudit: SettingsAuditInfo | null = null;
+const listeners = new Set<SettingsListener>();
+
+const readCache = (): SystemSettings => {
   if (typeof window === 'undefined') return DEFAULT_SETTINGS;
-  
-  const stored = localStorage.getItem(SETTINGS_KEY);
-  if (stored) {
-    return { ...DEFAULT_SETTINGS, ...JSON.parse(stored) };
+  try {
+    const stored = localStorage.getItem(SETTINGS_CACHE_KEY);
+    return stored ? normalizeSettings(JSON.parse(stored)) : DEFAULT_SETTINGS;
+  } catch {
+    return DEFAULT_SETTINGS;
+  }
+};
+
+const applySettings = (settings: SystemSettings, audit: SettingsAuditInfo | null) => {
+  currentSettings = settings;
+  currentAudit = audit;
+  setOfficeTimeZone(settings.timezone);
+  if (typeof window !== 'undefined') {
+    localStorage.setItem(SETTINGS_CACHE_KEY, JSON.stringify(settings));
   }
-  
-  localStorage.setItem(SETTINGS_KEY, JSON.stringify(DEFAULT_SETTINGS));
-  return DEFAULT_SETTINGS;
+  listeners.forEach(listener => listener(settings, audit));
 };
 
-export const saveSettings = (settings: SystemSettings): boolean => {
+const mapSettingsRow = (row: any): { settings: SystemSettings; audit: SettingsAuditInfo } => ({
+  settings: normalizeSettings(row.value),
+  audit: {
+    updatedAt: row.updated_at,
+    updatedBy: row.updated_by ?? undefined,
+    updatedByName: row.updated_by_name ?? undefined,
+    changedFields: row.changed_fields || [],
+  },
+});
+
+/**
+ * Returns the current settings synchronously.
+ * Values come from the last server fetch (or the local cache until then).
+ */
+export const getSettings = (): SystemSettings => currentSettings;
+
+// Who last changed the settings, when, and which fields
+export const getSettingsAudit = (): SettingsAuditInfo | null => currentAudit;
+
+/**
+ * Loads settings from the `settings` table and updates the in-memory copy.
+ * Falls back to the cached values when Supabase is unreachable.
+ */
+export const fetchSettings = async (): Promise<SystemSettings> => {
+  if (!isSupabaseConfigured || !supabase) return currentSettings;
+
   try {
-    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+    const { data, error } = await supabase
+      .from('settings')
+      .select('*')
+      .eq('id', SETTINGS_ROW_ID)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data) {
+      console.warn('Settings row is missing, using defaults. Run `npm run seed:settings`.');
+      return currentSettings;
+    }
+
+    const { settings, audit } = mapSettingsRow(data);
+    applySettings(settings, audit);
+    return settings;
+  } catch (err) {
+    console.error('Failed to fetch settings:', err);
+    return currentSettings;
+  }
+};
+
+// Field names whose value differs between two settings objects
+const getChangedFields = (before: SystemSettings, after: SystemSettings): (keyof SystemSettings)[] =>
+  (Object.keys(after) as (keyof SystemSettings)[]).filter(key => JSON.stringify(before[key]) !== JSON.stringify(after[key]));
+
+/**
+ * Saves settings to the `settings` table, recording who changed which fields.
+ * Only admins can write (enforced by RLS); other users get `false`.
+ */
+export const saveSettings = async (settings: SystemSettings, changedBy: User): Promise<boolean> => {
+  if (!isSupabaseConfigured || !supabase) {
+    console.error('Supabase not configured, settings were not saved');
+    return false;
+  }
+
+  try {
+    const changedFields = getChangedFields(currentSettings, settings);
+    const { data, error } = await supabase
+      .from('settings')
+      .upsert({
+        id: SETTINGS_ROW_ID,
+        value: settings,
+        updated_at: new Date().toISOString(),
+        updated_by: changedBy.id,
+        updated_by_name: changedBy.name,
+        changed_fields: changedFields,
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    const mapped = mapSettingsRow(data);
+    applySettings(mapped.settings, mapped.audit);
     return true;
   } catch (e) {
     console.error("Failed to save settings", e);
     return false;
   }
-};
\ No newline at end of file
+};
+
+/**
+ * Keeps settings in sync with changes made by admins on other devices (via
+ * Supabase realtime) and calls `listener`, if given, on every change.
+ * Returns an unsubscribe function.
+ */
+export const subscribeToSettings = (listener?: SettingsListener): (() => void) => {
+  if (listener) listeners.add(listener);
+
+  const channel = isSupabaseConfigured && supabase
+    ? supabase
+      .channel(`settings-${Math.random().toString(36).slice(2)}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'settings', filter: `id=eq.${SETTINGS_ROW_ID}` },
+        payload => {
+          if (!payload.new || !('value' in payload.new)) return;
+          const { settings, audit } = mapSettingsRow(payload.new);
+          applySettings(settings, audit);
+        }
+      )
+      .subscribe()
+    : null;
+
+  return () => {
+    if (listener) listeners.delete(listener);
+    if (channel && supabase) supabase.removeChannel(channel);
+  };
+};
+
+// Start from the cached values; App fetches the real ones once a user is logged in
+applySettings(readCache(), null);
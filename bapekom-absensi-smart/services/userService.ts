@@ -1,6 +1,6 @@
 import { createClient } from '@supabase/supabase-js';
 import { supabase } from './supabaseClient';
-import { User } from '../types';
+import { LeaveApprovalRole, User } from '../types';
 
 /**
  * Fetches a list of all users from the database.
@@ -135,7 +135,12 @@ export const updateUser = async (updatedUser: User & { password?: string, email?
       role: updatedUser.role,
       // We don't update email here directly, we let Auth sync handle it or update it if needed for reference
       // But typically email is in Auth. If we store it in public users too:
-      email: updatedUser.email
+      email: updatedUser.email,
+      // A new profile photo always comes with the face enrolled from it (faceService.getFaceEmbedding)
+      ...(updatedUser.profilePhotoUrl !== undefined && {
+        profilePhotoUrl: updatedUser.profilePhotoUrl,
+        faceEmbedding: updatedUser.faceEmbedding ?? null,
+      })
     })
     .eq('id', updatedUser.id);
 
@@ -174,6 +179,14 @@ export const updateUser = async (updatedUser: User & { password?: string, email?
           // Ideally we should warn the user.
         } else {
           console.log("Supabase Auth updated successfully.");
+          // The password itself only lives in Auth; this marker is what the audit log records,
+          // written with the admin's session so the entry names them
+          if (authUpdates.password) {
+            await supabase
+              .from('users')
+              .update({ passwordChangedAt: new Date().toISOString() })
+              .eq('id', updatedUser.id);
+          }
         }
       }
     } catch (e) {
@@ -184,6 +197,26 @@ export const updateUser = async (updatedUser: User & { password?: string, email?
   return true;
 };
 
+/**
+ * Sets which step of the leave approval chain an admin decides (see leaveService.canDecideLeave).
+ * Kept apart from updateUser, which also touches the admin's email and Auth account.
+ * @param {string} userId - The admin's ID.
+ * @param {LeaveApprovalRole | null} role - 'mentor' (of their division), 'hr', or null for none.
+ * @returns {Promise<boolean>} A promise that resolves to true if successful, false otherwise.
+ */
+export const setLeaveApprovalRole = async (userId: string, role: LeaveApprovalRole | null): Promise<boolean> => {
+  const { error } = await supabase
+    .from('users')
+    .update({ leaveApprovalRole: role })
+    .eq('id', userId);
+
+  if (error) {
+    console.error("Error updating leave approval role:", error);
+    return false;
+  }
+  return true;
+};
+
 /**
  * Deletes a user from the database.
  * @param {string} userId - The ID of the user to delete.
@@ -202,7 +235,18 @@ export const deleteUser = async (userId: string): Promise<boolean> => {
     // Kita lanjut saja, siapa tahu tidak ada data absen
   }
 
-  // 2. Hapus User dari Auth (jika Service Key tersedia)
+  // 2. Hapus profil dengan sesi admin, supaya audit log mencatat admin yang menghapus
+  // (cascade dari penghapusan Auth dengan Service Key tercatat sebagai "Sistem")
+  const { error: profileError } = await supabase
+    .from('users')
+    .delete()
+    .eq('id', userId);
+
+  if (profileError) {
+    console.warn("Warning: Failed to delete profile with admin session:", profileError);
+  }
+
+  // 3. Hapus User dari Auth (jika Service Key tersedia)
   // Ini cara paling bersih karena biasanya akan men-trigger delete di public.users juga (jika cascade on)
   const serviceKey = import.meta.env.VITE_SUPABASE_SERVICE_KEY;
   if (serviceKey) {
@@ -227,8 +271,8 @@ export const deleteUser = async (userId: string): Promise<boolean> => {
     }
   }
 
-  // 3. Fallback: Hapus dari tabel public.users secara manual
-  // (Jika step 2 gagal atau tidak ada Service Key, atau tidak cascade)
+  // 4. Fallback: Hapus dari tabel public.users secara manual
+  // (Jika step 2 dan 3 gagal, atau tidak ada Service Key, atau tidak cascade)
   console.log(`Menghapus user ${userId} dari tabel public...`);
   const { error } = await supabase
     .from('users')
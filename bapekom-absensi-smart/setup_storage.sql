@@ -7,12 +7,96 @@ VALUES ('attendance-photos', 'attendance-photos', true)
 ON CONFLICT (id) DO NOTHING;
 
 -- Create RLS policy for the bucket
--- Allow anyone to upload their own photos
+-- Users can only upload into their own folder: "<userId>/<date>_<time>.jpg"
+DROP POLICY IF EXISTS "Users can upload their own photos" ON storage.objects;
 CREATE POLICY "Users can upload their own photos" ON storage.objects
   FOR INSERT
-  WITH CHECK (bucket_id = 'attendance-photos');
+  TO authenticated
+  WITH CHECK (
+    bucket_id = 'attendance-photos'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+  );
 
 -- Allow anyone to read all photos
+DROP POLICY IF EXISTS "Anyone can read attendance photos" ON storage.objects;
 CREATE POLICY "Anyone can read attendance photos" ON storage.objects
   FOR SELECT
   USING (bucket_id = 'attendance-photos');
+
+-- Private bucket for leave attachments (doctor's letters etc.), images or PDF.
+-- Objects live at "<userId>/<uuid>.<ext>"; leaves.attachment_url stores that path and the app
+-- shows them through short-lived signed URLs (services/leaveAttachmentService.ts).
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('leave-attachments', 'leave-attachments', false, 5242880,
+        ARRAY['image/jpeg', 'image/png', 'image/webp', 'application/pdf'])
+ON CONFLICT (id) DO UPDATE SET
+  public = false,
+  file_size_limit = EXCLUDED.file_size_limit,
+  allowed_mime_types = EXCLUDED.allowed_mime_types;
+
+-- Interns upload and replace files in their own folder only
+DROP POLICY IF EXISTS "Users can upload their own leave attachments" ON storage.objects;
+CREATE POLICY "Users can upload their own leave attachments" ON storage.objects
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    bucket_id = 'leave-attachments'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+DROP POLICY IF EXISTS "Users can delete their own leave attachments" ON storage.objects;
+CREATE POLICY "Users can delete their own leave attachments" ON storage.objects
+  FOR DELETE
+  TO authenticated
+  USING (
+    bucket_id = 'leave-attachments'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+-- Signing a URL needs read access: the intern for their own files, admins for all
+DROP POLICY IF EXISTS "Owners and admins can read leave attachments" ON storage.objects;
+CREATE POLICY "Owners and admins can read leave attachments" ON storage.objects
+  FOR SELECT
+  TO authenticated
+  USING (
+    bucket_id = 'leave-attachments'
+    AND ((storage.foldername(name))[1] = auth.uid()::text OR public.is_admin())
+  );
+
+-- Private bucket for attendance correction evidence (screenshots, photos), same rules as
+-- leave-attachments. attendance_corrections.attachment_url stores "<userId>/<uuid>.<ext>"
+-- (services/correctionAttachmentService.ts).
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('correction-attachments', 'correction-attachments', false, 5242880,
+        ARRAY['image/jpeg', 'image/png', 'image/webp'])
+ON CONFLICT (id) DO UPDATE SET
+  public = false,
+  file_size_limit = EXCLUDED.file_size_limit,
+  allowed_mime_types = EXCLUDED.allowed_mime_types;
+
+DROP POLICY IF EXISTS "Users can upload their own correction attachments" ON storage.objects;
+CREATE POLICY "Users can upload their own correction attachments" ON storage.objects
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    bucket_id = 'correction-attachments'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+DROP POLICY IF EXISTS "Users can delete their own correction attachments" ON storage.objects;
+CREATE POLICY "Users can delete their own correction attachments" ON storage.objects
+  FOR DELETE
+  TO authenticated
+  USING (
+    bucket_id = 'correction-attachments'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+DROP POLICY IF EXISTS "Owners and admins can read correction attachments" ON storage.objects;
+CREATE POLICY "Owners and admins can read correction attachments" ON storage.objects
+  FOR SELECT
+  TO authenticated
+  USING (
+    bucket_id = 'correction-attachments'
+    AND ((storage.foldername(name))[1] = auth.uid()::text OR public.is_admin())
+  );
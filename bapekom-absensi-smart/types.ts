@@ -8,7 +8,10 @@ export interface User {
   role: Role;
   division?: string;
   profilePhotoUrl?: string; // Base64 string of the profile picture
+  faceEmbedding?: number[]; // Face descriptor of profilePhotoUrl, enrolled on the device when the photo changes
+  leaveApprovalRole?: LeaveApprovalRole | null; // Admins only: which step of the leave approval chain they decide
   password?: string; // Temporarily used for admin operations
+  passwordChangedAt?: string; // ISO String, last password reset by an admin
 }
 
 export interface LocationData {
@@ -18,6 +21,31 @@ export interface LocationData {
   address?: string;
 }
 
+// Who wrote an attendance row: the intern through submit_attendance, a scheduled job,
+// or an approved correction request
+export type AttendanceSource = 'user' | 'system' | 'correction';
+
+// How a punch was made: GPS + selfie on the intern's phone, or by scanning the office kiosk QR code
+export type AttendanceMethod = 'gps' | 'qr';
+
+// 'flagged' = lupa absen pulang, 'correction' = the intern has to submit a correction
+export type MissingClockOutMark = 'flagged' | 'correction';
+
+// Admin decision on a punch from the review queue. Rejected punches don't count in recaps.
+export type AttendanceReviewStatus = 'accepted' | 'rejected';
+
+// Why the server doubted a punch's location (location_trust in create_submit_attendance_function.sql)
+export type LocationTrustReason =
+  | 'accuracy_missing'
+  | 'accuracy_too_precise'
+  | 'accuracy_poor'
+  | 'impossible_travel'
+  | 'repeated_coordinates'
+  | 'shared_coordinates';
+
+// What the missing clock-out job does with a day that is still open after the cutoff
+export type MissingClockOutMode = 'flag' | 'auto_close' | 'correction';
+
 export interface AttendanceRecord {
   id: string;
   userId: string;
@@ -29,22 +57,122 @@ export interface AttendanceRecord {
   location: LocationData;
   isLate: boolean;
   status: 'valid' | 'invalid' | 'pending';
+  distanceMeters?: number; // Computed by the server at submission time, to the nearest location
+  locationId?: string; // OfficeLocation the punch matched, if any
+  locationName?: string;
+  syncedAt?: string; // ISO String, when the server received it (timestamp is the capture time)
+  syncedLate?: boolean; // Captured offline and uploaded more than a few minutes later
+  isEarlyLeave?: boolean; // Clock-out before the scheduled end time
+  earlyLeaveMinutes?: number; // How many minutes before the end time, when isEarlyLeave
+  source?: AttendanceSource;
+  method?: AttendanceMethod; // Unset on rows from before QR check-in, which are all 'gps'
+  missingClockOut?: MissingClockOutMark; // Set on a clock-in that was never followed by a clock-out
+  correctionId?: string; // AttendanceCorrection that wrote or moved this punch
+  reviewStatus?: AttendanceReviewStatus; // Admin decision from the review queue
+  reviewNote?: string;
+  reviewedBy?: string; // User ID
+  reviewedByName?: string;
+  reviewedAt?: string; // ISO String
+  locationTrustScore?: number; // 0-100, lower = more likely a spoofed location; unset for system/corrected rows
+  locationTrustReasons?: LocationTrustReason[];
+  faceScore?: number; // 0-1 similarity between the selfie and the profile photo, computed on the device
   notes?: string;
 }
 
+export type LeaveType = 'sakit' | 'izin';
+
 export interface LeaveRequest {
   id: string;
   userId: string;
   userName: string;
   division: string;
-  type: 'sakit' | 'izin';
+  type: LeaveType;
   startDate: string; // YYYY-MM-DD
   endDate: string;   // YYYY-MM-DD
   reason: string;
-  attachmentUrl?: string; // Base64 string for medical letter etc.
+  attachmentUrl?: string; // Object path in the leave-attachments bucket (base64 on rows not yet migrated)
+  status: 'pending' | 'approved' | 'rejected' | 'cancelled'; // 'cancelled' = withdrawn, or cancelled after approval
+  requestDate: string; // ISO String
+  rejectionReason?: string;
+  exceedsQuota?: boolean; // Filed over the quota of its type while leaveQuotaMode is 'flag'
+  approvalSteps?: LeaveApprovalStep[]; // Copied from settings.leaveApprovalChain when filed; empty = any admin decides
+  cancellation?: LeaveCancellation;
+}
+
+// An intern giving leave back: a withdrawal of a pending request (approved at once), or a
+// cancellation of an approved one, which admins decide
+export interface LeaveCancellation {
+  fromDate: string; // YYYY-MM-DD, first day given back; the start date = the whole leave
+  reason?: string;
+  status: 'pending' | 'approved' | 'rejected';
+  requestedAt: string; // ISO String
+  reviewedByName?: string;
+  reviewedAt?: string;
+  reviewNote?: string;
+  originalEndDate?: string; // End date before an approved partial cancellation shortened the leave
+}
+
+// Who decides a step of a leave request: the mentor of the intern's division, then HR
+export type LeaveApprovalRole = 'mentor' | 'hr';
+
+// One step of a leave request's approval chain, decided in order
+export interface LeaveApprovalStep {
+  role: LeaveApprovalRole;
+  status: 'pending' | 'approved' | 'rejected';
+  approverId?: string;
+  approverName?: string;
+  decidedAt?: string; // ISO String
+  comment?: string;
+}
+
+// Rules for one leave type, from SystemSettings.leavePolicies
+export interface LeavePolicy {
+  quotaDays: number | null; // Working days per internship, null = uncapped
+  requiresAttachment: boolean; // e.g. a doctor's letter for 'sakit'
+  maxBackdateDays: number; // How many days back a leave may start, 0 = today at the earliest
+  minNoticeDays: number; // How many days ahead it must be filed, 0 = same day; wins over maxBackdateDays
+}
+
+// What happens to a leave request that would go over its quota
+export type LeaveQuotaMode = 'block' | 'flag';
+
+// Leave of one type taken by an intern, in working days (days off in their schedule and holidays don't count)
+export interface LeaveBalance {
+  type: LeaveType;
+  quotaDays: number | null;
+  approvedDays: number;
+  pendingDays: number;
+  remainingDays: number | null; // Quota minus approved and pending days, null when uncapped
+}
+
+// An intern's request to add a missing punch or move a wrong one
+export interface AttendanceCorrection {
+  id: string;
+  userId: string;
+  userName: string;
+  division: string;
+  date: string; // YYYY-MM-DD (office date)
+  type: 'in' | 'out';
+  time: string; // HH:mm office time the punch should have
+  attendanceId?: string; // Record being fixed; unset when the punch is missing
+  originalTime?: string; // HH:mm of that record when the request was made
+  reason: string;
+  attachmentUrl?: string; // Object path in the private correction-attachments bucket (legacy rows: base64)
   status: 'pending' | 'approved' | 'rejected';
   requestDate: string; // ISO String
   rejectionReason?: string;
+  reviewedBy?: string;
+  reviewedAt?: string; // ISO String
+}
+
+export type HolidayKind = 'national' | 'cuti_bersama' | 'office';
+
+// A day off for everyone: national holiday, cuti bersama or an office closure
+export interface Holiday {
+  id: string;
+  date: string; // YYYY-MM-DD
+  name: string; // e.g., "Hari Kemerdekaan RI"
+  kind: HolidayKind;
 }
 
 export interface DashboardStats {
@@ -61,35 +189,160 @@ export interface WeeklyStats {
   fullDate: string;   // e.g., "2023-10-23"
   present: number;
   late: number;
+  leave: number;      // Interns on approved leave who did not check in
+  alpa: number;       // Interns absent without leave (working days only)
+}
+
+export type StatsWindow = 7 | 14 | 30; // Number of days covered by getWeeklyStats
+
+export interface GeoPoint {
+  lat: number;
+  lng: number;
+}
+
+// A place where attendance is accepted: a circle around a point, or a polygon
+export interface OfficeLocation {
+  id: string;
+  name: string; // e.g., "Kantor Utama", "Gedung Annex"
+  kind: 'radius' | 'polygon';
+  lat: number; // Center (for polygons: center of the vertices)
+  lng: number;
+  radiusMeters: number; // Used when kind is 'radius'
+  polygon?: GeoPoint[]; // Used when kind is 'polygon', at least 3 points
+  divisions?: string[]; // Only these divisions may use it; empty = everyone
+  userIds?: string[]; // Extra users allowed regardless of division
+}
+
+// Working hours of one day, on the office wall clock
+export interface ScheduleDay {
+  start: string; // HH:mm, clocking in after this is late, e.g., "07:40"
+  end: string; // HH:mm, normal clock-out time, e.g., "16:00"
+}
+
+// A weekly work pattern. The first schedule in SystemSettings is the default;
+// others apply to the divisions/users assigned to them (user assignment wins).
+export interface WorkSchedule {
+  id: string;
+  name: string; // e.g., "Reguler", "Paruh Waktu"
+  days: (ScheduleDay | null)[]; // Index 0 = Sunday ... 6 = Saturday, null = day off
+  divisions?: string[];
+  userIds?: string[];
 }
 
 export interface SystemSettings {
-  officeLat: number;
-  officeLng: number;
-  maxDistanceMeters: number;
-  lateThreshold: string; // HH:mm, e.g., "07:40"
-  clockOutTimeMonThu: string; // HH:mm, e.g., "16:00"
-  clockOutTimeFri: string; // HH:mm, e.g., "16:30"
+  locations: OfficeLocation[];
+  schedules: WorkSchedule[];
+  timezone: string; // IANA zone used to decide which day a record belongs to, e.g., "Asia/Makassar"
+  maxReentriesPerDay: number; // Extra clock-ins allowed after clocking out, 0 = none
+  maxOfflineHours: number; // How old an offline punch may be when it finally syncs
+  missingClockOutMode: MissingClockOutMode;
+  missingClockOutGraceHours: number; // Hours after the scheduled end before a clock-in counts as left open
+  faceMatchThreshold: number; // 0-1; selfies less similar to the profile photo are saved as 'pending'
+  attendanceMethods: AttendanceMethod[]; // Ways interns may punch, at least one
+  leavePolicies: Record<LeaveType, LeavePolicy>;
+  leaveQuotaMode: LeaveQuotaMode;
+  leaveApprovalChain: LeaveApprovalRole[]; // Steps every new leave request goes through, empty = any admin decides
+}
+
+// A punch captured on the device and waiting in the offline outbox
+export interface PendingPunch {
+  id: string; // Client-generated UUID, sent as clientId so retries don't duplicate
+  userId: string;
+  type: 'in' | 'out';
+  photoData: string; // Base64 data URL of the selfie
+  location: LocationData;
+  capturedAt: string; // ISO String
+  faceScore?: number; // Computed at capture time, see faceService.ts
+  attempts: number;
+  lastError?: string;
+}
+
+// A punch the daily state machine would reject, found by reconciliation
+export interface PunchViolation {
+  recordId: string;
+  userId: string;
+  userName: string;
+  date: string; // YYYY-MM-DD (office date)
+  timestamp: string; // ISO String
+  type: 'in' | 'out';
+  message: string;
+}
+
+// A day whose last punch is still a clock-in after the cutoff, found by the missing clock-out job
+export interface OpenDay {
+  userId: string;
+  userName: string;
+  date: string; // YYYY-MM-DD (office date)
+  clockIn: AttendanceRecord; // The clock-in left open
+  closeAt?: string; // ISO String, the scheduled end; unset when the day has no usable end time
+}
+
+export interface SettingsAuditInfo {
+  updatedAt: string; // ISO String
+  updatedBy?: string; // User ID
+  updatedByName?: string;
+  changedFields: (keyof SystemSettings)[];
+}
+
+// Admin actions recorded in the append-only audit_log table by database triggers (create_audit_log_table.sql)
+export type AuditEntityType = 'user' | 'leave' | 'settings' | 'holiday' | 'correction' | 'attendance';
+export type AuditAction = 'create' | 'update' | 'delete' | 'approve' | 'reject' | 'annotate' | 'import'; // 'import' only on older entries
+
+// Changed fields only; secrets such as passwords are masked
+export type AuditChanges = Record<string, { before: unknown; after: unknown }>;
+
+export interface AuditLogEntry {
+  id: string;
+  actorId?: string; // User ID
+  actorName: string;
+  action: AuditAction;
+  entityType: AuditEntityType;
+  entityId?: string;
+  entityLabel?: string; // Readable target, e.g. the user's name, kept in case the row is deleted
+  changes: AuditChanges;
+  createdAt: string; // ISO String
 }
 
 export interface MonthlyRecapDetail {
   date: string; // YYYY-MM-DD
   dayName: string; // e.g., "Senin"
-  status: 'present' | 'late' | 'leave' | 'alpha' | 'weekend';
+  status: 'present' | 'late' | 'leave' | 'alpha' | 'weekend' | 'holiday'; // 'weekend' = day off in the user's schedule
   checkInTime?: string; // HH:mm
   checkOutTime?: string; // HH:mm
-  leaveType?: 'sakit' | 'izin';
+  earlyLeaveMinutes?: number; // Set when the last clock-out was before the scheduled end
+  workedMinutes?: number; // Sum of clock-in -> clock-out spans
+  lateMinutes?: number; // Past the scheduled start, when late
+  overtimeMinutes?: number; // Last clock-out past the scheduled end
+  leaveType?: LeaveType;
   leaveReason?: string;
+  holidayName?: string; // Set when status is 'holiday'
+  missingClockOut?: boolean; // Clocked in but never out ("lupa absen pulang")
+  autoClosed?: boolean; // The clock-out was added by the missing clock-out job
+  corrected?: boolean; // A punch of the day comes from an approved correction
 }
 
 export interface MonthlyRecapData {
   month: number; // 1-12
   year: number;
-  totalWorkDays: number; // Total weekdays (Mon-Fri)
+  totalWorkDays: number; // Working days in the user's schedule, minus holidays
   totalPresent: number;
   totalLate: number;
+  totalEarlyLeave: number; // Days with an early clock-out ("pulang cepat")
+  totalMissingClockOut: number; // Days clocked in but never out
   totalOnLeave: number;
   totalAlpha: number;
   attendancePercentage: number;
+  totalWorkedMinutes: number;
+  averageWorkedMinutes: number; // Per day with a check-in
+  totalLateMinutes: number;
+  totalOvertimeMinutes: number;
   details: MonthlyRecapDetail[];
+}
+
+// One row of the admin worked-hours report
+export interface InternMonthlyReport {
+  userId: string;
+  userName: string;
+  division: string;
+  recap: MonthlyRecapData;
 }
\ No newline at end of file
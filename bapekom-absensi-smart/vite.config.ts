@@ -1,7 +1,34 @@
+import fs from 'fs';
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { createRequire } from 'module';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+// Face models used by services/faceService.ts, served from /models/face so they ship with the
+// app instead of being fetched from a CDN
+const FACE_MODEL_FILES = ['tiny_face_detector_model', 'face_landmark_68_tiny_model', 'face_recognition_model']
+  .flatMap(name => [`${name}-weights_manifest.json`, `${name}.bin`]);
+const faceModelDir = path.join(path.dirname(createRequire(import.meta.url).resolve('@vladmandic/face-api')), '../model');
+
+const faceModels = (): Plugin => ({
+  name: 'face-models',
+  configureServer(server) {
+    server.middlewares.use('/models/face', (req, res, next) => {
+      const file = path.basename((req.url || '').split('?')[0]);
+      if (!FACE_MODEL_FILES.includes(file)) return next();
+      res.setHeader('Content-Type', file.endsWith('.json') ? 'application/json' : 'application/octet-stream');
+      fs.createReadStream(path.join(faceModelDir, file)).pipe(res);
+    });
+  },
+  generateBundle() {
+    FACE_MODEL_FILES.forEach(file => this.emitFile({
+      type: 'asset',
+      fileName: `models/face/${file}`,
+      source: fs.readFileSync(path.join(faceModelDir, file)),
+    }));
+  },
+});
+
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
@@ -14,7 +41,7 @@ export default defineConfig(({ mode }) => {
           '.ngrok.io'
         ]
       },
-      plugins: [react()],
+      plugins: [react(), faceModels()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
         'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)